@@ -4,10 +4,22 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Home from "@/pages/Home";
+import Login from "@/pages/Login";
 import NotFound from "@/pages/not-found";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { AccountButton } from "@/components/AccountButton";
+import { useAuth } from "@/hooks/useAuth";
 
 function Router() {
+  const { needsLogin, isLoading } = useAuth();
+
+  if (isLoading) {
+    return null;
+  }
+  if (needsLogin) {
+    return <Login />;
+  }
+
   return (
     <Switch>
       <Route path="/" component={Home} />
@@ -20,8 +32,9 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
-        <div className="fixed bottom-4 left-4 z-[1001]">
+        <div className="fixed bottom-4 left-4 z-[1001] flex gap-2">
           <ThemeToggle />
+          <AccountButton />
         </div>
         <Toaster />
         <Router />
@@ -0,0 +1,33 @@
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useAuth } from "@/hooks/useAuth";
+
+// Sign-out for the signed-in user; nothing without accounts
+export function AccountButton() {
+  const { user, logout } = useAuth();
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          size="icon"
+          variant="secondary"
+          onClick={() => logout.mutate()}
+          disabled={logout.isPending}
+          className="shadow-lg"
+          data-testid="button-logout"
+        >
+          <LogOut className="h-4 w-4" />
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent side="right">
+        Sign out {user.username} ({user.role})
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,65 @@
+import { Check, Map as MapIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useMapContext } from "./MapContext";
+
+/**
+ * Basemap switcher, shown when the registry offers more than one basemap
+ */
+export function BasemapControl() {
+  const { basemapState } = useMapContext();
+  const { basemaps, basemap, selectBasemap } = basemapState;
+
+  if (basemaps.length < 2) {
+    return null;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2" data-testid="basemap-control-trigger">
+          <MapIcon className="h-4 w-4" />
+          <span className="hidden sm:inline">{basemap?.name ?? "Basemap"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 z-[1001]" align="start">
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            <MapIcon className="h-4 w-4" />
+            Basemap
+          </h4>
+          <div className="space-y-1">
+            {basemaps.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer"
+                onClick={() => selectBasemap(entry.id)}
+                data-testid={`basemap-item-${entry.id}`}
+              >
+                <Check
+                  className={`h-4 w-4 flex-shrink-0 ${entry.id === basemap?.id ? "opacity-100" : "opacity-0"}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{entry.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Zoom {entry.minZoom}–{entry.maxZoom}
+                  </p>
+                </div>
+                {entry.local && (
+                  <Badge variant="secondary" className="px-1.5 py-0 text-xs">
+                    Local
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,32 @@
+import { TileLayer } from "react-leaflet";
+import { useMapContext } from "./MapContext";
+
+/**
+ * The chosen basemap's tiles, scaled up beyond its highest zoom and left out beyond its bounds
+ */
+export function BasemapLayer() {
+  const { basemapState } = useMapContext();
+  const { basemap } = basemapState;
+
+  if (!basemap) {
+    return null;
+  }
+
+  const { bounds } = basemap;
+  return (
+    <TileLayer
+      // Keyed so switching replaces the layer; Leaflet does not update these options in place
+      key={basemap.id}
+      url={basemap.url}
+      attribution={basemap.attribution}
+      minNativeZoom={basemap.minZoom}
+      maxNativeZoom={basemap.maxZoom}
+      bounds={
+        bounds && [
+          [bounds.south, bounds.west],
+          [bounds.north, bounds.east],
+        ]
+      }
+    />
+  );
+}
@@ -1,13 +1,13 @@
 import { useEffect, useRef, useState, useCallback } from "react";
 import { useMap, useMapEvents, Circle } from "react-leaflet";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { querySelection } from "@/lib/selectionQuery";
 import { useMapContext } from "./MapContext";
 import type { CircleSelection, AggregationResult } from "@shared/schema";
 
 export function CircleDrawTool() {
   const map = useMap();
-  const { drawingMode, finishDrawing, setLoading } = useMapContext();
+  const { drawingMode, finishDrawing, setLoading, filters } = useMapContext();
 
   const [drawingCircle, setDrawingCircle] = useState<{
     center: [number, number];
@@ -17,18 +17,8 @@ export function CircleDrawTool() {
   const startPointRef = useRef<[number, number] | null>(null);
 
   const circleQueryMutation = useMutation({
-    mutationFn: async (selection: CircleSelection): Promise<AggregationResult> => {
-      const response = await apiRequest(
-        "POST",
-        "/api/artifacts/query/circle",
-        selection
-      );
-      const data = await response.json();
-      if (!data || !Array.isArray(data.artifacts)) {
-        throw new Error("Invalid aggregation response");
-      }
-      return data as AggregationResult;
-    },
+    mutationFn: (selection: CircleSelection): Promise<AggregationResult> =>
+      querySelection({ circle: selection }, filters),
     onSuccess: (data, selection) => {
       if (data.artifacts && data.artifacts.length >= 0) {
         finishDrawing(selection, data.artifacts);
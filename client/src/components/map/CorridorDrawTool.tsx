@@ -0,0 +1,63 @@
+import { CircleMarker } from "react-leaflet";
+import { useMutation } from "@tanstack/react-query";
+import { querySelection } from "@/lib/selectionQuery";
+import { usePolylineDrawing } from "@/hooks/usePolylineDrawing";
+import { useMapContext } from "./MapContext";
+import { CorridorShape } from "./SelectionCorridor";
+import type { CorridorSelection, AggregationResult } from "@shared/schema";
+
+export function CorridorDrawTool() {
+  const { corridorBuffer, finishCorridorDrawing, setLoading, filters } = useMapContext();
+
+  const corridorQueryMutation = useMutation({
+    mutationFn: (selection: CorridorSelection): Promise<AggregationResult> =>
+      querySelection({ corridor: selection }, filters),
+    onSuccess: (data, selection) => {
+      finishCorridorDrawing(selection, data.artifacts);
+      setLoading(false);
+    },
+    onError: (error) => {
+      console.error("Corridor query failed:", error);
+      setLoading(false);
+    },
+  });
+
+  const completeLine = (points: [number, number][]) => {
+    if (points.length < 2 || corridorQueryMutation.isPending) return;
+
+    setLoading(true);
+    corridorQueryMutation.mutate({
+      // GeoJSON uses [lng, lat]
+      line: { type: "LineString", coordinates: points.map(([lat, lng]) => [lng, lat]) },
+      buffer: corridorBuffer,
+    });
+  };
+
+  const { isActive, vertices, cursor } = usePolylineDrawing("corridor", completeLine);
+
+  if (!isActive || vertices.length === 0) {
+    return null;
+  }
+
+  const line = cursor ? [...vertices, cursor] : vertices;
+
+  return (
+    <>
+      <CorridorShape positions={line} buffer={corridorBuffer} dashed />
+      {vertices.map((vertex, index) => (
+        <CircleMarker
+          key={`${vertex[0]}:${vertex[1]}:${index}`}
+          center={vertex}
+          radius={4}
+          interactive={false}
+          pathOptions={{
+            color: "hsl(210, 85%, 45%)",
+            fillColor: "#ffffff",
+            fillOpacity: 1,
+            weight: 2,
+          }}
+        />
+      ))}
+    </>
+  );
+}
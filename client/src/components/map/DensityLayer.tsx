@@ -0,0 +1,60 @@
+import { Polygon, Tooltip } from "react-leaflet";
+import { useMapContext } from "./MapContext";
+import { useDensity } from "@/hooks/useDensity";
+import { DENSITY_RAMP, getDensityColor } from "@/lib/mapTypes";
+
+/**
+ * Hexagon density overlay for the visible layers and active filters, shown from the layer control
+ */
+export function DensityLayer() {
+  const { mapState, layerState, filters } = useMapContext();
+  const { densityVisible, getVisibleLayerIds } = layerState;
+  const visibleLayers = getVisibleLayerIds();
+
+  const { data } = useDensity({
+    bounds: mapState.bounds,
+    zoom: mapState.zoom,
+    layers: visibleLayers.length > 0 ? visibleLayers : undefined,
+    filters,
+    enabled: densityVisible,
+  });
+
+  if (!densityVisible || !data) {
+    return null;
+  }
+
+  return (
+    <>
+      {data.cells.map((cell) => (
+        <Polygon
+          key={cell.id}
+          // GeoJSON-style [lng, lat] corners, Leaflet expects [lat, lng]
+          positions={cell.boundary.map(([lng, lat]) => [lat, lng] as [number, number])}
+          pathOptions={{
+            color: "#ffffff",
+            weight: 0.5,
+            fillColor: getDensityColor(cell.count, data.max),
+            fillOpacity: 0.6,
+          }}
+        >
+          <Tooltip sticky>{cell.count.toLocaleString()} items</Tooltip>
+        </Polygon>
+      ))}
+
+      <div
+        className="absolute bottom-6 right-4 z-[1000] bg-card border border-card-border rounded-lg shadow-lg px-3 py-2 w-40"
+        data-testid="density-legend"
+      >
+        <p className="text-xs font-semibold text-foreground mb-1">Items per hexagon</p>
+        <div
+          className="h-2 rounded"
+          style={{ background: `linear-gradient(to right, ${DENSITY_RAMP.join(", ")})` }}
+        />
+        <div className="flex justify-between text-[10px] text-muted-foreground">
+          <span>1</span>
+          <span>{data.max.toLocaleString()}</span>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,8 +1,12 @@
 import type { Artifact } from "@shared/schema";
-import { getCategoryColor } from "@/lib/mapTypes";
+import { getCategoryColor, type CategorySlice } from "@/lib/mapTypes";
+
+// Categories listed in a cluster tooltip before the rest are summed up
+const MAX_TOOLTIP_CATEGORIES = 6;
 
 interface HoverTooltipProps {
   artifact: Artifact;
+  color?: string; // marker colour from the layer style, defaults to the category palette
 }
 
 // Sanitize text to prevent XSS - escapes HTML special characters
@@ -15,8 +19,8 @@ function sanitizeText(text: string): string {
     .replace(/'/g, "&#039;");
 }
 
-export function HoverTooltip({ artifact }: HoverTooltipProps) {
-  const categoryColor = getCategoryColor(artifact.category);
+export function HoverTooltip({ artifact, color }: HoverTooltipProps) {
+  const categoryColor = color ?? getCategoryColor(artifact.category);
 
   return (
     <div className="bg-popover border border-popover-border rounded-lg shadow-xl px-3 py-2 max-w-[200px]">
@@ -37,8 +41,8 @@ export function HoverTooltip({ artifact }: HoverTooltipProps) {
 }
 
 // Safe tooltip content component for use in Leaflet tooltips
-export function TooltipContent({ artifact }: HoverTooltipProps) {
-  const categoryColor = getCategoryColor(artifact.category);
+export function TooltipContent({ artifact, color }: HoverTooltipProps) {
+  const categoryColor = color ?? getCategoryColor(artifact.category);
 
   return (
     <div
@@ -87,3 +91,45 @@ export function TooltipContent({ artifact }: HoverTooltipProps) {
     </div>
   );
 }
+
+interface ClusterTooltipContentProps {
+  count: number;
+  breakdown: CategorySlice[];
+}
+
+// Cluster tooltip listing the largest categories in the cluster
+export function ClusterTooltipContent({ count, breakdown }: ClusterTooltipContentProps) {
+  const shown = breakdown.slice(0, MAX_TOOLTIP_CATEGORIES);
+  const others = breakdown.slice(MAX_TOOLTIP_CATEGORIES).reduce((sum, slice) => sum + slice.count, 0);
+
+  return (
+    <div style={{ minWidth: "160px" }}>
+      <div style={{ fontWeight: 500, fontSize: "14px", marginBottom: "4px" }}>
+        {count} items - Click to expand
+      </div>
+      {shown.map((slice) => (
+        <div
+          key={slice.category}
+          style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "12px", lineHeight: "18px" }}
+        >
+          <div
+            style={{
+              width: "8px",
+              height: "8px",
+              borderRadius: "50%",
+              backgroundColor: slice.color,
+              flexShrink: 0,
+            }}
+          />
+          <span style={{ flex: 1, textTransform: "capitalize" }}>{slice.category.replace(/_/g, " ")}</span>
+          <span style={{ fontVariantNumeric: "tabular-nums" }}>{slice.count}</span>
+        </div>
+      ))}
+      {others > 0 && (
+        <div style={{ fontSize: "12px", lineHeight: "18px", color: "hsl(var(--muted-foreground))" }}>
+          {breakdown.length - shown.length} more categories: {others}
+        </div>
+      )}
+    </div>
+  );
+}
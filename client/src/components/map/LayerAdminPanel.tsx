@@ -0,0 +1,604 @@
+import { useState } from "react";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useLayerAdmin, type DeleteLayerOptions } from "@/hooks/useLayerAdmin";
+import { DEFAULT_MARKER_STYLE, resolveLayerStyle } from "@/lib/mapTypes";
+import { MarkerSwatch } from "./MarkerIcon";
+import {
+  layerAccessSchema,
+  layerStyleSchema,
+  markerShapeSchema,
+  type Layer,
+  type LayerAccess,
+  type LayerAction,
+  type LayerGrant,
+  type LayerStyle,
+  type MarkerShape,
+  type MarkerStyle,
+} from "@shared/schema";
+
+interface LayerAdminPanelProps {
+  layers: Layer[];
+}
+
+type Editing = { mode: "create" } | { mode: "edit"; layer: Layer } | { mode: "delete"; layer: Layer } | null;
+
+export function LayerAdminPanel({ layers }: LayerAdminPanelProps) {
+  const [editing, setEditing] = useState<Editing>(null);
+
+  if (editing?.mode === "create") {
+    return <LayerForm onDone={() => setEditing(null)} />;
+  }
+  if (editing?.mode === "edit") {
+    return <LayerForm layer={editing.layer} onDone={() => setEditing(null)} />;
+  }
+  if (editing?.mode === "delete") {
+    return (
+      <DeleteLayerConfirm
+        layer={editing.layer}
+        otherLayers={layers.filter((l) => l.id !== editing.layer.id)}
+        onDone={() => setEditing(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-1" data-testid="layer-admin-panel">
+      {layers.map((layer) => (
+        <div key={layer.id} className="flex items-center gap-2 p-2 rounded hover:bg-muted">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{layer.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {layer.id} · {layer.artifactCount.toLocaleString()} items
+            </p>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() => setEditing({ mode: "edit", layer })}
+            data-testid={`button-edit-layer-${layer.id}`}
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 text-destructive"
+            onClick={() => setEditing({ mode: "delete", layer })}
+            data-testid={`button-delete-layer-${layer.id}`}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full gap-2 mt-2"
+        onClick={() => setEditing({ mode: "create" })}
+        data-testid="button-create-layer"
+      >
+        <Plus className="h-4 w-4" />
+        New layer
+      </Button>
+    </div>
+  );
+}
+
+function LayerForm({ layer, onDone }: { layer?: Layer; onDone: () => void }) {
+  const { createLayer, updateLayer, setDefaultVisibility } = useLayerAdmin();
+  const { toast } = useToast();
+
+  const [id, setId] = useState("");
+  const [name, setName] = useState(layer?.name ?? "");
+  const [description, setDescription] = useState(layer?.description ?? "");
+  const [source, setSource] = useState(layer?.source ?? "");
+  const [sourceDate, setSourceDate] = useState(layer?.sourceDate?.slice(0, 10) ?? "");
+  const [style, setStyle] = useState<LayerStyle>(layer?.style ?? {});
+  const [access, setAccess] = useState<LayerAccess>(layer?.access ?? {});
+  const [visible, setVisible] = useState(layer?.visible ?? true);
+
+  const isPending = createLayer.isPending || updateLayer.isPending || setDefaultVisibility.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsedStyle = layerStyleSchema.safeParse(style);
+    if (!parsedStyle.success) {
+      toast({
+        title: "Invalid style",
+        description: parsedStyle.error.issues[0]?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    const parsedAccess = layerAccessSchema.safeParse(access);
+    if (!parsedAccess.success) {
+      toast({
+        title: "Invalid access",
+        description: parsedAccess.error.issues[0]?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const fields = {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      source: source.trim() || undefined,
+      sourceDate: sourceDate || undefined,
+      style: parsedStyle.data,
+      access: parsedAccess.data,
+    };
+    const onError = (error: Error) =>
+      toast({ title: "Failed to save layer", description: error.message, variant: "destructive" });
+
+    if (layer) {
+      const saveVisibility = () =>
+        visible === layer.visible
+          ? onDone()
+          : setDefaultVisibility.mutate({ id: layer.id, visible }, { onSuccess: onDone, onError });
+      updateLayer.mutate({ id: layer.id, updates: fields }, { onSuccess: saveVisibility, onError });
+    } else {
+      createLayer.mutate({ id: id.trim(), visible, ...fields }, { onSuccess: onDone, onError });
+    }
+  };
+
+  return (
+    <form className="space-y-3" onSubmit={handleSubmit} data-testid="layer-form">
+      <h5 className="text-sm font-medium">{layer ? `Edit ${layer.name}` : "New layer"}</h5>
+      {!layer && (
+        <div className="space-y-1">
+          <Label htmlFor="layer-id">ID</Label>
+          <Input
+            id="layer-id"
+            value={id}
+            onChange={(e) => setId(e.target.value)}
+            pattern="[a-zA-Z0-9_\-]+"
+            placeholder="e.g. distribution-poles"
+            required
+          />
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="layer-name">Name</Label>
+        <Input id="layer-name" value={name} onChange={(e) => setName(e.target.value)} required />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="layer-description">Description</Label>
+        <Input id="layer-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="layer-source">Source</Label>
+          <Input id="layer-source" value={source} onChange={(e) => setSource(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="layer-source-date">Source date</Label>
+          <Input
+            id="layer-source-date"
+            type="date"
+            value={sourceDate}
+            onChange={(e) => setSourceDate(e.target.value)}
+          />
+        </div>
+      </div>
+      <LayerStyleFields style={style} onChange={setStyle} />
+      <LayerAccessFields access={access} onChange={setAccess} />
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="layer-visible"
+          checked={visible}
+          onCheckedChange={(checked) => setVisible(checked === true)}
+          data-testid="checkbox-layer-visible-default"
+        />
+        <Label htmlFor="layer-visible" className="text-sm font-normal">
+          Visible by default
+        </Label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isPending} data-testid="button-save-layer">
+          {isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+type AccessMode = "everyone" | "editors" | "groups";
+
+const ACCESS_MODES: { value: AccessMode; label: string }[] = [
+  { value: "everyone", label: "Everyone" },
+  { value: "editors", label: "Editors and groups" },
+  { value: "groups", label: "Only groups" },
+];
+
+function accessMode(grant: LayerGrant | undefined): AccessMode {
+  if (!grant || grant.roles.includes("viewer")) return "everyone";
+  return grant.roles.includes("editor") ? "editors" : "groups";
+}
+
+function toGrant(mode: AccessMode, groups: string): LayerGrant | undefined {
+  if (mode === "everyone") return undefined;
+  const groupList = groups
+    .split(",")
+    .map((group) => group.trim())
+    .filter(Boolean);
+  return { roles: mode === "editors" ? ["editor"] : [], groups: groupList };
+}
+
+// Who besides admins may read or write the layer's artifacts
+function LayerAccessFields({ access, onChange }: { access: LayerAccess; onChange: (access: LayerAccess) => void }) {
+  const setGrant = (action: LayerAction, grant: LayerGrant | undefined) => {
+    const { [action]: _previous, ...rest } = access;
+    onChange(grant ? { ...rest, [action]: grant } : rest);
+  };
+
+  return (
+    <div className="space-y-2" data-testid="layer-access-fields">
+      <Label>Access</Label>
+      {(["read", "write"] as const).map((action) => (
+        <LayerGrantField
+          key={action}
+          action={action}
+          grant={access[action]}
+          onChange={(grant) => setGrant(action, grant)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function LayerGrantField({
+  action,
+  grant,
+  onChange,
+}: {
+  action: LayerAction;
+  grant: LayerGrant | undefined;
+  onChange: (grant: LayerGrant | undefined) => void;
+}) {
+  // Group names are kept as typed, so commas can be entered
+  const [mode, setMode] = useState(accessMode(grant));
+  const [groups, setGroups] = useState(grant?.groups.join(", ") ?? "");
+
+  const update = (nextMode: AccessMode, nextGroups: string) => {
+    setMode(nextMode);
+    setGroups(nextGroups);
+    onChange(toGrant(nextMode, nextGroups));
+  };
+
+  return (
+    <div className="grid grid-cols-[2.5rem_1fr_1fr] items-center gap-2">
+      <span className="text-xs capitalize">{action}</span>
+      <Select value={mode} onValueChange={(value) => update(value as AccessMode, groups)}>
+        <SelectTrigger className="h-8 text-xs" data-testid={`select-layer-${action}-access`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[1002]">
+          {ACCESS_MODES.map(({ value, label }) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        className="h-8 text-xs"
+        value={groups}
+        onChange={(e) => update(mode, e.target.value)}
+        disabled={mode === "everyone"}
+        placeholder="Groups, e.g. staff"
+        aria-label={`Groups with ${action} access`}
+        data-testid={`input-layer-${action}-groups`}
+      />
+    </div>
+  );
+}
+
+const SHAPES = markerShapeSchema.options;
+
+// Drop unset keys so cleared fields fall back to the defaults
+function withField<T extends MarkerStyle>(style: T, field: keyof MarkerStyle, value: unknown): T {
+  const next = { ...style } as Record<string, unknown>;
+  if (value === undefined || value === "") {
+    delete next[field];
+  } else {
+    next[field] = value;
+  }
+  return next as T;
+}
+
+function ShapeSelect({
+  value,
+  onChange,
+  testId,
+}: {
+  value: MarkerShape | undefined;
+  onChange: (shape: MarkerShape) => void;
+  testId: string;
+}) {
+  return (
+    <Select value={value ?? DEFAULT_MARKER_STYLE.shape} onValueChange={(v) => onChange(v as MarkerShape)}>
+      <SelectTrigger className="h-8 text-xs capitalize" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="z-[1002]">
+        {SHAPES.map((shape) => (
+          <SelectItem key={shape} value={shape} className="capitalize">
+            {shape}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function LayerStyleFields({ style, onChange }: { style: LayerStyle; onChange: (style: LayerStyle) => void }) {
+  const [newCategory, setNewCategory] = useState("");
+  const categories = style.categories ?? {};
+  const resolved = resolveLayerStyle(style);
+
+  const setCategories = (next: Record<string, MarkerStyle>) => {
+    const { categories: _previous, ...rest } = style;
+    onChange(Object.keys(next).length > 0 ? { ...rest, categories: next } : rest);
+  };
+  const setCategoryField = (category: string, field: keyof MarkerStyle, value: unknown) =>
+    setCategories({ ...categories, [category]: withField(categories[category], field, value) });
+
+  const addCategory = () => {
+    const category = newCategory.trim();
+    if (category && !categories[category]) {
+      setCategories({ ...categories, [category]: { color: resolved.color } });
+    }
+    setNewCategory("");
+  };
+
+  return (
+    <div className="space-y-2" data-testid="layer-style-fields">
+      <div className="flex items-center gap-2">
+        <Label className="flex-1">Marker style</Label>
+        <MarkerSwatch style={resolved} size={16} />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="layer-color" className="text-xs">
+            Colour
+          </Label>
+          <div className="flex items-center gap-1">
+            <Input
+              id="layer-color"
+              type="color"
+              className="h-8 p-1"
+              value={resolved.color}
+              onChange={(e) => onChange(withField(style, "color", e.target.value))}
+              data-testid="input-layer-color"
+            />
+            {style.color && (
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 flex-shrink-0"
+                onClick={() => onChange(withField(style, "color", undefined))}
+                title="Use category colours"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+          {!style.color && <p className="text-[10px] text-muted-foreground">Using category colours</p>}
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Shape</Label>
+          <ShapeSelect
+            value={style.shape}
+            onChange={(shape) => onChange(withField(style, "shape", shape))}
+            testId="select-layer-shape"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="layer-size" className="text-xs">
+            Size (px)
+          </Label>
+          <Input
+            id="layer-size"
+            type="number"
+            className="h-8"
+            min={4}
+            max={40}
+            placeholder={String(DEFAULT_MARKER_STYLE.size)}
+            value={style.size ?? ""}
+            onChange={(e) =>
+              onChange(withField(style, "size", e.target.value ? Number(e.target.value) : undefined))
+            }
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="layer-opacity" className="text-xs">
+            Opacity
+          </Label>
+          <Input
+            id="layer-opacity"
+            type="number"
+            className="h-8"
+            min={0}
+            max={1}
+            step={0.1}
+            placeholder={String(DEFAULT_MARKER_STYLE.opacity)}
+            value={style.opacity ?? ""}
+            onChange={(e) =>
+              onChange(withField(style, "opacity", e.target.value ? Number(e.target.value) : undefined))
+            }
+          />
+        </div>
+      </div>
+
+      {style.rules && style.rules.length > 0 && (
+        <div className="flex items-center gap-2" data-testid="layer-style-rules">
+          <p className="text-xs text-muted-foreground flex-1">
+            {style.rules.length} data-driven {style.rules.length === 1 ? "rule" : "rules"} (
+            {style.rules.map((rule) => rule.label ?? rule.field).join(", ")})
+          </p>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            className="h-7 text-xs"
+            onClick={() => {
+              const { rules: _rules, ...rest } = style;
+              onChange(rest);
+            }}
+          >
+            Clear
+          </Button>
+        </div>
+      )}
+
+      <Label className="text-xs">Category overrides</Label>
+      {Object.entries(categories).map(([category, categoryStyle]) => (
+        <div key={category} className="flex items-center gap-2" data-testid={`category-style-${category}`}>
+          <span className="text-xs flex-1 truncate">{category}</span>
+          <Input
+            type="color"
+            className="h-8 w-12 p-1"
+            value={categoryStyle.color ?? resolved.color}
+            onChange={(e) => setCategoryField(category, "color", e.target.value)}
+          />
+          <div className="w-28">
+            <ShapeSelect
+              value={categoryStyle.shape ?? style.shape}
+              onChange={(shape) => setCategoryField(category, "shape", shape)}
+              testId={`select-category-shape-${category}`}
+            />
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() => {
+              const { [category]: _removed, ...rest } = categories;
+              setCategories(rest);
+            }}
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          className="h-8 text-xs"
+          placeholder="Category, e.g. substation"
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addCategory();
+            }
+          }}
+          data-testid="input-new-category-style"
+        />
+        <Button type="button" size="sm" variant="outline" className="h-8" onClick={addCategory}>
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DeleteLayerConfirm({
+  layer,
+  otherLayers,
+  onDone,
+}: {
+  layer: Layer;
+  otherLayers: Layer[];
+  onDone: () => void;
+}) {
+  const { deleteLayer } = useLayerAdmin();
+  const { toast } = useToast();
+  const [reassignTo, setReassignTo] = useState<string>("");
+
+  const hasArtifacts = layer.artifactCount > 0;
+
+  const handleDelete = (options: DeleteLayerOptions) => {
+    deleteLayer.mutate(
+      { id: layer.id, options },
+      {
+        onSuccess: onDone,
+        onError: (error) =>
+          toast({ title: "Failed to delete layer", description: error.message, variant: "destructive" }),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3" data-testid="layer-delete-confirm">
+      <h5 className="text-sm font-medium">Delete {layer.name}?</h5>
+      {hasArtifacts ? (
+        <>
+          <p className="text-xs text-muted-foreground">
+            This layer has {layer.artifactCount.toLocaleString()} items. Move them to another layer or
+            delete them with the layer.
+          </p>
+          <div className="flex gap-2">
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-reassign-layer">
+                <SelectValue placeholder="Move items to..." />
+              </SelectTrigger>
+              <SelectContent className="z-[1002]">
+                {otherLayers.map((other) => (
+                  <SelectItem key={other.id} value={other.id}>
+                    {other.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!reassignTo || deleteLayer.isPending}
+              onClick={() => handleDelete({ reassignTo })}
+              data-testid="button-reassign-delete"
+            >
+              Move & delete
+            </Button>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">This layer has no items.</p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={deleteLayer.isPending}
+          onClick={() => handleDelete({ cascade: true })}
+          data-testid="button-cascade-delete"
+        >
+          {hasArtifacts ? "Delete layer and items" : "Delete layer"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { Layers } from "lucide-react";
+import { useState } from "react";
+import { Hexagon, Layers, Settings2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -8,22 +9,23 @@ import {
 } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
 import { useMapContext } from "./MapContext";
-
-// Layer color mapping for visual indicators
-const LAYER_COLORS: Record<string, string> = {
-  "utility-poc": "#3b82f6", // blue-500
-  "eversource-substations": "#ef4444", // red-500
-  default: "#6b7280", // gray-500
-};
+import { LayerAdminPanel } from "./LayerAdminPanel";
+import { MarkerSwatch } from "./MarkerIcon";
+import { resolveLayerStyle } from "@/lib/mapTypes";
+import { useAuth } from "@/hooks/useAuth";
 
 export function LayerControl() {
   const { layerState } = useMapContext();
-  const { layers, visibleLayers, toggleLayer, isLoading } = layerState;
+  const { layers, visibleLayers, toggleLayer, isLoading, densityVisible, toggleDensity } = layerState;
+
+  const [isAdminView, setIsAdminView] = useState(false);
+  // Layer management is admin-only on the server
+  const canManageLayers = useAuth().hasRole("admin");
 
   const visibleCount = visibleLayers.size;
 
   return (
-    <Popover>
+    <Popover onOpenChange={(open) => !open && setIsAdminView(false)}>
       <PopoverTrigger asChild>
         <Button
           variant="ghost"
@@ -40,14 +42,30 @@ export function LayerControl() {
           )}
         </Button>
       </PopoverTrigger>
-      <PopoverContent className="w-72 z-[1001]" align="start">
+      <PopoverContent className={`${isAdminView ? "w-96" : "w-72"} z-[1001]`} align="start">
         <div className="space-y-3">
-          <h4 className="font-medium text-sm flex items-center gap-2">
-            <Layers className="h-4 w-4" />
-            Data Layers
-          </h4>
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-sm flex items-center gap-2">
+              <Layers className="h-4 w-4" />
+              {isAdminView ? "Manage Layers" : "Data Layers"}
+            </h4>
+            {canManageLayers && (
+              <Button
+                size="icon"
+                variant={isAdminView ? "secondary" : "ghost"}
+                className="h-7 w-7"
+                onClick={() => setIsAdminView((prev) => !prev)}
+                title={isAdminView ? "Back to layer list" : "Manage layers"}
+                data-testid="button-layer-admin"
+              >
+                <Settings2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
 
-          {isLoading ? (
+          {isAdminView ? (
+            <LayerAdminPanel layers={layers} />
+          ) : isLoading ? (
             <div className="text-sm text-muted-foreground py-2">
               Loading layers...
             </div>
@@ -70,13 +88,7 @@ export function LayerControl() {
                     onCheckedChange={() => toggleLayer(layer.id)}
                     onClick={(e) => e.stopPropagation()}
                   />
-                  <div
-                    className="w-3 h-3 rounded-full flex-shrink-0"
-                    style={{
-                      backgroundColor:
-                        LAYER_COLORS[layer.id] || LAYER_COLORS.default,
-                    }}
-                  />
+                  <MarkerSwatch style={resolveLayerStyle(layer.style)} />
                   <div className="flex-1 min-w-0">
                     <label
                       htmlFor={layer.id}
@@ -93,7 +105,29 @@ export function LayerControl() {
             </div>
           )}
 
-          {layers.length > 0 && (
+          {!isAdminView && layers.length > 0 && (
+            <div
+              className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer border-t"
+              onClick={toggleDensity}
+              data-testid="density-toggle"
+            >
+              <Checkbox
+                id="density-overlay"
+                checked={densityVisible}
+                onCheckedChange={toggleDensity}
+                onClick={(e) => e.stopPropagation()}
+              />
+              <Hexagon className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <label htmlFor="density-overlay" className="text-sm font-medium cursor-pointer block">
+                  Density
+                </label>
+                <p className="text-xs text-muted-foreground">Items per hexagon on the visible layers</p>
+              </div>
+            </div>
+          )}
+
+          {!isAdminView && layers.length > 0 && (
             <div className="pt-2 border-t text-xs text-muted-foreground">
               Toggle layers to show/hide data on the map
             </div>
@@ -1,32 +1,44 @@
-import {
-  MapContainer as LeafletMapContainer,
-  TileLayer,
-} from "react-leaflet";
+import type { ReactNode } from "react";
+import { MapContainer as LeafletMapContainer } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
 import { MapProvider, useMapContext } from "./MapContext";
 import { MapControls } from "./MapControls";
 import { MapToolbar } from "./MapToolbar";
+import { BasemapLayer } from "./BasemapLayer";
 import { MarkerLayer } from "./MarkerLayer";
+import { DensityLayer } from "./DensityLayer";
 import { CircleDrawTool } from "./CircleDrawTool";
 import { SelectionCircle } from "./SelectionCircle";
+import { PolygonDrawTool } from "./PolygonDrawTool";
+import { SelectionPolygon } from "./SelectionPolygon";
+import { CorridorDrawTool } from "./CorridorDrawTool";
+import { SelectionCorridor } from "./SelectionCorridor";
 import { SelectionResultsPanel } from "./SelectionResultsPanel";
 import { MapLoadingState } from "./MapLoadingState";
 import { MapInitializer } from "./MapInitializer";
+import { MapLegend } from "./MapLegend";
+import type { FilterState } from "./SearchFilterBar";
 
 interface MapViewProps {
   isLoading?: boolean;
   initialCenter?: [number, number];
   initialZoom?: number;
+  filters?: FilterState;
+  // Overlays that need the map context, e.g. SearchFilterBar
+  children?: ReactNode;
 }
 
 export function MapView({
   isLoading = false,
   initialCenter = [41.5, -72.7], // Connecticut center (Eversource territory)
   initialZoom = 9, // State-level view
+  filters,
+  children,
 }: MapViewProps) {
   return (
-    <MapProvider>
+    <MapProvider filters={filters}>
       <div className="relative w-full h-full" data-testid="map-container">
+        {children}
         {isLoading ? (
           <MapLoadingState />
         ) : (
@@ -38,17 +50,20 @@ export function MapView({
               className="w-full h-full"
               preferCanvas={true}
             >
-              <TileLayer
-                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-              />
+              <BasemapLayer />
               <MapInitializer />
+              <DensityLayer />
               <MarkerLayer />
               <CircleDrawTool />
               <SelectionCircle />
+              <PolygonDrawTool />
+              <SelectionPolygon />
+              <CorridorDrawTool />
+              <SelectionCorridor />
               <MapControls />
             </LeafletMapContainer>
             <MapToolbar />
+            <MapLegend />
             <SelectionResultsPanelWrapper />
           </>
         )}
@@ -60,7 +75,7 @@ export function MapView({
 function SelectionResultsPanelWrapper() {
   const { selectionState } = useMapContext();
 
-  if (!selectionState.circle) {
+  if (!selectionState.circle && !selectionState.polygon && !selectionState.corridor) {
     return null;
   }
 
@@ -1,26 +1,37 @@
 import { createContext, useContext, type ReactNode } from "react";
 import { useMapState } from "@/hooks/useMapState";
 import { useLayerState } from "@/hooks/useLayerState";
+import { useBasemaps } from "@/hooks/useBasemaps";
+import { useChangeFeed } from "@/hooks/useChangeFeed";
+import { EMPTY_FILTERS } from "@/lib/filterParams";
+import type { FilterState } from "./SearchFilterBar";
 
 type MapStateReturn = ReturnType<typeof useMapState>;
 type LayerStateReturn = ReturnType<typeof useLayerState>;
+type BasemapStateReturn = ReturnType<typeof useBasemaps>;
 
 interface MapContextValue extends MapStateReturn {
   layerState: LayerStateReturn;
+  basemapState: BasemapStateReturn;
+  filters: FilterState;
 }
 
 const MapContext = createContext<MapContextValue | null>(null);
 
 interface MapProviderProps {
   children: ReactNode;
+  filters?: FilterState;
 }
 
-export function MapProvider({ children }: MapProviderProps) {
+export function MapProvider({ children, filters = EMPTY_FILTERS }: MapProviderProps) {
   const mapState = useMapState();
   const layerState = useLayerState();
+  const basemapState = useBasemaps();
+  // Layer counts cover hidden layers too, so follow changes on every layer
+  useChangeFeed();
 
   return (
-    <MapContext.Provider value={{ ...mapState, layerState }}>
+    <MapContext.Provider value={{ ...mapState, layerState, basemapState, filters }}>
       {children}
     </MapContext.Provider>
   );
@@ -23,12 +23,15 @@ export function MapControls() {
     if (drawingMode === "circle") {
       clearSelection();
     } else {
-      startDrawing();
+      startDrawing("circle");
     }
   };
 
   const isDrawingActive = drawingMode === "circle";
-  const hasSelection = selectionState.circle !== null;
+  const hasSelection =
+    selectionState.circle !== null ||
+    selectionState.polygon !== null ||
+    selectionState.corridor !== null;
 
   return (
     <div
@@ -0,0 +1,91 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronUp, ListTree } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { parseLayerStyle, resolveLayerStyle } from "@/lib/mapTypes";
+import { buildLegendSection } from "@/lib/styleRules";
+import { useMapContext } from "./MapContext";
+import { MarkerSwatch } from "./MarkerIcon";
+
+// Largest swatch drawn in the legend, so big size classes don't blow up the layout
+const MAX_SWATCH_SIZE = 24;
+
+/**
+ * Legend generated from the data-driven style rules of the visible layers
+ */
+export function MapLegend() {
+  const { layerState } = useMapContext();
+  const { layers, visibleLayers } = layerState;
+  const [isOpen, setIsOpen] = useState(true);
+
+  const legends = useMemo(
+    () =>
+      layers
+        .filter((layer) => visibleLayers.has(layer.id))
+        .map((layer) => {
+          const base = resolveLayerStyle(layer.style);
+          const rules = parseLayerStyle(layer.style).rules ?? [];
+          return { layer, sections: rules.map((rule) => buildLegendSection(rule, base)) };
+        })
+        .filter(({ sections }) => sections.length > 0),
+    [layers, visibleLayers]
+  );
+
+  if (legends.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="absolute bottom-6 left-4 z-[1000] bg-card border border-card-border rounded-lg shadow-lg max-w-[240px]"
+      data-testid="map-legend"
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full justify-between gap-2"
+        onClick={() => setIsOpen((prev) => !prev)}
+        data-testid="button-toggle-legend"
+      >
+        <span className="flex items-center gap-2">
+          <ListTree className="h-4 w-4" />
+          Legend
+        </span>
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+      </Button>
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3 max-h-[50vh] overflow-y-auto">
+          {legends.map(({ layer, sections }) => (
+            <div key={layer.id} className="space-y-2">
+              <p className="text-xs font-semibold text-foreground">{layer.name}</p>
+              {sections.map((section, index) => (
+                <div key={index} className="space-y-1">
+                  <p className="text-xs text-muted-foreground">{section.title}</p>
+                  {section.ramp && (
+                    <div>
+                      <div
+                        className="h-2 rounded"
+                        style={{ background: `linear-gradient(to right, ${section.ramp.from}, ${section.ramp.to})` }}
+                      />
+                      <div className="flex justify-between text-[10px] text-muted-foreground">
+                        <span>{section.ramp.min.toLocaleString()}</span>
+                        <span>{section.ramp.max.toLocaleString()}</span>
+                      </div>
+                    </div>
+                  )}
+                  {section.items.map((item) => (
+                    <div key={item.label} className="flex items-center gap-2">
+                      <span className="w-6 flex justify-center">
+                        <MarkerSwatch style={item.style} size={Math.min(item.style.size, MAX_SWATCH_SIZE)} />
+                      </span>
+                      <span className="text-xs truncate">{item.label}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
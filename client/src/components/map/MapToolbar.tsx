@@ -1,15 +1,31 @@
-import { Circle, X } from "lucide-react";
+import { Circle, Pentagon, Route, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useMapContext } from "./MapContext";
 import { LayerControl } from "./LayerControl";
+import { BasemapControl } from "./BasemapControl";
+
+// Metres either side of the line offered for corridor selections
+const CORRIDOR_BUFFERS = [10, 25, 50, 100, 250, 500, 1000];
 
 export function MapToolbar() {
-  const { drawingMode, startDrawing, clearSelection, selectionState } =
+  const { drawingMode, startDrawing, clearSelection, selectionState, corridorBuffer, setCorridorBuffer } =
     useMapContext();
 
   const isCircleMode = drawingMode === "circle";
-  const hasSelection = selectionState.circle !== null;
+  const isPolygonMode = drawingMode === "polygon";
+  const isCorridorMode = drawingMode === "corridor";
+  const hasSelection =
+    selectionState.circle !== null ||
+    selectionState.polygon !== null ||
+    selectionState.corridor !== null;
 
   return (
     <div
@@ -18,13 +34,14 @@ export function MapToolbar() {
     >
       <div className="flex items-center gap-2 bg-card/95 backdrop-blur-sm rounded-lg p-2 shadow-lg border border-card-border">
         <LayerControl />
+        <BasemapControl />
 
         <div className="w-px h-6 bg-border" />
 
         <Button
           size="sm"
           variant={isCircleMode ? "default" : "ghost"}
-          onClick={startDrawing}
+          onClick={() => startDrawing("circle")}
           className="gap-2"
           data-testid="button-circle-select"
         >
@@ -32,6 +49,46 @@ export function MapToolbar() {
           <span className="hidden sm:inline">Circle Select</span>
         </Button>
 
+        <Button
+          size="sm"
+          variant={isPolygonMode ? "default" : "ghost"}
+          onClick={() => startDrawing("polygon")}
+          className="gap-2"
+          data-testid="button-polygon-select"
+        >
+          <Pentagon className="h-4 w-4" />
+          <span className="hidden sm:inline">Polygon Select</span>
+        </Button>
+
+        <Button
+          size="sm"
+          variant={isCorridorMode ? "default" : "ghost"}
+          onClick={() => startDrawing("corridor")}
+          className="gap-2"
+          data-testid="button-corridor-select"
+        >
+          <Route className="h-4 w-4" />
+          <span className="hidden sm:inline">Corridor Select</span>
+        </Button>
+
+        {isCorridorMode && (
+          <Select
+            value={String(corridorBuffer)}
+            onValueChange={(value) => setCorridorBuffer(Number(value))}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs" data-testid="select-corridor-buffer">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[1002]">
+              {CORRIDOR_BUFFERS.map((buffer) => (
+                <SelectItem key={buffer} value={String(buffer)}>
+                  ± {buffer >= 1000 ? `${buffer / 1000} km` : `${buffer} m`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
         {hasSelection && (
           <>
             <div className="w-px h-6 bg-border" />
@@ -55,6 +112,18 @@ export function MapToolbar() {
           Click and drag to draw a circle
         </div>
       )}
+
+      {isPolygonMode && (
+        <div className="bg-primary text-primary-foreground px-3 py-1.5 rounded-lg text-sm font-medium shadow-lg animate-pulse">
+          Click to add points, double-click to finish
+        </div>
+      )}
+
+      {isCorridorMode && (
+        <div className="bg-primary text-primary-foreground px-3 py-1.5 rounded-lg text-sm font-medium shadow-lg animate-pulse">
+          Click to trace the line, double-click to finish
+        </div>
+      )}
     </div>
   );
 }
@@ -1,35 +1,106 @@
 import L from "leaflet";
-import { getCategoryColor } from "@/lib/mapTypes";
+import type { MarkerShape } from "@shared/schema";
+import type { CategorySlice, ResolvedMarkerStyle } from "@/lib/mapTypes";
 
-export function createMarkerIcon(category: string, isSelected = false): L.DivIcon {
-  const color = getCategoryColor(category);
-  const size = isSelected ? 16 : 12;
+// Width of the category ring around cluster bubbles
+const CLUSTER_RING_WIDTH = 6;
+
+// Polygon vertices for non-circle shapes inside a `box` px square, inset so the stroke stays visible
+function shapePoints(shape: Exclude<MarkerShape, "circle">, box: number, inset: number): string {
+  const min = inset;
+  const max = box - inset;
+  const mid = box / 2;
+  const corners: Record<Exclude<MarkerShape, "circle">, number[][]> = {
+    square: [[min, min], [max, min], [max, max], [min, max]],
+    diamond: [[mid, min], [max, mid], [mid, max], [min, mid]],
+    triangle: [[mid, min], [max, max], [min, max]],
+  };
+  return corners[shape].map((point) => point.join(",")).join(" ");
+}
+
+function markerSvg(style: ResolvedMarkerStyle, box: number, strokeWidth: number, stroke: string): string {
+  const paint = `fill="${style.color}" fill-opacity="${style.opacity}" stroke="${stroke}" stroke-width="${strokeWidth}"`;
+  const shape =
+    style.shape === "circle"
+      ? `<circle cx="${box / 2}" cy="${box / 2}" r="${box / 2 - strokeWidth / 2}" ${paint} />`
+      : `<polygon points="${shapePoints(style.shape, box, strokeWidth / 2)}" stroke-linejoin="round" ${paint} />`;
+  return `<svg width="${box}" height="${box}" viewBox="0 0 ${box} ${box}" xmlns="http://www.w3.org/2000/svg">${shape}</svg>`;
+}
+
+export function createMarkerIcon(style: ResolvedMarkerStyle, isSelected = false): L.DivIcon {
+  const size = isSelected ? style.size + 4 : style.size;
   const borderWidth = isSelected ? 3 : 2;
   const borderColor = isSelected ? "#ffffff" : "rgba(255,255,255,0.9)";
   const shadow = isSelected
-    ? "0 0 0 4px rgba(59, 130, 246, 0.3), 0 2px 8px rgba(0,0,0,0.3)"
-    : "0 2px 6px rgba(0,0,0,0.3)";
+    ? "drop-shadow(0 0 4px rgba(59, 130, 246, 0.6)) drop-shadow(0 2px 4px rgba(0,0,0,0.3))"
+    : "drop-shadow(0 2px 3px rgba(0,0,0,0.3))";
+  const box = size + borderWidth * 2;
 
   return L.divIcon({
     className: "custom-marker",
     html: `
       <div style="
-        width: ${size}px;
-        height: ${size}px;
-        background-color: ${color};
-        border: ${borderWidth}px solid ${borderColor};
-        border-radius: 50%;
-        box-shadow: ${shadow};
+        width: ${box}px;
+        height: ${box}px;
+        filter: ${shadow};
         transition: all 0.15s ease;
         cursor: pointer;
-      "></div>
+      ">${markerSvg(style, box, borderWidth, borderColor)}</div>
     `,
-    iconSize: [size + borderWidth * 2, size + borderWidth * 2],
-    iconAnchor: [(size + borderWidth * 2) / 2, (size + borderWidth * 2) / 2],
+    iconSize: [box, box],
+    iconAnchor: [box / 2, box / 2],
+  });
+}
+
+// Legend/layer-list swatch drawn with the same geometry as the map markers
+export function MarkerSwatch({ style, size = 12 }: { style: ResolvedMarkerStyle; size?: number }) {
+  const strokeWidth = 1;
+  const paint = {
+    fill: style.color,
+    fillOpacity: style.opacity,
+    stroke: "rgba(0,0,0,0.15)",
+    strokeWidth,
+  };
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} className="flex-shrink-0" aria-hidden="true">
+      {style.shape === "circle" ? (
+        <circle cx={size / 2} cy={size / 2} r={size / 2 - strokeWidth / 2} {...paint} />
+      ) : (
+        <polygon points={shapePoints(style.shape, size, strokeWidth / 2)} strokeLinejoin="round" {...paint} />
+      )}
+    </svg>
+  );
+}
+
+// Donut of category slices filling a `size` px square, starting at 12 o'clock
+function categoryRingSvg(breakdown: CategorySlice[], size: number): string {
+  const total = breakdown.reduce((sum, slice) => sum + slice.count, 0);
+  const radius = (size - CLUSTER_RING_WIDTH) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const ring = `cx="${size / 2}" cy="${size / 2}" r="${radius}" fill="none" stroke-width="${CLUSTER_RING_WIDTH}"`;
+
+  // Each slice is a dash of the circle's stroke, offset by the slices before it
+  let start = 0;
+  const slices = breakdown.map((slice) => {
+    const length = (slice.count / total) * circumference;
+    const svg = `<circle ${ring} stroke="${slice.color}" stroke-dasharray="${length} ${circumference - length}" stroke-dashoffset="${-start}" />`;
+    start += length;
+    return svg;
   });
+
+  return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" xmlns="http://www.w3.org/2000/svg" style="position: absolute; inset: 0; transform: rotate(-90deg);">${slices.join("")}</svg>`;
 }
 
-export function createClusterIcon(count: number): L.DivIcon {
+/**
+ * Cluster bubble. `style` is the layer style when every clustered artifact is from one layer;
+ * mixed clusters keep the neutral blue. `breakdown` draws the category counts as a ring.
+ */
+export function createClusterIcon(
+  count: number,
+  style?: ResolvedMarkerStyle,
+  breakdown: CategorySlice[] = []
+): L.DivIcon {
   let size = 40;
   let fontSize = 14;
 
@@ -42,31 +113,50 @@ export function createClusterIcon(count: number): L.DivIcon {
   }
 
   const displayCount = count > 999 ? "999+" : count.toString();
+  const background = style
+    ? `linear-gradient(135deg, rgba(0,0,0,0) 0%, rgba(0,0,0,0.2) 100%), ${style.color}`
+    : "linear-gradient(135deg, hsl(210, 85%, 45%) 0%, hsl(210, 85%, 35%) 100%)";
+  const hasRing = breakdown.length > 0;
+  const bubbleSize = hasRing ? size - CLUSTER_RING_WIDTH * 2 : size;
 
   return L.divIcon({
     className: "custom-cluster",
     html: `
       <div style="
+        position: relative;
         width: ${size}px;
         height: ${size}px;
-        background: linear-gradient(135deg, hsl(210, 85%, 45%) 0%, hsl(210, 85%, 35%) 100%);
-        border: 3px solid rgba(255,255,255,0.9);
-        border-radius: 50%;
-        box-shadow: 0 4px 12px rgba(0,0,0,0.25);
         display: flex;
         align-items: center;
         justify-content: center;
-        color: white;
-        font-weight: 600;
-        font-size: ${fontSize}px;
-        font-family: system-ui, -apple-system, sans-serif;
+        border-radius: 50%;
+        box-shadow: 0 4px 12px rgba(0,0,0,0.25);
         cursor: pointer;
         transition: all 0.2s ease;
       "
       onmouseover="this.style.transform='scale(1.1)'"
       onmouseout="this.style.transform='scale(1)'"
       >
-        ${displayCount}
+        ${hasRing ? categoryRingSvg(breakdown, size) : ""}
+        <div style="
+          position: relative;
+          width: ${bubbleSize}px;
+          height: ${bubbleSize}px;
+          box-sizing: border-box;
+          background: ${background};
+          opacity: ${style?.opacity ?? 1};
+          border: ${hasRing ? 2 : 3}px solid rgba(255,255,255,0.9);
+          border-radius: 50%;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          color: white;
+          font-weight: 600;
+          font-size: ${fontSize}px;
+          font-family: system-ui, -apple-system, sans-serif;
+        ">
+          ${displayCount}
+        </div>
       </div>
     `,
     iconSize: [size, size],
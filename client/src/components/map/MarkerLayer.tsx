@@ -3,36 +3,65 @@ import { Marker, Popup, Tooltip, useMap, useMapEvents } from "react-leaflet";
 import L from "leaflet";
 import { useMapContext } from "./MapContext";
 import { useViewportArtifacts } from "@/hooks/useViewportArtifacts";
+import { useNearestArtifacts } from "@/hooks/useNearestArtifacts";
+import { useClusterExpansion } from "@/hooks/useClusterExpansion";
 import { createMarkerIcon, createClusterIcon } from "./MarkerIcon";
 import { MetadataPopup } from "./MetadataPopup";
-import { TooltipContent } from "./HoverTooltip";
-import type { Artifact } from "@shared/schema";
+import { ClusterTooltipContent, TooltipContent } from "./HoverTooltip";
+import { getCategoryBreakdown, resolveLayerStyle, resolveMarkerStyle } from "@/lib/mapTypes";
+import type { Artifact, ClusterData, LayerStyle } from "@shared/schema";
+
+// Space kept around a cluster's extent when zooming to it
+const CLUSTER_FIT_PADDING: [number, number] = [40, 40];
 
 export function MarkerLayer() {
   const map = useMap();
-  const { mapState, selectionState, layerState, updateBounds, updateZoom } =
+  const { mapState, selectionState, layerState, filters, updateBounds, updateZoom } =
     useMapContext();
   const { bounds, zoom } = mapState;
   const { selectedArtifacts } = selectionState;
-  const { getVisibleLayerIds } = layerState;
+  const { layers, getVisibleLayerIds } = layerState;
 
   const [selectedMarker, setSelectedMarker] = useState<Artifact | null>(null);
 
   // Get visible layers for filtering
   const visibleLayers = getVisibleLayerIds();
 
-  // Fetch viewport data with server-side clustering and layer filtering
+  // Fetch viewport data with server-side clustering, layer and attribute filtering
   const { data, isLoading, error } = useViewportArtifacts({
     bounds,
     zoom,
     limit: 5000,
     layers: visibleLayers.length > 0 ? visibleLayers : undefined,
+    filters,
   });
 
-  const clusters = data?.clusters || [];
-  const singles = data?.singles || [];
+  // Clusters expanded in place are replaced by their children
+  const { clusters, singles, expand } = useClusterExpansion({
+    data,
+    layers: visibleLayers.length > 0 ? visibleLayers : undefined,
+    filters,
+  });
   const truncated = data?.truncated || false;
 
+  // Marker styles come from each layer's style record
+  const layerStyles = useMemo(
+    () => new Map<string, LayerStyle | undefined>(layers.map((layer) => [layer.id, layer.style])),
+    [layers]
+  );
+  const markerStyle = useCallback(
+    (artifact: Artifact) =>
+      resolveMarkerStyle(layerStyles.get(artifact.layer), artifact.category, artifact.metadata),
+    [layerStyles]
+  );
+
+  // Closest assets to the open popup, drawn from the same layers and filters as the map
+  const { data: nearby, isLoading: nearbyLoading } = useNearestArtifacts({
+    artifact: selectedMarker,
+    layers: visibleLayers.length > 0 ? visibleLayers : undefined,
+    filters,
+  });
+
   const selectedIds = useMemo(
     () => new Set(selectedArtifacts.map((a) => a.id)),
     [selectedArtifacts]
@@ -64,14 +93,29 @@ export function MarkerLayer() {
     setSelectedMarker(null);
   }, []);
 
-  const handleClusterClick = useCallback(
-    (cluster: { id: string; lat: number; lng: number; count: number }) => {
-      // Zoom in to the cluster location
-      map.setView([cluster.lat, cluster.lng], Math.min(map.getZoom() + 2, 18));
+  const handleSelectNearby = useCallback(
+    (artifact: Artifact) => {
+      setSelectedMarker(artifact);
+      map.flyTo([artifact.lat, artifact.lng], Math.max(map.getZoom(), 16));
     },
     [map]
   );
 
+  const handleClusterClick = useCallback(
+    (cluster: ClusterData) => {
+      const { north, south, east, west } = cluster.bounds;
+      const extent = L.latLngBounds([south, west], [north, east]);
+
+      // Zoom to the cluster's extent, or split it where the map cannot zoom further in
+      if (map.getBoundsZoom(extent, false, L.point(CLUSTER_FIT_PADDING).multiplyBy(2)) > map.getZoom()) {
+        map.fitBounds(extent, { padding: CLUSTER_FIT_PADDING });
+      } else {
+        expand(cluster).catch((error) => console.error("Cluster expansion failed:", error));
+      }
+    },
+    [map, expand]
+  );
+
   // Show loading indicator
   if (isLoading && !data) {
     return (
@@ -114,31 +158,39 @@ export function MarkerLayer() {
         </div>
       )}
 
-      {clusters.map((cluster) => (
-        <Marker
-          key={cluster.id}
-          position={[cluster.lat, cluster.lng]}
-          icon={createClusterIcon(cluster.count)}
-          eventHandlers={{
-            click: () => handleClusterClick(cluster),
-          }}
-        >
-          <Tooltip direction="top" offset={[0, -20]}>
-            <div className="text-sm font-medium">
-              {cluster.count} items - Click to zoom
-            </div>
-          </Tooltip>
-        </Marker>
-      ))}
+      {clusters.map((cluster) => {
+        const layerStyle = cluster.layer ? layerStyles.get(cluster.layer) : undefined;
+        const breakdown = getCategoryBreakdown(cluster.categories, layerStyle);
+
+        return (
+          <Marker
+            key={cluster.id}
+            position={[cluster.lat, cluster.lng]}
+            icon={createClusterIcon(
+              cluster.count,
+              cluster.layer ? resolveLayerStyle(layerStyle) : undefined,
+              breakdown
+            )}
+            eventHandlers={{
+              click: () => handleClusterClick(cluster),
+            }}
+          >
+            <Tooltip direction="top" offset={[0, -20]}>
+              <ClusterTooltipContent count={cluster.count} breakdown={breakdown} />
+            </Tooltip>
+          </Marker>
+        );
+      })}
 
       {singles.map((artifact) => {
         const isSelected = selectedIds.has(artifact.id);
+        const style = markerStyle(artifact);
 
         return (
           <Marker
             key={artifact.id}
             position={[artifact.lat, artifact.lng]}
-            icon={createMarkerIcon(artifact.category, isSelected)}
+            icon={createMarkerIcon(style, isSelected)}
             eventHandlers={{
               click: () => handleMarkerClick(artifact),
             }}
@@ -149,7 +201,7 @@ export function MarkerLayer() {
               opacity={1}
               className="custom-tooltip"
             >
-              <TooltipContent artifact={artifact} />
+              <TooltipContent artifact={artifact} color={style.color} />
             </Tooltip>
           </Marker>
         );
@@ -158,7 +210,7 @@ export function MarkerLayer() {
       {selectedMarker && (
         <Marker
           position={[selectedMarker.lat, selectedMarker.lng]}
-          icon={createMarkerIcon(selectedMarker.category, true)}
+          icon={createMarkerIcon(markerStyle(selectedMarker), true)}
         >
           <Popup
             closeButton={false}
@@ -167,6 +219,11 @@ export function MarkerLayer() {
           >
             <MetadataPopup
               artifact={selectedMarker}
+              color={markerStyle(selectedMarker).color}
+              nearby={nearby}
+              nearbyLoading={nearbyLoading}
+              nearbyColor={(artifact) => markerStyle(artifact).color}
+              onSelectNearby={handleSelectNearby}
               onClose={handleClosePopup}
             />
           </Popup>
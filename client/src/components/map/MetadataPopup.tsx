@@ -1,17 +1,88 @@
-import { X, MapPin, Tag, FileText, Calendar } from "lucide-react";
+import { X, MapPin, Tag, FileText, Calendar, Navigation } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { Artifact } from "@shared/schema";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { Artifact, ArtifactHistoryEntry, NearbyArtifact } from "@shared/schema";
 import { getCategoryColor } from "@/lib/mapTypes";
+import { getHistoryChanges } from "@/lib/artifactHistory";
+import { useArtifactHistory } from "@/hooks/useArtifactHistory";
 
 interface MetadataPopupProps {
   artifact: Artifact;
+  color?: string; // marker colour from the layer style, defaults to the category palette
+  nearby?: NearbyArtifact[]; // the Nearby section is shown when this or nearbyLoading is set
+  nearbyLoading?: boolean;
+  nearbyColor?: (artifact: Artifact) => string;
+  onSelectNearby?: (artifact: Artifact) => void;
   onClose: () => void;
 }
 
-export function MetadataPopup({ artifact, onClose }: MetadataPopupProps) {
-  const categoryColor = getCategoryColor(artifact.category);
+function formatDistance(metres: number): string {
+  return metres < 1000 ? `${Math.round(metres)} m` : `${(metres / 1000).toFixed(1)} km`;
+}
+
+const ACTION_LABELS: Record<ArtifactHistoryEntry["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+function HistoryEntry({ entry }: { entry: ArtifactHistoryEntry }) {
+  // A create lists every field it set, which the Details tab already shows for the current version
+  const changes = entry.action === "update" ? getHistoryChanges(entry) : [];
+
+  return (
+    <div className="space-y-1 text-sm" data-testid={`history-entry-${entry.id}`}>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="font-medium text-foreground">{ACTION_LABELS[entry.action]}</span>
+        <span className="text-xs text-muted-foreground">{new Date(entry.changedAt).toLocaleString()}</span>
+      </div>
+      {entry.changedBy && (
+        <p className="text-xs text-muted-foreground truncate">by {entry.changedBy}</p>
+      )}
+      {changes.map(({ field, before, after }) => (
+        <div key={field} className="text-xs">
+          <span className="text-muted-foreground">{field.replace(/_/g, " ")}: </span>
+          <span className="text-muted-foreground line-through">{before ?? "none"}</span>
+          <span className="text-muted-foreground"> → </span>
+          <span className="text-foreground">{after ?? "none"}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function HistoryList({ artifactId }: { artifactId: string }) {
+  const { data: history, isLoading, isError } = useArtifactHistory(artifactId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+  if (isError || !history || history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No recorded changes</p>;
+  }
+  return (
+    <ScrollArea className="max-h-64">
+      <div className="space-y-3" data-testid={`history-${artifactId}`}>
+        {history.map((entry) => (
+          <HistoryEntry key={entry.id} entry={entry} />
+        ))}
+      </div>
+    </ScrollArea>
+  );
+}
+
+export function MetadataPopup({
+  artifact,
+  color,
+  nearby,
+  nearbyLoading,
+  nearbyColor,
+  onSelectNearby,
+  onClose,
+}: MetadataPopupProps) {
+  const categoryColor = color ?? getCategoryColor(artifact.category);
 
   return (
     <div
@@ -55,57 +126,109 @@ export function MetadataPopup({ artifact, onClose }: MetadataPopupProps) {
           </Button>
         </div>
 
-        {artifact.description && (
-          <p className="text-sm text-muted-foreground mb-4 line-clamp-3">
-            {artifact.description}
-          </p>
-        )}
-
-        <div className="space-y-3">
-          <div className="flex items-center gap-3 text-sm">
-            <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-            <span className="text-muted-foreground">
-              {artifact.lat.toFixed(6)}, {artifact.lng.toFixed(6)}
-            </span>
-          </div>
+        <Tabs defaultValue="details">
+          <TabsList className="mb-4 grid w-full grid-cols-2">
+            <TabsTrigger value="details" data-testid={`tab-details-${artifact.id}`}>Details</TabsTrigger>
+            <TabsTrigger value="history" data-testid={`tab-history-${artifact.id}`}>History</TabsTrigger>
+          </TabsList>
 
-          {artifact.createdAt && (
-            <div className="flex items-center gap-3 text-sm">
-              <Calendar className="h-4 w-4 text-muted-foreground flex-shrink-0" />
-              <span className="text-muted-foreground">
-                {new Date(artifact.createdAt).toLocaleDateString()}
-              </span>
+          <TabsContent value="details" className="mt-0">
+            {artifact.description && (
+              <p className="text-sm text-muted-foreground mb-4 line-clamp-3">
+                {artifact.description}
+              </p>
+            )}
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 text-sm">
+                <MapPin className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-muted-foreground">
+                  {artifact.lat.toFixed(6)}, {artifact.lng.toFixed(6)}
+                </span>
+              </div>
+
+              {artifact.createdAt && (
+                <div className="flex items-center gap-3 text-sm">
+                  <Calendar className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-muted-foreground">
+                    {new Date(artifact.createdAt).toLocaleDateString()}
+                  </span>
+                </div>
+              )}
             </div>
-          )}
-        </div>
 
-        {artifact.metadata && Object.keys(artifact.metadata).length > 0 && (
-          <>
-            <div className="my-4 border-t border-border" />
-            <div className="space-y-2">
-              <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                Additional Details
-              </h4>
-              <ScrollArea className="max-h-32">
+            {artifact.metadata && Object.keys(artifact.metadata).length > 0 && (
+              <>
+                <div className="my-4 border-t border-border" />
                 <div className="space-y-2">
-                  {Object.entries(artifact.metadata).map(([key, value]) => (
-                    <div
-                      key={key}
-                      className="flex items-start justify-between gap-2 text-sm"
-                    >
-                      <span className="text-muted-foreground capitalize">
-                        {key.replace(/_/g, " ")}
-                      </span>
-                      <span className="text-foreground font-medium text-right">
-                        {String(value)}
-                      </span>
+                  <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Additional Details
+                  </h4>
+                  <ScrollArea className="max-h-32">
+                    <div className="space-y-2">
+                      {Object.entries(artifact.metadata).map(([key, value]) => (
+                        <div
+                          key={key}
+                          className="flex items-start justify-between gap-2 text-sm"
+                        >
+                          <span className="text-muted-foreground capitalize">
+                            {key.replace(/_/g, " ")}
+                          </span>
+                          <span className="text-foreground font-medium text-right">
+                            {String(value)}
+                          </span>
+                        </div>
+                      ))}
                     </div>
-                  ))}
+                  </ScrollArea>
                 </div>
-              </ScrollArea>
-            </div>
-          </>
-        )}
+              </>
+            )}
+
+            {(nearby || nearbyLoading) && (
+              <>
+                <div className="my-4 border-t border-border" />
+                <div className="space-y-2" data-testid={`nearby-${artifact.id}`}>
+                  <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                    Nearby
+                  </h4>
+                  {nearbyLoading && !nearby ? (
+                    <p className="text-sm text-muted-foreground">Finding nearby assets...</p>
+                  ) : nearby && nearby.length > 0 ? (
+                    <div className="space-y-1">
+                      {nearby.map(({ artifact: neighbour, distance }) => (
+                        <button
+                          key={neighbour.id}
+                          type="button"
+                          onClick={() => onSelectNearby?.(neighbour)}
+                          className="flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm hover-elevate"
+                          data-testid={`button-nearby-${neighbour.id}`}
+                        >
+                          <span
+                            className="h-2 w-2 flex-shrink-0 rounded-full"
+                            style={{
+                              backgroundColor: nearbyColor?.(neighbour) ?? getCategoryColor(neighbour.category),
+                            }}
+                          />
+                          <span className="flex-1 truncate text-foreground">{neighbour.name}</span>
+                          <span className="flex-shrink-0 text-muted-foreground">{formatDistance(distance)}</span>
+                          <Navigation className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                        </button>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No other assets nearby</p>
+                  )}
+                </div>
+              </>
+            )}
+          </TabsContent>
+
+          {/* Inactive tabs are not mounted, so the history is only fetched once opened */}
+          <TabsContent value="history" className="mt-0">
+            <HistoryList artifactId={artifact.id} />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
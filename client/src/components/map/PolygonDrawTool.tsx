@@ -0,0 +1,74 @@
+import { Polygon, Polyline, CircleMarker } from "react-leaflet";
+import { useMutation } from "@tanstack/react-query";
+import { querySelection } from "@/lib/selectionQuery";
+import { usePolylineDrawing } from "@/hooks/usePolylineDrawing";
+import { useMapContext } from "./MapContext";
+import type { PolygonSelection, AggregationResult } from "@shared/schema";
+
+const DRAW_STYLE = {
+  color: "hsl(210, 85%, 45%)",
+  fillColor: "hsl(210, 85%, 45%)",
+  fillOpacity: 0.15,
+  weight: 2,
+  dashArray: "8, 8",
+};
+
+export function PolygonDrawTool() {
+  const { finishPolygonDrawing, setLoading, filters } = useMapContext();
+
+  const polygonQueryMutation = useMutation({
+    mutationFn: (selection: PolygonSelection): Promise<AggregationResult> =>
+      querySelection({ polygon: selection }, filters),
+    onSuccess: (data, selection) => {
+      finishPolygonDrawing(selection, data.artifacts);
+      setLoading(false);
+    },
+    onError: (error) => {
+      console.error("Polygon query failed:", error);
+      setLoading(false);
+    },
+  });
+
+  const completePolygon = (points: [number, number][]) => {
+    if (points.length < 3 || polygonQueryMutation.isPending) return;
+
+    // GeoJSON uses [lng, lat] and a closed ring
+    const ring = points.map(([lat, lng]) => [lng, lat] as [number, number]);
+    ring.push(ring[0]);
+
+    setLoading(true);
+    polygonQueryMutation.mutate({ type: "Polygon", coordinates: [ring] });
+  };
+
+  const { isActive, vertices, cursor } = usePolylineDrawing("polygon", completePolygon, { closeOnFirstVertex: true });
+
+  if (!isActive || vertices.length === 0) {
+    return null;
+  }
+
+  const outline = cursor ? [...vertices, cursor] : vertices;
+
+  return (
+    <>
+      {outline.length >= 3 ? (
+        <Polygon positions={outline} pathOptions={DRAW_STYLE} interactive={false} />
+      ) : (
+        <Polyline positions={outline} pathOptions={DRAW_STYLE} interactive={false} />
+      )}
+      {vertices.map((vertex, index) => (
+        <CircleMarker
+          key={`${vertex[0]}:${vertex[1]}:${index}`}
+          center={vertex}
+          radius={index === 0 ? 6 : 4}
+          interactive={false}
+          pathOptions={{
+            color: "hsl(210, 85%, 45%)",
+            fillColor: "#ffffff",
+            fillOpacity: 1,
+            weight: 2,
+          }}
+        />
+      ))}
+    </>
+  );
+}
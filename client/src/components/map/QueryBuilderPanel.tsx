@@ -0,0 +1,456 @@
+import { useMemo, useState } from "react";
+import { ListFilter, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useMetadataFields } from "@/hooks/useMetadataFields";
+import { useFilterPresets } from "@/hooks/useFilterPresets";
+import {
+  buildRuleExpression,
+  buildWhereExpression,
+  createRule,
+  OPERATORS,
+  type QueryDefinition,
+  type QueryOperator,
+  type QueryRule,
+} from "@/lib/queryBuilder";
+import type { MetadataFieldInfo } from "@shared/schema";
+import { useMapContext } from "./MapContext";
+
+interface QueryBuilderPanelProps {
+  // The applied query; edits stay in a draft until applied
+  query: QueryDefinition;
+  onApply: (query: QueryDefinition) => void;
+}
+
+const TRIGGER_CLASS = "bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80";
+
+/**
+ * Builds a metadata where expression from typed rules over the fields of the visible layers
+ */
+export function QueryBuilderPanel({ query, onApply }: QueryBuilderPanelProps) {
+  const { layerState } = useMapContext();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<QueryDefinition>(query);
+  const [presetName, setPresetName] = useState("");
+  const [selectedPresetId, setSelectedPresetId] = useState<string>();
+  const { presets, savePreset, deletePreset } = useFilterPresets();
+  const { data: fields = [], isLoading: fieldsLoading } = useMetadataFields(
+    layerState.getVisibleLayerIds(),
+    isOpen
+  );
+
+  const fieldsByPath = useMemo(() => new Map(fields.map((field) => [field.path, field])), [fields]);
+  const expression = buildWhereExpression(draft);
+  const appliedRuleCount = query.rules.filter((rule) => buildRuleExpression(rule)).length;
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setDraft(query);
+    }
+    setIsOpen(open);
+  };
+
+  const updateRule = (id: string, changes: Partial<QueryRule>) => {
+    setDraft((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const addRule = (path: string) => {
+    const field = fieldsByPath.get(path);
+    if (field) {
+      setDraft((prev) => ({ ...prev, rules: [...prev.rules, createRule(field)] }));
+    }
+  };
+
+  const removeRule = (id: string) => {
+    setDraft((prev) => ({ ...prev, rules: prev.rules.filter((rule) => rule.id !== id) }));
+  };
+
+  const handleLoadPreset = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (preset) {
+      setSelectedPresetId(id);
+      setPresetName(preset.name);
+      setDraft(preset.query);
+      onApply(preset.query);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const preset = savePreset(presetName, draft);
+    setSelectedPresetId(preset.id);
+    onApply(draft);
+  };
+
+  const handleDeletePreset = () => {
+    if (selectedPresetId) {
+      deletePreset(selectedPresetId);
+      setSelectedPresetId(undefined);
+      setPresetName("");
+    }
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={TRIGGER_CLASS} data-testid="button-query-builder">
+          <ListFilter className="h-4 w-4 mr-2" />
+          Query
+          {appliedRuleCount > 0 && (
+            <Badge variant="secondary" className="ml-2 px-1.5 py-0 text-xs">
+              {appliedRuleCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[440px] max-w-[95vw]" align="start">
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium text-sm flex-1">Filter by Metadata</h4>
+            <Select value={selectedPresetId ?? ""} onValueChange={handleLoadPreset}>
+              <SelectTrigger className="h-8 w-40 text-xs" data-testid="select-query-preset">
+                <SelectValue placeholder={presets.length ? "Load preset" : "No presets"} />
+              </SelectTrigger>
+              <SelectContent className="z-[1002]">
+                {presets.map((preset) => (
+                  <SelectItem key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-8 w-8"
+              disabled={!selectedPresetId}
+              onClick={handleDeletePreset}
+              aria-label="Delete preset"
+              data-testid="button-delete-preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {draft.rules.length > 1 && (
+            <div className="flex items-center gap-2 text-xs">
+              <span>Match</span>
+              <Select
+                value={draft.combinator}
+                onValueChange={(combinator) =>
+                  setDraft((prev) => ({ ...prev, combinator: combinator as QueryDefinition["combinator"] }))
+                }
+              >
+                <SelectTrigger className="h-7 w-20 text-xs" data-testid="select-query-combinator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="z-[1002]">
+                  <SelectItem value="and">all</SelectItem>
+                  <SelectItem value="or">any</SelectItem>
+                </SelectContent>
+              </Select>
+              <span>of these rules</span>
+            </div>
+          )}
+
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {draft.rules.length === 0 && (
+              <p className="text-xs text-muted-foreground">Add a field to start a query.</p>
+            )}
+            {draft.rules.map((rule) => (
+              <RuleRow
+                key={rule.id}
+                rule={rule}
+                field={fieldsByPath.get(rule.field)}
+                fields={fields}
+                onChange={(changes) => updateRule(rule.id, changes)}
+                onRemove={() => removeRule(rule.id)}
+              />
+            ))}
+          </div>
+
+          <Select value="" onValueChange={addRule} disabled={fields.length === 0}>
+            <SelectTrigger className="h-8 text-xs" data-testid="select-add-rule">
+              <span className="flex items-center gap-1.5">
+                <Plus className="h-3.5 w-3.5" />
+                {fieldsLoading ? "Loading fields..." : fields.length ? "Add rule" : "No metadata fields in visible layers"}
+              </span>
+            </SelectTrigger>
+            <SelectContent className="z-[1002]">
+              {fields.map((field) => (
+                <SelectItem key={field.path} value={field.path}>
+                  {field.path} <span className="text-muted-foreground">({field.type})</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {expression && (
+            <code
+              className="block rounded bg-muted px-2 py-1 text-[11px] break-all"
+              data-testid="text-query-expression"
+            >
+              {expression}
+            </code>
+          )}
+
+          <div className="flex items-center gap-2 border-t border-border pt-3">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="h-8 text-xs"
+              data-testid="input-preset-name"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!presetName.trim() || !expression}
+              onClick={handleSavePreset}
+              data-testid="button-save-preset"
+            >
+              <Save className="h-3.5 w-3.5 mr-1.5" />
+              Save
+            </Button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setDraft({ ...draft, rules: [] });
+                setSelectedPresetId(undefined);
+              }}
+              data-testid="button-clear-query"
+            >
+              Clear
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                onApply(draft);
+                setIsOpen(false);
+              }}
+              data-testid="button-apply-query"
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function RuleRow({
+  rule,
+  field,
+  fields,
+  onChange,
+  onRemove,
+}: {
+  rule: QueryRule;
+  field: MetadataFieldInfo | undefined;
+  fields: MetadataFieldInfo[];
+  onChange: (changes: Partial<QueryRule>) => void;
+  onRemove: () => void;
+}) {
+  // Fields from a preset may not be in the visible layers; keep them selectable
+  const fieldOptions = field ? fields : [{ path: rule.field, type: rule.type, count: 0 }, ...fields];
+
+  const handleFieldChange = (path: string) => {
+    const next = fields.find((f) => f.path === path);
+    if (next) {
+      const { field: path, type, operator, values } = createRule(next);
+      onChange({ field: path, type, operator, values });
+    }
+  };
+
+  const handleOperatorChange = (operator: QueryOperator) => {
+    const isList = operator === "in" || operator === "not_in";
+    onChange({ operator, values: isList ? rule.values : rule.values.slice(0, operator === "between" ? 2 : 1) });
+  };
+
+  return (
+    <div className="flex items-start gap-1.5" data-testid={`query-rule-${rule.field}`}>
+      <Select value={rule.field} onValueChange={handleFieldChange}>
+        <SelectTrigger className="h-8 w-32 text-xs shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[1002]">
+          {fieldOptions.map((option) => (
+            <SelectItem key={option.path} value={option.path}>
+              {option.path}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={rule.operator} onValueChange={(v) => handleOperatorChange(v as QueryOperator)}>
+        <SelectTrigger className="h-8 w-28 text-xs shrink-0" data-testid={`select-operator-${rule.field}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-[1002]">
+          {OPERATORS[rule.type].map((op) => (
+            <SelectItem key={op.value} value={op.value}>
+              {op.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="flex-1 min-w-0">
+        <RuleValueInput
+          key={`${rule.field}:${rule.operator}`}
+          rule={rule}
+          field={field}
+          onChange={(values) => onChange({ values })}
+        />
+      </div>
+      <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={onRemove} aria-label="Remove rule">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function RuleValueInput({
+  rule,
+  field,
+  onChange,
+}: {
+  rule: QueryRule;
+  field: MetadataFieldInfo | undefined;
+  onChange: (values: string[]) => void;
+}) {
+  const { operator, type, values } = rule;
+  const [listText, setListText] = useState(values.join(", "));
+  const testId = `input-value-${rule.field}`;
+
+  if (operator === "exists" || operator === "not_exists") {
+    return null;
+  }
+
+  if (type === "boolean") {
+    return (
+      <Select value={values[0] ?? ""} onValueChange={(v) => onChange([v])}>
+        <SelectTrigger className="h-8 text-xs" data-testid={testId}>
+          <SelectValue placeholder="Value" />
+        </SelectTrigger>
+        <SelectContent className="z-[1002]">
+          <SelectItem value="true">true</SelectItem>
+          <SelectItem value="false">false</SelectItem>
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (type === "number") {
+    const setAt = (index: number, value: string) => {
+      const next = [...values];
+      next[index] = value;
+      onChange(next);
+    };
+    return (
+      <div className="flex items-center gap-1">
+        <Input
+          type="number"
+          value={values[0] ?? ""}
+          onChange={(e) => setAt(0, e.target.value)}
+          placeholder={field?.min !== undefined ? String(field.min) : "Value"}
+          className="h-8 text-xs"
+          data-testid={testId}
+        />
+        {operator === "between" && (
+          <Input
+            type="number"
+            value={values[1] ?? ""}
+            onChange={(e) => setAt(1, e.target.value)}
+            placeholder={field?.max !== undefined ? String(field.max) : "Value"}
+            className="h-8 text-xs"
+            data-testid={`${testId}-max`}
+          />
+        )}
+      </div>
+    );
+  }
+
+  const isList = operator === "in" || operator === "not_in";
+  const options = field?.values;
+
+  // Strings with a short list of known values are picked rather than typed
+  if (options && isList) {
+    return (
+      <div className="max-h-28 overflow-y-auto space-y-1 rounded border border-border p-1.5">
+        {options.map((option) => (
+          <div key={option} className="flex items-center gap-1.5">
+            <Checkbox
+              id={`${rule.id}-${option}`}
+              checked={values.includes(option)}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...values, option] : values.filter((v) => v !== option))
+              }
+            />
+            <Label htmlFor={`${rule.id}-${option}`} className="text-xs font-normal truncate">
+              {option || "(empty)"}
+            </Label>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (options) {
+    return (
+      <Select value={values[0]} onValueChange={(v) => onChange([v])}>
+        <SelectTrigger className="h-8 text-xs" data-testid={testId}>
+          <SelectValue placeholder="Value" />
+        </SelectTrigger>
+        <SelectContent className="z-[1002]">
+          {options.filter(Boolean).map((option) => (
+            <SelectItem key={option} value={option}>
+              {option}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (isList) {
+    return (
+      <Input
+        value={listText}
+        onChange={(e) => {
+          setListText(e.target.value);
+          onChange(e.target.value.split(",").map((v) => v.trim()).filter(Boolean));
+        }}
+        placeholder="Comma-separated values"
+        className="h-8 text-xs"
+        data-testid={testId}
+      />
+    );
+  }
+
+  return (
+    <Input
+      value={values[0] ?? ""}
+      onChange={(e) => onChange([e.target.value])}
+      placeholder="Value"
+      className="h-8 text-xs"
+      data-testid={testId}
+    />
+  );
+}
@@ -11,7 +11,10 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Calendar } from "@/components/ui/calendar";
-import { cn } from "@/lib/utils";
+import { useFacets } from "@/hooks/useFacets";
+import { buildWhereExpression, EMPTY_QUERY, type QueryDefinition } from "@/lib/queryBuilder";
+import { useMapContext } from "./MapContext";
+import { QueryBuilderPanel } from "./QueryBuilderPanel";
 
 export interface FilterState {
   searchText: string;
@@ -20,23 +23,22 @@ export interface FilterState {
     from: Date | undefined;
     to: Date | undefined;
   };
+  // Metadata where expression from the query builder
+  where?: string;
 }
 
 interface SearchFilterBarProps {
   onFilterChange: (filters: FilterState) => void;
 }
 
-const CATEGORIES = [
-  { value: "restaurant", label: "Restaurant" },
-  { value: "hotel", label: "Hotel" },
-  { value: "museum", label: "Museum" },
-  { value: "park", label: "Park" },
-  { value: "shopping", label: "Shopping" },
-  { value: "landmark", label: "Landmark" },
-  { value: "transport", label: "Transport" },
-];
+// "transmission_line" -> "Transmission Line"
+function formatCategory(category: string): string {
+  return category.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+}
 
+// Must be rendered inside MapView, which scopes the category counts to its viewport and layers
 export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
+  const { mapState, layerState } = useMapContext();
   const [searchText, setSearchText] = useState("");
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [dateRange, setDateRange] = useState<{
@@ -46,14 +48,32 @@ export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
     from: undefined,
     to: undefined,
   });
+  const [query, setQuery] = useState<QueryDefinition>(EMPTY_QUERY);
+  const where = buildWhereExpression(query);
+
+  const { data: facets, isLoading: facetsLoading } = useFacets({
+    bounds: mapState.bounds,
+    layers: layerState.getVisibleLayerIds(),
+    filters: { searchText, categories: selectedCategories, dateRange, where },
+  });
+
+  // Categories present in view, most common first; selected ones stay listed so they can be cleared
+  const categoryOptions = useMemo(() => {
+    const counts = facets?.categories ?? {};
+    const names = Array.from(new Set([...Object.keys(counts), ...selectedCategories]));
+    return names
+      .map((value) => ({ value, label: formatCategory(value), count: counts[value] ?? 0 }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }, [facets, selectedCategories]);
 
   const activeFilterCount = useMemo(() => {
     let count = 0;
     if (searchText) count++;
     if (selectedCategories.length > 0) count++;
     if (dateRange.from || dateRange.to) count++;
+    if (where) count++;
     return count;
-  }, [searchText, selectedCategories, dateRange]);
+  }, [searchText, selectedCategories, dateRange, where]);
 
   const handleSearchChange = (value: string) => {
     setSearchText(value);
@@ -61,6 +81,7 @@ export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
       searchText: value,
       categories: selectedCategories,
       dateRange,
+      where,
     });
   };
 
@@ -74,6 +95,7 @@ export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
       searchText,
       categories: newCategories,
       dateRange,
+      where,
     });
   };
 
@@ -83,6 +105,17 @@ export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
       searchText,
       categories: selectedCategories,
       dateRange: range,
+      where,
+    });
+  };
+
+  const handleQueryApply = (next: QueryDefinition) => {
+    setQuery(next);
+    onFilterChange({
+      searchText,
+      categories: selectedCategories,
+      dateRange,
+      where: buildWhereExpression(next),
     });
   };
 
@@ -90,6 +123,7 @@ export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
     setSearchText("");
     setSelectedCategories([]);
     setDateRange({ from: undefined, to: undefined });
+    setQuery(EMPTY_QUERY);
     onFilterChange({
       searchText: "",
       categories: [],
@@ -143,20 +177,31 @@ export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
           <PopoverContent className="w-56" align="start">
             <div className="space-y-3">
               <h4 className="font-medium text-sm">Filter by Category</h4>
-              <div className="space-y-2">
-                {CATEGORIES.map((category) => (
+              <div className="space-y-2 max-h-72 overflow-y-auto">
+                {categoryOptions.length === 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {facetsLoading ? "Loading categories..." : "No categories in view"}
+                  </p>
+                )}
+                {categoryOptions.map((category) => (
                   <div key={category.value} className="flex items-center space-x-2">
                     <Checkbox
-                      id={category.value}
+                      id={`category-${category.value}`}
                       checked={selectedCategories.includes(category.value)}
                       onCheckedChange={() => handleCategoryToggle(category.value)}
                     />
                     <Label
-                      htmlFor={category.value}
-                      className="text-sm font-normal cursor-pointer"
+                      htmlFor={`category-${category.value}`}
+                      className="text-sm font-normal cursor-pointer flex-1"
                     >
                       {category.label}
                     </Label>
+                    <span
+                      className="text-xs text-muted-foreground tabular-nums"
+                      data-testid={`facet-count-${category.value}`}
+                    >
+                      {category.count.toLocaleString()}
+                    </span>
                   </div>
                 ))}
               </div>
@@ -215,6 +260,9 @@ export function SearchFilterBar({ onFilterChange }: SearchFilterBarProps) {
           </PopoverContent>
         </Popover>
 
+        {/* Metadata Query Builder */}
+        <QueryBuilderPanel query={query} onApply={handleQueryApply} />
+
         {/* Clear All Button */}
         {activeFilterCount > 0 && (
           <Button
@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { Polyline, useMap, useMapEvents } from "react-leaflet";
+import { useMapContext } from "./MapContext";
+
+const CORRIDOR_COLOR = "hsl(210, 85%, 45%)";
+
+/**
+ * Stroke width in pixels covering buffer metres either side of a line at this zoom.
+ * Leaflet's round caps and joins then draw the buffer outline around the line.
+ */
+function corridorWeight(zoom: number, lat: number, buffer: number): number {
+  const metersPerPixel = (40075016.686 * Math.abs(Math.cos((lat * Math.PI) / 180))) / Math.pow(2, zoom + 8);
+  return Math.max((2 * buffer) / metersPerPixel, 2);
+}
+
+interface CorridorShapeProps {
+  positions: [number, number][]; // [lat, lng]
+  buffer: number;
+  dashed?: boolean;
+}
+
+export function CorridorShape({ positions, buffer, dashed }: CorridorShapeProps) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(() => map.getZoom());
+
+  useMapEvents({
+    zoomend() {
+      setZoom(map.getZoom());
+    },
+  });
+
+  const midLat = positions.reduce((sum, [lat]) => sum + lat, 0) / positions.length;
+
+  return (
+    <>
+      <Polyline
+        positions={positions}
+        interactive={false}
+        pathOptions={{
+          color: CORRIDOR_COLOR,
+          opacity: 0.15,
+          weight: corridorWeight(zoom, midLat, buffer),
+        }}
+      />
+      <Polyline
+        positions={positions}
+        interactive={false}
+        pathOptions={{ color: CORRIDOR_COLOR, weight: 2, dashArray: dashed ? "8, 8" : undefined }}
+      />
+    </>
+  );
+}
+
+export function SelectionCorridor() {
+  const { selectionState } = useMapContext();
+  const { corridor } = selectionState;
+
+  if (!corridor) {
+    return null;
+  }
+
+  // GeoJSON positions are [lng, lat], Leaflet expects [lat, lng]
+  const positions = corridor.line.coordinates.map(([lng, lat]) => [lat, lng] as [number, number]);
+
+  return <CorridorShape positions={positions} buffer={corridor.buffer} />;
+}
@@ -0,0 +1,28 @@
+import { Polygon } from "react-leaflet";
+import { useMapContext } from "./MapContext";
+
+export function SelectionPolygon() {
+  const { selectionState } = useMapContext();
+  const { polygon } = selectionState;
+
+  if (!polygon) {
+    return null;
+  }
+
+  // GeoJSON rings are [lng, lat], Leaflet expects [lat, lng]
+  const positions = polygon.coordinates.map((ring) =>
+    ring.map(([lng, lat]) => [lat, lng] as [number, number])
+  );
+
+  return (
+    <Polygon
+      positions={positions}
+      pathOptions={{
+        color: "hsl(210, 85%, 45%)",
+        fillColor: "hsl(210, 85%, 45%)",
+        fillOpacity: 0.1,
+        weight: 2,
+      }}
+    />
+  );
+}
@@ -4,10 +4,27 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
 import { useMapContext } from "./MapContext";
 import { getCategoryColor } from "@/lib/mapTypes";
-import type { Artifact } from "@shared/schema";
-import { useMemo } from "react";
+import { downloadExport } from "@/lib/exportArtifacts";
+import { getFilterKey, toArtifactFilter } from "@/lib/filterParams";
+import { getAreaSelection, querySelection } from "@/lib/selectionQuery";
+import type { Artifact, ExportFormat } from "@shared/schema";
+import { useEffect, useMemo, useRef, useState } from "react";
+import L from "leaflet";
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: "geojson", label: "GeoJSON" },
+  { format: "csv", label: "CSV" },
+  { format: "kml", label: "KML" },
+];
 
 interface SelectionResultsPanelProps {
   onArtifactClick?: (artifact: Artifact) => void;
@@ -16,8 +33,35 @@ interface SelectionResultsPanelProps {
 export function SelectionResultsPanel({
   onArtifactClick,
 }: SelectionResultsPanelProps) {
-  const { selectionState, clearSelection } = useMapContext();
-  const { selectedArtifacts, circle, isLoading } = selectionState;
+  const { selectionState, clearSelection, filters, setLoading, setSelectedArtifacts } = useMapContext();
+  const { selectedArtifacts, circle, polygon, corridor, isLoading } = selectionState;
+  const area = getAreaSelection(selectionState);
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Re-run the selection when the filters change, so it matches the markers on the map
+  const filterKey = getFilterKey(filters);
+  const queriedFilterKey = useRef(filterKey);
+  useEffect(() => {
+    if (queriedFilterKey.current === filterKey || !area) {
+      return;
+    }
+    queriedFilterKey.current = filterKey;
+
+    let cancelled = false;
+    setLoading(true);
+    querySelection(area, filters)
+      .then((result) => {
+        if (!cancelled) setSelectedArtifacts(result.artifacts);
+      })
+      .catch((error) => {
+        console.error("Selection query failed:", error);
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [filterKey]);
 
   const categoryStats = useMemo(() => {
     const stats: Record<string, number> = {};
@@ -27,11 +71,32 @@ export function SelectionResultsPanel({
     return Object.entries(stats).sort((a, b) => b[1] - a[1]);
   }, [selectedArtifacts]);
 
-  if (!circle) {
+  if (!area) {
     return null;
   }
 
-  const radiusInKm = (circle.radius / 1000).toFixed(2);
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const filter = toArtifactFilter(filters);
+      await downloadExport({ format, ...area, filter });
+    } catch (error) {
+      console.error("Export failed:", error);
+      toast({
+        title: "Export failed",
+        description: "The selection could not be exported. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectionSummary = circle
+    ? `Radius: ${(circle.radius / 1000).toFixed(2)} km`
+    : polygon
+      ? `Polygon: ${polygon.coordinates[0].length - 1} vertices`
+      : `Corridor: ${(lineLength(corridor!.line.coordinates) / 1000).toFixed(2)} km, ${corridor!.buffer} m either side`;
 
   return (
     <div
@@ -42,7 +107,7 @@ export function SelectionResultsPanel({
         <div>
           <h2 className="font-semibold text-lg">Area Selection</h2>
           <p className="text-sm text-muted-foreground">
-            Radius: {radiusInKm} km
+            {selectionSummary}
           </p>
         </div>
         <Button
@@ -124,15 +189,31 @@ export function SelectionResultsPanel({
               <h3 className="text-sm font-medium text-muted-foreground">
                 Items ({selectedArtifacts.length})
               </h3>
-              <Button
-                size="sm"
-                variant="ghost"
-                className="gap-1.5"
-                data-testid="button-export-selection"
-              >
-                <Download className="h-3.5 w-3.5" />
-                Export
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="gap-1.5"
+                    disabled={isExporting || selectedArtifacts.length === 0}
+                    data-testid="button-export-selection"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                    {isExporting ? "Exporting..." : "Export"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="z-[1002]">
+                  {EXPORT_OPTIONS.map(({ format, label }) => (
+                    <DropdownMenuItem
+                      key={format}
+                      onSelect={() => handleExport(format)}
+                      data-testid={`menu-export-${format}`}
+                    >
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
             <ScrollArea className="h-[calc(100%-48px)]">
               <div className="px-4 pb-4 space-y-2">
@@ -152,6 +233,17 @@ export function SelectionResultsPanel({
   );
 }
 
+// Length in metres of a [lng, lat] line
+function lineLength(coordinates: number[][]): number {
+  let length = 0;
+  for (let i = 1; i < coordinates.length; i++) {
+    const [lng1, lat1] = coordinates[i - 1];
+    const [lng2, lat2] = coordinates[i];
+    length += L.latLng(lat1, lng1).distanceTo(L.latLng(lat2, lng2));
+  }
+  return length;
+}
+
 function StatCard({
   label,
   value,
@@ -2,12 +2,21 @@ export { MapView } from "./MapContainer";
 export { MapProvider, useMapContext } from "./MapContext";
 export { MapControls } from "./MapControls";
 export { MapToolbar } from "./MapToolbar";
+export { BasemapLayer } from "./BasemapLayer";
+export { BasemapControl } from "./BasemapControl";
 export { MarkerLayer } from "./MarkerLayer";
+export { DensityLayer } from "./DensityLayer";
 export { MetadataPopup } from "./MetadataPopup";
 export { HoverTooltip } from "./HoverTooltip";
 export { SelectionResultsPanel } from "./SelectionResultsPanel";
 export { CircleDrawTool } from "./CircleDrawTool";
 export { SelectionCircle } from "./SelectionCircle";
+export { PolygonDrawTool } from "./PolygonDrawTool";
+export { SelectionPolygon } from "./SelectionPolygon";
+export { CorridorDrawTool } from "./CorridorDrawTool";
+export { SelectionCorridor } from "./SelectionCorridor";
 export { MapLoadingState } from "./MapLoadingState";
 export { MapInitializer } from "./MapInitializer";
+export { MapLegend } from "./MapLegend";
 export { SearchFilterBar, type FilterState } from "./SearchFilterBar";
+export { QueryBuilderPanel } from "./QueryBuilderPanel";
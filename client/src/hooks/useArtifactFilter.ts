@@ -1,5 +1,6 @@
 import { useMemo } from "react";
 import type { Artifact } from "@shared/schema";
+import { evaluateFilterExpression, parseFilterExpression } from "@shared/filterExpression";
 import type { FilterState } from "@/components/map/SearchFilterBar";
 
 export function useArtifactFilter(
@@ -47,6 +48,12 @@ export function useArtifactFilter(
       });
     }
 
+    // Filter by metadata where expression, with the same semantics as the server
+    if (filters.where) {
+      const expression = parseFilterExpression(filters.where);
+      filtered = filtered.filter((artifact) => evaluateFilterExpression(expression, artifact.metadata));
+    }
+
     return filtered;
   }, [artifacts, filters]);
 }
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { ArtifactHistoryEntry } from "@shared/schema";
+
+/**
+ * Recorded creates, updates and deletes of an artifact, newest first
+ */
+export function useArtifactHistory(artifactId: string | undefined) {
+  return useQuery<ArtifactHistoryEntry[]>({
+    queryKey: ["/api/artifacts/history", artifactId],
+    queryFn: async () => {
+      const response = await fetch(`/api/artifacts/${encodeURIComponent(artifactId!)}/history`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch artifact history");
+      }
+      return response.json();
+    },
+    enabled: !!artifactId,
+    staleTime: 30000,
+  });
+}
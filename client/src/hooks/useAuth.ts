@@ -0,0 +1,67 @@
+import { useCallback } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { USER_ROLES, type AuthSession, type Login, type User, type UserRole } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+const SESSION_KEY = ["/api/auth/session"];
+
+/**
+ * Who this browser is signed in as. Without server-side accounts (authRequired false)
+ * there is no user and every role check passes, as the server lets every request through.
+ */
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: session, isLoading, error } = useQuery<AuthSession>({
+    queryKey: SESSION_KEY,
+    queryFn: async () => {
+      const response = await fetch("/api/auth/session");
+      if (!response.ok) {
+        throw new Error("Failed to fetch session");
+      }
+      return response.json();
+    },
+    staleTime: Infinity,
+  });
+
+  const login = useMutation({
+    mutationFn: async (credentials: Login): Promise<User> => {
+      const response = await apiRequest("POST", "/api/auth/login", credentials);
+      return response.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData<AuthSession>(SESSION_KEY, { authRequired: true, user });
+    },
+  });
+
+  // Drops every cached query, so the next user does not see this one's data
+  const logout = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData<AuthSession>(SESSION_KEY, { authRequired: true, user: null });
+    },
+  });
+
+  const user = session?.user ?? null;
+  const authRequired = session?.authRequired ?? false;
+
+  const hasRole = useCallback(
+    (role: UserRole) => !authRequired || (!!user && USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role)),
+    [authRequired, user]
+  );
+
+  return {
+    user,
+    authRequired,
+    // False when the session could not be loaded, so the map still shows and reports its own errors
+    needsLogin: authRequired && !user,
+    isLoading,
+    error,
+    hasRole,
+    login,
+    logout,
+  };
+}
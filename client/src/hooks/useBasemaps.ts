@@ -0,0 +1,66 @@
+import { useCallback, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { OSM_BASEMAP, type Basemap, type UserPreferences } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface TileInfo {
+  basemaps?: Basemap[];
+}
+
+/**
+ * Basemap registry from /api/tiles/info and this browser's choice, kept in /api/preferences.
+ * Without a choice (or if the chosen one is gone) the registry's first basemap is used, which
+ * is a local one when the server has local tiles. No basemap is chosen until both have loaded.
+ */
+export function useBasemaps() {
+  const queryClient = useQueryClient();
+
+  const { data: tileInfo, isLoading: tileInfoLoading, error } = useQuery<TileInfo>({
+    queryKey: ["/api/tiles/info"],
+    queryFn: async () => {
+      const response = await fetch("/api/tiles/info");
+      if (!response.ok) {
+        throw new Error("Failed to fetch tile info");
+      }
+      return response.json();
+    },
+    staleTime: 300000,
+  });
+
+  const { data: preferences, isLoading: preferencesLoading } = useQuery<UserPreferences>({
+    queryKey: ["/api/preferences"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/preferences");
+      return response.json();
+    },
+  });
+
+  // Switches take effect before the preference is saved
+  const [selectedId, setSelectedId] = useState<string>();
+
+  const basemapMutation = useMutation({
+    mutationFn: async (basemap: string): Promise<UserPreferences> => {
+      const response = await apiRequest("PATCH", "/api/preferences", { basemap });
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/preferences"], updated);
+    },
+  });
+
+  // Fall back to OpenStreetMap only if the registry could not be loaded
+  const basemaps = tileInfo?.basemaps?.length ? tileInfo.basemaps : error ? [OSM_BASEMAP] : [];
+  const isLoading = tileInfoLoading || preferencesLoading;
+  const activeId = selectedId ?? preferences?.basemap;
+  const basemap = isLoading ? undefined : (basemaps.find((b) => b.id === activeId) ?? basemaps[0]);
+
+  const selectBasemap = useCallback(
+    (id: string) => {
+      setSelectedId(id);
+      basemapMutation.mutate(id);
+    },
+    [basemapMutation]
+  );
+
+  return { basemaps, basemap, isLoading, selectBasemap };
+}
@@ -0,0 +1,71 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { changeEventSchema, type ChangeEvent } from "@shared/schema";
+import { applyChangeEvents } from "@/lib/changeFeed";
+
+// Events arriving this close together are applied as one cache update
+const BATCH_DELAY = 250;
+
+const EVENT_TYPES = changeEventSchema.options.map((option) => option.shape.type.value);
+
+/**
+ * Follows /api/events and patches the React Query caches with other users' changes.
+ * Events sent while disconnected are lost, so every query is refetched after a reconnect.
+ */
+export function useChangeFeed(layers?: string[]) {
+  const queryClient = useQueryClient();
+  const layerKey = layers?.slice().sort().join(",") ?? "";
+
+  useEffect(() => {
+    // Not available outside browsers
+    if (typeof EventSource === "undefined") {
+      return;
+    }
+
+    const source = new EventSource(
+      layerKey ? `/api/events?${new URLSearchParams({ layers: layerKey })}` : "/api/events"
+    );
+
+    let pending: ChangeEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let disconnected = false;
+
+    const flush = () => {
+      timer = undefined;
+      const events = pending;
+      pending = [];
+      applyChangeEvents(queryClient, events);
+    };
+
+    const onChange = (message: MessageEvent<string>) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      const parsed = changeEventSchema.safeParse(data);
+      if (!parsed.success) {
+        return;
+      }
+      pending.push(parsed.data);
+      timer ??= setTimeout(flush, BATCH_DELAY);
+    };
+
+    EVENT_TYPES.forEach((type) => source.addEventListener(type, onChange));
+    source.onerror = () => {
+      disconnected = true;
+    };
+    source.onopen = () => {
+      if (disconnected) {
+        disconnected = false;
+        queryClient.invalidateQueries();
+      }
+    };
+
+    return () => {
+      clearTimeout(timer);
+      source.close();
+    };
+  }, [queryClient, layerKey]);
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import type { ClusterChildren, ClusterData, ViewportResponse } from "@shared/schema";
+import type { FilterState } from "@/components/map/SearchFilterBar";
+import { appendFilterParams, getFilterKey } from "@/lib/filterParams";
+
+interface UseClusterExpansionOptions {
+  data?: ViewportResponse;
+  layers?: string[];
+  filters?: FilterState;
+}
+
+/**
+ * Viewport clusters with the expanded ones replaced in place by their children.
+ * Expansions are cleared whenever the viewport data changes.
+ */
+export function useClusterExpansion({ data, layers, filters }: UseClusterExpansionOptions) {
+  const queryClient = useQueryClient();
+  const [expansions, setExpansions] = useState<Map<string, ClusterChildren>>(() => new Map());
+  const layerKey = layers?.slice().sort().join(",") || "all";
+  const filterKey = getFilterKey(filters);
+
+  useEffect(() => {
+    setExpansions(new Map());
+  }, [data]);
+
+  const expand = useCallback(
+    async (cluster: ClusterData) => {
+      const children = await queryClient.fetchQuery<ClusterChildren>({
+        queryKey: ["/api/clusters", cluster.id, "children", layerKey, filterKey],
+        queryFn: async () => {
+          const params = new URLSearchParams();
+          if (layers && layers.length > 0) {
+            params.set("layers", layers.join(","));
+          }
+          appendFilterParams(params, filters);
+
+          const response = await fetch(`/api/clusters/${encodeURIComponent(cluster.id)}/children?${params}`);
+          if (!response.ok) {
+            throw new Error("Failed to fetch cluster children");
+          }
+          return response.json();
+        },
+        staleTime: 30000,
+      });
+      setExpansions((current) => new Map(current).set(cluster.id, children));
+    },
+    [queryClient, layers, filters, layerKey, filterKey]
+  );
+
+  const expanded = useMemo(() => {
+    const clusters: ClusterData[] = [];
+    const singles = [...(data?.singles ?? [])];
+
+    const add = (cluster: ClusterData) => {
+      const children = expansions.get(cluster.id);
+      if (!children) {
+        clusters.push(cluster);
+        return;
+      }
+      children.clusters.forEach(add);
+      singles.push(...children.singles);
+    };
+    data?.clusters.forEach(add);
+
+    return { clusters, singles };
+  }, [data, expansions]);
+
+  return { ...expanded, expand };
+}
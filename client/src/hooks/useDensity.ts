@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Bounds, DensityResponse } from "@shared/schema";
+import type { FilterState } from "@/components/map/SearchFilterBar";
+import { appendFilterParams, getFilterKey } from "@/lib/filterParams";
+import { roundBounds } from "./useViewportArtifacts";
+
+interface UseDensityOptions {
+  bounds: Bounds | null;
+  zoom: number;
+  layers?: string[];
+  filters?: FilterState;
+  enabled?: boolean;
+}
+
+/**
+ * Hexagon artifact counts for the density overlay, on the server's grid for the zoom
+ */
+export function useDensity({ bounds, zoom, layers, filters, enabled = true }: UseDensityOptions) {
+  const roundedBounds = bounds ? roundBounds(bounds) : null;
+  const roundedZoom = Math.round(zoom);
+  const layerKey = layers?.slice().sort().join(",") || "all";
+  const filterKey = getFilterKey(filters);
+
+  return useQuery<DensityResponse>({
+    queryKey: ["/api/artifacts/density", roundedBounds, roundedZoom, layerKey, filterKey],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        north: roundedBounds!.north.toString(),
+        south: roundedBounds!.south.toString(),
+        east: roundedBounds!.east.toString(),
+        west: roundedBounds!.west.toString(),
+        zoom: roundedZoom.toString(),
+      });
+      if (layers && layers.length > 0) {
+        params.set("layers", layers.join(","));
+      }
+      appendFilterParams(params, filters);
+
+      const response = await fetch(`/api/artifacts/density?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch density");
+      }
+      return response.json();
+    },
+    enabled: enabled && !!roundedBounds,
+    placeholderData: (previousData) => previousData,
+    staleTime: 30000,
+  });
+}
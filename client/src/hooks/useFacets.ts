@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Bounds, FacetResult } from "@shared/schema";
+import type { FilterState } from "@/components/map/SearchFilterBar";
+import { appendFilterParams, getFilterKey } from "@/lib/filterParams";
+import { roundBounds } from "./useViewportArtifacts";
+
+interface UseFacetsOptions {
+  bounds: Bounds | null;
+  layers?: string[];
+  filters?: FilterState;
+  fields?: string[];
+}
+
+/**
+ * Live category (and optional metadata field) counts for the current viewport
+ */
+export function useFacets({ bounds, layers, filters, fields = [] }: UseFacetsOptions) {
+  const roundedBounds = bounds ? roundBounds(bounds) : null;
+  const layerKey = layers?.slice().sort().join(",") || "all";
+  const filterKey = getFilterKey(filters);
+  const fieldKey = fields.join(",");
+
+  return useQuery<FacetResult>({
+    queryKey: ["/api/artifacts/facets", roundedBounds, layerKey, filterKey, fieldKey],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (roundedBounds) {
+        params.set("north", roundedBounds.north.toString());
+        params.set("south", roundedBounds.south.toString());
+        params.set("east", roundedBounds.east.toString());
+        params.set("west", roundedBounds.west.toString());
+      }
+      if (layers && layers.length > 0) {
+        params.set("layers", layers.join(","));
+      }
+      if (fields.length > 0) {
+        params.set("fields", fieldKey);
+      }
+      appendFilterParams(params, filters);
+
+      const response = await fetch(`/api/artifacts/facets?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch facets");
+      }
+      return response.json();
+    },
+    enabled: !!roundedBounds,
+    placeholderData: (previousData) => previousData,
+    staleTime: 30000,
+  });
+}
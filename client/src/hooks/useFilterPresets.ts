@@ -0,0 +1,68 @@
+import { useCallback, useState } from "react";
+import type { QueryDefinition } from "@/lib/queryBuilder";
+
+const PRESETS_KEY = "mapui-filter-presets";
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  query: QueryDefinition;
+}
+
+function isPreset(value: unknown): value is FilterPreset {
+  const preset = value as FilterPreset;
+  return (
+    typeof preset?.id === "string" &&
+    typeof preset.name === "string" &&
+    (preset.query?.combinator === "and" || preset.query?.combinator === "or") &&
+    Array.isArray(preset.query.rules)
+  );
+}
+
+function readPresets(): FilterPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Named query builder filters, kept in this browser's localStorage
+ */
+export function useFilterPresets() {
+  const [presets, setPresets] = useState<FilterPreset[]>(readPresets);
+
+  const persist = useCallback((next: FilterPreset[]) => {
+    setPresets(next);
+    try {
+      localStorage.setItem(PRESETS_KEY, JSON.stringify(next));
+    } catch {
+      // Storage blocked (private mode) - presets last for this session only
+    }
+  }, []);
+
+  // Saving under an existing name replaces that preset
+  const savePreset = useCallback(
+    (name: string, query: QueryDefinition): FilterPreset => {
+      const trimmed = name.trim();
+      const existing = presets.find((p) => p.name.toLowerCase() === trimmed.toLowerCase());
+      const preset: FilterPreset = { id: existing?.id ?? `preset-${Date.now()}`, name: trimmed, query };
+      persist(
+        existing
+          ? presets.map((p) => (p.id === existing.id ? preset : p))
+          : [...presets, preset].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      return preset;
+    },
+    [presets, persist]
+  );
+
+  const deletePreset = useCallback(
+    (id: string) => persist(presets.filter((p) => p.id !== id)),
+    [presets, persist]
+  );
+
+  return { presets, savePreset, deletePreset };
+}
@@ -0,0 +1,53 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertLayer, Layer, UpdateLayer } from "@shared/schema";
+
+export type DeleteLayerOptions = { cascade: true } | { reassignTo: string };
+
+export function useLayerAdmin() {
+  const queryClient = useQueryClient();
+
+  // Layer edits change names and counts; deletes also move or remove artifacts on the map
+  const invalidateLayers = () => queryClient.invalidateQueries({ queryKey: ["/api/layers"] });
+  const invalidateArtifacts = () => {
+    invalidateLayers();
+    queryClient.invalidateQueries({ queryKey: ["/api/artifacts/viewport"] });
+  };
+
+  const createLayer = useMutation({
+    mutationFn: async (layer: InsertLayer): Promise<Layer> => {
+      const response = await apiRequest("POST", "/api/layers", layer);
+      return response.json();
+    },
+    onSuccess: invalidateLayers,
+  });
+
+  const updateLayer = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateLayer }): Promise<Layer> => {
+      const response = await apiRequest("PATCH", `/api/layers/${encodeURIComponent(id)}`, updates);
+      return response.json();
+    },
+    onSuccess: invalidateLayers,
+  });
+
+  // Default visibility for browsers that have not toggled the layer themselves
+  const setDefaultVisibility = useMutation({
+    mutationFn: async ({ id, visible }: { id: string; visible: boolean }): Promise<Layer> => {
+      const response = await apiRequest("PATCH", `/api/layers/${encodeURIComponent(id)}/visibility`, { visible });
+      return response.json();
+    },
+    onSuccess: invalidateLayers,
+  });
+
+  const deleteLayer = useMutation({
+    mutationFn: async ({ id, options }: { id: string; options: DeleteLayerOptions }) => {
+      const params = new URLSearchParams(
+        "cascade" in options ? { cascade: "true" } : { reassignTo: options.reassignTo }
+      );
+      await apiRequest("DELETE", `/api/layers/${encodeURIComponent(id)}?${params}`);
+    },
+    onSuccess: invalidateArtifacts,
+  });
+
+  return { createLayer, updateLayer, setDefaultVisibility, deleteLayer };
+}
@@ -1,10 +1,11 @@
 import { useState, useCallback, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Layer } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import type { Layer, UserPreferences } from "@shared/schema";
 
 export function useLayerState() {
   const queryClient = useQueryClient();
-  const hasInitialized = useRef(false);
+  const knownLayerIds = useRef<Set<string>>(new Set());
 
   // Fetch all layers from the API
   const {
@@ -23,21 +24,43 @@ export function useLayerState() {
     staleTime: 60000, // Consider fresh for 1 minute
   });
 
+  // This browser's visibility overrides; a layer's own `visible` flag is only the default
+  const { data: preferences, isLoading: preferencesLoading } = useQuery<UserPreferences>({
+    queryKey: ["/api/preferences"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/preferences");
+      return response.json();
+    },
+  });
+
   // Local state for visible layers (for optimistic updates)
   const [visibleLayers, setVisibleLayers] = useState<Set<string>>(new Set());
 
-  // Initialize visible layers from server data - only once on first load
+  // Initialize visibility the first time each layer is seen, so later refetches keep
+  // local toggles but layers created since still show up. Waits for preferences to
+  // settle; if they fail to load the layer defaults are used.
   useEffect(() => {
-    if (layers.length > 0 && !hasInitialized.current) {
-      hasInitialized.current = true;
-      const visible = new Set(
-        layers.filter((l) => l.visible).map((l) => l.id)
-      );
-      setVisibleLayers(visible);
+    if (preferencesLoading) {
+      return;
+    }
+    const newLayers = layers.filter((l) => !knownLayerIds.current.has(l.id));
+    if (newLayers.length === 0) {
+      return;
     }
-  }, [layers]);
+    newLayers.forEach((l) => knownLayerIds.current.add(l.id));
+    const newlyVisible = newLayers
+      .filter((l) => preferences?.layerVisibility?.[l.id] ?? l.visible)
+      .map((l) => l.id);
+    if (newlyVisible.length > 0) {
+      setVisibleLayers((prev) => new Set([...Array.from(prev), ...newlyVisible]));
+    }
+  }, [layers, preferences, preferencesLoading]);
+
+  // Hexagon density overlay, drawn from the visible layers
+  const [densityVisible, setDensityVisible] = useState(false);
+  const toggleDensity = useCallback(() => setDensityVisible((prev) => !prev), []);
 
-  // Mutation for updating layer visibility
+  // Mutation for saving this browser's layer visibility
   const visibilityMutation = useMutation({
     mutationFn: async ({
       layerId,
@@ -45,20 +68,14 @@ export function useLayerState() {
     }: {
       layerId: string;
       visible: boolean;
-    }) => {
-      const response = await fetch(`/api/layers/${layerId}/visibility`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ visible }),
+    }): Promise<UserPreferences> => {
+      const response = await apiRequest("PATCH", "/api/preferences", {
+        layerVisibility: { [layerId]: visible },
       });
-      if (!response.ok) {
-        throw new Error("Failed to update layer visibility");
-      }
       return response.json();
     },
-    onSuccess: () => {
-      // Invalidate layers query to refetch
-      queryClient.invalidateQueries({ queryKey: ["/api/layers"] });
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/preferences"], updated);
     },
   });
 
@@ -78,7 +95,7 @@ export function useLayerState() {
         return next;
       });
 
-      // Persist to server
+      // Persist for this browser
       visibilityMutation.mutate({ layerId, visible: newVisible });
     },
     [visibleLayers, visibilityMutation]
@@ -105,11 +122,13 @@ export function useLayerState() {
   return {
     layers,
     visibleLayers,
-    isLoading,
+    isLoading: isLoading || preferencesLoading,
     error,
     toggleLayer,
     setLayersVisible,
     getVisibleLayerIds,
     isLayerVisible,
+    densityVisible,
+    toggleDensity,
   };
 }
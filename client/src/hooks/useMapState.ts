@@ -1,9 +1,19 @@
 import { useState, useCallback } from "react";
 import type { MapState, SelectionState, DrawingMode } from "@/lib/mapTypes";
-import type { Bounds, CircleSelection, Artifact } from "@shared/schema";
+import type { Bounds, CircleSelection, PolygonSelection, CorridorSelection, Artifact } from "@shared/schema";
 
 const DEFAULT_CENTER: [number, number] = [40.7128, -74.006];
 const DEFAULT_ZOOM = 12;
+const DEFAULT_CORRIDOR_BUFFER = 50; // metres either side of the line
+
+const EMPTY_SELECTION: SelectionState = {
+  isDrawing: false,
+  circle: null,
+  polygon: null,
+  corridor: null,
+  selectedArtifacts: [],
+  isLoading: false,
+};
 
 export function useMapState() {
   const [mapState, setMapState] = useState<MapState>({
@@ -12,15 +22,12 @@ export function useMapState() {
     bounds: null,
   });
 
-  const [selectionState, setSelectionState] = useState<SelectionState>({
-    isDrawing: false,
-    circle: null,
-    selectedArtifacts: [],
-    isLoading: false,
-  });
+  const [selectionState, setSelectionState] = useState<SelectionState>(EMPTY_SELECTION);
 
   const [drawingMode, setDrawingMode] = useState<DrawingMode>("none");
 
+  const [corridorBuffer, setCorridorBuffer] = useState(DEFAULT_CORRIDOR_BUFFER);
+
   const updateBounds = useCallback((bounds: Bounds) => {
     setMapState((prev) => ({ ...prev, bounds }));
   }, []);
@@ -33,12 +40,14 @@ export function useMapState() {
     setMapState((prev) => ({ ...prev, center }));
   }, []);
 
-  const startDrawing = useCallback(() => {
-    setDrawingMode("circle");
+  const startDrawing = useCallback((mode: Exclude<DrawingMode, "none"> = "circle") => {
+    setDrawingMode(mode);
     setSelectionState((prev) => ({
       ...prev,
       isDrawing: true,
       circle: null,
+      polygon: null,
+      corridor: null,
       selectedArtifacts: [],
     }));
   }, []);
@@ -47,10 +56,33 @@ export function useMapState() {
     (circle: CircleSelection, artifacts: Artifact[]) => {
       setDrawingMode("none");
       setSelectionState({
-        isDrawing: false,
+        ...EMPTY_SELECTION,
         circle,
         selectedArtifacts: artifacts,
-        isLoading: false,
+      });
+    },
+    []
+  );
+
+  const finishPolygonDrawing = useCallback(
+    (polygon: PolygonSelection, artifacts: Artifact[]) => {
+      setDrawingMode("none");
+      setSelectionState({
+        ...EMPTY_SELECTION,
+        polygon,
+        selectedArtifacts: artifacts,
+      });
+    },
+    []
+  );
+
+  const finishCorridorDrawing = useCallback(
+    (corridor: CorridorSelection, artifacts: Artifact[]) => {
+      setDrawingMode("none");
+      setSelectionState({
+        ...EMPTY_SELECTION,
+        corridor,
+        selectedArtifacts: artifacts,
       });
     },
     []
@@ -58,12 +90,7 @@ export function useMapState() {
 
   const clearSelection = useCallback(() => {
     setDrawingMode("none");
-    setSelectionState({
-      isDrawing: false,
-      circle: null,
-      selectedArtifacts: [],
-      isLoading: false,
-    });
+    setSelectionState(EMPTY_SELECTION);
   }, []);
 
   const setSelectedArtifacts = useCallback((artifacts: Artifact[]) => {
@@ -82,11 +109,15 @@ export function useMapState() {
     mapState,
     selectionState,
     drawingMode,
+    corridorBuffer,
+    setCorridorBuffer,
     updateBounds,
     updateZoom,
     updateCenter,
     startDrawing,
     finishDrawing,
+    finishPolygonDrawing,
+    finishCorridorDrawing,
     clearSelection,
     setSelectedArtifacts,
     setLoading,
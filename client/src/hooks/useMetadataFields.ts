@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import type { MetadataFieldInfo } from "@shared/schema";
+
+/**
+ * Metadata fields (with their value types) found on the given layers, for the query builder
+ */
+export function useMetadataFields(layers?: string[], enabled = true) {
+  const layerKey = layers?.slice().sort().join(",") || "all";
+
+  return useQuery<MetadataFieldInfo[]>({
+    queryKey: ["/api/metadata/fields", layerKey],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (layers && layers.length > 0) {
+        params.set("layers", layerKey);
+      }
+
+      const response = await fetch(`/api/metadata/fields?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch metadata fields");
+      }
+      return response.json();
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { DEFAULT_NEAREST, MAX_NEAREST, type Artifact, type NearbyArtifact } from "@shared/schema";
+import type { FilterState } from "@/components/map/SearchFilterBar";
+import { appendFilterParams, getFilterKey } from "@/lib/filterParams";
+
+interface UseNearestArtifactsOptions {
+  artifact: Artifact | null;
+  k?: number;
+  layers?: string[];
+  filters?: FilterState;
+}
+
+/**
+ * The k artifacts closest to the given one (excluding itself), nearest first
+ */
+export function useNearestArtifacts({
+  artifact,
+  k = DEFAULT_NEAREST,
+  layers,
+  filters,
+}: UseNearestArtifactsOptions) {
+  const layerKey = layers?.slice().sort().join(",") || "all";
+  const filterKey = getFilterKey(filters);
+
+  return useQuery<NearbyArtifact[], Error, NearbyArtifact[]>({
+    queryKey: ["/api/artifacts/nearest", artifact?.id, k, layerKey, filterKey],
+    queryFn: async () => {
+      // One extra, since the artifact itself is usually the closest match
+      const params = new URLSearchParams({
+        lat: artifact!.lat.toString(),
+        lng: artifact!.lng.toString(),
+        k: Math.min(k + 1, MAX_NEAREST).toString(),
+      });
+      if (layers && layers.length > 0) {
+        params.set("layers", layers.join(","));
+      }
+      appendFilterParams(params, filters);
+
+      const response = await fetch(`/api/artifacts/nearest?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch nearest artifacts");
+      }
+      return response.json();
+    },
+    select: (nearest) => nearest.filter((n) => n.artifact.id !== artifact?.id).slice(0, k),
+    enabled: !!artifact,
+    staleTime: 30000,
+  });
+}
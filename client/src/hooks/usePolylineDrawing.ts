@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMap, useMapEvents } from "react-leaflet";
+import { useMapContext } from "@/components/map/MapContext";
+import type { DrawingMode } from "@/lib/mapTypes";
+
+// Clicks within this many pixels of a vertex hit it: the repeat of a double-click or closing a ring
+const VERTEX_HIT_PIXELS = 10;
+
+interface PolylineDrawingOptions {
+  // Clicking the first vertex again, once there are three, finishes the drawing as a ring
+  closeOnFirstVertex?: boolean;
+}
+
+/**
+ * Vertex capture for click-to-draw tools while `mode` is the drawing mode: clicks add
+ * vertices, a double-click finishes, and Escape cancels. `onComplete` gets the vertices
+ * as [lat, lng] and decides whether they make a shape; the drawing is reset either way.
+ */
+export function usePolylineDrawing(
+  mode: Exclude<DrawingMode, "none">,
+  onComplete: (points: [number, number][]) => void,
+  { closeOnFirstVertex = false }: PolylineDrawingOptions = {}
+) {
+  const map = useMap();
+  const { drawingMode, clearSelection } = useMapContext();
+  const isActive = drawingMode === mode;
+
+  // Vertices as [lat, lng] for Leaflet; the ref lets a double-click see the points its clicks just added
+  const [vertices, setVertices] = useState<[number, number][]>([]);
+  const verticesRef = useRef<[number, number][]>([]);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+
+  const updateVertices = useCallback((next: [number, number][]) => {
+    verticesRef.current = next;
+    setVertices(next);
+  }, []);
+
+  const resetDrawing = useCallback(() => {
+    updateVertices([]);
+    setCursor(null);
+  }, [updateVertices]);
+
+  const isNearPixel = useCallback(
+    (a: [number, number], b: [number, number]) =>
+      map.latLngToContainerPoint(a).distanceTo(map.latLngToContainerPoint(b)) <= VERTEX_HIT_PIXELS,
+    [map]
+  );
+
+  const complete = (points: [number, number][]) => {
+    resetDrawing();
+    onComplete(points);
+  };
+
+  useMapEvents({
+    click(e) {
+      if (!isActive) return;
+      const current = verticesRef.current;
+      const point: [number, number] = [e.latlng.lat, e.latlng.lng];
+
+      if (closeOnFirstVertex && current.length >= 3 && isNearPixel(current[0], point)) {
+        complete(current);
+        return;
+      }
+      // Ignore the repeated click of a double-click
+      if (current.length > 0 && isNearPixel(current[current.length - 1], point)) {
+        return;
+      }
+      updateVertices([...current, point]);
+    },
+    dblclick(e) {
+      if (!isActive) return;
+      e.originalEvent.preventDefault();
+      complete(verticesRef.current);
+    },
+    mousemove(e) {
+      if (!isActive || vertices.length === 0) return;
+      setCursor([e.latlng.lat, e.latlng.lng]);
+    },
+  });
+
+  // Escape cancels the drawing
+  useEffect(() => {
+    if (!isActive) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        resetDrawing();
+        clearSelection();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isActive, resetDrawing, clearSelection]);
+
+  // Double-click finishes the drawing instead of zooming
+  useEffect(() => {
+    if (!isActive) {
+      resetDrawing();
+      return;
+    }
+
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = "crosshair";
+
+    return () => {
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = "";
+    };
+  }, [isActive, map, resetDrawing]);
+
+  return { isActive, vertices, cursor };
+}
@@ -1,16 +1,19 @@
 import { useQuery } from "@tanstack/react-query";
 import type { Bounds, ViewportResponse } from "@shared/schema";
+import type { FilterState } from "@/components/map/SearchFilterBar";
+import { appendFilterParams, getFilterKey } from "@/lib/filterParams";
 
 interface UseViewportArtifactsOptions {
   bounds: Bounds | null;
   zoom: number;
   limit?: number;
   layers?: string[];
+  filters?: FilterState;
 }
 
 // Round bounds to 3 decimal places for cache key stability
 // This prevents excessive refetching on minor viewport changes
-function roundBounds(bounds: Bounds): Bounds {
+export function roundBounds(bounds: Bounds): Bounds {
   return {
     north: Math.round(bounds.north * 1000) / 1000,
     south: Math.round(bounds.south * 1000) / 1000,
@@ -24,11 +27,13 @@ export function useViewportArtifacts({
   zoom,
   limit = 5000,
   layers,
+  filters,
 }: UseViewportArtifactsOptions) {
   const roundedBounds = bounds ? roundBounds(bounds) : null;
   const roundedZoom = Math.round(zoom);
   // Create stable key for layers array
   const layerKey = layers?.sort().join(",") || "all";
+  const filterKey = getFilterKey(filters);
 
   return useQuery<ViewportResponse>({
     queryKey: [
@@ -37,6 +42,7 @@ export function useViewportArtifacts({
       roundedZoom,
       limit,
       layerKey,
+      filterKey,
     ],
     queryFn: async () => {
       if (!roundedBounds) {
@@ -62,6 +68,9 @@ export function useViewportArtifacts({
         params.set("layers", layers.join(","));
       }
 
+      // Search, category and date filters are applied server-side before clustering
+      appendFilterParams(params, filters);
+
       const response = await fetch(`/api/artifacts/viewport?${params}`);
       if (!response.ok) {
         throw new Error("Failed to fetch viewport data");
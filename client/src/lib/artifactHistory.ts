@@ -0,0 +1,43 @@
+import type { Artifact, ArtifactHistoryEntry } from "@shared/schema";
+
+export interface HistoryChange {
+  field: string; // "name", "position" or "metadata.<key>"
+  before?: string;
+  after?: string;
+}
+
+function formatValue(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function formatPosition(artifact: Artifact | undefined): string | undefined {
+  return artifact && `${artifact.lat.toFixed(6)}, ${artifact.lng.toFixed(6)}`;
+}
+
+/**
+ * Fields that differ between the before and after versions of a history entry. Creates list
+ * every set field with only an after value, deletes with only a before value.
+ */
+export function getHistoryChanges({ before, after }: ArtifactHistoryEntry): HistoryChange[] {
+  const changes: HistoryChange[] = [];
+  const add = (field: string, from: string | undefined, to: string | undefined) => {
+    if (from !== to) {
+      changes.push({ field, before: from, after: to });
+    }
+  };
+
+  for (const field of ["name", "category", "layer", "description"] as const) {
+    add(field, formatValue(before?.[field]), formatValue(after?.[field]));
+  }
+  add("position", formatPosition(before), formatPosition(after));
+
+  const keys = new Set([...Object.keys(before?.metadata ?? {}), ...Object.keys(after?.metadata ?? {})]);
+  Array.from(keys)
+    .sort()
+    .forEach((key) => add(`metadata.${key}`, formatValue(before?.metadata?.[key]), formatValue(after?.metadata?.[key])));
+
+  return changes;
+}
@@ -0,0 +1,170 @@
+import type { Query, QueryClient } from "@tanstack/react-query";
+import {
+  CLUSTER_MAX_ZOOM,
+  type Artifact,
+  type Bounds,
+  type ChangeEvent,
+  type Layer,
+  type ViewportResponse,
+} from "@shared/schema";
+
+// Artifact queries that are refetched rather than patched after any artifact change
+const DERIVED_QUERY_KEYS = [
+  "/api/artifacts/density",
+  "/api/artifacts/facets",
+  "/api/artifacts/history",
+  "/api/artifacts/nearest",
+  "/api/metadata/fields",
+  "/api/clusters",
+];
+
+// ["/api/artifacts/viewport", roundedBounds, roundedZoom, limit, layerKey, filterKey]
+type ViewportQueryKey = [string, Bounds | null, number, number, string, string];
+
+function inLayers(artifact: Artifact, layerKey: string): boolean {
+  return layerKey === "all" || layerKey.split(",").includes(artifact.layer);
+}
+
+function inBounds(artifact: Artifact, bounds: Bounds): boolean {
+  return (
+    artifact.lat >= bounds.south &&
+    artifact.lat <= bounds.north &&
+    artifact.lng >= bounds.west &&
+    artifact.lng <= bounds.east
+  );
+}
+
+/**
+ * Collects the changes from a batch of events so each query is patched or refetched once
+ */
+class CacheUpdate {
+  private stale = new Set<Query>();
+  private derivedStale = false;
+
+  constructor(private queryClient: QueryClient) {}
+
+  apply(event: ChangeEvent): void {
+    switch (event.type) {
+      case "artifact.created":
+        this.adjustLayerCount(event.artifact.layer, 1);
+        this.updateViewports(undefined, event.artifact);
+        break;
+      case "artifact.updated":
+        if (event.previous.layer !== event.artifact.layer) {
+          this.adjustLayerCount(event.previous.layer, -1);
+          this.adjustLayerCount(event.artifact.layer, 1);
+        }
+        this.updateViewports(event.previous, event.artifact);
+        break;
+      case "artifact.deleted":
+        this.adjustLayerCount(event.artifact.layer, -1);
+        this.updateViewports(event.artifact, undefined);
+        break;
+      case "artifacts.imported":
+        this.markStale("/api/layers");
+        this.markStale("/api/artifacts/viewport");
+        this.derivedStale = true;
+        break;
+      case "layer.created":
+      case "layer.updated":
+        this.updateLayers((layers) => {
+          const index = layers.findIndex((layer) => layer.id === event.layer.id);
+          return index === -1
+            ? [...layers, event.layer]
+            : layers.map((layer, i) => (i === index ? event.layer : layer));
+        });
+        break;
+      case "layer.deleted":
+        this.updateLayers((layers) => layers.filter((layer) => layer.id !== event.id));
+        if (event.reassignTo) {
+          this.markStale("/api/layers");
+        }
+        this.markStale("/api/artifacts/viewport");
+        this.derivedStale = true;
+        break;
+    }
+  }
+
+  async flush(): Promise<void> {
+    const stale = this.stale;
+    const derivedStale = this.derivedStale;
+    this.stale = new Set();
+    this.derivedStale = false;
+
+    await this.queryClient.invalidateQueries({
+      predicate: (query) =>
+        stale.has(query) || (derivedStale && DERIVED_QUERY_KEYS.includes(query.queryKey[0] as string)),
+    });
+  }
+
+  private markStale(key: string): void {
+    this.queryClient
+      .getQueryCache()
+      .findAll({ queryKey: [key] })
+      .forEach((query) => this.stale.add(query));
+  }
+
+  private updateLayers(update: (layers: Layer[]) => Layer[]): void {
+    this.queryClient.setQueryData<Layer[]>(["/api/layers"], (layers) => layers && update(layers));
+  }
+
+  private adjustLayerCount(layerId: string, delta: number): void {
+    this.updateLayers((layers) =>
+      layers.map((layer) =>
+        layer.id === layerId ? { ...layer, artifactCount: Math.max(0, layer.artifactCount + delta) } : layer
+      )
+    );
+  }
+
+  /**
+   * Moves an artifact in every cached viewport it was or is now in. Unfiltered, untruncated
+   * responses of individual artifacts are patched in place; clustered, filtered or truncated
+   * ones are refetched, since the server decides what they hold.
+   */
+  private updateViewports(before: Artifact | undefined, after: Artifact | undefined): void {
+    this.derivedStale = true;
+    const queries = this.queryClient.getQueryCache().findAll({ queryKey: ["/api/artifacts/viewport"] });
+
+    for (const query of queries) {
+      const [, bounds, zoom, , layerKey, filterKey] = query.queryKey as ViewportQueryKey;
+      const data = query.state.data as ViewportResponse | undefined;
+      const inLayer = [before, after].some((artifact) => artifact && inLayers(artifact, layerKey));
+      if (!bounds || !data || !inLayer) {
+        continue;
+      }
+
+      if (zoom <= CLUSTER_MAX_ZOOM) {
+        this.stale.add(query);
+        continue;
+      }
+
+      const wasShown = before && inLayers(before, layerKey) && inBounds(before, bounds);
+      const isShown = after && inLayers(after, layerKey) && inBounds(after, bounds);
+      if (!wasShown && !isShown) {
+        continue;
+      }
+      if (filterKey !== "none" || data.truncated) {
+        this.stale.add(query);
+        continue;
+      }
+
+      const id = (before ?? after)!.id;
+      const index = data.singles.findIndex((artifact) => artifact.id === id);
+      const singles = data.singles.filter((artifact) => artifact.id !== id);
+      if (isShown) {
+        singles.splice(index === -1 ? singles.length : index, 0, after);
+      }
+      this.queryClient.setQueryData<ViewportResponse>(query.queryKey, { ...data, singles, total: singles.length });
+    }
+  }
+}
+
+/**
+ * Brings the React Query caches up to date with change feed events: layer lists and counts
+ * and viewport artifacts are patched in place, other artifact queries are refetched.
+ */
+export function applyChangeEvents(queryClient: QueryClient, events: ChangeEvent[]): Promise<void> {
+  const update = new CacheUpdate(queryClient);
+  events.forEach((event) => update.apply(event));
+  return update.flush();
+}
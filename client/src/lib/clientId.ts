@@ -0,0 +1,36 @@
+const CLIENT_ID_KEY = "mapui-client-id";
+
+let cachedClientId: string | null = null;
+
+// crypto.randomUUID is only available in secure contexts (https, localhost)
+function generateClientId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Stable id for this browser profile, sent as X-Client-Id so the server can
+ * keep per-browser preferences such as layer visibility
+ */
+export function getClientId(): string {
+  if (cachedClientId) {
+    return cachedClientId;
+  }
+
+  let id: string | null = null;
+  try {
+    id = localStorage.getItem(CLIENT_ID_KEY);
+    if (!id) {
+      id = generateClientId();
+      localStorage.setItem(CLIENT_ID_KEY, id);
+    }
+  } catch {
+    // Storage blocked (private mode) - keep an id for this session only
+    id = id ?? generateClientId();
+  }
+
+  cachedClientId = id;
+  return id;
+}
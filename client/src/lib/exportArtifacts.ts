@@ -0,0 +1,24 @@
+import { apiRequest } from "./queryClient";
+import type { ExportQuery } from "@shared/schema";
+
+const FILENAME_PATTERN = /filename="([^"]+)"/;
+
+/**
+ * Requests an export from the server and saves it through a temporary download link
+ */
+export async function downloadExport(query: ExportQuery): Promise<void> {
+  const response = await apiRequest("POST", "/api/artifacts/export", query);
+  const blob = await response.blob();
+
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const filename = disposition.match(FILENAME_PATTERN)?.[1] ?? `artifacts.${query.format}`;
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
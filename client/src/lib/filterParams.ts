@@ -0,0 +1,65 @@
+import type { ArtifactFilter } from "@shared/schema";
+import type { FilterState } from "@/components/map/SearchFilterBar";
+
+export const EMPTY_FILTERS: FilterState = {
+  searchText: "",
+  categories: [],
+  dateRange: { from: undefined, to: undefined },
+};
+
+/**
+ * Converts the filter bar state to the server-side filter.
+ * The "to" date is extended to the end of that day, matching useArtifactFilter.
+ */
+export function toArtifactFilter(filters?: FilterState): ArtifactFilter | undefined {
+  if (!filters) {
+    return undefined;
+  }
+
+  const filter: ArtifactFilter = {};
+  const search = filters.searchText.trim();
+  if (search) {
+    filter.search = search;
+  }
+  if (filters.categories.length > 0) {
+    filter.categories = [...filters.categories].sort();
+  }
+  if (filters.dateRange.from) {
+    const startOfDay = new Date(filters.dateRange.from);
+    startOfDay.setHours(0, 0, 0, 0);
+    filter.from = startOfDay.toISOString();
+  }
+  if (filters.dateRange.to) {
+    const endOfDay = new Date(filters.dateRange.to);
+    endOfDay.setHours(23, 59, 59, 999);
+    filter.to = endOfDay.toISOString();
+  }
+  if (filters.where) {
+    filter.where = filters.where;
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+/**
+ * Appends the server-side filter query params (q, categories, from, to, where)
+ */
+export function appendFilterParams(params: URLSearchParams, filters?: FilterState): URLSearchParams {
+  const filter = toArtifactFilter(filters);
+  if (!filter) {
+    return params;
+  }
+
+  if (filter.search) params.set("q", filter.search);
+  if (filter.categories) params.set("categories", filter.categories.join(","));
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  if (filter.where) params.set("where", filter.where);
+
+  return params;
+}
+
+// Stable cache key for the active filters
+export function getFilterKey(filters?: FilterState): string {
+  return appendFilterParams(new URLSearchParams(), filters).toString() || "none";
+}
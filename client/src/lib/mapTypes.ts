@@ -1,4 +1,14 @@
-import type { Artifact, Bounds, CircleSelection } from "@shared/schema";
+import {
+  layerStyleSchema,
+  type Artifact,
+  type Bounds,
+  type CircleSelection,
+  type CorridorSelection,
+  type LayerStyle,
+  type MarkerShape,
+  type PolygonSelection,
+} from "@shared/schema";
+import { applyStyleRules } from "./styleRules";
 
 export interface MapState {
   center: [number, number];
@@ -24,6 +34,8 @@ export interface MarkerClusterGroup {
 export interface SelectionState {
   isDrawing: boolean;
   circle: CircleSelection | null;
+  polygon: PolygonSelection | null;
+  corridor: CorridorSelection | null;
   selectedArtifacts: Artifact[];
   isLoading: boolean;
 }
@@ -38,7 +50,7 @@ export interface PopupData {
   position: [number, number];
 }
 
-export type DrawingMode = "none" | "circle";
+export type DrawingMode = "none" | "circle" | "polygon" | "corridor";
 
 export interface SpatialIndexItem {
   minX: number;
@@ -75,3 +87,100 @@ export const CATEGORY_COLORS: Record<string, string> = {
 export function getCategoryColor(category: string): string {
   return CATEGORY_COLORS[category.toLowerCase()] || CATEGORY_COLORS.default;
 }
+
+export interface ResolvedMarkerStyle {
+  color: string;
+  shape: MarkerShape;
+  size: number;
+  opacity: number;
+}
+
+export const DEFAULT_MARKER_STYLE: ResolvedMarkerStyle = {
+  color: CATEGORY_COLORS.default,
+  shape: "circle",
+  size: 12,
+  opacity: 1,
+};
+
+export function parseLayerStyle(style: LayerStyle | undefined): LayerStyle {
+  const parsed = style ? layerStyleSchema.safeParse(style) : undefined;
+  return parsed?.success ? parsed.data : {};
+}
+
+/**
+ * Marker style for an artifact of `category` in a layer with `style`.
+ * Category overrides win over the layer-wide style; without a layer colour the
+ * built-in category palette is used. Data-driven rules are applied last, from
+ * the artifact's metadata. Styles that fail validation are ignored.
+ */
+export function resolveMarkerStyle(
+  style: LayerStyle | undefined,
+  category: string,
+  metadata?: Record<string, unknown>
+): ResolvedMarkerStyle {
+  const layerStyle = parseLayerStyle(style);
+  const override = layerStyle.categories?.[category] ?? {};
+
+  const resolved = {
+    color: override.color ?? layerStyle.color ?? getCategoryColor(category),
+    shape: override.shape ?? layerStyle.shape ?? DEFAULT_MARKER_STYLE.shape,
+    size: override.size ?? layerStyle.size ?? DEFAULT_MARKER_STYLE.size,
+    opacity: override.opacity ?? layerStyle.opacity ?? DEFAULT_MARKER_STYLE.opacity,
+  };
+  return layerStyle.rules ? applyStyleRules(layerStyle.rules, resolved, category, metadata) : resolved;
+}
+
+/**
+ * Layer-wide style, without category overrides, for swatches and single-layer clusters
+ */
+export function resolveLayerStyle(style: LayerStyle | undefined): ResolvedMarkerStyle {
+  const layerStyle = parseLayerStyle(style);
+
+  return {
+    color: layerStyle.color ?? DEFAULT_MARKER_STYLE.color,
+    shape: layerStyle.shape ?? DEFAULT_MARKER_STYLE.shape,
+    size: layerStyle.size ?? DEFAULT_MARKER_STYLE.size,
+    opacity: layerStyle.opacity ?? DEFAULT_MARKER_STYLE.opacity,
+  };
+}
+
+export interface CategorySlice {
+  category: string;
+  count: number;
+  color: string;
+}
+
+/**
+ * A cluster's category counts, largest first, coloured by the layer's category overrides
+ * when the cluster is from one layer and by the category palette otherwise
+ */
+export function getCategoryBreakdown(
+  categories: Record<string, number>,
+  style?: LayerStyle
+): CategorySlice[] {
+  const overrides = parseLayerStyle(style).categories;
+
+  return Object.entries(categories)
+    .map(([category, count]) => ({
+      category,
+      count,
+      color: overrides?.[category]?.color ?? getCategoryColor(category),
+    }))
+    .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+}
+
+// Density colour ramp from sparse to dense (yellow-orange-red)
+export const DENSITY_RAMP = ["#ffffb2", "#fecc5c", "#fd8d3c", "#f03b20", "#bd0026"];
+
+/**
+ * Ramp colour for a density cell, on a log scale so sparse cells stay distinguishable
+ * next to dense ones
+ */
+export function getDensityColor(count: number, max: number): string {
+  if (max <= 1) {
+    return DENSITY_RAMP[0];
+  }
+  const position = Math.log(count) / Math.log(max);
+  const index = Math.round(Math.min(Math.max(position, 0), 1) * (DENSITY_RAMP.length - 1));
+  return DENSITY_RAMP[index];
+}
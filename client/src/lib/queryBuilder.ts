@@ -0,0 +1,121 @@
+import type { MetadataFieldInfo, MetadataFieldType } from "@shared/schema";
+
+export type QueryOperator =
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "between"
+  | "in"
+  | "not_in"
+  | "exists"
+  | "not_exists";
+
+export interface QueryRule {
+  id: string;
+  field: string;
+  type: MetadataFieldType;
+  operator: QueryOperator;
+  // Values as entered: none for exists, two for between, any number for in
+  values: string[];
+}
+
+export interface QueryDefinition {
+  combinator: "and" | "or";
+  rules: QueryRule[];
+}
+
+export const EMPTY_QUERY: QueryDefinition = { combinator: "and", rules: [] };
+
+const PRESENCE_OPERATORS: { value: QueryOperator; label: string }[] = [
+  { value: "exists", label: "has a value" },
+  { value: "not_exists", label: "has no value" },
+];
+
+export const OPERATORS: Record<MetadataFieldType, { value: QueryOperator; label: string }[]> = {
+  number: [
+    { value: "=", label: "=" },
+    { value: "!=", label: "≠" },
+    { value: "<", label: "<" },
+    { value: "<=", label: "≤" },
+    { value: ">", label: ">" },
+    { value: ">=", label: "≥" },
+    { value: "between", label: "between" },
+    ...PRESENCE_OPERATORS,
+  ],
+  string: [
+    { value: "=", label: "is" },
+    { value: "!=", label: "is not" },
+    { value: "in", label: "is any of" },
+    { value: "not_in", label: "is none of" },
+    ...PRESENCE_OPERATORS,
+  ],
+  boolean: [
+    { value: "=", label: "is" },
+    { value: "!=", label: "is not" },
+    ...PRESENCE_OPERATORS,
+  ],
+};
+
+// Rules are saved in presets, so ids also carry the time to stay unique across page loads
+let nextRuleId = 0;
+
+export function createRule(field: MetadataFieldInfo): QueryRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${++nextRuleId}`,
+    field: field.path,
+    type: field.type,
+    operator: "=",
+    values: field.type === "boolean" ? ["true"] : [],
+  };
+}
+
+// Expression literal for an input value, or undefined when it is not valid for the type
+function toLiteral(type: MetadataFieldType, raw: string): string | undefined {
+  switch (type) {
+    case "number": {
+      const value = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(value) ? String(value) : undefined;
+    }
+    case "string":
+      return `'${raw.replace(/'/g, "''")}'`;
+    case "boolean":
+      return raw === "true" || raw === "false" ? raw : undefined;
+  }
+}
+
+/**
+ * Where expression for one rule, or undefined while the rule is incomplete
+ */
+export function buildRuleExpression(rule: QueryRule): string | undefined {
+  const { field, type, operator } = rule;
+  if (operator === "exists") return `${field} EXISTS`;
+  if (operator === "not_exists") return `${field} NOT EXISTS`;
+
+  const literals = rule.values.map((value) => toLiteral(type, value));
+  if (literals.length === 0 || literals.some((literal) => literal === undefined)) {
+    return undefined;
+  }
+
+  switch (operator) {
+    case "between":
+      return literals.length === 2 ? `${field} BETWEEN ${literals[0]} AND ${literals[1]}` : undefined;
+    case "in":
+    case "not_in":
+      return `${field} ${operator === "in" ? "IN" : "NOT IN"} (${literals.join(", ")})`;
+    default:
+      return `${field} ${operator} ${literals[0]}`;
+  }
+}
+
+/**
+ * Combines the complete rules into a where expression; undefined when there are none
+ */
+export function buildWhereExpression(query: QueryDefinition): string | undefined {
+  const parts = query.rules
+    .map(buildRuleExpression)
+    .filter((part): part is string => part !== undefined);
+  return parts.length > 0 ? parts.join(` ${query.combinator.toUpperCase()} `) : undefined;
+}
@@ -0,0 +1,46 @@
+import { apiRequest } from "./queryClient";
+import { toArtifactFilter } from "./filterParams";
+import type { FilterState } from "@/components/map/SearchFilterBar";
+import type { SelectionState } from "./mapTypes";
+import type {
+  AggregationResult,
+  CircleSelection,
+  CorridorSelection,
+  PolygonSelection,
+} from "@shared/schema";
+
+export type AreaSelection =
+  | { circle: CircleSelection }
+  | { polygon: PolygonSelection }
+  | { corridor: CorridorSelection };
+
+/**
+ * The drawn circle, polygon or corridor of a selection, or null when nothing is selected
+ */
+export function getAreaSelection(
+  selection: Pick<SelectionState, "circle" | "polygon" | "corridor">
+): AreaSelection | null {
+  if (selection.circle) return { circle: selection.circle };
+  if (selection.polygon) return { polygon: selection.polygon };
+  if (selection.corridor) return { corridor: selection.corridor };
+  return null;
+}
+
+/**
+ * Queries the artifacts in a drawn circle, polygon or corridor, narrowed by the active filters
+ */
+export async function querySelection(
+  selection: AreaSelection,
+  filters?: FilterState
+): Promise<AggregationResult> {
+  const shape = "circle" in selection ? "circle" : "polygon" in selection ? "polygon" : "corridor";
+  const response = await apiRequest("POST", `/api/artifacts/query/${shape}`, {
+    ...selection,
+    filter: toArtifactFilter(filters),
+  });
+  const data = await response.json();
+  if (!data || !Array.isArray(data.artifacts)) {
+    throw new Error("Invalid aggregation response");
+  }
+  return data as AggregationResult;
+}
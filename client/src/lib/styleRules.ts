@@ -0,0 +1,164 @@
+import type { StyleRule, StyleValue } from "@shared/schema";
+import type { ResolvedMarkerStyle } from "./mapTypes";
+
+/**
+ * Look up a dotted metadata path ("electrical.voltage_kv_max"). Only own keys count, so
+ * "constructor" is never found on the object prototype.
+ */
+export function getMetadataValue(metadata: Record<string, unknown> | undefined, field: string): unknown {
+  let value: unknown = metadata;
+  for (const key of field.split(".")) {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    value = Object.hasOwn(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+// Numbers and numeric strings ("115") only - "115kV" is not a number
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const digits = hex.length === 4 ? hex.slice(1).replace(/./g, (d) => d + d) : hex.slice(1);
+  return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function interpolate(from: StyleValue, to: StyleValue, t: number): StyleValue {
+  if (typeof from === "number" && typeof to === "number") {
+    return Math.round(from + (to - from) * t);
+  }
+  const a = hexToRgb(String(from));
+  const b = hexToRgb(String(to));
+  return (
+    "#" +
+    a
+      .map((channel, i) => Math.round(channel + (b[i] - channel) * t))
+      .map((channel) => channel.toString(16).padStart(2, "0"))
+      .join("")
+  );
+}
+
+/**
+ * Value the rule assigns to a metadata value, or undefined when the rule does not match
+ */
+export function evaluateStyleRule(rule: StyleRule, value: unknown): StyleValue | undefined {
+  switch (rule.type) {
+    case "graduated": {
+      const n = toNumber(value);
+      if (n === undefined) {
+        return undefined;
+      }
+      return rule.classes.find(
+        (c) => (c.min === undefined || n >= c.min) && (c.max === undefined || n < c.max)
+      )?.value;
+    }
+    case "categorical":
+      if (value === undefined || value === null) {
+        return rule.fallback;
+      }
+      // A value such as "toString" must not pick up an Object.prototype function as the style
+      return Object.hasOwn(rule.values, String(value)) ? rule.values[String(value)] : rule.fallback;
+    case "continuous": {
+      const n = toNumber(value);
+      if (n === undefined) {
+        return undefined;
+      }
+      const t = Math.min(Math.max((n - rule.min) / (rule.max - rule.min), 0), 1);
+      return interpolate(rule.from, rule.to, t);
+    }
+  }
+}
+
+/**
+ * Apply data-driven rules in order; later rules win for the same property
+ */
+export function applyStyleRules(
+  rules: StyleRule[],
+  style: ResolvedMarkerStyle,
+  category: string,
+  metadata: Record<string, unknown> | undefined
+): ResolvedMarkerStyle {
+  let result = style;
+  for (const rule of rules) {
+    if (rule.categories && !rule.categories.includes(category)) {
+      continue;
+    }
+    const value = evaluateStyleRule(rule, getMetadataValue(metadata, rule.field));
+    if (value !== undefined) {
+      result = { ...result, [rule.property]: value };
+    }
+  }
+  return result;
+}
+
+export interface LegendItem {
+  label: string;
+  style: ResolvedMarkerStyle;
+}
+
+export interface LegendSection {
+  title: string;
+  items: LegendItem[];
+  // Continuous colour rules are drawn as a gradient bar
+  ramp?: { from: string; to: string; min: number; max: number };
+}
+
+function rangeLabel(min: number | undefined, max: number | undefined): string {
+  if (min !== undefined && max !== undefined) {
+    return `${min.toLocaleString()} – ${max.toLocaleString()}`;
+  }
+  if (max !== undefined) {
+    return `< ${max.toLocaleString()}`;
+  }
+  return min !== undefined ? `≥ ${min.toLocaleString()}` : "All";
+}
+
+/**
+ * Legend entries for a rule, drawn on top of the layer's base style
+ */
+export function buildLegendSection(rule: StyleRule, base: ResolvedMarkerStyle): LegendSection {
+  const title =
+    (rule.label ?? rule.field) + (rule.categories?.length ? ` (${rule.categories.join(", ")})` : "");
+  const styled = (value: StyleValue): ResolvedMarkerStyle => ({ ...base, [rule.property]: value });
+
+  switch (rule.type) {
+    case "graduated":
+      return {
+        title,
+        items: rule.classes.map((c) => ({ label: c.label ?? rangeLabel(c.min, c.max), style: styled(c.value) })),
+      };
+    case "categorical":
+      return {
+        title,
+        items: [
+          ...Object.entries(rule.values).map(([label, value]) => ({ label, style: styled(value) })),
+          ...(rule.fallback === undefined ? [] : [{ label: "Other", style: styled(rule.fallback) }]),
+        ],
+      };
+    case "continuous":
+      if (rule.property === "color") {
+        return {
+          title,
+          items: [],
+          ramp: { from: String(rule.from), to: String(rule.to), min: rule.min, max: rule.max },
+        };
+      }
+      return {
+        title,
+        items: [
+          { label: rule.min.toLocaleString(), style: styled(rule.from) },
+          { label: rule.max.toLocaleString(), style: styled(rule.to) },
+        ],
+      };
+  }
+}
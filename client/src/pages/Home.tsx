@@ -9,17 +9,19 @@ export default function Home() {
     dateRange: { from: undefined, to: undefined },
   });
 
-  // Note: Filters are kept for future use
-  // They can be applied via query params to the viewport endpoint
-  // For now, we're focusing on viewport-based loading performance
+  // Filters are sent as query params to the viewport endpoint,
+  // so clusters and totals reflect only matching artifacts
 
   return (
     <div className="h-screen w-screen overflow-hidden relative">
-      <SearchFilterBar onFilterChange={setFilters} />
       <MapView
         initialCenter={[40.7128, -74.006]}
         initialZoom={12}
-      />
+        filters={filters}
+      >
+        {/* Inside the map so category counts follow the viewport */}
+        <SearchFilterBar onFilterChange={setFilters} />
+      </MapView>
     </div>
   );
 }
@@ -0,0 +1,9 @@
+-- MapUI Layer External Key Migration
+-- Lets a layer declare the field that identifies its records across imports (e.g. metadata.hifld_id)
+
+ALTER TABLE layers ADD COLUMN IF NOT EXISTS external_key VARCHAR(255);
+
+-- HIFLD substations are matched on their HIFLD id across quarterly refreshes
+UPDATE layers SET external_key = 'metadata.hifld_id'
+WHERE id = 'eversource-substations' AND external_key IS NULL;
+
@@ -0,0 +1,9 @@
+-- MapUI User Preferences Migration
+-- Per-browser preferences keyed by the X-Client-Id header; layers.visible stays the admin default
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+    client_id VARCHAR(100) PRIMARY KEY,
+    layer_visibility JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,7 @@
+-- MapUI Layer Styles Migration
+-- Marker colours and shapes come from layers.style instead of the client; see layerStyleSchema
+
+-- Substations keep their red/orange markers; only a layer still on the empty default is updated
+UPDATE layers
+SET style = '{"color": "#ef4444", "categories": {"tap": {"color": "#f97316"}}}'::jsonb
+WHERE id = 'eversource-substations' AND (style IS NULL OR style = '{}'::jsonb);
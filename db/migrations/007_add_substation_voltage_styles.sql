@@ -0,0 +1,12 @@
+-- MapUI Substation Voltage Styles Migration
+-- Data-driven style rules (layers.style.rules) colour and size substations by metadata.voltage_kv_max
+
+UPDATE layers
+SET style = style || '{"rules": [
+  {"type": "graduated", "field": "voltage_kv_max", "property": "color", "label": "Max voltage (kV)",
+   "classes": [{"max": 69, "value": "#facc15"}, {"min": 69, "max": 115, "value": "#f97316"},
+               {"min": 115, "max": 345, "value": "#ef4444"}, {"min": 345, "value": "#7f1d1d"}]},
+  {"type": "graduated", "field": "voltage_kv_max", "property": "size", "label": "Max voltage (kV)",
+   "classes": [{"max": 115, "value": 10}, {"min": 115, "max": 345, "value": 13}, {"min": 345, "value": 16}]}
+]}'::jsonb
+WHERE id = 'eversource-substations' AND NOT (style ? 'rules');
@@ -0,0 +1,4 @@
+-- MapUI Basemap Preference Migration
+-- The basemap each browser last chose; NULL keeps the registry's default
+
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS basemap VARCHAR(100);
@@ -0,0 +1,63 @@
+-- MapUI Artifact History Migration
+-- Every create, update and delete of an artifact with its before and after values, for
+-- /api/artifacts/:id/history and asOf queries. Written by a trigger so that imports and
+-- layer deletes are recorded too; the app sets mapui.changed_by for the transaction.
+
+CREATE TABLE IF NOT EXISTS artifact_history (
+    id BIGSERIAL PRIMARY KEY,
+    artifact_id UUID NOT NULL,
+    action VARCHAR(10) NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    before JSONB,
+    after JSONB,
+    changed_by VARCHAR(100),
+    changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Per-artifact history and the latest version of each artifact at a time
+CREATE INDEX IF NOT EXISTS idx_artifact_history_artifact ON artifact_history (artifact_id, changed_at DESC, id DESC);
+
+-- Artifact in the shape the API returns it
+CREATE OR REPLACE FUNCTION artifact_snapshot(a artifacts)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'id', a.id,
+        'name', a.name,
+        'category', a.category,
+        'layer', a.layer,
+        'description', a.description,
+        'metadata', a.metadata,
+        'lat', a.lat,
+        'lng', a.lng,
+        'createdAt', a.created_at
+    );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION record_artifact_history()
+RETURNS TRIGGER AS $$
+DECLARE
+    actor VARCHAR(100) := NULLIF(current_setting('mapui.changed_by', true), '');
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO artifact_history (artifact_id, action, after, changed_by)
+        VALUES (NEW.id, 'create', artifact_snapshot(NEW), actor);
+    ELSIF TG_OP = 'DELETE' THEN
+        INSERT INTO artifact_history (artifact_id, action, before, changed_by)
+        VALUES (OLD.id, 'delete', artifact_snapshot(OLD), actor);
+    ELSIF artifact_snapshot(OLD) IS DISTINCT FROM artifact_snapshot(NEW) THEN
+        INSERT INTO artifact_history (artifact_id, action, before, after, changed_by)
+        VALUES (NEW.id, 'update', artifact_snapshot(OLD), artifact_snapshot(NEW), actor);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_record_artifact_history ON artifacts;
+CREATE TRIGGER trigger_record_artifact_history
+    AFTER INSERT OR UPDATE OR DELETE ON artifacts
+    FOR EACH ROW EXECUTE FUNCTION record_artifact_history();
+
+-- Existing artifacts start their history at their creation time
+INSERT INTO artifact_history (artifact_id, action, after, changed_at)
+SELECT a.id, 'create', artifact_snapshot(a), COALESCE(a.created_at, NOW())
+FROM artifacts a
+WHERE NOT EXISTS (SELECT 1 FROM artifact_history h WHERE h.artifact_id = a.id);
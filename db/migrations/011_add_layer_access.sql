@@ -0,0 +1,8 @@
+-- MapUI Layer Access Migration
+-- Per-layer read and write grants by role or group, e.g. to keep critical infrastructure
+-- layers from contractors. NULL access leaves a layer open to every role that allows the action.
+-- Users belong to any number of groups named in the grants.
+
+ALTER TABLE layers ADD COLUMN IF NOT EXISTS access JSONB;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS groups TEXT[] NOT NULL DEFAULT '{}';
@@ -1,12 +1,17 @@
 /**
  * Import Eversource Substations from JSON file into database
  *
+ * Re-runs are idempotent: records are matched on metadata.hifld_id, so a refreshed
+ * file updates changed substations instead of inserting duplicates. Only substations of
+ * the imported states can be missing, and all writes are made in one transaction.
+ *
  * Usage:
- *   npx tsx scripts/import-substations.ts [jsonPath] [states]
+ *   npx tsx scripts/import-substations.ts [jsonPath] [states] [--dry-run] [--retire-missing]
  *
  * Examples:
- *   npx tsx scripts/import-substations.ts                           # CT only, default path
+ *   npx tsx scripts/import-substations.ts                           # CT/MA/NH, default path
  *   npx tsx scripts/import-substations.ts .claude/Data\ migration/eversource_substations.json CT,MA,NH
+ *   npx tsx scripts/import-substations.ts refresh.json CT --dry-run # Report changes only
  */
 
 import { readFileSync } from "fs";
@@ -75,19 +80,48 @@ interface SubstationsFile {
   };
 }
 
-interface InsertArtifact {
-  name: string;
-  lat: number;
-  lng: number;
-  category: string;
-  layer: string;
-  description?: string;
-  metadata?: Record<string, unknown>;
+const LAYER_ID = "eversource-substations";
+const EXTERNAL_KEY = "metadata.hifld_id";
+
+interface ImportOptions {
+  dryRun: boolean;
+  retireMissing: boolean;
+}
+
+function toFeature(sub: SubstationData) {
+  return {
+    type: "Feature",
+    geometry: {
+      type: "Point",
+      coordinates: [sub.location?.longitude, sub.location?.latitude],
+    },
+    properties: {
+      name: sub.name,
+      category: sub.type.toLowerCase(), // 'tap' or 'substation'
+      description: `${sub.type} in ${sub.city}, ${sub.state} - ${sub.status}`,
+      city: sub.city,
+      county: sub.county,
+      state: sub.state,
+      zip: sub.zip,
+      type: sub.type,
+      status: sub.status,
+      voltage_kv_max: sub.voltage_kv?.max,
+      voltage_kv_min: sub.voltage_kv?.min,
+      utility_name: sub.service_territory?.utility_name,
+      holding_company: sub.service_territory?.holding_company,
+      hifld_objectid: sub.hifld?.objectid,
+      hifld_id: sub.hifld?.id,
+      hifld_lines: sub.hifld?.lines,
+      google_maps_link: sub.google_maps_link,
+      provenance: sub.provenance,
+    },
+  };
 }
 
 async function importSubstations(
   jsonPath: string,
-  statesToImport: string[] = ["CT"]
+  statesToImport: string[] = ["CT"],
+  options: ImportOptions = { dryRun: false, retireMissing: false }
 ) {
   console.log(`Loading substations from: ${jsonPath}`);
   console.log(`States to import: ${statesToImport.join(", ")}`);
@@ -101,134 +135,105 @@ async function importSubstations(
   console.log(`  Generated: ${data.generated_at_utc}`);
   console.log(`  Summary: CT=${data.summary.CT}, MA=${data.summary.MA}, NH=${data.summary.NH}, Total=${data.summary.total}`);
 
+  const states = statesToImport.map((state) => state.toUpperCase());
+  const features = [];
+  for (const state of states) {
+    const stateKey = state as keyof typeof data.substations_by_state;
+    const substations = data.substations_by_state[stateKey];
+
+    if (!substations) {
+      console.log(`Warning: No data found for state ${state}`);
+      continue;
+    }
+
+    console.log(`Read ${substations.length} substations from ${state}`);
+    features.push(...substations.map(toFeature));
+  }
+
   // Dynamic import to handle module resolution
   const { pool } = await import("../server/db/config");
+  const { PostgresStorage } = await import("../server/db/postgresStorage");
+  const { importArtifacts } = await import("../server/import");
 
-  const client = await pool.connect();
   try {
-    await client.query("BEGIN");
-
-    // Ensure layer exists
-    await client.query(`
-      INSERT INTO layers (id, name, description, source, source_date)
-      VALUES ('eversource-substations', 'Eversource Substations',
-              'HIFLD transmission substations in Eversource territory (CT/MA/NH)',
-              'HIFLD/ORNL', CURRENT_DATE)
-      ON CONFLICT (id) DO UPDATE SET updated_at = NOW()
-    `);
-
-    let imported = 0;
-    let skipped = 0;
-
-    for (const state of statesToImport) {
-      const stateKey = state.toUpperCase() as keyof typeof data.substations_by_state;
-      const substations = data.substations_by_state[stateKey];
-
-      if (!substations) {
-        console.log(`Warning: No data found for state ${state}`);
-        continue;
+    // Rolled back as a whole if any write fails
+    const report = await new PostgresStorage().transaction(async (storage) => {
+      // Ensure layer exists
+      if (!options.dryRun && !(await storage.getLayer(LAYER_ID))) {
+        await storage.createLayer({
+          id: LAYER_ID,
+          name: "Eversource Substations",
+          description: "HIFLD transmission substations in Eversource territory (CT/MA/NH)",
+          source: "HIFLD/ORNL",
+          visible: true,
+          externalKey: EXTERNAL_KEY,
+        });
       }
 
-      console.log(`\nImporting ${substations.length} substations from ${state}...`);
-
-      for (const sub of substations) {
-        // Validate coordinates
-        if (
-          !sub.location ||
-          typeof sub.location.latitude !== "number" ||
-          typeof sub.location.longitude !== "number" ||
-          sub.location.latitude < -90 ||
-          sub.location.latitude > 90 ||
-          sub.location.longitude < -180 ||
-          sub.location.longitude > 180
-        ) {
-          console.log(`  Skipping ${sub.name}: invalid coordinates`);
-          skipped++;
-          continue;
-        }
-
-        const artifact: InsertArtifact = {
-          name: sub.name,
-          lat: sub.location.latitude,
-          lng: sub.location.longitude,
-          category: sub.type.toLowerCase(), // 'tap' or 'substation'
-          layer: "eversource-substations",
-          description: `${sub.type} in ${sub.city}, ${sub.state} - ${sub.status}`,
-          metadata: {
-            city: sub.city,
-            county: sub.county,
-            state: sub.state,
-            zip: sub.zip,
-            type: sub.type,
-            status: sub.status,
-            voltage_kv_max: sub.voltage_kv?.max,
-            voltage_kv_min: sub.voltage_kv?.min,
-            utility_name: sub.service_territory?.utility_name,
-            holding_company: sub.service_territory?.holding_company,
-            hifld_objectid: sub.hifld?.objectid,
-            hifld_id: sub.hifld?.id,
-            hifld_lines: sub.hifld?.lines,
-            google_maps_link: sub.google_maps_link,
-            provenance: sub.provenance,
-          },
-        };
-
-        await client.query(
-          `
-          INSERT INTO artifacts (name, category, layer, description, metadata, location)
-          VALUES ($1, $2, $3, $4, $5, ST_SetSRID(ST_MakePoint($6, $7), 4326)::geography)
-        `,
-          [
-            artifact.name,
-            artifact.category,
-            artifact.layer,
-            artifact.description,
-            JSON.stringify(artifact.metadata),
-            artifact.lng,
-            artifact.lat,
-          ]
-        );
-
-        imported++;
-      }
+      return importArtifacts(
+        storage,
+        {
+          format: "geojson",
+          data: { type: "FeatureCollection", features },
+          layer: LAYER_ID,
+          mapping: { name: "name", category: "category", description: "description", lat: "lat", lng: "lng" },
+          externalKey: EXTERNAL_KEY,
+          dryRun: options.dryRun,
+          retireMissing: options.retireMissing,
+        },
+        undefined,
+        // Substations of other states are not in this refresh, so they are never missing
+        (artifact) => states.includes(String(artifact.metadata?.state))
+      );
+    });
+    const changes = report.changes!;
+
+    console.log(`\n${options.dryRun ? "Dry run" : "✓ Import"} complete!`);
+    console.log(`  Added: ${changes.added.length}`);
+    console.log(`  Changed: ${changes.changed.length}`);
+    console.log(`  Moved: ${changes.moved.length}`);
+    console.log(`  Unchanged: ${changes.unchanged}`);
+    console.log(`  Missing: ${changes.missing.length}${options.retireMissing ? ` (retired ${changes.retired})` : ""}`);
+    console.log(`  Skipped: ${report.errors.length}`);
+
+    for (const { key, fields } of changes.changed) {
+      console.log(`  ~ ${key}: ${fields.map((f) => `${f.field} ${JSON.stringify(f.from)} -> ${JSON.stringify(f.to)}`).join(", ")}`);
+    }
+    for (const { key, from, to } of changes.moved) {
+      console.log(`  > ${key}: (${from.lat}, ${from.lng}) -> (${to.lat}, ${to.lng})`);
+    }
+    for (const { key, name } of changes.missing) {
+      console.log(`  - ${key}: ${name}`);
+    }
+    for (const { row, errors } of report.errors) {
+      console.log(`  Skipping feature ${row}: ${errors.join("; ")}`);
     }
-
-    // Update layer count
-    await client.query(`
-      UPDATE layers SET artifact_count = (
-        SELECT COUNT(*) FROM artifacts WHERE layer = 'eversource-substations'
-      )
-      WHERE id = 'eversource-substations'
-    `);
-
-    await client.query("COMMIT");
-
-    console.log(`\n✓ Import complete!`);
-    console.log(`  Imported: ${imported}`);
-    console.log(`  Skipped: ${skipped}`);
 
     // Verify
     const countResult = await pool.query(
-      "SELECT COUNT(*) as count FROM artifacts WHERE layer = 'eversource-substations'"
+      "SELECT COUNT(*) as count FROM artifacts WHERE layer = $1",
+      [LAYER_ID]
     );
     console.log(`  Total in database: ${countResult.rows[0].count}`);
   } catch (error) {
-    await client.query("ROLLBACK");
     console.error("Import failed:", error);
     throw error;
   } finally {
-    client.release();
     await pool.end();
   }
 }
 
 // CLI entry point
-const args = process.argv.slice(2);
+const flags = process.argv.slice(2).filter((arg) => arg.startsWith("--"));
+const args = process.argv.slice(2).filter((arg) => !arg.startsWith("--"));
 const jsonPath =
   args[0] || ".claude/Data migration/eversource_substations.json";
 const states = args[1]?.split(",") || ["CT", "MA", "NH"];
 
-importSubstations(jsonPath, states)
+importSubstations(jsonPath, states, {
+  dryRun: flags.includes("--dry-run"),
+  retireMissing: flags.includes("--retire-missing"),
+})
   .then(() => {
     console.log("\nDone!");
     process.exit(0);
@@ -0,0 +1,213 @@
+/**
+ * Local accounts: argon2 password hashes, session cookies, API keys and the role checks that
+ * registerRoutes puts on each route. Without AUTH_REQUIRED the role checks let every request
+ * through, as before accounts existed.
+ */
+
+import type { Request, RequestHandler, Response } from "express";
+import argon2 from "argon2";
+import rateLimit from "express-rate-limit";
+import { createHash, randomBytes } from "crypto";
+import {
+  USER_ROLES,
+  insertUserSchema,
+  type Layer,
+  type LayerAction,
+  type LayerGrant,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { ILogger } from "./logging/types";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    user?: User;
+  }
+}
+
+// Required in production unless AUTH_REQUIRED=false, and elsewhere only with AUTH_REQUIRED=true
+export const AUTH_REQUIRED = process.env.AUTH_REQUIRED
+  ? process.env.AUTH_REQUIRED === "true"
+  : process.env.NODE_ENV === "production";
+
+export const SESSION_COOKIE = "mapui_session";
+export const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const API_KEY_PREFIX = "mapui_";
+// Leading characters of a key kept in the clear, to tell keys apart in listings
+const API_KEY_VISIBLE_LENGTH = 12;
+
+// Failed logins per IP and window; successful logins do not count
+const LOGIN_WINDOW = 15 * 60 * 1000;
+const MAX_FAILED_LOGINS = 10;
+
+export function hashPassword(password: string): Promise<string> {
+  return argon2.hash(password, { type: argon2.argon2id });
+}
+
+// Checked against for unknown usernames, so they take as long to reject as wrong passwords
+let unknownUserHash: Promise<string> | undefined;
+
+export async function verifyPassword(passwordHash: string | undefined, password: string): Promise<boolean> {
+  unknownUserHash ??= hashPassword(randomBytes(16).toString("hex"));
+  try {
+    const verified = await argon2.verify(passwordHash ?? (await unknownUserHash), password);
+    return verified && passwordHash !== undefined;
+  } catch {
+    // Malformed stored hash
+    return false;
+  }
+}
+
+// Session tokens and API keys are random, so a fast hash is enough to keep them out of the database
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function createSessionToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+export function createApiKeySecret(): { key: string; prefix: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_VISIBLE_LENGTH) };
+}
+
+// Roles are ordered, each including the ones before it
+export function hasRole(user: User, role: UserRole): boolean {
+  return USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(role);
+}
+
+function matchesGrant(user: User, grant: LayerGrant): boolean {
+  return grant.roles.some((role) => hasRole(user, role)) || grant.groups.some((group) => user.groups.includes(group));
+}
+
+/**
+ * Whether the user may read or write the layer's artifacts under its access grants. Admins
+ * always may; writing also needs read access. The route's role check still applies.
+ */
+export function canAccessLayer(user: User | undefined, layer: Layer, action: LayerAction): boolean {
+  if (user?.role === "admin") {
+    return true;
+  }
+  const grant = layer.access?.[action];
+  if (grant && !(user && matchesGrant(user, grant))) {
+    return false;
+  }
+  return action === "read" || canAccessLayer(user, layer, "read");
+}
+
+export function getSessionToken(req: Request): string | undefined {
+  for (const part of req.headers.cookie?.split(";") ?? []) {
+    const separator = part.indexOf("=");
+    if (separator > 0 && part.slice(0, separator).trim() === SESSION_COOKIE) {
+      return part.slice(separator + 1).trim() || undefined;
+    }
+  }
+  return undefined;
+}
+
+export function setSessionCookie(res: Response, token: string): void {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_MAX_AGE,
+    path: "/",
+  });
+}
+
+export function clearSessionCookie(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+}
+
+/**
+ * Sets req.user from an `Authorization: Bearer <API key>` header or the session cookie, and
+ * adds the user ID to the request logger. Other Authorization schemes (e.g. Basic auth from a
+ * proxy) are left alone. An unknown key is rejected when requireAuth is set; otherwise the
+ * request goes on without a user, as before accounts.
+ */
+export function authenticate(storage: IStorage, requireAuth: boolean): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const [scheme, key] = req.header("Authorization")?.split(" ") ?? [];
+      if (scheme === "Bearer") {
+        const user = key ? await storage.getApiKeyUser(hashSecret(key)) : undefined;
+        if (!user && requireAuth) {
+          return res.status(401).json({ error: "Invalid API key" });
+        }
+        req.user = user;
+      } else {
+        const token = getSessionToken(req);
+        req.user = token ? await storage.getSessionUser(hashSecret(token)) : undefined;
+      }
+
+      if (req.user && req.logger) {
+        req.logger = req.logger.child({ userId: req.user.id });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Route middleware factory: requireRole("editor") answers 401 without a user and 403 when the
+ * user's role is below editor. Every check passes when requireAuth is false.
+ */
+export function createRoleCheck(requireAuth: boolean): (role: UserRole) => RequestHandler {
+  return (role) => (req, res, next) => {
+    if (!requireAuth) {
+      return next();
+    }
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!hasRole(req.user, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role` });
+    }
+    next();
+  };
+}
+
+export function createLoginLimiter(): RequestHandler {
+  return rateLimit({
+    windowMs: LOGIN_WINDOW,
+    max: MAX_FAILED_LOGINS,
+    skipSuccessfulRequests: true,
+    message: { error: "Too many login attempts, please try again later" },
+    standardHeaders: true,
+    legacyHeaders: false,
+  });
+}
+
+/**
+ * Creates the ADMIN_USERNAME account with ADMIN_PASSWORD when it does not exist yet, so a new
+ * deployment has an admin who can sign in and add the other users
+ */
+export async function ensureAdminUser(storage: IStorage, logger: ILogger): Promise<void> {
+  const { ADMIN_USERNAME: username, ADMIN_PASSWORD: password } = process.env;
+  if (!username || !password) {
+    if (AUTH_REQUIRED && (await storage.getUsers()).length === 0) {
+      logger.warn("Authentication is required but no users exist; set ADMIN_USERNAME and ADMIN_PASSWORD", {
+        source: "auth",
+      });
+    }
+    return;
+  }
+
+  if (await storage.getUserByUsername(username)) {
+    return;
+  }
+  const parsed = insertUserSchema.safeParse({ username, password, role: "admin" });
+  if (!parsed.success) {
+    logger.error(`Invalid ADMIN_USERNAME or ADMIN_PASSWORD: ${parsed.error.issues[0].message}`, undefined, {
+      source: "auth",
+    });
+    return;
+  }
+  await storage.createUser({ username, passwordHash: await hashPassword(password), role: "admin" });
+  logger.info(`Created admin user ${username}`, { source: "auth" });
+}
@@ -0,0 +1,105 @@
+/**
+ * Basemap registry for /api/tiles/info. Local raster layers under the tile storage path come
+ * first, so an air-gapped deployment with its own tiles never defaults to an external server.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import { OSM_BASEMAP, basemapSchema, type Basemap } from "@shared/schema";
+import { RASTER_TILE_FORMATS, type TilesetInfo } from "./tileArchives";
+
+const LAYER_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+// "aerial-2024" -> "Aerial 2024"
+function layerTitle(layer: string): string {
+  const words = layer.replace(/[-_]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function isRasterFormat(format: string | undefined): format is (typeof RASTER_TILE_FORMATS)[number] {
+  return (RASTER_TILE_FORMATS as readonly string[]).includes(format ?? "");
+}
+
+function archiveBasemap(tileset: TilesetInfo): Basemap {
+  return {
+    id: tileset.layer,
+    name: tileset.name || layerTitle(tileset.layer),
+    url: `/tiles/${tileset.layer}/{z}/{x}/{y}.${tileset.format}`,
+    attribution: tileset.attribution,
+    minZoom: tileset.minZoom ?? 0,
+    maxZoom: tileset.maxZoom ?? OSM_BASEMAP.maxZoom,
+    bounds: tileset.bounds,
+    local: true,
+  };
+}
+
+async function numericEntries(dir: string): Promise<number[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isDirectory() && /^\d+$/.test(entry.name))
+    .map((entry) => parseInt(entry.name, 10))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * A <layer>/<z>/<x>/<y>.<format> directory as a basemap, with the zoom range of its zoom
+ * directories and the format of its first tile, or undefined if it holds no raster tiles
+ */
+async function directoryBasemap(root: string, layer: string): Promise<Basemap | undefined> {
+  const zooms = await numericEntries(path.join(root, layer));
+  for (const zoom of zooms) {
+    for (const column of await numericEntries(path.join(root, layer, String(zoom)))) {
+      const files = await fs.readdir(path.join(root, layer, String(zoom), String(column)));
+      const format = files.map((file) => path.extname(file).slice(1)).find(isRasterFormat);
+      if (format) {
+        return {
+          id: layer,
+          name: layerTitle(layer),
+          url: `/tiles/${layer}/{z}/{x}/{y}.${format}`,
+          minZoom: Math.min(zoom, 22),
+          maxZoom: Math.min(zooms[zooms.length - 1], 22),
+          local: true,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Local basemaps from the raster archives and tile directories, then the configured basemaps
+ * (metadata.json "basemaps", invalid entries skipped) or OpenStreetMap. The first one is the default.
+ */
+export async function listBasemaps(root: string, tilesets: TilesetInfo[], configured?: unknown): Promise<Basemap[]> {
+  const local = tilesets.filter((tileset) => isRasterFormat(tileset.format)).map(archiveBasemap);
+
+  // Archives take precedence over a directory of the same name, as in the tile route
+  let entries: string[] = [];
+  try {
+    entries = (await fs.readdir(root, { withFileTypes: true }))
+      .filter((entry) => entry.isDirectory() && LAYER_NAME_PATTERN.test(entry.name))
+      .map((entry) => entry.name)
+      .sort();
+  } catch {
+    // No tile directory - only external basemaps
+  }
+  for (const layer of entries) {
+    if (local.some((basemap) => basemap.id === layer)) continue;
+    const basemap = await directoryBasemap(root, layer);
+    if (basemap) local.push(basemap);
+  }
+
+  const external = Array.isArray(configured)
+    ? configured.flatMap((entry) => {
+        const parsed = basemapSchema.safeParse(entry);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : [OSM_BASEMAP];
+
+  // Configured entries can rename or re-attribute a local basemap by using its ID
+  const basemaps = local.map((basemap) => {
+    const override = external.find((entry) => entry.id === basemap.id);
+    return override ? { ...override, local: true } : basemap;
+  });
+  return [...basemaps, ...external.filter((entry) => !basemaps.some((basemap) => basemap.id === entry.id))];
+}
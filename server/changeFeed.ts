@@ -0,0 +1,113 @@
+/**
+ * In-process change feed behind /api/events. Routes publish after a write has been stored and
+ * every open event stream receives the events that match its layer and bounds filter.
+ * Events are not shared between server instances or kept for clients that reconnect.
+ */
+
+import { EventEmitter } from "events";
+import type { Artifact, Bounds, ChangeEvent, Layer } from "@shared/schema";
+
+export type ChangeListener = (event: ChangeEvent) => void;
+
+export interface ChangeFeedFilter {
+  layers?: string[];
+  bounds?: Bounds;
+}
+
+export class ChangeFeed {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: ChangeEvent): void {
+    this.emitter.emit("change", event);
+  }
+
+  // Returns the unsubscribe function
+  subscribe(listener: ChangeListener): () => void {
+    this.emitter.on("change", listener);
+    return () => {
+      this.emitter.off("change", listener);
+    };
+  }
+
+  get subscriberCount(): number {
+    return this.emitter.listenerCount("change");
+  }
+}
+
+function matchesArtifact(artifact: Artifact, filter: ChangeFeedFilter): boolean {
+  if (filter.layers && !filter.layers.includes(artifact.layer)) {
+    return false;
+  }
+  const { bounds } = filter;
+  return (
+    !bounds ||
+    (artifact.lat >= bounds.south &&
+      artifact.lat <= bounds.north &&
+      artifact.lng >= bounds.west &&
+      artifact.lng <= bounds.east)
+  );
+}
+
+/**
+ * Whether a stream with this filter receives the event. An update matches if the artifact
+ * matched before or after it, so moves into and out of a stream's area are both seen.
+ * Imports are matched on layer only and layer events go to every stream.
+ */
+export function matchesChangeFilter(event: ChangeEvent, filter: ChangeFeedFilter): boolean {
+  switch (event.type) {
+    case "artifact.created":
+    case "artifact.deleted":
+      return matchesArtifact(event.artifact, filter);
+    case "artifact.updated":
+      return matchesArtifact(event.artifact, filter) || matchesArtifact(event.previous, filter);
+    case "artifacts.imported":
+      return !filter.layers || filter.layers.includes(event.layer);
+    default:
+      return true;
+  }
+}
+
+/**
+ * The event as a stream whose user may not read restrictedLayers sees it, or undefined to leave
+ * it out. Updates moving an artifact into a restricted layer are sent as its deletion and moves
+ * out of one as its creation. restrictedLayers follows layer events, so grant changes reach open
+ * streams: a layer the user can no longer read is announced as deleted, one they now can as created.
+ */
+export function restrictChangeEvent(
+  event: ChangeEvent,
+  restrictedLayers: Set<string>,
+  canRead: (layer: Layer) => boolean
+): ChangeEvent | undefined {
+  switch (event.type) {
+    case "artifact.created":
+    case "artifact.deleted":
+      return restrictedLayers.has(event.artifact.layer) ? undefined : event;
+    case "artifact.updated": {
+      const wasVisible = !restrictedLayers.has(event.previous.layer);
+      if (restrictedLayers.has(event.artifact.layer)) {
+        return wasVisible ? { type: "artifact.deleted", artifact: event.previous } : undefined;
+      }
+      return wasVisible ? event : { type: "artifact.created", artifact: event.artifact };
+    }
+    case "artifacts.imported":
+      return restrictedLayers.has(event.layer) ? undefined : event;
+    case "layer.created":
+    case "layer.updated": {
+      const { layer } = event;
+      const wasVisible = event.type === "layer.updated" && !restrictedLayers.has(layer.id);
+      if (!canRead(layer)) {
+        restrictedLayers.add(layer.id);
+        return wasVisible ? { type: "layer.deleted", id: layer.id } : undefined;
+      }
+      restrictedLayers.delete(layer.id);
+      return wasVisible || event.type === "layer.created" ? event : { type: "layer.created", layer };
+    }
+    case "layer.deleted":
+      return restrictedLayers.delete(event.id) ? undefined : event;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Square grid in Web Mercator for clusters counted in SQL, used for filters that have no cluster
+ * index. Cells are CLUSTER_RADIUS pixels wide at their zoom, so each cell splits into four at the
+ * next zoom, and a cell with MIN_CLUSTER_POINTS or more artifacts is shown as a cluster.
+ */
+
+import type { Bounds, ClusterData } from "@shared/schema";
+import { CLUSTER_RADIUS, MIN_CLUSTER_POINTS } from "./clusterIndex";
+import { latY, xLng, yLat } from "./mercator";
+
+const GRID_CLUSTER_ID_PATTERN = /^cell-(\d+)-(\d+)-(\d+)$/;
+
+export interface GridCell {
+  zoom: number;
+  column: number;
+  row: number;
+}
+
+// Artifacts of one category in a cell, with their Mercator x and y summed
+export interface GridCellCount {
+  column: number;
+  row: number;
+  category: string;
+  count: number;
+  x: number;
+  y: number;
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+  minLayer: string;
+  maxLayer: string;
+}
+
+/**
+ * Cell width in world units (0..1) on a zoom's grid
+ */
+export function gridCellSize(zoom: number): number {
+  return CLUSTER_RADIUS / (256 * Math.pow(2, zoom));
+}
+
+export function gridClusterId({ zoom, column, row }: GridCell): string {
+  return `cell-${zoom}-${column}-${row}`;
+}
+
+/**
+ * The cell a grid cluster ID names, or undefined for any other ID
+ */
+export function parseGridClusterId(clusterId: string): GridCell | undefined {
+  const match = GRID_CLUSTER_ID_PATTERN.exec(clusterId);
+  return match ? { zoom: Number(match[1]), column: Number(match[2]), row: Number(match[3]) } : undefined;
+}
+
+export function gridCellBounds({ zoom, column, row }: GridCell): Bounds {
+  const size = gridCellSize(zoom);
+  return {
+    north: yLat(row * size),
+    south: yLat((row + 1) * size),
+    east: xLng((column + 1) * size),
+    west: xLng(column * size),
+  };
+}
+
+/**
+ * Bounds grown by one cell, so clusters on the edge of the view count all of their artifacts
+ */
+export function gridSearchBounds(bounds: Bounds, zoom: number): Bounds {
+  const size = gridCellSize(zoom);
+  return {
+    north: yLat(latY(bounds.north) - size),
+    south: yLat(latY(bounds.south) + size),
+    east: Math.min(bounds.east + size * 360, 180),
+    west: Math.max(bounds.west - size * 360, -180),
+  };
+}
+
+/**
+ * Merges the category counts of each cell into a cluster, keeping those positioned inside
+ * bounds when given. Cells too small to cluster are returned for their artifacts to be loaded.
+ */
+export function mergeGridCells(
+  counts: GridCellCount[],
+  zoom: number,
+  bounds?: Bounds
+): { clusters: ClusterData[]; pointCells: GridCell[] } {
+  const cells = new Map<string, GridCellCount & { layer?: string; categories: Record<string, number> }>();
+  for (const count of counts) {
+    const key = `${count.column}:${count.row}`;
+    const cell = cells.get(key);
+    if (!cell) {
+      cells.set(key, {
+        ...count,
+        layer: count.minLayer === count.maxLayer ? count.minLayer : undefined,
+        categories: { [count.category]: count.count },
+      });
+      continue;
+    }
+    cell.count += count.count;
+    cell.x += count.x;
+    cell.y += count.y;
+    cell.north = Math.max(cell.north, count.north);
+    cell.south = Math.min(cell.south, count.south);
+    cell.east = Math.max(cell.east, count.east);
+    cell.west = Math.min(cell.west, count.west);
+    if (cell.layer !== count.minLayer || count.minLayer !== count.maxLayer) cell.layer = undefined;
+    cell.categories[count.category] = (cell.categories[count.category] ?? 0) + count.count;
+  }
+
+  const clusters: ClusterData[] = [];
+  const pointCells: GridCell[] = [];
+  cells.forEach((cell) => {
+    if (cell.count < MIN_CLUSTER_POINTS) {
+      pointCells.push({ zoom, column: cell.column, row: cell.row });
+      return;
+    }
+
+    const lat = yLat(cell.y / cell.count);
+    const lng = xLng(cell.x / cell.count);
+    if (bounds && (lat > bounds.north || lat < bounds.south || lng > bounds.east || lng < bounds.west)) {
+      return;
+    }
+    clusters.push({
+      id: gridClusterId({ zoom, column: cell.column, row: cell.row }),
+      lat,
+      lng,
+      count: cell.count,
+      layer: cell.layer,
+      categories: cell.categories,
+      bounds: { north: cell.north, south: cell.south, east: cell.east, west: cell.west },
+      expansionZoom: zoom + 1,
+    });
+  });
+
+  return { clusters, pointCells };
+}
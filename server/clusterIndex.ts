@@ -0,0 +1,360 @@
+/**
+ * Hierarchical point clustering shared by the storage implementations, in the style of Supercluster.
+ * Points are merged greedily from CLUSTER_MAX_ZOOM down to zoom 0, so each cluster is made of the
+ * clusters and points shown one zoom higher and keeps its position and ID until it is merged again.
+ */
+
+import RBush from "rbush";
+import { CLUSTER_MAX_ZOOM, type Bounds, type ClusterData } from "@shared/schema";
+import type { ScopedFilter } from "./storage";
+import { latY, lngX, xLng, yLat } from "./mercator";
+
+// Merge distance in pixels at 256px tiles
+export const CLUSTER_RADIUS = 60;
+
+// Fewer points than this are shown individually
+export const MIN_CLUSTER_POINTS = 4;
+
+// Layer/category combinations kept in a ClusterIndexCache
+const MAX_CACHED_INDEXES = 16;
+
+const CLUSTER_ID_PATTERN = /^cluster-(\d+)-(.+)$/;
+
+export interface ClusterPoint {
+  id: string;
+  lat: number;
+  lng: number;
+  layer: string;
+  category: string;
+}
+
+interface ClusterNode {
+  id: string;
+  seed: string; // ID of the cluster's first point, which names it
+  x: number; // Web Mercator, 0..1
+  y: number;
+  lat: number;
+  lng: number;
+  count: number;
+  bounds: Bounds;
+  layer?: string;
+  category?: string; // points only
+  categories?: Record<string, number>; // clusters only, artifact count by category
+  zoom: number; // zoom the cluster formed at, CLUSTER_MAX_ZOOM + 1 for points
+  children?: ClusterNode[];
+}
+
+interface LevelItem {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  node: ClusterNode;
+}
+
+interface ClusterLevel {
+  nodes: ClusterNode[];
+  tree?: RBush<LevelItem>;
+}
+
+// Clusters as ClusterData, points by artifact ID for the storage to look up
+export interface ClusterView {
+  clusters: ClusterData[];
+  pointIds: string[];
+}
+
+export class ClusterIndex {
+  // Levels are built on demand from the top down, each from the one above it
+  private levels: ClusterLevel[] = [];
+  private clustersById = new Map<string, ClusterNode>();
+
+  /**
+   * Points must come in a stable order (e.g. by ID or insertion): the first point of each
+   * cluster names it, so the same points give the same cluster IDs after a rebuild
+   */
+  constructor(points: ClusterPoint[]) {
+    const leaves = points.map(
+      (point): ClusterNode => ({
+        id: point.id,
+        seed: point.id,
+        x: lngX(point.lng),
+        y: latY(point.lat),
+        lat: point.lat,
+        lng: point.lng,
+        count: 1,
+        bounds: { north: point.lat, south: point.lat, east: point.lng, west: point.lng },
+        layer: point.layer,
+        category: point.category,
+        zoom: CLUSTER_MAX_ZOOM + 1,
+      })
+    );
+    this.levels[CLUSTER_MAX_ZOOM + 1] = { nodes: leaves };
+  }
+
+  /**
+   * Clusters and points at a zoom whose positions fall inside bounds
+   */
+  getClusters(bounds: Bounds, zoom: number): ClusterView {
+    const level = this.getLevel(Math.max(0, Math.min(Math.floor(zoom), CLUSTER_MAX_ZOOM + 1)));
+    if (!level.tree) {
+      level.tree = new RBush<LevelItem>();
+      level.tree.load(
+        level.nodes.map((node) => ({ minX: node.lng, minY: node.lat, maxX: node.lng, maxY: node.lat, node }))
+      );
+    }
+
+    const nodes = level.tree
+      .search({ minX: bounds.west, minY: bounds.south, maxX: bounds.east, maxY: bounds.north })
+      .map((item) => item.node);
+    return this.toView(nodes);
+  }
+
+  /**
+   * What a cluster splits into at its expansion zoom, or undefined for an unknown ID
+   */
+  getChildren(clusterId: string): ClusterView | undefined {
+    const cluster = this.findCluster(clusterId);
+    return cluster && this.toView(cluster.children!);
+  }
+
+  /**
+   * IDs of the points in a cluster, paged by offset and limit, or undefined for an unknown ID
+   */
+  getLeaves(clusterId: string, limit: number, offset: number): string[] | undefined {
+    const cluster = this.findCluster(clusterId);
+    if (!cluster) {
+      return undefined;
+    }
+
+    const ids: string[] = [];
+    let skipped = 0;
+    const collect = (node: ClusterNode) => {
+      for (const child of node.children!) {
+        if (ids.length >= limit) return;
+        if (child.children) {
+          // Skip whole subtrees that lie before the requested page
+          if (skipped + child.count <= offset) {
+            skipped += child.count;
+          } else {
+            collect(child);
+          }
+        } else if (skipped < offset) {
+          skipped++;
+        } else {
+          ids.push(child.id);
+        }
+      }
+    };
+    collect(cluster);
+    return ids;
+  }
+
+  private findCluster(clusterId: string): ClusterNode | undefined {
+    const match = CLUSTER_ID_PATTERN.exec(clusterId);
+    if (!match || Number(match[1]) > CLUSTER_MAX_ZOOM) {
+      return undefined;
+    }
+    this.getLevel(Number(match[1]));
+    return this.clustersById.get(clusterId);
+  }
+
+  private getLevel(zoom: number): ClusterLevel {
+    let built = this.levels.findIndex((level) => level !== undefined);
+    while (built > zoom) {
+      this.levels[built - 1] = { nodes: this.clusterLevel(this.levels[built].nodes, built - 1) };
+      built--;
+    }
+    return this.levels[zoom];
+  }
+
+  /**
+   * Greedily merges each node with the unmerged nodes within the cluster radius at this zoom.
+   * A grid of radius-sized cells limits the neighbour search to the surrounding nine cells.
+   */
+  private clusterLevel(nodes: ClusterNode[], zoom: number): ClusterNode[] {
+    const radius = CLUSTER_RADIUS / (256 * Math.pow(2, zoom));
+    const radiusSq = radius * radius;
+    const columns = Math.ceil(1 / radius) + 1;
+
+    // Node positions by cell, keyed x * columns + y
+    const cells = new Int32Array(nodes.length);
+    const grid = new Map<number, number[]>();
+    for (let i = 0; i < nodes.length; i++) {
+      const key = Math.floor(nodes[i].x / radius) * columns + Math.floor(nodes[i].y / radius);
+      cells[i] = key;
+      const cell = grid.get(key);
+      if (cell) {
+        cell.push(i);
+      } else {
+        grid.set(key, [i]);
+      }
+    }
+
+    const merged = new Uint8Array(nodes.length);
+    const result: ClusterNode[] = [];
+
+    for (let i = 0; i < nodes.length; i++) {
+      if (merged[i]) continue;
+      merged[i] = 1;
+
+      const node = nodes[i];
+      const neighbours: number[] = [];
+      let count = node.count;
+      for (let dx = -columns; dx <= columns; dx += columns) {
+        for (let dy = -1; dy <= 1; dy++) {
+          const cell = grid.get(cells[i] + dx + dy);
+          if (!cell) continue;
+          for (let k = 0; k < cell.length; k++) {
+            const j = cell[k];
+            const other = nodes[j];
+            if (!merged[j] && (other.x - node.x) ** 2 + (other.y - node.y) ** 2 <= radiusSq) {
+              neighbours.push(j);
+              count += other.count;
+            }
+          }
+        }
+      }
+
+      if (neighbours.length === 0 || count < MIN_CLUSTER_POINTS) {
+        result.push(node);
+        continue;
+      }
+
+      const members = [node];
+      for (let k = 0; k < neighbours.length; k++) {
+        merged[neighbours[k]] = 1;
+        members.push(nodes[neighbours[k]]);
+      }
+      result.push(this.createCluster(members, zoom));
+    }
+
+    return result;
+  }
+
+  private createCluster(members: ClusterNode[], zoom: number): ClusterNode {
+    const first = members[0];
+    const bounds = { ...first.bounds };
+    const categories: Record<string, number> = {};
+    let layer = first.layer;
+    let count = 0;
+    let x = 0;
+    let y = 0;
+    for (let i = 0; i < members.length; i++) {
+      const member = members[i];
+      count += member.count;
+      x += member.x * member.count;
+      y += member.y * member.count;
+      bounds.north = Math.max(bounds.north, member.bounds.north);
+      bounds.south = Math.min(bounds.south, member.bounds.south);
+      bounds.east = Math.max(bounds.east, member.bounds.east);
+      bounds.west = Math.min(bounds.west, member.bounds.west);
+      if (member.layer !== layer) layer = undefined;
+      if (member.categories) {
+        for (const category in member.categories) {
+          categories[category] = (categories[category] ?? 0) + member.categories[category];
+        }
+      } else {
+        categories[member.category!] = (categories[member.category!] ?? 0) + 1;
+      }
+    }
+    x /= count;
+    y /= count;
+
+    const cluster: ClusterNode = {
+      id: `cluster-${zoom}-${first.seed}`,
+      seed: first.seed,
+      x,
+      y,
+      lat: yLat(y),
+      lng: xLng(x),
+      count,
+      bounds,
+      layer,
+      categories,
+      zoom,
+      children: members,
+    };
+    this.clustersById.set(cluster.id, cluster);
+    return cluster;
+  }
+
+  private toView(nodes: ClusterNode[]): ClusterView {
+    const clusters: ClusterData[] = [];
+    const pointIds: string[] = [];
+    nodes.forEach((node) => {
+      if (node.children) {
+        clusters.push({
+          id: node.id,
+          lat: node.lat,
+          lng: node.lng,
+          count: node.count,
+          layer: node.layer,
+          categories: node.categories!,
+          bounds: node.bounds,
+          expansionZoom: node.zoom + 1,
+        });
+      } else {
+        pointIds.push(node.id);
+      }
+    });
+    return { clusters, pointIds };
+  }
+}
+
+/**
+ * Whether a filter's clusters come from a cached index. Searches, dates and where expressions
+ * take any value, so caching an index per value would keep one copy of the matching points per
+ * keystroke; only the layer, category and restricted layer scopes are indexed.
+ */
+export function isClusterIndexed(filter?: ScopedFilter): boolean {
+  return !filter?.search && !filter?.from && !filter?.to && !filter?.where;
+}
+
+/**
+ * Cluster indexes by layer/category combination, built once and shared by concurrent requests.
+ * Other filters are built per call and not kept. Storages clear() it on writes; maxAge (ms)
+ * also expires indexes for writes made elsewhere.
+ */
+export class ClusterIndexCache {
+  private indexes = new Map<string, { index: Promise<ClusterIndex>; builtAt: number }>();
+
+  constructor(private maxAge = Infinity) {}
+
+  get(
+    layers: string[] | undefined,
+    filter: ScopedFilter | undefined,
+    loadPoints: () => Promise<ClusterPoint[]>
+  ): Promise<ClusterIndex> {
+    if (!isClusterIndexed(filter)) {
+      return loadPoints().then((points) => new ClusterIndex(points));
+    }
+
+    const key = JSON.stringify([
+      layers?.length ? [...layers].sort() : null,
+      filter?.categories?.length ? [...filter.categories].sort() : null,
+      filter?.restrictedLayers?.length ? [...filter.restrictedLayers].sort() : null,
+    ]);
+
+    const cached = this.indexes.get(key);
+    if (cached && Date.now() - cached.builtAt <= this.maxAge) {
+      return cached.index;
+    }
+
+    const index = loadPoints().then((points) => new ClusterIndex(points));
+    // A failed load is not cached, so the next request tries again
+    index.catch(() => {
+      if (this.indexes.get(key)?.index === index) this.indexes.delete(key);
+    });
+
+    this.indexes.delete(key);
+    this.indexes.set(key, { index, builtAt: Date.now() });
+    if (this.indexes.size > MAX_CACHED_INDEXES) {
+      this.indexes.delete(this.indexes.keys().next().value!);
+    }
+    return index;
+  }
+
+  clear(): void {
+    this.indexes.clear();
+  }
+}
@@ -0,0 +1,63 @@
+import type { FilterExpression, FilterLiteral } from "@shared/filterExpression";
+
+const SQL_OPERATORS = { "<": "<", "<=": "<=", ">": ">", ">=": ">=" } as const;
+
+/**
+ * Compiles a parsed filter expression to a predicate on the metadata JSONB column.
+ * Fields and values are always bound as parameters (appended to params); only operators
+ * and keywords come from the expression. Every leaf is COALESCEd to false so missing
+ * fields behave as in evaluateFilterExpression rather than as SQL NULLs.
+ */
+export function compileFilterExpression(expression: FilterExpression, params: unknown[]): string {
+  const bind = (value: unknown): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const compile = (node: FilterExpression): string => {
+    if ("operands" in node) {
+      const joiner = node.type === "and" ? " AND " : " OR ";
+      return `(${node.operands.map(compile).join(joiner)})`;
+    }
+
+    const path = bind(node.field);
+    const value = `metadata #> ${path}::text[]`;
+    const present = `jsonb_typeof(${value}) <> 'null'`;
+    // Scalar extraction for ordering, NULL unless the JSON type matches the literal
+    const ordered = (literal: number | string) =>
+      typeof literal === "number"
+        ? `(CASE WHEN jsonb_typeof(${value}) = 'number' THEN (metadata #>> ${path}::text[])::numeric END)`
+        : `(CASE WHEN jsonb_typeof(${value}) = 'string' THEN metadata #>> ${path}::text[] END) COLLATE "C"`;
+    const literalParam = (literal: number | string) =>
+      `${bind(literal)}::${typeof literal === "number" ? "numeric" : "text"}`;
+    const json = (literal: FilterLiteral) => `${bind(JSON.stringify(literal))}::jsonb`;
+
+    let predicate: string;
+    switch (node.type) {
+      case "exists":
+        predicate = node.negated ? `NOT COALESCE(${present}, false)` : present;
+        break;
+      case "in": {
+        const matches = `${value} = ANY(${bind(node.values.map((v) => JSON.stringify(v)))}::jsonb[])`;
+        predicate = node.negated ? `${present} AND NOT ${matches}` : matches;
+        break;
+      }
+      case "between":
+        predicate = `${ordered(node.min)} BETWEEN ${literalParam(node.min)} AND ${literalParam(node.max)}`;
+        break;
+      case "compare":
+        if (node.op === "=") {
+          predicate = `${value} = ${json(node.value)}`;
+        } else if (node.op === "!=") {
+          predicate = `${present} AND ${value} <> ${json(node.value)}`;
+        } else {
+          const literal = node.value as number | string;
+          predicate = `${ordered(literal)} ${SQL_OPERATORS[node.op]} ${literalParam(literal)}`;
+        }
+        break;
+    }
+    return `COALESCE((${predicate}), false)`;
+  };
+
+  return compile(expression);
+}
@@ -1,33 +1,115 @@
+import type { PoolClient } from "pg";
 import { pool } from "./config";
 import type {
   Artifact,
   InsertArtifact,
+  UpdateArtifact,
   Bounds,
   CircleSelection,
+  PolygonSelection,
+  CorridorSelection,
   AggregationResult,
+  FacetResult,
+  MetadataFieldInfo,
+  NearbyArtifact,
+  NearestQuery,
   ViewportResponse,
+  ClusterChildren,
+  DensityResponse,
   Layer,
+  LayerAccess,
+  LayerStyle,
+  UpdateLayer,
+  UserPreferences,
+  UpdatePreferences,
+  ArtifactHistoryEntry,
+  User,
+  ApiKey,
 } from "@shared/schema";
-import type { IStorage } from "../storage";
+import { CLUSTER_MAX_ZOOM, MAX_CATALOG_VALUES, MAX_FACET_VALUES } from "@shared/schema";
+import { parseFilterExpression } from "@shared/filterExpression";
+import type {
+  IStorage,
+  InsertApiKeyRecord,
+  InsertUserRecord,
+  ScopedFilter,
+  UserRecord,
+  WriteContext,
+} from "../storage";
+import { compileFilterExpression } from "./filterSql";
+import { MAX_CATALOG_DEPTH, summarizeMetadataFields } from "../metadataFields";
+import { ClusterIndexCache, isClusterIndexed, type ClusterView } from "../clusterIndex";
+import {
+  gridCellBounds,
+  gridCellSize,
+  gridSearchBounds,
+  mergeGridCells,
+  parseGridClusterId,
+  type GridCell,
+  type GridCellCount,
+} from "../clusterGrid";
+import { densityBounds, densityZoom, hexSize, toDensityResponse } from "../hexGrid";
+import { historicalViewport } from "../history";
+import { ARTIFACT_TILE_LAYER, CLUSTER_TILE_LAYER, TILE_BUFFER, TILE_EXTENT, tileBounds } from "../vectorTile";
+
+// Cluster indexes also expire after this long, to pick up writes from other processes
+const CLUSTER_INDEX_MAX_AGE = 60_000;
+
+// Artifact, user and API key IDs; anything else cannot match a row
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const USER_COLUMNS = `id, username, role, groups, created_at as "createdAt"`;
+const API_KEY_COLUMNS = `id, name, prefix, created_at as "createdAt", last_used_at as "lastUsedAt"`;
+
+// Web Mercator world coordinates of a row, as in mercator.ts
+const MERCATOR_X = "(lng / 360 + 0.5)";
+const MERCATOR_Y = "(0.5 - ln(tan(pi() / 4 + radians(LEAST(GREATEST(lat, -85.051129), 85.051129)) / 2)) / (2 * pi()))";
+
+// Condition on a row lying in a grid cell
+function inGridCell(params: unknown[], { zoom, column, row }: GridCell): string {
+  params.push(gridCellSize(zoom), column, row);
+  const size = `$${params.length - 2}`;
+  return `floor(${MERCATOR_X} / ${size}) = $${params.length - 1} AND floor(${MERCATOR_Y} / ${size}) = $${params.length}`;
+}
 
-interface ClusterData {
-  id: string;
-  lat: number;
-  lng: number;
-  count: number;
+// Point geometry in tile coordinates for ST_AsMVT; $1, $2, $3 are the tile z, x and y
+function tileGeometry(point: string): string {
+  return `ST_AsMVTGeom(ST_Transform(${point}, 3857), ST_TileEnvelope($1, $2, $3), ${TILE_EXTENT}, ${TILE_BUFFER}, true)`;
 }
 
 export class PostgresStorage implements IStorage {
-  async getAllArtifacts(layers?: string[]): Promise<Artifact[]> {
-    const layerClause = layers?.length ? "WHERE layer = ANY($1::text[])" : "";
-    const params = layers?.length ? [layers] : [];
+  // Viewport clusters per layer/category combination, dropped on writes made through this instance
+  private clusterIndexes = new ClusterIndexCache(CLUSTER_INDEX_MAX_AGE);
+
+  // Set on the storage that transaction() hands out, whose queries all run on this connection
+  constructor(private client?: PoolClient) {}
+
+  private get db() {
+    return this.client ?? pool;
+  }
+
+  /**
+   * Runs run with a storage whose reads and writes all belong to one transaction, committed
+   * when run resolves and rolled back when it throws. For scripted imports that must not
+   * leave a partial import behind.
+   */
+  async transaction<T>(run: (storage: PostgresStorage) => Promise<T>): Promise<T> {
+    const result = await this.inTransaction((client) => run(new PostgresStorage(client)));
+    this.clusterIndexes.clear();
+    return result;
+  }
+
+  async getAllArtifacts(layers?: string[], filter?: ScopedFilter): Promise<Artifact[]> {
+    const params: unknown[] = [];
+    const conditions = this.buildFilterConditions(params, layers, filter);
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
 
-    const result = await pool.query(
+    const result = await this.db.query(
       `
       SELECT id, name, category, layer, description, metadata, lat, lng,
              created_at as "createdAt"
       FROM artifacts
-      ${layerClause}
+      ${whereClause}
       ORDER BY created_at DESC
       LIMIT 10000
     `,
@@ -37,7 +119,10 @@ export class PostgresStorage implements IStorage {
   }
 
   async getArtifact(id: string): Promise<Artifact | undefined> {
-    const result = await pool.query(
+    if (!UUID_PATTERN.test(id)) {
+      return undefined;
+    }
+    const result = await this.db.query(
       `
       SELECT id, name, category, layer, description, metadata, lat, lng,
              created_at as "createdAt"
@@ -50,12 +135,22 @@ export class PostgresStorage implements IStorage {
     return result.rows[0] ? this.mapRowToArtifact(result.rows[0]) : undefined;
   }
 
-  async getArtifactsInBounds(bounds: Bounds, layers?: string[]): Promise<Artifact[]> {
-    const layerClause = layers?.length ? "AND layer = ANY($5::text[])" : "";
-    const params: (number | string[])[] = [bounds.west, bounds.south, bounds.east, bounds.north];
-    if (layers?.length) params.push(layers);
+  async getArtifactsInBounds(
+    bounds: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter,
+    asOf?: string
+  ): Promise<Artifact[]> {
+    if (asOf) {
+      return this.getArtifactsAsOf(asOf, bounds, layers, filter);
+    }
+
+    const params: unknown[] = [bounds.west, bounds.south, bounds.east, bounds.north];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
 
-    const result = await pool.query(
+    const result = await this.db.query(
       `
       SELECT id, name, category, layer, description, metadata, lat, lng,
              created_at as "createdAt"
@@ -64,7 +159,7 @@ export class PostgresStorage implements IStorage {
         location,
         ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography
       )
-      ${layerClause}
+      ${filterClause}
       LIMIT 10000
     `,
       params
@@ -73,12 +168,51 @@ export class PostgresStorage implements IStorage {
     return result.rows.map(this.mapRowToArtifact);
   }
 
-  async getArtifactsInCircle(circle: CircleSelection, layers?: string[]): Promise<Artifact[]> {
-    const layerClause = layers?.length ? "AND layer = ANY($4::text[])" : "";
-    const params: (number | string[])[] = [circle.center.lng, circle.center.lat, circle.radius];
-    if (layers?.length) params.push(layers);
+  async getArtifactPage(
+    limit: number,
+    after?: string,
+    bounds?: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const params: unknown[] = [limit];
+    const conditions = this.buildFilterConditions(params, layers, filter);
+    if (after) {
+      params.push(after);
+      conditions.push(`id > $${params.length}::uuid`);
+    }
+    if (bounds) {
+      params.push(bounds.west, bounds.south, bounds.east, bounds.north);
+      const envelope = [3, 2, 1, 0].map((offset) => `$${params.length - offset}`).join(", ");
+      conditions.push(`ST_Intersects(location, ST_MakeEnvelope(${envelope}, 4326)::geography)`);
+    }
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
 
-    const result = await pool.query(
+    const result = await this.db.query(
+      `
+      SELECT id, name, category, layer, description, metadata, lat, lng,
+             created_at as "createdAt"
+      FROM artifacts
+      ${whereClause}
+      ORDER BY id
+      LIMIT $1
+    `,
+      params
+    );
+    return result.rows.map(this.mapRowToArtifact);
+  }
+
+  async getArtifactsInCircle(
+    circle: CircleSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const params: unknown[] = [circle.center.lng, circle.center.lat, circle.radius];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
+
+    const result = await this.db.query(
       `
       SELECT id, name, category, layer, description, metadata, lat, lng,
              created_at as "createdAt"
@@ -88,7 +222,7 @@ export class PostgresStorage implements IStorage {
         ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
         $3
       )
-      ${layerClause}
+      ${filterClause}
     `,
       params
     );
@@ -96,31 +230,186 @@ export class PostgresStorage implements IStorage {
     return result.rows.map(this.mapRowToArtifact);
   }
 
-  async getAggregation(circle: CircleSelection, layers?: string[]): Promise<AggregationResult> {
-    const layerClause = layers?.length ? "AND layer = ANY($4::text[])" : "";
-    const params: (number | string[])[] = [circle.center.lng, circle.center.lat, circle.radius];
-    if (layers?.length) params.push(layers);
+  async getAggregation(
+    circle: CircleSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<AggregationResult> {
+    const params: unknown[] = [circle.center.lng, circle.center.lat, circle.radius];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
 
-    const result = await pool.query(
+    return this.queryAggregation(
       `
-      WITH circle_artifacts AS (
-        SELECT id, name, category, layer, description, metadata, lat, lng,
-               created_at as "createdAt"
-        FROM artifacts
-        WHERE ST_DWithin(
+        ST_DWithin(
           location,
           ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
           $3
         )
-        ${layerClause}
+        ${filterClause}
+      `,
+      params
+    );
+  }
+
+  async getArtifactsInPolygon(
+    polygon: PolygonSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const params: unknown[] = [JSON.stringify(polygon)];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
+
+    const result = await this.db.query(
+      `
+      SELECT id, name, category, layer, description, metadata, lat, lng,
+             created_at as "createdAt"
+      FROM artifacts
+      WHERE ${this.polygonCondition("$1")}
+      ${filterClause}
+    `,
+      params
+    );
+
+    return result.rows.map(this.mapRowToArtifact);
+  }
+
+  async getPolygonAggregation(
+    polygon: PolygonSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<AggregationResult> {
+    const params: unknown[] = [JSON.stringify(polygon)];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
+
+    return this.queryAggregation(`${this.polygonCondition("$1")} ${filterClause}`, params);
+  }
+
+  async getArtifactsInCorridor(
+    corridor: CorridorSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const params: unknown[] = [JSON.stringify(corridor.line), corridor.buffer];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
+
+    const result = await this.db.query(
+      `
+      SELECT id, name, category, layer, description, metadata, lat, lng,
+             created_at as "createdAt"
+      FROM artifacts
+      WHERE ${this.corridorCondition("$1", "$2")}
+      ${filterClause}
+    `,
+      params
+    );
+
+    return result.rows.map(this.mapRowToArtifact);
+  }
+
+  async getCorridorAggregation(
+    corridor: CorridorSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<AggregationResult> {
+    const params: unknown[] = [JSON.stringify(corridor.line), corridor.buffer];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
+
+    return this.queryAggregation(`${this.corridorCondition("$1", "$2")} ${filterClause}`, params);
+  }
+
+  /**
+   * KNN ordering with <-> walks the GiST index on location nearest-first. Both the ordering
+   * and the reported distance are spherical, matching MemStorage's haversine distances.
+   */
+  async getNearestArtifacts(
+    query: NearestQuery,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<NearbyArtifact[]> {
+    const params: unknown[] = [query.lng, query.lat, query.k];
+    const conditions = this.buildFilterConditions(params, layers, filter);
+    if (query.maxDistance !== undefined) {
+      params.push(query.maxDistance);
+      conditions.push(`ST_DWithin(location, point.geog, $${params.length}, false)`);
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db.query(
+      `
+      WITH point AS (
+        SELECT ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography AS geog
+      )
+      SELECT id, name, category, layer, description, metadata, lat, lng,
+             created_at as "createdAt",
+             ST_Distance(location, point.geog, false) as distance
+      FROM artifacts, point
+      ${whereClause}
+      ORDER BY location <-> point.geog
+      LIMIT $3
+    `,
+      params
+    );
+
+    return result.rows.map((row) => ({
+      artifact: this.mapRowToArtifact(row),
+      distance: parseFloat(row.distance),
+    }));
+  }
+
+  /**
+   * Bounding-box prefilter on the geography index, then exact ST_Within on geometry
+   * (edges are straight lines in lng/lat, matching MemStorage)
+   */
+  private polygonCondition(param: string): string {
+    return `
+      location && ST_SetSRID(ST_GeomFromGeoJSON(${param}), 4326)::geography
+      AND ST_Within(location::geometry, ST_SetSRID(ST_GeomFromGeoJSON(${param}), 4326))
+    `;
+  }
+
+  /**
+   * Spherical distance to the line, as in MemStorage, so ST_DWithin can use the location index
+   */
+  private corridorCondition(lineParam: string, bufferParam: string): string {
+    return `
+      ST_DWithin(
+        location,
+        ST_SetSRID(ST_GeomFromGeoJSON(${lineParam}), 4326)::geography,
+        ${bufferParam},
+        false
+      )
+    `;
+  }
+
+  /**
+   * Runs the count / category breakdown / artifact list aggregation over rows matching whereClause
+   */
+  private async queryAggregation(whereClause: string, params: unknown[]): Promise<AggregationResult> {
+    const result = await this.db.query(
+      `
+      WITH selected_artifacts AS (
+        SELECT id, name, category, layer, description, metadata, lat, lng,
+               created_at as "createdAt"
+        FROM artifacts
+        WHERE ${whereClause}
       ),
       category_counts AS (
         SELECT category, COUNT(*)::integer as count
-        FROM circle_artifacts
+        FROM selected_artifacts
         GROUP BY category
       )
       SELECT
-        (SELECT COUNT(*)::integer FROM circle_artifacts) as total_count,
+        (SELECT COUNT(*)::integer FROM selected_artifacts) as total_count,
         (SELECT json_object_agg(category, count) FROM category_counts) as categories,
         (SELECT json_agg(
           json_build_object(
@@ -134,7 +423,7 @@ export class PostgresStorage implements IStorage {
             'lng', lng,
             'createdAt', "createdAt"
           )
-        ) FROM circle_artifacts) as artifacts
+        ) FROM selected_artifacts) as artifacts
     `,
       params
     );
@@ -151,22 +440,35 @@ export class PostgresStorage implements IStorage {
     bounds: Bounds,
     zoom: number,
     limit: number,
-    layers?: string[]
+    layers?: string[],
+    filter?: ScopedFilter,
+    asOf?: string
   ): Promise<ViewportResponse> {
-    const layerClause = layers?.length ? "AND layer = ANY($6::text[])" : "";
+    if (asOf) {
+      // Clusters need the artifacts around the bounds too, so the whole snapshot is loaded
+      const artifacts = await this.getArtifactsAsOf(
+        asOf,
+        Math.floor(zoom) > CLUSTER_MAX_ZOOM ? bounds : undefined,
+        layers,
+        filter
+      );
+      return historicalViewport(artifacts, bounds, zoom, limit);
+    }
 
-    // At high zoom levels (>= 13), return individual artifacts
-    if (zoom >= 13) {
-      const params: (number | string[])[] = [
+    // Above the clustered zooms, return individual artifacts
+    if (Math.floor(zoom) > CLUSTER_MAX_ZOOM) {
+      const params: unknown[] = [
         bounds.west,
         bounds.south,
         bounds.east,
         bounds.north,
         limit + 1,
       ];
-      if (layers?.length) params.push(layers);
+      const filterClause = this.buildFilterConditions(params, layers, filter)
+        .map((condition) => `AND ${condition}`)
+        .join(" ");
 
-      const result = await pool.query(
+      const result = await this.db.query(
         `
         SELECT id, name, category, layer, description, metadata, lat, lng,
                created_at as "createdAt"
@@ -175,7 +477,7 @@ export class PostgresStorage implements IStorage {
           location,
           ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography
         )
-        ${layerClause}
+        ${filterClause}
         LIMIT $5
       `,
         params
@@ -192,86 +494,10 @@ export class PostgresStorage implements IStorage {
       };
     }
 
-    // At lower zoom levels, perform grid-based clustering
-    const gridSize = this.getClusterGridSize(zoom);
-    const params: (number | string[])[] = [
-      bounds.west,
-      bounds.south,
-      bounds.east,
-      bounds.north,
-      gridSize,
-    ];
-    if (layers?.length) params.push(layers);
-
-    const result = await pool.query(
-      `
-      WITH viewport_artifacts AS (
-        SELECT id, name, category, layer, description, metadata, lat, lng,
-               created_at as "createdAt",
-               floor(lng / $5) as cell_x,
-               floor(lat / $5) as cell_y
-        FROM artifacts
-        WHERE ST_Intersects(
-          location,
-          ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography
-        )
-        ${layerClause}
-      ),
-      grid_cells AS (
-        SELECT
-          cell_x,
-          cell_y,
-          COUNT(*)::integer as point_count,
-          AVG(lat) as center_lat,
-          AVG(lng) as center_lng,
-          json_agg(
-            json_build_object(
-              'id', id,
-              'name', name,
-              'category', category,
-              'layer', layer,
-              'description', description,
-              'metadata', metadata,
-              'lat', lat,
-              'lng', lng,
-              'createdAt', "createdAt"
-            )
-          ) as artifacts
-        FROM viewport_artifacts
-        GROUP BY cell_x, cell_y
-      )
-      SELECT
-        cell_x,
-        cell_y,
-        point_count,
-        center_lat,
-        center_lng,
-        CASE WHEN point_count <= 3 THEN artifacts ELSE NULL END as artifacts
-      FROM grid_cells
-    `,
-      params
-    );
-
-    const clusters: ClusterData[] = [];
-    const singles: Artifact[] = [];
-    let total = 0;
-
-    for (const row of result.rows) {
-      total += row.point_count;
-
-      if (row.point_count > 3) {
-        clusters.push({
-          id: `cluster-${row.cell_x}:${row.cell_y}`,
-          lat: parseFloat(row.center_lat),
-          lng: parseFloat(row.center_lng),
-          count: row.point_count,
-        });
-      } else if (row.artifacts) {
-        singles.push(...row.artifacts);
-      }
-    }
+    const { clusters, pointIds } = await this.getClusters(bounds, zoom, layers, filter);
+    const total = clusters.reduce((sum, cluster) => sum + cluster.count, pointIds.length);
 
-    const combinedCount = clusters.length + singles.length;
+    const combinedCount = clusters.length + pointIds.length;
     const truncated = combinedCount > limit;
 
     if (truncated) {
@@ -279,7 +505,7 @@ export class PostgresStorage implements IStorage {
         const remainingLimit = limit - clusters.length;
         return {
           clusters,
-          singles: singles.slice(0, remainingLimit),
+          singles: await this.getArtifactsByIds(pointIds.slice(0, remainingLimit)),
           total,
           truncated: true,
         };
@@ -292,36 +518,363 @@ export class PostgresStorage implements IStorage {
       };
     }
 
-    return { clusters, singles, total, truncated: false };
+    return { clusters, singles: await this.getArtifactsByIds(pointIds), total, truncated: false };
+  }
+
+  async getClusterChildren(
+    clusterId: string,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<ClusterChildren | undefined> {
+    const children = isClusterIndexed(filter)
+      ? (await this.getClusterIndex(layers, filter)).getChildren(clusterId)
+      : await this.getGridChildren(clusterId, layers, filter);
+    return (
+      children && {
+        clusters: children.clusters,
+        singles: await this.getArtifactsByIds(children.pointIds),
+      }
+    );
   }
 
-  async createArtifact(artifact: InsertArtifact): Promise<Artifact> {
-    const result = await pool.query(
+  async getClusterLeaves(
+    clusterId: string,
+    limit: number,
+    offset: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[] | undefined> {
+    if (!isClusterIndexed(filter)) {
+      return this.getGridLeaves(clusterId, limit, offset, layers, filter);
+    }
+    const index = await this.getClusterIndex(layers, filter);
+    const ids = index.getLeaves(clusterId, limit, offset);
+    return ids && this.getArtifactsByIds(ids);
+  }
+
+  /**
+   * Above CLUSTER_MAX_ZOOM the artifacts are encoded straight from the table. Below it the
+   * clusters come from getClusters and are passed in as arrays, with the singles by id.
+   */
+  async getVectorTile(
+    z: number,
+    x: number,
+    y: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Uint8Array> {
+    const bounds = tileBounds(z, x, y);
+    const params: unknown[] = [z, x, y];
+
+    if (z > CLUSTER_MAX_ZOOM) {
+      params.push(bounds.west, bounds.south, bounds.east, bounds.north);
+      const filterClause = this.buildFilterConditions(params, layers, filter)
+        .map((condition) => `AND ${condition}`)
+        .join(" ");
+
+      const result = await this.db.query(
+        `
+        SELECT COALESCE(ST_AsMVT(tile, '${ARTIFACT_TILE_LAYER}', ${TILE_EXTENT}, 'geom'), ''::bytea) AS mvt
+        FROM (
+          SELECT id::text AS id, name, category, layer, ${tileGeometry("location::geometry")} AS geom
+          FROM artifacts
+          WHERE ST_Intersects(
+            location,
+            ST_MakeEnvelope($4, $5, $6, $7, 4326)::geography
+          )
+          ${filterClause}
+        ) AS tile
+      `,
+        params
+      );
+      return result.rows[0].mvt;
+    }
+
+    const { clusters, pointIds } = await this.getClusters(bounds, z, layers, filter);
+    params.push(
+      clusters.map((c) => c.id),
+      clusters.map((c) => c.lat),
+      clusters.map((c) => c.lng),
+      clusters.map((c) => c.count),
+      clusters.map((c) => c.expansionZoom),
+      clusters.map((c) => c.layer ?? null),
+      clusters.map((c) => JSON.stringify(c.categories)),
+      pointIds
+    );
+
+    // Tiles are concatenable, each ST_AsMVT adds one layer
+    const result = await this.db.query(
       `
-      INSERT INTO artifacts (name, category, layer, description, metadata, location)
-      VALUES ($1, $2, $3, $4, $5, ST_SetSRID(ST_MakePoint($6, $7), 4326)::geography)
-      RETURNING id, name, category, layer, description, metadata, lat, lng,
-                created_at as "createdAt"
+      SELECT
+        COALESCE((
+          SELECT ST_AsMVT(tile, '${CLUSTER_TILE_LAYER}', ${TILE_EXTENT}, 'geom')
+          FROM (
+            SELECT c.id, c.count, c.expansion_zoom AS "expansionZoom", c.layer, c.categories,
+                   ${tileGeometry("ST_SetSRID(ST_MakePoint(c.lng, c.lat), 4326)")} AS geom
+            FROM unnest($4::text[], $5::float8[], $6::float8[], $7::int[], $8::int[], $9::text[], $10::text[])
+              AS c(id, lat, lng, count, expansion_zoom, layer, categories)
+          ) AS tile
+        ), ''::bytea) ||
+        COALESCE((
+          SELECT ST_AsMVT(tile, '${ARTIFACT_TILE_LAYER}', ${TILE_EXTENT}, 'geom')
+          FROM (
+            SELECT id::text AS id, name, category, layer, ${tileGeometry("location::geometry")} AS geom
+            FROM artifacts
+            WHERE id = ANY($11::uuid[])
+          ) AS tile
+        ), ''::bytea) AS mvt
     `,
-      [
-        artifact.name,
-        artifact.category,
-        artifact.layer || "default",
-        artifact.description || null,
-        JSON.stringify(artifact.metadata || {}),
-        artifact.lng,
-        artifact.lat,
-      ]
+      params
     );
+    return result.rows[0].mvt;
+  }
+
+  /**
+   * Bins in SQL with the same Web Mercator projection and cube rounding as hexGrid.ts
+   */
+  async getDensity(
+    bounds: Bounds,
+    zoom: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<DensityResponse> {
+    const gridZoom = densityZoom(zoom);
+    const grown = densityBounds(bounds, gridZoom);
+    const params: unknown[] = [grown.west, grown.south, grown.east, grown.north, hexSize(gridZoom)];
+    const filterClause = this.buildFilterConditions(params, layers, filter)
+      .map((condition) => `AND ${condition}`)
+      .join(" ");
 
-    return this.mapRowToArtifact(result.rows[0]);
+    const result = await this.db.query(
+      `
+      WITH projected AS (
+        SELECT lng / 360 + 0.5 AS x,
+               0.5 - ln(tan(pi() / 4 + radians(LEAST(GREATEST(lat, -85.051129), 85.051129)) / 2)) / (2 * pi()) AS y
+        FROM artifacts
+        WHERE ST_Intersects(
+          location,
+          ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography
+        )
+        ${filterClause}
+      ),
+      fractional AS (
+        SELECT (sqrt(3) / 3 * x - y / 3) / $5 AS q, (2.0 / 3 * y) / $5 AS r FROM projected
+      ),
+      rounded AS (
+        SELECT q, r, -q - r AS s, round(q) AS rq, round(r) AS rr, round(-q - r) AS rs FROM fractional
+      )
+      SELECT
+        CASE WHEN abs(rq - q) > abs(rr - r) AND abs(rq - q) > abs(rs - s) THEN -rr - rs ELSE rq END AS q,
+        CASE
+          WHEN abs(rq - q) > abs(rr - r) AND abs(rq - q) > abs(rs - s) THEN rr
+          WHEN abs(rr - r) > abs(rs - s) THEN -rq - rs
+          ELSE rr
+        END AS r,
+        count(*)::int AS count
+      FROM rounded
+      GROUP BY 1, 2
+    `,
+      params
+    );
+
+    const bins = result.rows.map((row) => ({ q: Number(row.q), r: Number(row.r), count: row.count }));
+    return toDensityResponse(bins, gridZoom);
   }
 
-  async createManyArtifacts(artifacts: InsertArtifact[]): Promise<Artifact[]> {
-    const client = await pool.connect();
-    try {
-      await client.query("BEGIN");
+  /**
+   * The index holds only ids and positions; singles and leaves are loaded by id afterwards
+   */
+  private getClusterIndex(layers?: string[], filter?: ScopedFilter) {
+    return this.clusterIndexes.get(layers, filter, async () => {
+      const params: unknown[] = [];
+      const conditions = this.buildFilterConditions(params, layers, filter);
+      const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+      const result = await this.db.query(
+        `SELECT id, lat, lng, layer, category FROM artifacts ${whereClause} ORDER BY id`,
+        params
+      );
+      return result.rows.map((row) => ({
+        id: row.id,
+        lat: row.lat,
+        lng: row.lng,
+        layer: row.layer || "default",
+        category: row.category,
+      }));
+    });
+  }
+
+  /**
+   * Clusters and unclustered artifact ids in bounds, from the cluster index when the filter has
+   * one and otherwise counted on the grid in SQL
+   */
+  private async getClusters(
+    bounds: Bounds,
+    zoom: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<ClusterView> {
+    if (isClusterIndexed(filter)) {
+      return (await this.getClusterIndex(layers, filter)).getClusters(bounds, zoom);
+    }
+    return this.getGridClusters(Math.max(0, Math.floor(zoom)), bounds, layers, filter);
+  }
+
+  /**
+   * Counts the artifacts per cell of a zoom's grid in SQL and loads the ids of those in cells too
+   * small to cluster, keeping the clusters and artifacts inside bounds. With a parent cell only
+   * its artifacts are counted, and above CLUSTER_MAX_ZOOM they are all returned unclustered.
+   */
+  private async getGridClusters(
+    zoom: number,
+    bounds: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter,
+    parent?: GridCell
+  ): Promise<ClusterView> {
+    const search = gridSearchBounds(bounds, Math.min(zoom, CLUSTER_MAX_ZOOM));
+    const conditions = (params: unknown[]) => {
+      const conditions = this.buildFilterConditions(params, layers, filter);
+      if (parent) conditions.push(inGridCell(params, parent));
+      return conditions.map((condition) => `AND ${condition}`).join(" ");
+    };
+
+    if (zoom > CLUSTER_MAX_ZOOM) {
+      const params: unknown[] = [search.west, search.south, search.east, search.north];
+      const result = await this.db.query(
+        `
+        SELECT id FROM artifacts
+        WHERE ST_Intersects(location, ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography)
+        ${conditions(params)}
+        ORDER BY id
+      `,
+        params
+      );
+      return { clusters: [], pointIds: result.rows.map((row) => row.id) };
+    }
+
+    // Cells are counted over grown bounds, so clusters on the edge of the view are complete
+    const countParams: unknown[] = [search.west, search.south, search.east, search.north, gridCellSize(zoom)];
+    const counts = await this.db.query<GridCellCount>(
+      `
+      SELECT floor(x / $5)::int AS "column", floor(y / $5)::int AS "row", category,
+             count(*)::int AS count, sum(x) AS x, sum(y) AS y,
+             max(lat) AS north, min(lat) AS south, max(lng) AS east, min(lng) AS west,
+             min(layer) AS "minLayer", max(layer) AS "maxLayer"
+      FROM (
+        SELECT ${MERCATOR_X} AS x, ${MERCATOR_Y} AS y, lat, lng, category, COALESCE(layer, 'default') AS layer
+        FROM artifacts
+        WHERE ST_Intersects(location, ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography)
+        ${conditions(countParams)}
+      ) AS projected
+      GROUP BY 1, 2, 3
+    `,
+      countParams
+    );
+
+    const { clusters, pointCells } = mergeGridCells(counts.rows, zoom, parent ? undefined : bounds);
+    if (pointCells.length === 0) {
+      return { clusters, pointIds: [] };
+    }
+
+    const area = parent ? search : bounds;
+    const pointParams: unknown[] = [
+      area.west,
+      area.south,
+      area.east,
+      area.north,
+      gridCellSize(zoom),
+      pointCells.map((cell) => cell.column),
+      pointCells.map((cell) => cell.row),
+    ];
+    const points = await this.db.query(
+      `
+      SELECT id FROM artifacts
+      WHERE ST_Intersects(location, ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography)
+        AND (floor(${MERCATOR_X} / $5)::int, floor(${MERCATOR_Y} / $5)::int)
+          IN (SELECT * FROM unnest($6::int[], $7::int[]))
+        ${conditions(pointParams)}
+      ORDER BY id
+    `,
+      pointParams
+    );
+    return { clusters, pointIds: points.rows.map((row) => row.id) };
+  }
+
+  // The cells of the next zoom a grid cluster splits into, or undefined when it has no artifacts
+  private async getGridChildren(
+    clusterId: string,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<ClusterView | undefined> {
+    const parent = parseGridClusterId(clusterId);
+    if (!parent || parent.zoom > CLUSTER_MAX_ZOOM) {
+      return undefined;
+    }
+    const children = await this.getGridClusters(parent.zoom + 1, gridCellBounds(parent), layers, filter, parent);
+    return children.clusters.length || children.pointIds.length ? children : undefined;
+  }
 
+  // Artifacts of a grid cluster by id, paged like ClusterIndex.getLeaves
+  private async getGridLeaves(
+    clusterId: string,
+    limit: number,
+    offset: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[] | undefined> {
+    const cell = parseGridClusterId(clusterId);
+    if (!cell || cell.zoom > CLUSTER_MAX_ZOOM) {
+      return undefined;
+    }
+
+    const search = gridSearchBounds(gridCellBounds(cell), cell.zoom);
+    const params: unknown[] = [search.west, search.south, search.east, search.north, limit, offset];
+    const conditions = [...this.buildFilterConditions(params, layers, filter), inGridCell(params, cell)];
+    const result = await this.db.query(
+      `
+      SELECT id, name, category, layer, description, metadata, lat, lng,
+             created_at as "createdAt"
+      FROM artifacts
+      WHERE ST_Intersects(location, ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography)
+        AND ${conditions.join(" AND ")}
+      ORDER BY id
+      LIMIT $5 OFFSET $6
+    `,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      // An empty page past the end of a cluster that still exists
+      return offset > 0 && (await this.getGridLeaves(clusterId, 1, 0, layers, filter)) ? [] : undefined;
+    }
+    return result.rows.map(this.mapRowToArtifact);
+  }
+
+  // Artifacts in the order of ids, skipping any deleted since the index was built
+  private async getArtifactsByIds(ids: string[]): Promise<Artifact[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const result = await this.db.query(
+      `
+      SELECT id, name, category, layer, description, metadata, lat, lng,
+             created_at as "createdAt"
+      FROM artifacts
+      WHERE id = ANY($1::uuid[])
+    `,
+      [ids]
+    );
+    const byId = new Map(result.rows.map((row) => [row.id, this.mapRowToArtifact(row)]));
+    return ids.flatMap((id) => byId.get(id) ?? []);
+  }
+
+  async createArtifact(artifact: InsertArtifact, context?: WriteContext): Promise<Artifact> {
+    const [created] = await this.createManyArtifacts([artifact], context);
+    return created;
+  }
+
+  async createManyArtifacts(artifacts: InsertArtifact[], context?: WriteContext): Promise<Artifact[]> {
+    const results = await this.withWriteContext(context, async (client) => {
       const results: Artifact[] = [];
       for (const artifact of artifacts) {
         const result = await client.query(
@@ -343,33 +896,239 @@ export class PostgresStorage implements IStorage {
         );
         results.push(this.mapRowToArtifact(result.rows[0]));
       }
-
-      await client.query("COMMIT");
       return results;
-    } catch (error) {
-      await client.query("ROLLBACK");
-      throw error;
-    } finally {
-      client.release();
+    });
+
+    this.clusterIndexes.clear();
+    return results;
+  }
+
+  async updateArtifact(id: string, updates: UpdateArtifact, context?: WriteContext): Promise<Artifact | undefined> {
+    if (!UUID_PATTERN.test(id)) {
+      return undefined;
     }
+    const params: unknown[] = [id];
+    const assignments: string[] = [];
+    const assign = (column: string, value: unknown) => {
+      params.push(value);
+      assignments.push(`${column} = $${params.length}`);
+    };
+
+    if (updates.name !== undefined) assign("name", updates.name);
+    if (updates.category !== undefined) assign("category", updates.category);
+    if (updates.layer !== undefined) assign("layer", updates.layer);
+    if (updates.description !== undefined) assign("description", updates.description);
+    if (updates.metadata !== undefined) assign("metadata", JSON.stringify(updates.metadata));
+
+    // lat/lng are generated from location, so a move rewrites the point, keeping any unchanged axis
+    if (updates.lat !== undefined || updates.lng !== undefined) {
+      params.push(updates.lng ?? null, updates.lat ?? null);
+      const lngParam = `$${params.length - 1}::double precision`;
+      const latParam = `$${params.length}::double precision`;
+      assignments.push(
+        `location = ST_SetSRID(ST_MakePoint(COALESCE(${lngParam}, lng), COALESCE(${latParam}, lat)), 4326)::geography`
+      );
+    }
+
+    if (assignments.length === 0) {
+      return this.getArtifact(id);
+    }
+
+    // update_layer_count moves the count between layers when the layer column changes
+    const result = await this.withWriteContext(context, (client) =>
+      client.query(
+        `
+        UPDATE artifacts
+        SET ${assignments.join(", ")}
+        WHERE id = $1
+        RETURNING id, name, category, layer, description, metadata, lat, lng,
+                  created_at as "createdAt"
+      `,
+        params
+      )
+    );
+
+    this.clusterIndexes.clear();
+    return result.rows[0] ? this.mapRowToArtifact(result.rows[0]) : undefined;
   }
 
-  async getArtifactCount(layers?: string[]): Promise<number> {
-    const layerClause = layers?.length ? "WHERE layer = ANY($1::text[])" : "";
-    const params = layers?.length ? [layers] : [];
+  async deleteArtifact(id: string, context?: WriteContext): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) {
+      return false;
+    }
+    const result = await this.withWriteContext(context, (client) =>
+      client.query("DELETE FROM artifacts WHERE id = $1", [id])
+    );
+    this.clusterIndexes.clear();
+    return (result.rowCount ?? 0) > 0;
+  }
 
-    const result = await pool.query(
-      `SELECT COUNT(*)::integer as count FROM artifacts ${layerClause}`,
+  async getArtifactCount(layers?: string[], filter?: ScopedFilter): Promise<number> {
+    const params: unknown[] = [];
+    const conditions = this.buildFilterConditions(params, layers, filter);
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db.query(
+      `SELECT COUNT(*)::integer as count FROM artifacts ${whereClause}`,
       params
     );
     return result.rows[0].count;
   }
 
+  async getFacets(
+    fields: string[],
+    bounds?: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<FacetResult> {
+    const scope = (params: unknown[], scopeFilter?: ScopedFilter) => {
+      const conditions = this.buildFilterConditions(params, layers, scopeFilter);
+      if (bounds) {
+        params.push(bounds.west, bounds.south, bounds.east, bounds.north);
+        const n = params.length;
+        conditions.push(
+          `ST_Intersects(location, ST_MakeEnvelope($${n - 3}, $${n - 2}, $${n - 1}, $${n}, 4326)::geography)`
+        );
+      }
+      return conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    };
+
+    // Categories are counted without the category filter, everything else with it
+    const { categories: selected, ...rest }: ScopedFilter = filter ?? {};
+    const categoryParams: unknown[] = [];
+    const categoryResult = await this.db.query(
+      `SELECT category, COUNT(*)::integer as count FROM artifacts
+       ${scope(categoryParams, rest)}
+       GROUP BY category`,
+      categoryParams
+    );
+
+    const categories: Record<string, number> = {};
+    let total = 0;
+    for (const row of categoryResult.rows) {
+      categories[row.category] = row.count;
+      if (!selected?.length || selected.includes(row.category)) {
+        total += row.count;
+      }
+    }
+
+    const facetFields: Record<string, Record<string, number>> = {};
+    for (const field of fields) {
+      const params: unknown[] = [field.split(".")];
+      const whereClause = scope(params, filter);
+      params.push(MAX_FACET_VALUES);
+      const result = await this.db.query(
+        `SELECT metadata #>> $1::text[] as value, COUNT(*)::integer as count
+         FROM artifacts
+         ${whereClause ? `${whereClause} AND` : "WHERE"}
+           jsonb_typeof(metadata #> $1::text[]) IN ('string', 'number', 'boolean')
+           AND metadata #>> $1::text[] <> ''
+         GROUP BY value
+         ORDER BY count DESC
+         LIMIT $${params.length}`,
+        params
+      );
+      facetFields[field] = Object.fromEntries(result.rows.map((row) => [row.value, row.count]));
+    }
+
+    return { total, categories, fields: facetFields };
+  }
+
+  async getMetadataFields(layers?: string[], filter?: ScopedFilter): Promise<MetadataFieldInfo[]> {
+    const params: unknown[] = [];
+    const conditions = this.buildFilterConditions(params, layers, filter);
+    params.push(MAX_CATALOG_DEPTH, MAX_CATALOG_VALUES);
+    const depthParam = `$${params.length - 1}`;
+    const valuesParam = `$${params.length}`;
+
+    // Walk nested objects down to MAX_CATALOG_DEPTH, then group scalar values by path and JSON type
+    const result = await this.db.query(
+      `
+      WITH RECURSIVE entries(path, value) AS (
+        SELECT ARRAY[e.key], e.value
+        FROM artifacts,
+             jsonb_each(CASE WHEN jsonb_typeof(metadata) = 'object' THEN metadata ELSE '{}'::jsonb END) e
+        ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+        UNION ALL
+        SELECT entries.path || e.key, e.value
+        FROM entries,
+             jsonb_each(CASE WHEN jsonb_typeof(entries.value) = 'object' THEN entries.value ELSE '{}'::jsonb END) e
+        WHERE cardinality(entries.path) < ${depthParam}
+      )
+      SELECT array_to_string(path, '.') as path,
+             jsonb_typeof(value) as type,
+             COUNT(*)::integer as count,
+             MIN(CASE WHEN jsonb_typeof(value) = 'number' THEN (value #>> '{}')::float8 END) as min,
+             MAX(CASE WHEN jsonb_typeof(value) = 'number' THEN (value #>> '{}')::float8 END) as max,
+             CASE WHEN COUNT(DISTINCT value) <= ${valuesParam}
+               THEN array_agg(DISTINCT value #>> '{}') END as distinct_values
+      FROM entries
+      WHERE jsonb_typeof(value) IN ('string', 'number', 'boolean')
+      GROUP BY path, jsonb_typeof(value)
+    `,
+      params
+    );
+
+    return summarizeMetadataFields(
+      result.rows.map((row) => ({
+        path: row.path,
+        type: row.type,
+        count: row.count,
+        values: row.distinct_values,
+        min: row.min ?? undefined,
+        max: row.max ?? undefined,
+      }))
+    );
+  }
+
+  /**
+   * Builds layer and attribute filter predicates, pushing their values onto params
+   * so they can follow any positional parameters the caller already uses. Every query
+   * goes through here, so artifacts of restricted layers are always left out.
+   */
+  private buildFilterConditions(
+    params: unknown[],
+    layers?: string[],
+    filter?: ScopedFilter
+  ): string[] {
+    const conditions: string[] = [];
+    const addCondition = (value: unknown, toSql: (param: string) => string) => {
+      params.push(value);
+      conditions.push(toSql(`$${params.length}`));
+    };
+
+    if (layers?.length) {
+      addCondition(layers, (p) => `layer = ANY(${p}::text[])`);
+    }
+    if (filter?.restrictedLayers?.length) {
+      addCondition(filter.restrictedLayers, (p) => `layer <> ALL(${p}::text[])`);
+    }
+    if (filter?.search) {
+      const pattern = `%${filter.search.replace(/[\\%_]/g, "\\$&")}%`;
+      addCondition(pattern, (p) => `(name ILIKE ${p} OR description ILIKE ${p})`);
+    }
+    if (filter?.categories?.length) {
+      addCondition(filter.categories, (p) => `category = ANY(${p}::text[])`);
+    }
+    if (filter?.from) {
+      addCondition(filter.from, (p) => `created_at >= ${p}::timestamptz`);
+    }
+    if (filter?.to) {
+      addCondition(filter.to, (p) => `created_at <= ${p}::timestamptz`);
+    }
+    if (filter?.where) {
+      conditions.push(compileFilterExpression(parseFilterExpression(filter.where), params));
+    }
+
+    return conditions;
+  }
+
   // Layer management methods
   async getLayers(): Promise<Layer[]> {
-    const result = await pool.query(`
+    const result = await this.db.query(`
       SELECT id, name, description, source, source_date as "sourceDate",
-             artifact_count as "artifactCount", visible, style
+             artifact_count as "artifactCount", visible, style,
+             external_key as "externalKey", access
       FROM layers
       ORDER BY name
     `);
@@ -377,10 +1136,11 @@ export class PostgresStorage implements IStorage {
   }
 
   async getLayer(id: string): Promise<Layer | undefined> {
-    const result = await pool.query(
+    const result = await this.db.query(
       `
       SELECT id, name, description, source, source_date as "sourceDate",
-             artifact_count as "artifactCount", visible, style
+             artifact_count as "artifactCount", visible, style,
+             external_key as "externalKey", access
       FROM layers
       WHERE id = $1
     `,
@@ -390,19 +1150,23 @@ export class PostgresStorage implements IStorage {
   }
 
   async createLayer(layer: Omit<Layer, "artifactCount">): Promise<Layer> {
-    const result = await pool.query(
+    const result = await this.db.query(
       `
-      INSERT INTO layers (id, name, description, source, visible, style)
-      VALUES ($1, $2, $3, $4, $5, $6)
+      INSERT INTO layers (id, name, description, source, visible, style, external_key, source_date, access)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       ON CONFLICT (id) DO UPDATE SET
         name = EXCLUDED.name,
         description = EXCLUDED.description,
         source = EXCLUDED.source,
+        source_date = EXCLUDED.source_date,
         visible = EXCLUDED.visible,
         style = EXCLUDED.style,
+        external_key = EXCLUDED.external_key,
+        access = EXCLUDED.access,
         updated_at = NOW()
       RETURNING id, name, description, source, source_date as "sourceDate",
-                artifact_count as "artifactCount", visible, style
+                artifact_count as "artifactCount", visible, style,
+                external_key as "externalKey", access
     `,
       [
         layer.id,
@@ -411,25 +1175,94 @@ export class PostgresStorage implements IStorage {
         layer.source || null,
         layer.visible ?? true,
         JSON.stringify(layer.style || {}),
+        layer.externalKey || null,
+        layer.sourceDate || null,
+        layer.access ? JSON.stringify(layer.access) : null,
       ]
     );
     return this.mapRowToLayer(result.rows[0]);
   }
 
   async updateLayerVisibility(id: string, visible: boolean): Promise<void> {
-    await pool.query(
+    await this.db.query(
       `UPDATE layers SET visible = $2, updated_at = NOW() WHERE id = $1`,
       [id, visible]
     );
   }
 
-  async deleteLayer(id: string): Promise<void> {
+  async updateLayer(id: string, updates: UpdateLayer): Promise<Layer | undefined> {
+    const params: unknown[] = [id];
+    const assignments: string[] = [];
+    const assign = (column: string, value: unknown) => {
+      params.push(value);
+      assignments.push(`${column} = $${params.length}`);
+    };
+
+    if (updates.name !== undefined) assign("name", updates.name);
+    if (updates.description !== undefined) assign("description", updates.description);
+    if (updates.source !== undefined) assign("source", updates.source);
+    if (updates.sourceDate !== undefined) assign("source_date", updates.sourceDate);
+    if (updates.style !== undefined) assign("style", JSON.stringify(updates.style));
+    if (updates.externalKey !== undefined) assign("external_key", updates.externalKey);
+    if (updates.access !== undefined) assign("access", JSON.stringify(updates.access));
+
+    if (assignments.length === 0) {
+      return this.getLayer(id);
+    }
+
+    const result = await this.db.query(
+      `
+      UPDATE layers
+      SET ${assignments.join(", ")}, updated_at = NOW()
+      WHERE id = $1
+      RETURNING id, name, description, source, source_date as "sourceDate",
+                artifact_count as "artifactCount", visible, style,
+                external_key as "externalKey", access
+    `,
+      params
+    );
+    return result.rows[0] ? this.mapRowToLayer(result.rows[0]) : undefined;
+  }
+
+  async deleteLayer(id: string, options: { reassignTo?: string } & WriteContext = {}): Promise<void> {
+    await this.withWriteContext(options, async (client) => {
+      if (options.reassignTo) {
+        // update_layer_count moves the artifact counts to the target layer
+        await client.query("UPDATE artifacts SET layer = $2 WHERE layer = $1", [id, options.reassignTo]);
+      } else {
+        await client.query("DELETE FROM artifacts WHERE layer = $1", [id]);
+      }
+      await client.query("DELETE FROM layers WHERE id = $1", [id]);
+    });
+    this.clusterIndexes.clear();
+  }
+
+  /**
+   * Runs artifact writes in a transaction that names the actor for the history trigger,
+   * which records it as changed_by
+   */
+  private withWriteContext<T>(
+    context: WriteContext | undefined,
+    run: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    return this.inTransaction(async (client) => {
+      await client.query("SELECT set_config('mapui.changed_by', $1, true)", [context?.actor ?? ""]);
+      return run(client);
+    });
+  }
+
+  // Runs run in a new transaction, or in the enclosing one of a storage from transaction()
+  private async inTransaction<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+    if (this.client) {
+      return run(this.client);
+    }
+
     const client = await pool.connect();
     try {
       await client.query("BEGIN");
-      await client.query("DELETE FROM artifacts WHERE layer = $1", [id]);
-      await client.query("DELETE FROM layers WHERE id = $1", [id]);
+      const result = await run(client);
       await client.query("COMMIT");
+      return result;
     } catch (error) {
       await client.query("ROLLBACK");
       throw error;
@@ -438,12 +1271,286 @@ export class PostgresStorage implements IStorage {
     }
   }
 
-  private getClusterGridSize(zoom: number): number {
-    if (zoom <= 6) return 2;
-    if (zoom <= 8) return 1;
-    if (zoom <= 10) return 0.5;
-    if (zoom <= 12) return 0.1;
-    return 0.05;
+  async getArtifactHistory(id: string): Promise<ArtifactHistoryEntry[]> {
+    // Artifact IDs are UUIDs; anything else has no history
+    if (!UUID_PATTERN.test(id)) {
+      return [];
+    }
+
+    const result = await this.db.query(
+      `
+      SELECT id, artifact_id as "artifactId", action, before, after,
+             changed_by as "changedBy", changed_at as "changedAt"
+      FROM artifact_history
+      WHERE artifact_id = $1
+      ORDER BY changed_at DESC, id DESC
+    `,
+      [id]
+    );
+
+    return result.rows.map((row) => {
+      const entry: ArtifactHistoryEntry = {
+        id: Number(row.id),
+        artifactId: row.artifactId,
+        action: row.action,
+        changedAt: (row.changedAt as Date).toISOString(),
+      };
+      if (row.before) entry.before = this.mapRowToArtifact(row.before);
+      if (row.after) entry.after = this.mapRowToArtifact(row.after);
+      if (row.changedBy) entry.changedBy = row.changedBy;
+      return entry;
+    });
+  }
+
+  /**
+   * Artifacts as they were at asOf: the latest history entry of each artifact up to then,
+   * unless it was a delete. The snapshot has the artifacts table's columns, so the usual
+   * layer and attribute filters apply to it.
+   */
+  private async getArtifactsAsOf(
+    asOf: string,
+    bounds?: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const params: unknown[] = [asOf];
+    const conditions: string[] = [];
+    if (bounds) {
+      params.push(bounds.south, bounds.north, bounds.west, bounds.east);
+      conditions.push("lat BETWEEN $2 AND $3", "lng BETWEEN $4 AND $5");
+    }
+    conditions.push(...this.buildFilterConditions(params, layers, filter));
+    const whereClause = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const result = await this.db.query(
+      `
+      WITH latest AS (
+        SELECT DISTINCT ON (artifact_id) artifact_id, action, after
+        FROM artifact_history
+        WHERE changed_at <= $1::timestamptz
+        ORDER BY artifact_id, changed_at DESC, id DESC
+      ),
+      snapshot AS (
+        SELECT artifact_id as id,
+               after->>'name' as name,
+               after->>'category' as category,
+               after->>'layer' as layer,
+               after->>'description' as description,
+               after->'metadata' as metadata,
+               (after->>'lat')::double precision as lat,
+               (after->>'lng')::double precision as lng,
+               (after->>'createdAt')::timestamptz as created_at
+        FROM latest
+        WHERE action <> 'delete'
+      )
+      SELECT id, name, category, layer, description, metadata, lat, lng,
+             created_at as "createdAt"
+      FROM snapshot
+      ${whereClause}
+      ORDER BY id
+    `,
+      params
+    );
+    return result.rows.map(this.mapRowToArtifact);
+  }
+
+  async getPreferences(clientId: string): Promise<UserPreferences> {
+    const result = await this.db.query(
+      `SELECT layer_visibility as "layerVisibility", basemap FROM user_preferences WHERE client_id = $1`,
+      [clientId]
+    );
+    return this.mapRowToPreferences(result.rows[0]);
+  }
+
+  async updatePreferences(clientId: string, updates: UpdatePreferences): Promise<UserPreferences> {
+    // JSONB || merges the visibility overrides into any existing ones; an omitted basemap is kept
+    const result = await this.db.query(
+      `
+      INSERT INTO user_preferences (client_id, layer_visibility, basemap)
+      VALUES ($1, $2::jsonb, $3)
+      ON CONFLICT (client_id) DO UPDATE SET
+        layer_visibility = user_preferences.layer_visibility || EXCLUDED.layer_visibility,
+        basemap = COALESCE(EXCLUDED.basemap, user_preferences.basemap),
+        updated_at = NOW()
+      RETURNING layer_visibility as "layerVisibility", basemap
+    `,
+      [clientId, JSON.stringify(updates.layerVisibility ?? {}), updates.basemap ?? null]
+    );
+    return this.mapRowToPreferences(result.rows[0]);
+  }
+
+  async getUsers(): Promise<User[]> {
+    const result = await this.db.query(`SELECT ${USER_COLUMNS} FROM users ORDER BY username`);
+    return result.rows.map(this.mapRowToUser);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    if (!UUID_PATTERN.test(id)) {
+      return undefined;
+    }
+    const result = await this.db.query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [id]);
+    return result.rows[0] ? this.mapRowToUser(result.rows[0]) : undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<UserRecord | undefined> {
+    const result = await this.db.query(
+      `SELECT ${USER_COLUMNS}, password_hash as "passwordHash" FROM users WHERE LOWER(username) = LOWER($1)`,
+      [username]
+    );
+    const row = result.rows[0];
+    return row ? { ...this.mapRowToUser(row), passwordHash: row.passwordHash } : undefined;
+  }
+
+  async createUser(user: InsertUserRecord): Promise<User> {
+    const result = await this.db.query(
+      `
+      INSERT INTO users (username, password_hash, role, groups)
+      VALUES ($1, $2, $3, $4)
+      RETURNING ${USER_COLUMNS}
+    `,
+      [user.username, user.passwordHash, user.role, user.groups ?? []]
+    );
+    return this.mapRowToUser(result.rows[0]);
+  }
+
+  async updateUser(
+    id: string,
+    updates: Partial<Omit<InsertUserRecord, "username">>
+  ): Promise<User | undefined> {
+    if (!UUID_PATTERN.test(id)) {
+      return undefined;
+    }
+
+    return this.inTransaction(async (client) => {
+      const result = await client.query(
+        `
+        UPDATE users SET
+          password_hash = COALESCE($2, password_hash),
+          role = COALESCE($3, role),
+          groups = COALESCE($4::text[], groups)
+        WHERE id = $1
+        RETURNING ${USER_COLUMNS}
+      `,
+        [id, updates.passwordHash ?? null, updates.role ?? null, updates.groups ?? null]
+      );
+      if (result.rows[0] && updates.passwordHash) {
+        await client.query("DELETE FROM user_sessions WHERE user_id = $1", [id]);
+      }
+      return result.rows[0] ? this.mapRowToUser(result.rows[0]) : undefined;
+    });
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(id)) {
+      return false;
+    }
+    // Sessions and API keys go with the user (ON DELETE CASCADE)
+    const result = await this.db.query("DELETE FROM users WHERE id = $1", [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async createSession(tokenHash: string, userId: string, expiresAt: Date): Promise<void> {
+    await this.db.query("INSERT INTO user_sessions (token_hash, user_id, expires_at) VALUES ($1, $2, $3)", [
+      tokenHash,
+      userId,
+      expiresAt,
+    ]);
+  }
+
+  async getSessionUser(tokenHash: string): Promise<User | undefined> {
+    const result = await this.db.query(
+      `
+      SELECT u.id, u.username, u.role, u.groups, u.created_at as "createdAt"
+      FROM user_sessions s
+      JOIN users u ON u.id = s.user_id
+      WHERE s.token_hash = $1 AND s.expires_at > NOW()
+    `,
+      [tokenHash]
+    );
+    return result.rows[0] ? this.mapRowToUser(result.rows[0]) : undefined;
+  }
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    // Expired sessions are cleared along the way
+    await this.db.query("DELETE FROM user_sessions WHERE token_hash = $1 OR expires_at <= NOW()", [tokenHash]);
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    if (!UUID_PATTERN.test(userId)) {
+      return [];
+    }
+    const result = await this.db.query(
+      `SELECT ${API_KEY_COLUMNS} FROM api_keys WHERE user_id = $1 ORDER BY created_at`,
+      [userId]
+    );
+    return result.rows.map(this.mapRowToApiKey);
+  }
+
+  async createApiKey(key: InsertApiKeyRecord): Promise<ApiKey> {
+    const result = await this.db.query(
+      `
+      INSERT INTO api_keys (user_id, name, prefix, key_hash)
+      VALUES ($1, $2, $3, $4)
+      RETURNING ${API_KEY_COLUMNS}
+    `,
+      [key.userId, key.name, key.prefix, key.keyHash]
+    );
+    return this.mapRowToApiKey(result.rows[0]);
+  }
+
+  async deleteApiKey(userId: string, id: string): Promise<boolean> {
+    if (!UUID_PATTERN.test(userId) || !UUID_PATTERN.test(id)) {
+      return false;
+    }
+    const result = await this.db.query("DELETE FROM api_keys WHERE id = $1 AND user_id = $2", [id, userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getApiKeyUser(keyHash: string): Promise<User | undefined> {
+    const result = await this.db.query(
+      `
+      WITH used AS (
+        UPDATE api_keys SET last_used_at = NOW() WHERE key_hash = $1 RETURNING user_id
+      )
+      SELECT u.id, u.username, u.role, u.groups, u.created_at as "createdAt"
+      FROM used JOIN users u ON u.id = used.user_id
+    `,
+      [keyHash]
+    );
+    return result.rows[0] ? this.mapRowToUser(result.rows[0]) : undefined;
+  }
+
+  private mapRowToUser(row: Record<string, unknown>): User {
+    return {
+      id: row.id as string,
+      username: row.username as string,
+      role: row.role as User["role"],
+      groups: (row.groups as string[]) ?? [],
+      createdAt: (row.createdAt as Date).toISOString(),
+    };
+  }
+
+  private mapRowToApiKey(row: Record<string, unknown>): ApiKey {
+    const key: ApiKey = {
+      id: row.id as string,
+      name: row.name as string,
+      prefix: row.prefix as string,
+      createdAt: (row.createdAt as Date).toISOString(),
+    };
+    if (row.lastUsedAt) {
+      key.lastUsedAt = (row.lastUsedAt as Date).toISOString();
+    }
+    return key;
+  }
+
+  private mapRowToPreferences(row: Record<string, unknown> | undefined): UserPreferences {
+    const preferences: UserPreferences = {
+      layerVisibility: (row?.layerVisibility as Record<string, boolean>) ?? {},
+    };
+    if (row?.basemap) {
+      preferences.basemap = row.basemap as string;
+    }
+    return preferences;
   }
 
   private mapRowToArtifact(row: Record<string, unknown>): Artifact {
@@ -478,7 +1585,9 @@ export class PostgresStorage implements IStorage {
       style:
         typeof row.style === "string"
           ? JSON.parse(row.style)
-          : (row.style as Record<string, unknown>) || undefined,
+          : (row.style as LayerStyle) || undefined,
+      externalKey: (row.externalKey as string) || undefined,
+      access: (row.access as LayerAccess) || undefined,
     };
   }
 }
@@ -0,0 +1,165 @@
+/**
+ * Artifact export serializers (GeoJSON, CSV, KML)
+ * Each serializer yields the document in chunks so routes can stream large exports
+ */
+
+import type { Artifact, ExportFormat } from "@shared/schema";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  geojson: "application/geo+json",
+  csv: "text/csv; charset=utf-8",
+  kml: "application/vnd.google-earth.kml+xml",
+};
+
+const BASE_FIELDS = ["id", "name", "category", "layer", "lat", "lng", "description", "createdAt"] as const;
+
+// Artifacts serialized per chunk
+const CHUNK_SIZE = 500;
+
+/**
+ * Flatten nested metadata into dotted keys ({ a: { b: 1 } } -> { "a.b": 1 }).
+ * Arrays are kept as values. Keys that clash with a base field get a "metadata." prefix.
+ */
+export function flattenMetadata(
+  metadata: Record<string, unknown> | undefined,
+  prefix = ""
+): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  if (!metadata) {
+    return flat;
+  }
+
+  for (const [key, value] of Object.entries(metadata)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+      Object.assign(flat, flattenMetadata(value as Record<string, unknown>, path));
+    } else {
+      const column = !prefix && (BASE_FIELDS as readonly string[]).includes(path) ? `metadata.${path}` : path;
+      flat[column] = value;
+    }
+  }
+  return flat;
+}
+
+function toRecord(artifact: Artifact): Record<string, unknown> {
+  return {
+    id: artifact.id,
+    name: artifact.name,
+    category: artifact.category,
+    layer: artifact.layer,
+    lat: artifact.lat,
+    lng: artifact.lng,
+    description: artifact.description,
+    createdAt: artifact.createdAt,
+    ...flattenMetadata(artifact.metadata),
+  };
+}
+
+function chunked<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+function* serializeGeoJson(artifacts: Artifact[]): Generator<string> {
+  yield '{"type":"FeatureCollection","features":[';
+  let first = true;
+  for (const chunk of chunked(artifacts)) {
+    const features = chunk.map((artifact) => {
+      const { lat, lng, ...properties } = toRecord(artifact);
+      return JSON.stringify({
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [lng, lat] },
+        properties,
+      });
+    });
+    yield (first ? "\n" : ",\n") + features.join(",\n");
+    first = false;
+  }
+  yield "\n]}\n";
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  // Keep spreadsheet apps from evaluating text cells as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function* serializeCsv(artifacts: Artifact[]): Generator<string> {
+  const records = artifacts.map(toRecord);
+
+  // Base fields first, then every metadata column seen in the export, sorted
+  const metadataColumns = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!(BASE_FIELDS as readonly string[]).includes(key)) {
+        metadataColumns.add(key);
+      }
+    }
+  }
+  const columns = [...BASE_FIELDS, ...Array.from(metadataColumns).sort()];
+
+  yield columns.map(formatCell).join(",") + "\r\n";
+  for (const chunk of chunked(records)) {
+    yield chunk.map((record) => columns.map((column) => formatCell(record[column])).join(",")).join("\r\n") + "\r\n";
+  }
+}
+
+function escapeXml(value: unknown): string {
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function* serializeKml(artifacts: Artifact[]): Generator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n';
+  for (const chunk of chunked(artifacts)) {
+    yield chunk
+      .map((artifact) => {
+        const { name, description, lat, lng, ...fields } = toRecord(artifact);
+        const data = Object.entries(fields)
+          .filter(([, value]) => value !== undefined && value !== null)
+          .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+          .join("");
+        return [
+          "<Placemark>",
+          `<name>${escapeXml(name)}</name>`,
+          description ? `<description>${escapeXml(description)}</description>` : "",
+          `<ExtendedData>${data}</ExtendedData>`,
+          `<Point><coordinates>${lng},${lat}</coordinates></Point>`,
+          "</Placemark>\n",
+        ].join("");
+      })
+      .join("");
+  }
+  yield "</Document>\n</kml>\n";
+}
+
+/**
+ * Serialize artifacts in the requested format, chunk by chunk
+ */
+export function serializeArtifacts(artifacts: Artifact[], format: ExportFormat): Generator<string> {
+  switch (format) {
+    case "geojson":
+      return serializeGeoJson(artifacts);
+    case "csv":
+      return serializeCsv(artifacts);
+    case "kml":
+      return serializeKml(artifacts);
+  }
+}
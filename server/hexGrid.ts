@@ -0,0 +1,115 @@
+/**
+ * Pointy-top hexagon grid in Web Mercator for density counts. Each zoom has its own grid with
+ * hexagons of the same size on screen, addressed by axial coordinates (q, r).
+ */
+
+import type { Bounds, DensityResponse } from "@shared/schema";
+import { latY, lngX, xLng, yLat } from "./mercator";
+
+// Hexagon radius, centre to corner, in pixels at 256px tiles
+const HEX_RADIUS = 24;
+
+// Beyond this the hexagons hold a handful of points each, so finer grids are not built
+export const MAX_DENSITY_ZOOM = 16;
+
+const SQRT3 = Math.sqrt(3);
+
+export interface HexBin {
+  q: number;
+  r: number;
+  count: number;
+}
+
+/**
+ * Grid zoom for a map zoom
+ */
+export function densityZoom(zoom: number): number {
+  return Math.max(0, Math.min(Math.floor(zoom), MAX_DENSITY_ZOOM));
+}
+
+/**
+ * Hexagon radius in world units (0..1) on a zoom's grid
+ */
+export function hexSize(zoom: number): number {
+  return HEX_RADIUS / (256 * Math.pow(2, zoom));
+}
+
+/**
+ * Bounds grown by one hexagon, so cells on the edge of the view count all of their points
+ */
+export function densityBounds(bounds: Bounds, zoom: number): Bounds {
+  const size = hexSize(zoom);
+  return {
+    north: yLat(latY(bounds.north) - size),
+    south: yLat(latY(bounds.south) + size),
+    east: Math.min(bounds.east + size * 360, 180),
+    west: Math.max(bounds.west - size * 360, -180),
+  };
+}
+
+/**
+ * Counts points per hexagon on a zoom's grid
+ */
+export function binPoints(points: { lat: number; lng: number }[], zoom: number): HexBin[] {
+  const size = hexSize(zoom);
+  const bins = new Map<string, HexBin>();
+
+  for (const point of points) {
+    const [q, r] = hexAt(lngX(point.lng), latY(point.lat), size);
+    const key = `${q}:${r}`;
+    const bin = bins.get(key);
+    if (bin) {
+      bin.count++;
+    } else {
+      bins.set(key, { q, r, count: 1 });
+    }
+  }
+
+  return Array.from(bins.values());
+}
+
+/**
+ * Density response with each bin's centre and corners in degrees
+ */
+export function toDensityResponse(bins: HexBin[], zoom: number): DensityResponse {
+  const size = hexSize(zoom);
+  let max = 0;
+  let total = 0;
+
+  const cells = bins.map(({ q, r, count }) => {
+    max = Math.max(max, count);
+    total += count;
+
+    const x = size * SQRT3 * (q + r / 2);
+    const y = size * 1.5 * r;
+    const boundary: [number, number][] = [];
+    for (let corner = 0; corner < 6; corner++) {
+      const angle = (Math.PI / 3) * corner - Math.PI / 6;
+      boundary.push([xLng(x + size * Math.cos(angle)), yLat(y + size * Math.sin(angle))]);
+    }
+    return { id: `${zoom}:${q}:${r}`, lat: yLat(y), lng: xLng(x), count, boundary };
+  });
+
+  return { zoom, cells, max, total };
+}
+
+// Axial coordinates of the hexagon containing a world point, by rounding in cube coordinates
+function hexAt(x: number, y: number, size: number): [number, number] {
+  const q = ((SQRT3 / 3) * x - y / 3) / size;
+  const r = ((2 / 3) * y) / size;
+  const s = -q - r;
+
+  let roundedQ = Math.round(q);
+  let roundedR = Math.round(r);
+  const roundedS = Math.round(s);
+  const dq = Math.abs(roundedQ - q);
+  const dr = Math.abs(roundedR - r);
+  const ds = Math.abs(roundedS - s);
+
+  if (dq > dr && dq > ds) {
+    roundedQ = -roundedR - roundedS;
+  } else if (dr > ds) {
+    roundedR = -roundedQ - roundedS;
+  }
+  return [roundedQ, roundedR];
+}
@@ -0,0 +1,114 @@
+/**
+ * Artifact history: the in-memory version log and the viewport of a reconstructed point in time.
+ * PostgresStorage keeps the same entries in the artifact_history table, written by a trigger.
+ */
+
+import {
+  CLUSTER_MAX_ZOOM,
+  type Artifact,
+  type ArtifactHistoryAction,
+  type ArtifactHistoryEntry,
+  type Bounds,
+  type ViewportResponse,
+} from "@shared/schema";
+import { ClusterIndex } from "./clusterIndex";
+import type { WriteContext } from "./storage";
+
+/**
+ * Every version of every artifact, in write order. Artifacts are never mutated in place by
+ * MemStorage, so entries keep references rather than copies.
+ */
+export class ArtifactVersionLog {
+  private entries = new Map<string, ArtifactHistoryEntry[]>();
+  private sequence = 0;
+
+  record(
+    action: ArtifactHistoryAction,
+    before: Artifact | undefined,
+    after: Artifact | undefined,
+    context?: WriteContext,
+    changedAt = new Date().toISOString()
+  ): void {
+    const artifactId = (after ?? before)!.id;
+    const entry: ArtifactHistoryEntry = { id: ++this.sequence, artifactId, action, changedAt };
+    if (before) entry.before = before;
+    if (after) entry.after = after;
+    if (context?.actor) entry.changedBy = context.actor;
+
+    const entries = this.entries.get(artifactId);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      this.entries.set(artifactId, [entry]);
+    }
+  }
+
+  // Newest first; empty for artifacts that never existed
+  getHistory(artifactId: string): ArtifactHistoryEntry[] {
+    return [...(this.entries.get(artifactId) ?? [])].reverse();
+  }
+
+  // The latest version of each artifact at asOf, leaving out those not yet created or already deleted
+  snapshot(asOf: string): Artifact[] {
+    const time = Date.parse(asOf);
+    const artifacts: Artifact[] = [];
+    this.entries.forEach((entries) => {
+      let latest: ArtifactHistoryEntry | undefined;
+      for (const entry of entries) {
+        if (Date.parse(entry.changedAt) > time) break;
+        latest = entry;
+      }
+      if (latest?.after) artifacts.push(latest.after);
+    });
+    return artifacts;
+  }
+}
+
+function inBounds(artifact: Artifact, bounds: Bounds): boolean {
+  return (
+    artifact.lat >= bounds.south &&
+    artifact.lat <= bounds.north &&
+    artifact.lng >= bounds.west &&
+    artifact.lng <= bounds.east
+  );
+}
+
+/**
+ * Viewport of a reconstructed set of artifacts (already narrowed to the layers and filter),
+ * with the same clustering and truncation as the live viewport. The cluster index is built
+ * for the request and not cached, so the cluster endpoints do not know its IDs.
+ */
+export function historicalViewport(
+  artifacts: Artifact[],
+  bounds: Bounds,
+  zoom: number,
+  limit: number
+): ViewportResponse {
+  if (Math.floor(zoom) > CLUSTER_MAX_ZOOM) {
+    const visible = artifacts.filter((artifact) => inBounds(artifact, bounds));
+    return {
+      clusters: [],
+      singles: visible.slice(0, limit),
+      total: visible.length,
+      truncated: visible.length > limit,
+    };
+  }
+
+  // Sorted by ID so the same artifacts always give the same cluster IDs
+  const sorted = [...artifacts].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const byId = new Map(sorted.map((artifact) => [artifact.id, artifact]));
+  const index = new ClusterIndex(
+    sorted.map(({ id, lat, lng, layer, category }) => ({ id, lat, lng, layer: layer || "default", category }))
+  );
+  const { clusters, pointIds } = index.getClusters(bounds, zoom);
+  const total = clusters.reduce((sum, cluster) => sum + cluster.count, pointIds.length);
+  const singles = pointIds.map((id) => byId.get(id)!);
+
+  if (clusters.length + singles.length <= limit) {
+    return { clusters, singles, total, truncated: false };
+  }
+  if (clusters.length <= limit) {
+    return { clusters, singles: singles.slice(0, limit - clusters.length), total, truncated: true };
+  }
+  return { clusters: clusters.slice(0, limit), singles: [], total, truncated: true };
+}
@@ -0,0 +1,457 @@
+/**
+ * Generic artifact import from GeoJSON FeatureCollections and CSV text
+ * Rows are validated against insertArtifactSchema; invalid rows are reported, never inserted
+ */
+
+import { getEveryArtifact, type IStorage, type WriteContext } from "./storage";
+import {
+  insertArtifactSchema,
+  type Artifact,
+  type ImportChanges,
+  type ImportMapping,
+  type ImportReport,
+  type ImportRequest,
+  type ImportRowError,
+  type InsertArtifact,
+} from "@shared/schema";
+
+interface ImportRow {
+  row: number;
+  values: Record<string, unknown>;
+  // GeoJSON rows carry their position in the geometry rather than in columns
+  position?: { lat: unknown; lng: unknown };
+}
+
+/**
+ * Rows read from the input. Rows that could not be read also appear in invalidRows with
+ * whatever values are trustworthy, so their external keys can still be looked up.
+ */
+interface ParsedRows {
+  rows: ImportRow[];
+  errors: ImportRowError[];
+  invalidRows: ImportRow[];
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line endings).
+ * Returns the header and the data rows with their line numbers.
+ */
+export function parseCsv(text: string): { header: string[]; rows: { line: number; cells: string[] }[] } {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(field);
+    // Skip blank lines
+    if (cells.length > 1 || cells[0] !== "") {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      cells.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || cells.length > 0) {
+    endRecord();
+  }
+
+  const [header, ...rows] = records;
+  // Strip a UTF-8 byte order mark from the first header cell
+  const columns = (header?.cells ?? []).map((column, index) =>
+    (index === 0 ? column.replace(/^\uFEFF/, "") : column).trim()
+  );
+  return { header: columns, rows };
+}
+
+// "42" -> 42, but leading zeros ("06103") and blanks stay as text
+function coerceCsvValue(value: string): string | number {
+  const trimmed = value.trim();
+  const numeric = Number(trimmed);
+  return trimmed !== "" && !isNaN(numeric) && String(numeric) === trimmed ? numeric : trimmed;
+}
+
+function csvRows(text: string): ParsedRows {
+  const { header, rows } = parseCsv(text);
+  const errors: ImportRowError[] = [];
+  const importRows: ImportRow[] = [];
+  const invalidRows: ImportRow[] = [];
+
+  for (const { line, cells } of rows) {
+    if (cells.length !== header.length) {
+      errors.push({ row: line, errors: [`Expected ${header.length} columns, found ${cells.length}`] });
+      // Cells can no longer be matched to their columns
+      invalidRows.push({ row: line, values: {} });
+      continue;
+    }
+    const values: Record<string, unknown> = {};
+    header.forEach((column, index) => {
+      if (cells[index].trim() !== "") {
+        values[column] = coerceCsvValue(cells[index]);
+      }
+    });
+    importRows.push({ row: line, values });
+  }
+
+  return { rows: importRows, errors, invalidRows };
+}
+
+function geoJsonRows(features: unknown[]): ParsedRows {
+  const errors: ImportRowError[] = [];
+  const rows: ImportRow[] = [];
+  const invalidRows: ImportRow[] = [];
+
+  features.forEach((feature, index) => {
+    const row = index + 1;
+    const { geometry, properties } = (feature ?? {}) as {
+      geometry?: { type?: string; coordinates?: unknown[] } | null;
+      properties?: Record<string, unknown> | null;
+    };
+
+    if (!geometry || geometry.type !== "Point" || !Array.isArray(geometry.coordinates)) {
+      errors.push({ row, errors: ["Feature geometry must be a Point"] });
+      invalidRows.push({ row, values: properties ?? {} });
+      return;
+    }
+
+    const [lng, lat] = geometry.coordinates;
+    rows.push({ row, values: properties ?? {}, position: { lat, lng } });
+  });
+
+  return { rows, errors, invalidRows };
+}
+
+function toInsertArtifact(
+  row: ImportRow,
+  mapping: ImportMapping,
+  layer: string,
+  defaultCategory?: string
+): unknown {
+  const { values } = row;
+  const mappedColumns = new Set([mapping.name, mapping.category, mapping.description, mapping.lat, mapping.lng]);
+
+  const metadataColumns = mapping.metadata ?? Object.keys(values).filter((column) => !mappedColumns.has(column));
+  const metadata: Record<string, unknown> = {};
+  for (const column of metadataColumns) {
+    if (values[column] !== undefined) {
+      metadata[column] = values[column];
+    }
+  }
+
+  const text = (value: unknown) =>
+    value === undefined || value === null || value === "" ? undefined : String(value);
+
+  return {
+    name: text(values[mapping.name]),
+    category: text(values[mapping.category]) ?? defaultCategory,
+    description: text(values[mapping.description]),
+    lat: row.position ? row.position.lat : values[mapping.lat],
+    lng: row.position ? row.position.lng : values[mapping.lng],
+    layer,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  };
+}
+
+// Positions closer than this (degrees, roughly 1cm) are not reported as moves
+const MOVE_TOLERANCE = 1e-7;
+
+/**
+ * Resolve an external key path ("name", "metadata.hifld_id") on an artifact.
+ * Empty values count as missing; everything else is compared as a string.
+ */
+export function getExternalKeyValue(artifact: InsertArtifact | Artifact, externalKey: string): string | undefined {
+  const [field, ...path] = externalKey.split(".");
+  let value: unknown = field === "metadata" ? artifact.metadata : artifact[field as keyof InsertArtifact];
+  for (const segment of path) {
+    value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[segment] : undefined;
+  }
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+// JSON with sorted object keys, so values read back from JSONB compare equal
+function stableStringify(value: unknown): string | undefined {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item) ?? "null").join(",")}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+}
+
+/**
+ * Field-level differences between a stored artifact and its incoming version.
+ * Metadata is compared key by key; position changes are reported separately as moves.
+ */
+export function diffArtifactFields(
+  existing: Artifact,
+  incoming: InsertArtifact
+): { field: string; from: unknown; to: unknown }[] {
+  const diffs: { field: string; from: unknown; to: unknown }[] = [];
+  const compare = (field: string, from: unknown, to: unknown) => {
+    if (stableStringify(from) !== stableStringify(to)) {
+      diffs.push({ field, from: from ?? null, to: to ?? null });
+    }
+  };
+
+  compare("name", existing.name, incoming.name);
+  compare("category", existing.category, incoming.category);
+  compare("description", existing.description || undefined, incoming.description || undefined);
+
+  const before = existing.metadata ?? {};
+  const after = incoming.metadata ?? {};
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  for (const key of keys) {
+    compare(`metadata.${key}`, before[key], after[key]);
+  }
+
+  return diffs;
+}
+
+/**
+ * Match incoming rows to the layer's records by external key and apply adds, updates and,
+ * with retireMissing, deletions. Stored records that share a key beyond the first match are
+ * treated as missing, so retiring also clears duplicates left by unkeyed imports. Records
+ * keyed like a row that failed validation, or outside scope, are never missing.
+ */
+async function applyKeyedImport(
+  storage: IStorage,
+  request: ImportRequest,
+  externalKey: string,
+  rows: { row: number; artifact: InsertArtifact; key: string }[],
+  failed: { keys: Set<string>; unkeyed: boolean },
+  context?: WriteContext,
+  scope?: (artifact: Artifact) => boolean
+): Promise<{ changes: ImportChanges; written: number }> {
+  const existingByKey = new Map<string, Artifact>();
+  const unmatched: Artifact[] = [];
+  for (const artifact of await getEveryArtifact(storage, undefined, [request.layer])) {
+    const key = getExternalKeyValue(artifact, externalKey);
+    if (key === undefined) continue;
+    // The oldest record keeps the key, whatever order the pages come in
+    const first = existingByKey.get(key);
+    if (first && Date.parse(first.createdAt ?? "") <= Date.parse(artifact.createdAt ?? "")) {
+      unmatched.push(artifact);
+    } else {
+      if (first) unmatched.push(first);
+      existingByKey.set(key, artifact);
+    }
+  }
+
+  const changes: ImportChanges = {
+    externalKey,
+    added: [],
+    changed: [],
+    moved: [],
+    missing: [],
+    unchanged: 0,
+    retired: 0,
+  };
+  const inserts: InsertArtifact[] = [];
+  const updates: { id: string; artifact: InsertArtifact }[] = [];
+
+  for (const { row, artifact, key } of rows) {
+    const existing = existingByKey.get(key);
+    if (!existing) {
+      changes.added.push({ row, key });
+      inserts.push(artifact);
+      continue;
+    }
+    existingByKey.delete(key);
+
+    const fields = diffArtifactFields(existing, artifact);
+    const moved =
+      Math.abs(existing.lat - artifact.lat) > MOVE_TOLERANCE ||
+      Math.abs(existing.lng - artifact.lng) > MOVE_TOLERANCE;
+
+    if (fields.length > 0) {
+      changes.changed.push({ id: existing.id, key, fields });
+    }
+    if (moved) {
+      changes.moved.push({
+        id: existing.id,
+        key,
+        from: { lat: existing.lat, lng: existing.lng },
+        to: { lat: artifact.lat, lng: artifact.lng },
+      });
+    }
+    if (fields.length > 0 || moved) {
+      updates.push({ id: existing.id, artifact });
+    } else {
+      changes.unchanged++;
+    }
+  }
+
+  const missing = [
+    ...Array.from(existingByKey.entries())
+      .filter(([key]) => !failed.keys.has(key))
+      .map(([, artifact]) => artifact),
+    ...unmatched,
+  ];
+  for (const artifact of missing) {
+    if (scope && !scope(artifact)) continue;
+    changes.missing.push({
+      id: artifact.id,
+      key: getExternalKeyValue(artifact, externalKey)!,
+      name: artifact.name,
+    });
+  }
+
+  if (request.dryRun) {
+    return { changes, written: 0 };
+  }
+
+  let written = 0;
+  if (inserts.length > 0) {
+    written += (await storage.createManyArtifacts(inserts, context)).length;
+  }
+  for (const { id, artifact } of updates) {
+    // Metadata is replaced as a whole; an emptied description is written as ""
+    const updated = await storage.updateArtifact(
+      id,
+      { ...artifact, description: artifact.description ?? "", metadata: artifact.metadata ?? {} },
+      context
+    );
+    if (updated) written++;
+  }
+  // A failed row whose key could not be read may be any missing record, so none is retired
+  if (request.retireMissing && !failed.unkeyed) {
+    for (const { id } of changes.missing) {
+      if (await storage.deleteArtifact(id, context)) changes.retired++;
+    }
+  }
+
+  return { changes, written };
+}
+
+/**
+ * Validate every row and, unless dryRun is set, write the valid ones to the target layer.
+ * With an external key (from the request or the layer) rows are upserted and the report
+ * includes the change diff; otherwise every valid row is inserted.
+ * The layer is created when it does not exist yet. Writes are recorded in the artifact history
+ * under context.actor. Stored records outside scope are never reported missing, so a refresh
+ * of part of a layer does not retire the rest.
+ */
+export async function importArtifacts(
+  storage: IStorage,
+  request: ImportRequest,
+  context?: WriteContext,
+  scope?: (artifact: Artifact) => boolean
+): Promise<ImportReport> {
+  const { rows, errors, invalidRows } =
+    request.format === "csv" ? csvRows(request.data) : geoJsonRows(request.data.features);
+  const total = rows.length + errors.length;
+
+  const layer = await storage.getLayer(request.layer);
+  const externalKey = request.externalKey ?? layer?.externalKey;
+
+  // Keys of rows that failed validation; their stored records are kept rather than retired
+  const failed = { keys: new Set<string>(), unkeyed: false };
+  const addFailedRow = (candidate: unknown) => {
+    const key = externalKey ? getExternalKeyValue(candidate as InsertArtifact, externalKey) : undefined;
+    if (key === undefined) {
+      failed.unkeyed = true;
+    } else {
+      failed.keys.add(key);
+    }
+  };
+  for (const row of invalidRows) {
+    addFailedRow(toInsertArtifact(row, request.mapping, request.layer, request.defaultCategory));
+  }
+
+  const valid: { row: number; artifact: InsertArtifact; key: string }[] = [];
+  const firstRowByKey = new Map<string, number>();
+  for (const row of rows) {
+    const candidate = toInsertArtifact(row, request.mapping, request.layer, request.defaultCategory);
+    const result = insertArtifactSchema.safeParse(candidate);
+    if (!result.success) {
+      addFailedRow(candidate);
+      errors.push({
+        row: row.row,
+        errors: result.error.errors.map((issue) =>
+          issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+        ),
+      });
+      continue;
+    }
+
+    if (!externalKey) {
+      valid.push({ row: row.row, artifact: result.data, key: "" });
+      continue;
+    }
+
+    const key = getExternalKeyValue(result.data, externalKey);
+    if (key === undefined) {
+      failed.unkeyed = true;
+      errors.push({ row: row.row, errors: [`${externalKey}: Missing external key`] });
+    } else if (firstRowByKey.has(key)) {
+      errors.push({
+        row: row.row,
+        errors: [`${externalKey}: Duplicate external key "${key}" (first seen on row ${firstRowByKey.get(key)})`],
+      });
+    } else {
+      firstRowByKey.set(key, row.row);
+      valid.push({ row: row.row, artifact: result.data, key });
+    }
+  }
+  errors.sort((a, b) => a.row - b.row);
+
+  const createLayer = !layer && valid.length > 0;
+  if (createLayer && !request.dryRun) {
+    await storage.createLayer({ id: request.layer, name: request.layer, visible: true, externalKey });
+  }
+
+  let imported = 0;
+  let changes: ImportChanges | undefined;
+
+  if (externalKey) {
+    const result = await applyKeyedImport(storage, request, externalKey, valid, failed, context, scope);
+    changes = result.changes;
+    imported = result.written;
+  } else if (!request.dryRun && valid.length > 0) {
+    imported = (await storage.createManyArtifacts(valid.map(({ artifact }) => artifact), context)).length;
+  }
+
+  return {
+    layer: request.layer,
+    dryRun: request.dryRun,
+    total,
+    valid: valid.length,
+    imported,
+    layerCreated: createLayer,
+    errors,
+    changes,
+  };
+}
@@ -6,6 +6,7 @@ import helmet from "helmet";
 import cors from "cors";
 import rateLimit from "express-rate-limit";
 import { getStorage } from "./storage";
+import { ensureAdminUser } from "./auth";
 import { getLogger } from "./logging/logger";
 import { createRequestLogger } from "./logging/middleware/requestLogger";
 import type { ILogger } from "./logging/types";
@@ -96,6 +97,9 @@ app.use(express.urlencoded({ extended: false, limit: "10mb" }));
     metadata: { count: artifactCount },
   });
 
+  // First admin account from ADMIN_USERNAME/ADMIN_PASSWORD
+  await ensureAdminUser(storage, logger);
+
   // Register routes with storage instance
   await registerRoutes(httpServer, app, storage);
 
@@ -1,15 +1,57 @@
 import type {
   Artifact,
   InsertArtifact,
+  UpdateArtifact,
   Bounds,
   CircleSelection,
+  PolygonSelection,
+  CorridorSelection,
   AggregationResult,
+  FacetResult,
+  MetadataFieldInfo,
+  NearbyArtifact,
+  NearestQuery,
   ViewportResponse,
+  ClusterChildren,
+  ClusterData,
+  DensityResponse,
+  StyleRule,
   Layer,
+  UpdateLayer,
+  UserPreferences,
+  UpdatePreferences,
+  ArtifactHistoryEntry,
+  User,
+  ApiKey,
 } from "@shared/schema";
+import { CLUSTER_MAX_ZOOM, MAX_CATALOG_VALUES, MAX_FACET_VALUES } from "@shared/schema";
+import { evaluateFilterExpression, parseFilterExpression } from "@shared/filterExpression";
+import {
+  MAX_CATALOG_DEPTH,
+  summarizeMetadataFields,
+  type MetadataFieldStats,
+} from "./metadataFields";
 import { randomUUID } from "crypto";
-import RBush from "rbush";
-import type { IStorage } from "./storage";
+import RBush, { type BBox } from "rbush";
+import type {
+  IStorage,
+  InsertApiKeyRecord,
+  InsertUserRecord,
+  ScopedFilter,
+  UserRecord,
+  WriteContext,
+} from "./storage";
+import { ClusterIndexCache } from "./clusterIndex";
+import { ArtifactVersionLog, historicalViewport } from "./history";
+import { binPoints, densityBounds, densityZoom, toDensityResponse } from "./hexGrid";
+import {
+  ARTIFACT_TILE_LAYER,
+  CLUSTER_TILE_LAYER,
+  artifactTileFeature,
+  clusterTileFeature,
+  encodeVectorTile,
+  tileBounds,
+} from "./vectorTile";
 
 interface RBushItem {
   minX: number;
@@ -19,15 +61,55 @@ interface RBushItem {
   artifact: Artifact;
 }
 
+const EARTH_RADIUS = 6371000; // metres
+
+// First radius searched for nearest neighbours; it grows fourfold until enough are found
+const NEAREST_START_RADIUS = 1000;
+
+// Substations coloured and sized by their highest voltage (HIFLD voltage_kv_max)
+const SUBSTATION_VOLTAGE_RULES: StyleRule[] = [
+  {
+    type: "graduated",
+    field: "voltage_kv_max",
+    property: "color",
+    label: "Max voltage (kV)",
+    classes: [
+      { max: 69, value: "#facc15" },
+      { min: 69, max: 115, value: "#f97316" },
+      { min: 115, max: 345, value: "#ef4444" },
+      { min: 345, value: "#7f1d1d" },
+    ],
+  },
+  {
+    type: "graduated",
+    field: "voltage_kv_max",
+    property: "size",
+    label: "Max voltage (kV)",
+    classes: [
+      { max: 115, value: 10 },
+      { min: 115, max: 345, value: 13 },
+      { min: 345, value: 16 },
+    ],
+  },
+];
+
 export class MemStorage implements IStorage {
   private artifacts: Map<string, Artifact>;
   private spatialIndex: RBush<RBushItem>;
+  // Viewport clusters per layer/category combination, dropped on every write; other filters are clustered per call
+  private clusterIndexes = new ClusterIndexCache();
   private layers: Map<string, Layer>;
+  private preferences: Map<string, UserPreferences>;
+  private versions = new ArtifactVersionLog();
+  private users = new Map<string, UserRecord>();
+  private sessions = new Map<string, { userId: string; expiresAt: Date }>();
+  private apiKeys = new Map<string, ApiKey & { userId: string; keyHash: string }>();
 
   constructor(seedData: boolean = true) {
     this.artifacts = new Map();
     this.spatialIndex = new RBush<RBushItem>();
     this.layers = new Map();
+    this.preferences = new Map();
     this.initializeLayers();
     if (seedData) {
       this.seedData();
@@ -50,6 +132,12 @@ export class MemStorage implements IStorage {
       source: "HIFLD/ORNL",
       artifactCount: 0,
       visible: true,
+      style: {
+        color: "#ef4444",
+        categories: { tap: { color: "#f97316" } },
+        rules: SUBSTATION_VOLTAGE_RULES,
+      },
+      externalKey: "metadata.hifld_id",
     });
   }
 
@@ -161,6 +249,7 @@ export class MemStorage implements IStorage {
       };
 
       this.artifacts.set(artifact.id, artifact);
+      this.versions.record("create", undefined, artifact, undefined, artifact.createdAt);
     }
 
     this.buildSpatialIndex();
@@ -184,29 +273,54 @@ export class MemStorage implements IStorage {
   }
 
   private buildSpatialIndex() {
-    const items: RBushItem[] = Array.from(this.artifacts.values()).map((artifact) => ({
+    const items: RBushItem[] = Array.from(this.artifacts.values()).map((artifact) =>
+      this.toIndexItem(artifact)
+    );
+    this.spatialIndex.load(items);
+    this.clusterIndexes.clear();
+  }
+
+  private toIndexItem(artifact: Artifact): RBushItem {
+    return {
       minX: artifact.lng,
       minY: artifact.lat,
       maxX: artifact.lng,
       maxY: artifact.lat,
       artifact,
-    }));
-    this.spatialIndex.load(items);
+    };
   }
 
-  async getAllArtifacts(layers?: string[]): Promise<Artifact[]> {
+  private adjustLayerCount(layerId: string, delta: number) {
+    const layer = this.layers.get(layerId);
+    if (layer) {
+      layer.artifactCount = Math.max(layer.artifactCount + delta, 0);
+    }
+  }
+
+  async getAllArtifacts(layers?: string[], filter?: ScopedFilter): Promise<Artifact[]> {
     let artifacts = Array.from(this.artifacts.values());
     if (layers?.length) {
       artifacts = artifacts.filter((a) => layers.includes(a.layer || "default"));
     }
-    return artifacts;
+    return this.applyFilter(artifacts, filter);
   }
 
   async getArtifact(id: string): Promise<Artifact | undefined> {
     return this.artifacts.get(id);
   }
 
-  async getArtifactsInBounds(bounds: Bounds, layers?: string[]): Promise<Artifact[]> {
+  async getArtifactsInBounds(
+    bounds: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter,
+    asOf?: string
+  ): Promise<Artifact[]> {
+    if (asOf) {
+      return this.getArtifactsAsOf(asOf, layers, filter).filter(
+        (a) => a.lat >= bounds.south && a.lat <= bounds.north && a.lng >= bounds.west && a.lng <= bounds.east
+      );
+    }
+
     const results = this.spatialIndex.search({
       minX: bounds.west,
       minY: bounds.south,
@@ -217,10 +331,84 @@ export class MemStorage implements IStorage {
     if (layers?.length) {
       artifacts = artifacts.filter((a: Artifact) => layers.includes(a.layer || "default"));
     }
-    return artifacts;
+    return this.applyFilter(artifacts, filter);
+  }
+
+  async getArtifactPage(
+    limit: number,
+    after?: string,
+    bounds?: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const artifacts = bounds
+      ? await this.getArtifactsInBounds(bounds, layers, filter)
+      : await this.getAllArtifacts(layers, filter);
+    return artifacts
+      .filter((a) => after === undefined || a.id > after)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit);
+  }
+
+  private getArtifactsAsOf(asOf: string, layers?: string[], filter?: ScopedFilter): Artifact[] {
+    let artifacts = this.versions.snapshot(asOf);
+    if (layers?.length) {
+      artifacts = artifacts.filter((a) => layers.includes(a.layer || "default"));
+    }
+    return this.applyFilter(artifacts, filter);
+  }
+
+  async getArtifactHistory(id: string): Promise<ArtifactHistoryEntry[]> {
+    return this.versions.getHistory(id);
   }
 
-  async getArtifactsInCircle(circle: CircleSelection, layers?: string[]): Promise<Artifact[]> {
+  /**
+   * Applies search, category, date and where filters with the same semantics as PostgresStorage:
+   * case-insensitive substring match on name or description, inclusive date range on createdAt.
+   * Every query goes through here, so artifacts of restricted layers are always left out.
+   */
+  private applyFilter(artifacts: Artifact[], filter?: ScopedFilter): Artifact[] {
+    if (!filter) {
+      return artifacts;
+    }
+
+    const search = filter.search?.toLowerCase();
+    const from = filter.from ? Date.parse(filter.from) : undefined;
+    const to = filter.to ? Date.parse(filter.to) : undefined;
+    const where = filter.where ? parseFilterExpression(filter.where) : undefined;
+
+    return artifacts.filter((artifact) => {
+      if (filter.restrictedLayers?.includes(artifact.layer || "default")) {
+        return false;
+      }
+      if (
+        search &&
+        !artifact.name.toLowerCase().includes(search) &&
+        !artifact.description?.toLowerCase().includes(search)
+      ) {
+        return false;
+      }
+      if (filter.categories?.length && !filter.categories.includes(artifact.category)) {
+        return false;
+      }
+      if (from !== undefined || to !== undefined) {
+        if (!artifact.createdAt) return false;
+        const createdAt = Date.parse(artifact.createdAt);
+        if (from !== undefined && createdAt < from) return false;
+        if (to !== undefined && createdAt > to) return false;
+      }
+      if (where && !evaluateFilterExpression(where, artifact.metadata)) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  async getArtifactsInCircle(
+    circle: CircleSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
     const { center, radius } = circle;
     const radiusInDegrees = radius / 111320;
 
@@ -246,12 +434,171 @@ export class MemStorage implements IStorage {
     if (layers?.length) {
       artifacts = artifacts.filter((a: Artifact) => layers.includes(a.layer || "default"));
     }
-    return artifacts;
+    return this.applyFilter(artifacts, filter);
+  }
+
+  async getAggregation(
+    circle: CircleSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<AggregationResult> {
+    const artifacts = await this.getArtifactsInCircle(circle, layers, filter);
+    return this.aggregate(artifacts);
+  }
+
+  async getArtifactsInPolygon(
+    polygon: PolygonSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const [outerRing] = polygon.coordinates;
+    const lngs = outerRing.map(([lng]) => lng);
+    const lats = outerRing.map(([, lat]) => lat);
+
+    // RBush narrows to the outer ring's bounding box, point-in-polygon does the exact test
+    const candidateItems = this.spatialIndex.search({
+      minX: Math.min(...lngs),
+      minY: Math.min(...lats),
+      maxX: Math.max(...lngs),
+      maxY: Math.max(...lats),
+    });
+
+    let artifacts = candidateItems
+      .map((item: RBushItem) => item.artifact)
+      .filter((artifact: Artifact) =>
+        this.pointInPolygon(artifact.lng, artifact.lat, polygon.coordinates)
+      );
+
+    if (layers?.length) {
+      artifacts = artifacts.filter((a: Artifact) => layers.includes(a.layer || "default"));
+    }
+    return this.applyFilter(artifacts, filter);
+  }
+
+  async getPolygonAggregation(
+    polygon: PolygonSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<AggregationResult> {
+    const artifacts = await this.getArtifactsInPolygon(polygon, layers, filter);
+    return this.aggregate(artifacts);
+  }
+
+  async getArtifactsInCorridor(
+    corridor: CorridorSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]> {
+    const { line, buffer } = corridor;
+    const lngs = line.coordinates.map(([lng]) => lng);
+    const lats = line.coordinates.map(([, lat]) => lat);
+
+    // RBush narrows to the line's bounding box grown by the buffer, segment distance does the exact test
+    const latDelta = buffer / 111320;
+    const widestLat = Math.max(...lats.map(Math.abs)) + latDelta;
+    const lngDelta = widestLat >= 90 ? 360 : latDelta / Math.cos(this.toRad(widestLat));
+    const candidateItems = this.spatialIndex.search({
+      minX: Math.min(...lngs) - lngDelta,
+      minY: Math.min(...lats) - latDelta,
+      maxX: Math.max(...lngs) + lngDelta,
+      maxY: Math.max(...lats) + latDelta,
+    });
+
+    let artifacts = candidateItems
+      .map((item: RBushItem) => item.artifact)
+      .filter((artifact: Artifact) =>
+        line.coordinates.some(
+          (start, i) =>
+            i < line.coordinates.length - 1 &&
+            this.distanceToSegment(artifact.lat, artifact.lng, start, line.coordinates[i + 1]) <= buffer
+        )
+      );
+
+    if (layers?.length) {
+      artifacts = artifacts.filter((a: Artifact) => layers.includes(a.layer || "default"));
+    }
+    return this.applyFilter(artifacts, filter);
   }
 
-  async getAggregation(circle: CircleSelection, layers?: string[]): Promise<AggregationResult> {
-    const artifacts = await this.getArtifactsInCircle(circle, layers);
+  async getCorridorAggregation(
+    corridor: CorridorSelection,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<AggregationResult> {
+    const artifacts = await this.getArtifactsInCorridor(corridor, layers, filter);
+    return this.aggregate(artifacts);
+  }
+
+  /**
+   * Searches the index in growing circles until k matches lie inside the searched radius.
+   * Anything not yet found is further away than that radius, so those k are the nearest.
+   */
+  async getNearestArtifacts(
+    query: NearestQuery,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<NearbyArtifact[]> {
+    const { lat, lng, k } = query;
+    // Half the circumference reaches every point on the globe
+    const limit = Math.min(query.maxDistance ?? Infinity, Math.PI * EARTH_RADIUS);
+    let radius = Math.min(NEAREST_START_RADIUS, limit);
+
+    for (;;) {
+      const inRadius = this.radiusSearchBoxes(lat, lng, radius)
+        .flatMap((box) => this.spatialIndex.search(box))
+        .map((item: RBushItem) => item.artifact)
+        .filter(
+          (artifact: Artifact) =>
+            (!layers?.length || layers.includes(artifact.layer || "default")) &&
+            this.haversineDistance(lat, lng, artifact.lat, artifact.lng) <= radius
+        );
+      const matches = this.applyFilter(inRadius, filter);
 
+      if (matches.length >= k || radius >= limit) {
+        return matches
+          .map((artifact) => ({
+            artifact,
+            distance: this.haversineDistance(lat, lng, artifact.lat, artifact.lng),
+          }))
+          .sort((a, b) => a.distance - b.distance)
+          .slice(0, k);
+      }
+      radius = Math.min(radius * 4, limit);
+    }
+  }
+
+  /**
+   * Boxes covering every point within radius metres of (lat, lng): split in two where the
+   * longitude range wraps the antimeridian, widened to all longitudes when it reaches a pole.
+   */
+  private radiusSearchBoxes(lat: number, lng: number, radius: number): BBox[] {
+    const angle = radius / EARTH_RADIUS;
+    const latDelta = (angle * 180) / Math.PI;
+    const minY = lat - latDelta;
+    const maxY = lat + latDelta;
+    if (minY <= -90 || maxY >= 90) {
+      return [{ minX: -180, minY: Math.max(minY, -90), maxX: 180, maxY: Math.min(maxY, 90) }];
+    }
+
+    const lngDelta = (Math.asin(Math.sin(angle) / Math.cos(this.toRad(lat))) * 180) / Math.PI;
+    const minX = lng - lngDelta;
+    const maxX = lng + lngDelta;
+    if (minX < -180) {
+      return [
+        { minX: minX + 360, minY, maxX: 180, maxY },
+        { minX: -180, minY, maxX, maxY },
+      ];
+    }
+    if (maxX > 180) {
+      return [
+        { minX, minY, maxX: 180, maxY },
+        { minX: -180, minY, maxX: maxX - 360, maxY },
+      ];
+    }
+    return [{ minX, minY, maxX, maxY }];
+  }
+
+  private aggregate(artifacts: Artifact[]): AggregationResult {
     const categories: Record<string, number> = {};
     artifacts.forEach((artifact) => {
       categories[artifact.category] = (categories[artifact.category] || 0) + 1;
@@ -264,7 +611,7 @@ export class MemStorage implements IStorage {
     };
   }
 
-  async createArtifact(insertArtifact: InsertArtifact): Promise<Artifact> {
+  async createArtifact(insertArtifact: InsertArtifact, context?: WriteContext): Promise<Artifact> {
     const id = randomUUID();
     const artifact: Artifact = {
       ...insertArtifact,
@@ -273,34 +620,80 @@ export class MemStorage implements IStorage {
       createdAt: new Date().toISOString(),
     };
     this.artifacts.set(id, artifact);
-
-    this.spatialIndex.insert({
-      minX: artifact.lng,
-      minY: artifact.lat,
-      maxX: artifact.lng,
-      maxY: artifact.lat,
-      artifact,
-    });
+    this.spatialIndex.insert(this.toIndexItem(artifact));
+    this.clusterIndexes.clear();
+    this.versions.record("create", undefined, artifact, context);
 
     // Update layer count
-    const layer = this.layers.get(artifact.layer);
-    if (layer) {
-      layer.artifactCount++;
-    }
+    this.adjustLayerCount(artifact.layer, 1);
 
     return artifact;
   }
 
-  async createManyArtifacts(insertArtifacts: InsertArtifact[]): Promise<Artifact[]> {
+  async createManyArtifacts(insertArtifacts: InsertArtifact[], context?: WriteContext): Promise<Artifact[]> {
     const artifacts: Artifact[] = [];
     for (const insert of insertArtifacts) {
-      const artifact = await this.createArtifact(insert);
+      const artifact = await this.createArtifact(insert, context);
       artifacts.push(artifact);
     }
     return artifacts;
   }
 
-  async getArtifactCount(layers?: string[]): Promise<number> {
+  async updateArtifact(id: string, updates: UpdateArtifact, context?: WriteContext): Promise<Artifact | undefined> {
+    const existing = this.artifacts.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const artifact: Artifact = {
+      ...existing,
+      ...updates,
+      id,
+      layer: updates.layer || existing.layer,
+      createdAt: existing.createdAt,
+    };
+
+    // Index items hold the artifact object, so the old entry is replaced even if the point did not move
+    this.removeFromIndex(existing);
+    this.artifacts.set(id, artifact);
+    this.spatialIndex.insert(this.toIndexItem(artifact));
+    this.clusterIndexes.clear();
+    this.versions.record("update", existing, artifact, context);
+
+    if (artifact.layer !== existing.layer) {
+      this.adjustLayerCount(existing.layer, -1);
+      this.adjustLayerCount(artifact.layer, 1);
+    }
+
+    return artifact;
+  }
+
+  async deleteArtifact(id: string, context?: WriteContext): Promise<boolean> {
+    const existing = this.artifacts.get(id);
+    if (!existing) {
+      return false;
+    }
+
+    this.removeFromIndex(existing);
+    this.artifacts.delete(id);
+    this.clusterIndexes.clear();
+    this.adjustLayerCount(existing.layer, -1);
+    this.versions.record("delete", existing, undefined, context);
+
+    return true;
+  }
+
+  private removeFromIndex(artifact: Artifact) {
+    this.spatialIndex.remove(
+      this.toIndexItem(artifact),
+      (a: RBushItem, b: RBushItem) => a.artifact.id === b.artifact.id
+    );
+  }
+
+  async getArtifactCount(layers?: string[], filter?: ScopedFilter): Promise<number> {
+    if (filter) {
+      return (await this.getAllArtifacts(layers, filter)).length;
+    }
     if (layers?.length) {
       return Array.from(this.artifacts.values()).filter((a) =>
         layers.includes(a.layer || "default")
@@ -309,60 +702,124 @@ export class MemStorage implements IStorage {
     return this.artifacts.size;
   }
 
+  async getFacets(
+    fields: string[],
+    bounds?: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<FacetResult> {
+    // Categories are counted without the category filter, everything else with it
+    const { categories: selected, ...rest }: ScopedFilter = filter ?? {};
+    const scopeFilter = Object.keys(rest).length ? rest : undefined;
+    const inScope = bounds
+      ? await this.getArtifactsInBounds(bounds, layers, scopeFilter)
+      : await this.getAllArtifacts(layers, scopeFilter);
+    const matching = selected?.length
+      ? inScope.filter((artifact) => selected.includes(artifact.category))
+      : inScope;
+
+    const categories: Record<string, number> = {};
+    inScope.forEach((artifact) => {
+      categories[artifact.category] = (categories[artifact.category] || 0) + 1;
+    });
+
+    const facetFields: Record<string, Record<string, number>> = {};
+    fields.forEach((field) => {
+      const counts = new Map<string, number>();
+      matching.forEach((artifact) => {
+        const value = this.getMetadataValue(artifact, field);
+        if (value !== undefined) {
+          counts.set(value, (counts.get(value) || 0) + 1);
+        }
+      });
+      facetFields[field] = Object.fromEntries(
+        Array.from(counts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_FACET_VALUES)
+      );
+    });
+
+    return { total: matching.length, categories, fields: facetFields };
+  }
+
+  async getMetadataFields(layers?: string[], filter?: ScopedFilter): Promise<MetadataFieldInfo[]> {
+    const stats = new Map<string, MetadataFieldStats>();
+
+    const collect = (value: unknown, path: string[]) => {
+      if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+        if (path.length < MAX_CATALOG_DEPTH) {
+          Object.entries(value).forEach(([key, child]) => collect(child, [...path, key]));
+        }
+        return;
+      }
+      const type = typeof value;
+      if (path.length === 0 || (type !== "string" && type !== "number" && type !== "boolean")) {
+        return;
+      }
+
+      const key = `${path.join(".")}\u0000${type}`;
+      let entry = stats.get(key);
+      if (!entry) {
+        entry = { path: path.join("."), type: type as MetadataFieldStats["type"], count: 0, values: [] };
+        stats.set(key, entry);
+      }
+      entry.count++;
+      if (typeof value === "number") {
+        entry.min = entry.min === undefined ? value : Math.min(entry.min, value);
+        entry.max = entry.max === undefined ? value : Math.max(entry.max, value);
+      } else if (typeof value === "string" && entry.values && !entry.values.includes(value)) {
+        if (entry.values.length < MAX_CATALOG_VALUES) {
+          entry.values.push(value);
+        } else {
+          entry.values = null;
+        }
+      }
+    };
+
+    const artifacts = await this.getAllArtifacts(layers, filter);
+    artifacts.forEach((artifact) => collect(artifact.metadata ?? {}, []));
+    return summarizeMetadataFields(Array.from(stats.values()));
+  }
+
+  // Scalar metadata value at a dotted path, as a string; objects and empty values are skipped
+  private getMetadataValue(artifact: Artifact, field: string): string | undefined {
+    let value: unknown = artifact.metadata;
+    for (const key of field.split(".")) {
+      value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return value === undefined || value === null || value === "" || typeof value === "object"
+      ? undefined
+      : String(value);
+  }
+
   async getViewportData(
     bounds: Bounds,
     zoom: number,
     limit: number,
-    layers?: string[]
+    layers?: string[],
+    filter?: ScopedFilter,
+    asOf?: string
   ): Promise<ViewportResponse> {
-    const artifacts = await this.getArtifactsInBounds(bounds, layers);
-    const total = artifacts.length;
+    if (asOf) {
+      return historicalViewport(this.getArtifactsAsOf(asOf, layers, filter), bounds, zoom, limit);
+    }
 
-    if (zoom >= 13) {
+    if (Math.floor(zoom) > CLUSTER_MAX_ZOOM) {
+      const artifacts = await this.getArtifactsInBounds(bounds, layers, filter);
       const truncated = artifacts.length > limit;
       const singles = truncated ? artifacts.slice(0, limit) : artifacts;
       return {
         clusters: [],
         singles,
-        total,
+        total: artifacts.length,
         truncated,
       };
     }
 
-    const gridSize = this.getClusterGridSize(zoom);
-    const grid = new Map<string, Artifact[]>();
-
-    artifacts.forEach((artifact) => {
-      const cellX = Math.floor(artifact.lng / gridSize);
-      const cellY = Math.floor(artifact.lat / gridSize);
-      const key = `${cellX}:${cellY}`;
-
-      if (!grid.has(key)) {
-        grid.set(key, []);
-      }
-      grid.get(key)!.push(artifact);
-    });
-
-    const clusters: Array<{ id: string; lat: number; lng: number; count: number }> = [];
-    const singles: Artifact[] = [];
-
-    grid.forEach((cellArtifacts, key) => {
-      if (cellArtifacts.length > 3) {
-        const centerLat =
-          cellArtifacts.reduce((sum, a) => sum + a.lat, 0) / cellArtifacts.length;
-        const centerLng =
-          cellArtifacts.reduce((sum, a) => sum + a.lng, 0) / cellArtifacts.length;
-
-        clusters.push({
-          id: `cluster-${key}`,
-          lat: centerLat,
-          lng: centerLng,
-          count: cellArtifacts.length,
-        });
-      } else {
-        singles.push(...cellArtifacts);
-      }
-    });
+    const index = await this.getClusterIndex(layers, filter);
+    const { clusters, pointIds } = index.getClusters(bounds, zoom);
+    const total = clusters.reduce((sum, cluster) => sum + cluster.count, pointIds.length);
+    const singles = pointIds.map((id) => this.artifacts.get(id)!);
 
     const combinedCount = clusters.length + singles.length;
     const truncated = combinedCount > limit;
@@ -394,12 +851,84 @@ export class MemStorage implements IStorage {
     };
   }
 
-  private getClusterGridSize(zoom: number): number {
-    if (zoom <= 6) return 2;
-    if (zoom <= 8) return 1;
-    if (zoom <= 10) return 0.5;
-    if (zoom <= 12) return 0.1;
-    return 0.05;
+  async getClusterChildren(
+    clusterId: string,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<ClusterChildren | undefined> {
+    const index = await this.getClusterIndex(layers, filter);
+    const children = index.getChildren(clusterId);
+    return (
+      children && {
+        clusters: children.clusters,
+        singles: children.pointIds.map((id) => this.artifacts.get(id)!),
+      }
+    );
+  }
+
+  async getClusterLeaves(
+    clusterId: string,
+    limit: number,
+    offset: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[] | undefined> {
+    const index = await this.getClusterIndex(layers, filter);
+    return index.getLeaves(clusterId, limit, offset)?.map((id) => this.artifacts.get(id)!);
+  }
+
+  async getVectorTile(
+    z: number,
+    x: number,
+    y: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Uint8Array> {
+    const bounds = tileBounds(z, x, y);
+    let clusters: ClusterData[] = [];
+    let artifacts: Artifact[];
+
+    if (z > CLUSTER_MAX_ZOOM) {
+      artifacts = await this.getArtifactsInBounds(bounds, layers, filter);
+    } else {
+      const index = await this.getClusterIndex(layers, filter);
+      const view = index.getClusters(bounds, z);
+      clusters = view.clusters;
+      artifacts = view.pointIds.map((id) => this.artifacts.get(id)!);
+    }
+
+    return encodeVectorTile(
+      [
+        { name: CLUSTER_TILE_LAYER, features: clusters.map(clusterTileFeature) },
+        { name: ARTIFACT_TILE_LAYER, features: artifacts.map(artifactTileFeature) },
+      ],
+      z,
+      x,
+      y
+    );
+  }
+
+  async getDensity(
+    bounds: Bounds,
+    zoom: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<DensityResponse> {
+    const gridZoom = densityZoom(zoom);
+    const artifacts = await this.getArtifactsInBounds(densityBounds(bounds, gridZoom), layers, filter);
+    return toDensityResponse(binPoints(artifacts, gridZoom), gridZoom);
+  }
+
+  private getClusterIndex(layers?: string[], filter?: ScopedFilter) {
+    return this.clusterIndexes.get(layers, filter, async () =>
+      (await this.getAllArtifacts(layers, filter)).map(({ id, lat, lng, layer, category }) => ({
+        id,
+        lat,
+        lng,
+        layer: layer || "default",
+        category,
+      }))
+    );
   }
 
   // Layer management methods
@@ -427,15 +956,38 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async deleteLayer(id: string): Promise<void> {
-    // Delete all artifacts in the layer
-    const toDelete: string[] = [];
+  async updateLayer(id: string, updates: UpdateLayer): Promise<Layer | undefined> {
+    const layer = this.layers.get(id);
+    if (!layer) {
+      return undefined;
+    }
+    const updated: Layer = { ...layer, ...updates, id };
+    this.layers.set(id, updated);
+    return updated;
+  }
+
+  async deleteLayer(id: string, options: { reassignTo?: string } & WriteContext = {}): Promise<void> {
+    const { reassignTo } = options;
+
+    // Delete all artifacts in the layer, or move them to the reassignment target
+    let moved = 0;
     Array.from(this.artifacts.entries()).forEach(([artifactId, artifact]) => {
-      if (artifact.layer === id) {
-        toDelete.push(artifactId);
+      if (artifact.layer !== id) {
+        return;
+      }
+      if (reassignTo) {
+        const reassigned = { ...artifact, layer: reassignTo };
+        this.artifacts.set(artifactId, reassigned);
+        this.versions.record("update", artifact, reassigned, options);
+        moved++;
+      } else {
+        this.artifacts.delete(artifactId);
+        this.versions.record("delete", artifact, undefined, options);
       }
     });
-    toDelete.forEach((artifactId) => this.artifacts.delete(artifactId));
+    if (reassignTo) {
+      this.adjustLayerCount(reassignTo, moved);
+    }
 
     // Rebuild spatial index
     this.spatialIndex = new RBush<RBushItem>();
@@ -445,13 +997,140 @@ export class MemStorage implements IStorage {
     this.layers.delete(id);
   }
 
+  async getPreferences(clientId: string): Promise<UserPreferences> {
+    return this.preferences.get(clientId) ?? { layerVisibility: {} };
+  }
+
+  async updatePreferences(clientId: string, updates: UpdatePreferences): Promise<UserPreferences> {
+    const current = await this.getPreferences(clientId);
+    const updated: UserPreferences = {
+      layerVisibility: { ...current.layerVisibility, ...updates.layerVisibility },
+      basemap: updates.basemap ?? current.basemap,
+    };
+    this.preferences.set(clientId, updated);
+    return updated;
+  }
+
+  private toUser({ passwordHash: _passwordHash, ...user }: UserRecord): User {
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .map((user) => this.toUser(user))
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && this.toUser(user);
+  }
+
+  async getUserByUsername(username: string): Promise<UserRecord | undefined> {
+    const name = username.toLowerCase();
+    return Array.from(this.users.values()).find((user) => user.username.toLowerCase() === name);
+  }
+
+  async createUser(insertUser: InsertUserRecord): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`User ${insertUser.username} already exists`);
+    }
+    const user: UserRecord = {
+      ...insertUser,
+      groups: insertUser.groups ?? [],
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.users.set(user.id, user);
+    return this.toUser(user);
+  }
+
+  async updateUser(
+    id: string,
+    updates: Partial<Omit<InsertUserRecord, "username">>
+  ): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const user = { ...existing, ...updates };
+    this.users.set(id, user);
+    if (updates.passwordHash) {
+      this.deleteSessionsOf(id);
+    }
+    return this.toUser(user);
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    if (!this.users.delete(id)) {
+      return false;
+    }
+    this.deleteSessionsOf(id);
+    Array.from(this.apiKeys.entries()).forEach(([keyHash, key]) => {
+      if (key.userId === id) this.apiKeys.delete(keyHash);
+    });
+    return true;
+  }
+
+  private deleteSessionsOf(userId: string): void {
+    Array.from(this.sessions.entries()).forEach(([tokenHash, session]) => {
+      if (session.userId === userId) this.sessions.delete(tokenHash);
+    });
+  }
+
+  async createSession(tokenHash: string, userId: string, expiresAt: Date): Promise<void> {
+    this.sessions.set(tokenHash, { userId, expiresAt });
+  }
+
+  async getSessionUser(tokenHash: string): Promise<User | undefined> {
+    const session = this.sessions.get(tokenHash);
+    if (!session) {
+      return undefined;
+    }
+    if (session.expiresAt.getTime() <= Date.now()) {
+      this.sessions.delete(tokenHash);
+      return undefined;
+    }
+    return this.getUser(session.userId);
+  }
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    this.sessions.delete(tokenHash);
+  }
+
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter((key) => key.userId === userId)
+      .map(({ userId: _userId, keyHash: _keyHash, ...key }) => key);
+  }
+
+  async createApiKey({ userId, name, prefix, keyHash }: InsertApiKeyRecord): Promise<ApiKey> {
+    const key: ApiKey = { id: randomUUID(), name, prefix, createdAt: new Date().toISOString() };
+    this.apiKeys.set(keyHash, { ...key, userId, keyHash });
+    return key;
+  }
+
+  async deleteApiKey(userId: string, id: string): Promise<boolean> {
+    const entry = Array.from(this.apiKeys.values()).find((key) => key.id === id && key.userId === userId);
+    return entry ? this.apiKeys.delete(entry.keyHash) : false;
+  }
+
+  async getApiKeyUser(keyHash: string): Promise<User | undefined> {
+    const key = this.apiKeys.get(keyHash);
+    if (!key) {
+      return undefined;
+    }
+    key.lastUsedAt = new Date().toISOString();
+    return this.getUser(key.userId);
+  }
+
   private haversineDistance(
     lat1: number,
     lng1: number,
     lat2: number,
     lng2: number
   ): number {
-    const R = 6371000;
+    const R = EARTH_RADIUS;
     const dLat = this.toRad(lat2 - lat1);
     const dLng = this.toRad(lng2 - lng1);
     const a =
@@ -464,6 +1143,59 @@ export class MemStorage implements IStorage {
     return R * c;
   }
 
+  /**
+   * Metres from a point to the nearest point of a great-circle segment given as [lng, lat]
+   * positions, matching ST_DWithin against a geography line in PostgresStorage
+   */
+  private distanceToSegment(lat: number, lng: number, start: number[], end: number[]): number {
+    const [lng1, lat1] = start;
+    const [lng2, lat2] = end;
+    const toPoint = this.haversineDistance(lat1, lng1, lat, lng) / EARTH_RADIUS;
+    const length = this.haversineDistance(lat1, lng1, lat2, lng2) / EARTH_RADIUS;
+    const angle = this.bearing(lat1, lng1, lat, lng) - this.bearing(lat1, lng1, lat2, lng2);
+
+    // Behind the start of the segment, or a zero-length segment
+    if (length === 0 || Math.cos(angle) < 0) {
+      return toPoint * EARTH_RADIUS;
+    }
+
+    const crossTrack = Math.asin(Math.sin(toPoint) * Math.sin(angle));
+    const alongTrack = Math.acos(Math.min(1, Math.cos(toPoint) / Math.cos(crossTrack)));
+    if (alongTrack > length) {
+      return this.haversineDistance(lat2, lng2, lat, lng);
+    }
+    return Math.abs(crossTrack) * EARTH_RADIUS;
+  }
+
+  // Initial great-circle bearing in radians
+  private bearing(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const phi1 = this.toRad(lat1);
+    const phi2 = this.toRad(lat2);
+    const dLng = this.toRad(lng2 - lng1);
+    return Math.atan2(
+      Math.sin(dLng) * Math.cos(phi2),
+      Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng)
+    );
+  }
+
+  /**
+   * Even-odd ray casting over all rings, so points inside holes are excluded.
+   * Edges are straight lines in lng/lat, matching ST_Within on geometry in PostgresStorage.
+   */
+  private pointInPolygon(lng: number, lat: number, rings: number[][][]): boolean {
+    let inside = false;
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+    }
+    return inside;
+  }
+
   private toRad(deg: number): number {
     return (deg * Math.PI) / 180;
   }
@@ -0,0 +1,22 @@
+/**
+ * Web Mercator conversions between degrees and world coordinates, 0..1 from the west edge
+ * and the north edge of a zoom 0 tile
+ */
+
+export function lngX(lng: number): number {
+  return lng / 360 + 0.5;
+}
+
+export function latY(lat: number): number {
+  const sin = Math.sin((lat * Math.PI) / 180);
+  const y = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+  return Math.min(Math.max(y, 0), 1);
+}
+
+export function xLng(x: number): number {
+  return (x - 0.5) * 360;
+}
+
+export function yLat(y: number): number {
+  return (360 * Math.atan(Math.exp((1 - 2 * y) * Math.PI))) / Math.PI - 90;
+}
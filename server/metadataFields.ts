@@ -0,0 +1,53 @@
+/**
+ * Metadata field catalog shared by the storage implementations.
+ * Storages collect per-path, per-type statistics; this picks one type per path and trims the list.
+ */
+
+import {
+  MAX_CATALOG_FIELDS,
+  MAX_CATALOG_VALUES,
+  type MetadataFieldInfo,
+  type MetadataFieldType,
+} from "@shared/schema";
+import { isFilterField } from "@shared/filterExpression";
+
+// Metadata paths deeper than this are not listed
+export const MAX_CATALOG_DEPTH = 5;
+
+export interface MetadataFieldStats {
+  path: string;
+  type: MetadataFieldType;
+  count: number;
+  // Distinct string values, or null once there are more than MAX_CATALOG_VALUES
+  values?: string[] | null;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * One entry per path, typed by the JSON type most of its values have. Paths that cannot be
+ * used in a where expression are dropped, and the most common MAX_CATALOG_FIELDS are kept.
+ */
+export function summarizeMetadataFields(stats: MetadataFieldStats[]): MetadataFieldInfo[] {
+  const byPath = new Map<string, MetadataFieldStats>();
+  stats.forEach((entry) => {
+    const current = byPath.get(entry.path);
+    if (isFilterField(entry.path) && (!current || entry.count > current.count)) {
+      byPath.set(entry.path, entry);
+    }
+  });
+
+  return Array.from(byPath.values())
+    .sort((a, b) => b.count - a.count || a.path.localeCompare(b.path))
+    .slice(0, MAX_CATALOG_FIELDS)
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map(({ path, type, count, values, min, max }) => ({
+      path,
+      type,
+      count,
+      ...(type === "string" && values && values.length <= MAX_CATALOG_VALUES
+        ? { values: [...values].sort() }
+        : {}),
+      ...(type === "number" ? { min, max } : {}),
+    }));
+}
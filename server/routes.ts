@@ -1,28 +1,383 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import type { Server } from "http";
-import type { IStorage } from "./storage";
+import type { ZodError } from "zod";
+import { getEveryArtifact, type IStorage, type ScopedFilter, type WriteContext } from "./storage";
 import {
+  artifactFilterSchema,
+  asOfSchema,
   boundsSchema,
   circleSelectionSchema,
+  polygonSelectionSchema,
+  corridorSelectionSchema,
+  exportQuerySchema,
+  importRequestSchema,
+  metadataFieldSchema,
+  nearestQuerySchema,
+  insertLayerSchema,
+  updateLayerSchema,
+  updatePreferencesSchema,
   insertArtifactSchema,
+  updateArtifactSchema,
+  insertApiKeySchema,
+  insertUserSchema,
+  updateUserSchema,
+  loginSchema,
+  type ArtifactFilter,
+  type Bounds,
+  type Layer,
+  type LayerAction,
 } from "@shared/schema";
+import { Readable } from "stream";
+import { createHash } from "crypto";
 import path from "path";
 import fs from "fs/promises";
+import { EXPORT_CONTENT_TYPES, serializeArtifacts } from "./export";
+import { importArtifacts } from "./import";
+import { VECTOR_TILE_CONTENT_TYPE } from "./vectorTile";
+import {
+  RASTER_TILE_FORMATS,
+  TILE_CONTENT_TYPES,
+  TileArchives,
+  detectTileFormat,
+  type RasterTileFormat,
+} from "./tileArchives";
+import { listBasemaps } from "./basemaps";
+import { ChangeFeed, matchesChangeFilter, restrictChangeEvent, type ChangeFeedFilter } from "./changeFeed";
+import {
+  AUTH_REQUIRED,
+  SESSION_MAX_AGE,
+  authenticate,
+  canAccessLayer,
+  clearSessionCookie,
+  createApiKeySecret,
+  createLoginLimiter,
+  createRoleCheck,
+  createSessionToken,
+  getSessionToken,
+  hashPassword,
+  hashSecret,
+  setSessionCookie,
+  verifyPassword,
+} from "./auth";
 
 // Constants for query validation
 const MAX_LIMIT = 10000;
 const DEFAULT_LIMIT = 5000;
 
+// Artifacts per cluster leaves page unless a limit is given
+const DEFAULT_LEAVES_LIMIT = 100;
+
+// Metadata fields per facets request
+const MAX_FACET_FIELDS = 10;
+
+// Comment line sent on idle event streams, so proxies do not close them
+const EVENT_HEARTBEAT_INTERVAL = 25000;
+
 // Tile storage path
 const TILE_STORAGE_PATH = process.env.TILE_STORAGE_PATH || "./tiles";
 
+// Parse a comma-separated string or repeated query parameter into a list
+function parseListParam(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((v): v is string => typeof v === "string")
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+// Surface parse errors for where expressions, they are the ones a user can act on
+function filterErrorMessage(error: ZodError): string {
+  const whereIssue = error.issues.find((issue) => issue.path[0] === "where");
+  return whereIssue ? `Invalid where expression: ${whereIssue.message}` : "Invalid filter parameters";
+}
+
+/**
+ * Parses the attribute filter query parameters shared by the artifact endpoints:
+ * q (name/description search), categories (comma-separated), from and to (ISO dates),
+ * where (metadata filter expression)
+ */
+function parseArtifactFilter(query: Request["query"]): { filter?: ArtifactFilter; error?: string } {
+  const { q, categories, from, to, where } = query;
+  const candidate: ArtifactFilter = {};
+
+  if (typeof q === "string" && q.trim()) candidate.search = q.trim();
+  if (categories) {
+    const list = parseListParam(categories);
+    if (list.length) candidate.categories = list;
+  }
+  if (typeof from === "string" && from) candidate.from = from;
+  if (typeof to === "string" && to) candidate.to = to;
+  if (typeof where === "string" && where.trim()) candidate.where = where.trim();
+
+  if (Object.keys(candidate).length === 0) {
+    return {};
+  }
+
+  const result = artifactFilterSchema.safeParse(candidate);
+  if (!result.success) {
+    return { error: filterErrorMessage(result.error) };
+  }
+  return { filter: result.data };
+}
+
+/**
+ * Parses the asOf query parameter of point-in-time queries, normalized to an ISO timestamp
+ */
+function parseAsOf(query: Request["query"]): { asOf?: string; error?: string } {
+  if (query.asOf === undefined) {
+    return {};
+  }
+  const result = asOfSchema.safeParse(query.asOf);
+  if (!result.success) {
+    return { error: "Invalid asOf timestamp" };
+  }
+  return { asOf: new Date(result.data).toISOString() };
+}
+
+// Browser profile id sent by the client for per-user preferences
+const CLIENT_ID_PATTERN = /^[a-zA-Z0-9_-]{8,100}$/;
+
+function getClientId(req: Request): string | undefined {
+  const clientId = req.header("X-Client-Id");
+  return clientId && CLIENT_ID_PATTERN.test(clientId) ? clientId : undefined;
+}
+
+// Writes are recorded in the artifact history under the signed-in user, or the browser without accounts
+function getWriteContext(req: Request): WriteContext {
+  return { actor: req.user?.username ?? getClientId(req) };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express,
-  storage: IStorage
+  storage: IStorage,
+  tileStoragePath = TILE_STORAGE_PATH,
+  requireAuth = AUTH_REQUIRED
 ): Promise<Server> {
+  const tileArchives = new TileArchives(tileStoragePath);
+  const changeFeed = new ChangeFeed();
+  const requireRole = createRoleCheck(requireAuth);
+  const loginLimiter = createLoginLimiter();
+
+  // Signed-in user from the session cookie or API key; each route then checks the role it needs
+  app.use(["/api", "/tiles"], authenticate(storage, requireAuth));
+
+  // Layers whose access grants keep the signed-in user from reading them; none without accounts
+  async function getRestrictedLayers(req: Request): Promise<string[]> {
+    if (!requireAuth) {
+      return [];
+    }
+    const layers = await storage.getLayers();
+    return layers.filter((layer) => !canAccessLayer(req.user, layer, "read")).map((layer) => layer.id);
+  }
+
+  // The attribute filter for storage queries, narrowed to the layers the user may read
+  async function scopeFilter(req: Request, filter?: ArtifactFilter): Promise<ScopedFilter | undefined> {
+    const restrictedLayers = await getRestrictedLayers(req);
+    return restrictedLayers.length ? { ...filter, restrictedLayers } : filter;
+  }
+
+  // Layers without a layer record have no grants to check, but writing to one creates the layer,
+  // which only admins may do
+  async function canAccessArtifactLayer(req: Request, layerId: string, action: LayerAction): Promise<boolean> {
+    if (!requireAuth) {
+      return true;
+    }
+    const layer = await storage.getLayer(layerId);
+    if (!layer) {
+      return action === "read" || req.user?.role === "admin";
+    }
+    return canAccessLayer(req.user, layer, action);
+  }
+
+  // Closes for each user's open event streams, run when the user's role or groups change so that
+  // the client reconnects with its new access
+  const userStreams = new Map<string, Set<() => void>>();
+
+  function closeUserStreams(userId: string) {
+    userStreams.get(userId)?.forEach((close) => close());
+  }
+
+  // Who the browser is signed in as, and whether it has to sign in at all
+  app.get("/api/auth/session", (req, res) => {
+    res.json({ authRequired: requireAuth, user: req.user ?? null });
+  });
+
+  app.post("/api/auth/login", loginLimiter, async (req, res) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid login request" });
+    }
+
+    try {
+      const record = await storage.getUserByUsername(parsed.data.username);
+      const verified = await verifyPassword(record?.passwordHash, parsed.data.password);
+      if (!record || !verified) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      const token = createSessionToken();
+      await storage.createSession(hashSecret(token), record.id, new Date(Date.now() + SESSION_MAX_AGE));
+      setSessionCookie(res, token);
+      const { passwordHash: _passwordHash, ...user } = record;
+      res.json(user);
+    } catch (error) {
+      req.logger.error("Error signing in", error as Error);
+      res.status(500).json({ error: "Failed to sign in" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const token = getSessionToken(req);
+      if (token) {
+        await storage.deleteSession(hashSecret(token));
+      }
+      clearSessionCookie(res);
+      res.status(204).end();
+    } catch (error) {
+      req.logger.error("Error signing out", error as Error);
+      res.status(500).json({ error: "Failed to sign out" });
+    }
+  });
+
+  // The signed-in user's API keys; a key is only returned in full when it is created
+  app.get("/api/auth/keys", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      res.json(await storage.getApiKeys(req.user.id));
+    } catch (error) {
+      req.logger.error("Error fetching API keys", error as Error);
+      res.status(500).json({ error: "Failed to fetch API keys" });
+    }
+  });
+
+  app.post("/api/auth/keys", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const parsed = insertApiKeySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid API key data" });
+    }
+
+    try {
+      const { key, prefix } = createApiKeySecret();
+      const apiKey = await storage.createApiKey({
+        userId: req.user.id,
+        name: parsed.data.name,
+        prefix,
+        keyHash: hashSecret(key),
+      });
+      res.status(201).json({ ...apiKey, key });
+    } catch (error) {
+      req.logger.error("Error creating API key", error as Error);
+      res.status(500).json({ error: "Failed to create API key" });
+    }
+  });
+
+  app.delete("/api/auth/keys/:id", async (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      if (!(await storage.deleteApiKey(req.user.id, req.params.id))) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      req.logger.error("Error deleting API key", error as Error);
+      res.status(500).json({ error: "Failed to delete API key" });
+    }
+  });
+
+  // User management
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      res.json(await storage.getUsers());
+    } catch (error) {
+      req.logger.error("Error fetching users", error as Error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    const parsed = insertUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0].message });
+    }
+
+    try {
+      const { username, password, role, groups } = parsed.data;
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "User already exists" });
+      }
+      const passwordHash = await hashPassword(password);
+      const user = await storage.createUser({ username, passwordHash, role, groups });
+      res.status(201).json(user);
+    } catch (error) {
+      req.logger.error("Error creating user", error as Error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  // Whether removing this user's admin role would leave nobody to manage users
+  async function isLastAdmin(id: string): Promise<boolean> {
+    const admins = (await storage.getUsers()).filter((user) => user.role === "admin");
+    return admins.length === 1 && admins[0].id === id;
+  }
+
+  // Set a user's role, groups or password; a new password signs the user out everywhere
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    const parsed = updateUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.issues[0].message });
+    }
+
+    try {
+      const { password, role, groups } = parsed.data;
+      if (role && role !== "admin" && (await isLastAdmin(req.params.id))) {
+        return res.status(409).json({ error: "Cannot remove the last admin" });
+      }
+      const user = await storage.updateUser(req.params.id, {
+        ...(role && { role }),
+        ...(groups && { groups }),
+        ...(password && { passwordHash: await hashPassword(password) }),
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      closeUserStreams(user.id);
+      res.json(user);
+    } catch (error) {
+      req.logger.error("Error updating user", error as Error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      if (await isLastAdmin(req.params.id)) {
+        return res.status(409).json({ error: "Cannot remove the last admin" });
+      }
+      if (!(await storage.deleteUser(req.params.id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      closeUserStreams(req.params.id);
+      res.status(204).end();
+    } catch (error) {
+      req.logger.error("Error deleting user", error as Error);
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  });
+
   // Viewport data endpoint with clustering
-  app.get("/api/artifacts/viewport", async (req, res) => {
+  app.get("/api/artifacts/viewport", requireRole("viewer"), async (req, res) => {
     try {
       const { north, south, east, west, zoom, limit, layers } = req.query;
 
@@ -62,7 +417,24 @@ export async function registerRoutes(
           : (layers as string).split(",").map((l) => l.trim()).filter(Boolean);
       }
 
-      const viewportData = await storage.getViewportData(bounds, zoomLevel, maxResults, layerFilter);
+      const { filter, error: filterError } = parseArtifactFilter(req.query);
+      if (filterError) {
+        return res.status(400).json({ error: filterError });
+      }
+
+      const { asOf, error: asOfError } = parseAsOf(req.query);
+      if (asOfError) {
+        return res.status(400).json({ error: asOfError });
+      }
+
+      const viewportData = await storage.getViewportData(
+        bounds,
+        zoomLevel,
+        maxResults,
+        layerFilter,
+        await scopeFilter(req, filter),
+        asOf
+      );
       res.json(viewportData);
     } catch (error) {
       req.logger.error("Error fetching viewport data", error as Error);
@@ -70,8 +442,66 @@ export async function registerRoutes(
     }
   });
 
-  // Get all artifacts or filter by bounds
-  app.get("/api/artifacts", async (req, res) => {
+  // Clusters and artifacts a viewport cluster splits into; takes the viewport's layers and filters
+  app.get("/api/clusters/:id/children", requireRole("viewer"), async (req, res) => {
+    const { filter, error: filterError } = parseArtifactFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    try {
+      const layerFilter = req.query.layers ? parseListParam(req.query.layers) : undefined;
+      const scopedFilter = await scopeFilter(req, filter);
+      const children = await storage.getClusterChildren(req.params.id, layerFilter, scopedFilter);
+      if (!children) {
+        return res.status(404).json({ error: "Cluster not found" });
+      }
+      res.json(children);
+    } catch (error) {
+      req.logger.error("Error fetching cluster children", error as Error);
+      res.status(500).json({ error: "Failed to fetch cluster children" });
+    }
+  });
+
+  // Every artifact in a viewport cluster, paged by limit and offset
+  app.get("/api/clusters/:id/leaves", requireRole("viewer"), async (req, res) => {
+    const { limit, offset } = req.query;
+
+    const maxResults = limit ? parseInt(limit as string, 10) : DEFAULT_LEAVES_LIMIT;
+    if (isNaN(maxResults) || maxResults < 1) {
+      return res.status(400).json({ error: "Invalid limit parameter" });
+    }
+    const skip = offset ? parseInt(offset as string, 10) : 0;
+    if (isNaN(skip) || skip < 0) {
+      return res.status(400).json({ error: "Invalid offset parameter" });
+    }
+
+    const { filter, error: filterError } = parseArtifactFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    try {
+      const layerFilter = req.query.layers ? parseListParam(req.query.layers) : undefined;
+      const leaves = await storage.getClusterLeaves(
+        req.params.id,
+        Math.min(maxResults, MAX_LIMIT),
+        skip,
+        layerFilter,
+        await scopeFilter(req, filter)
+      );
+      if (!leaves) {
+        return res.status(404).json({ error: "Cluster not found" });
+      }
+      res.json(leaves);
+    } catch (error) {
+      req.logger.error("Error fetching cluster leaves", error as Error);
+      res.status(500).json({ error: "Failed to fetch cluster leaves" });
+    }
+  });
+
+  // Get all artifacts or filter by bounds; asOf (with bounds) returns them as they were then
+  app.get("/api/artifacts", requireRole("viewer"), async (req, res) => {
     try {
       const { north, south, east, west, layers } = req.query;
 
@@ -83,6 +513,16 @@ export async function registerRoutes(
           : (layers as string).split(",").map((l) => l.trim()).filter(Boolean);
       }
 
+      const { filter, error: filterError } = parseArtifactFilter(req.query);
+      if (filterError) {
+        return res.status(400).json({ error: filterError });
+      }
+
+      const { asOf, error: asOfError } = parseAsOf(req.query);
+      if (asOfError) {
+        return res.status(400).json({ error: asOfError });
+      }
+
       if (north && south && east && west) {
         const bounds = boundsSchema.parse({
           north: parseFloat(north as string),
@@ -91,11 +531,16 @@ export async function registerRoutes(
           west: parseFloat(west as string),
         });
 
-        const artifacts = await storage.getArtifactsInBounds(bounds, layerFilter);
+        const scopedFilter = await scopeFilter(req, filter);
+        const artifacts = await storage.getArtifactsInBounds(bounds, layerFilter, scopedFilter, asOf);
         return res.json(artifacts);
       }
 
-      const artifacts = await storage.getAllArtifacts(layerFilter);
+      if (asOf) {
+        return res.status(400).json({ error: "asOf requires north, south, east and west" });
+      }
+
+      const artifacts = await storage.getAllArtifacts(layerFilter, await scopeFilter(req, filter));
       res.json(artifacts);
     } catch (error) {
       req.logger.error("Error fetching artifacts", error as Error);
@@ -104,7 +549,7 @@ export async function registerRoutes(
   });
 
   // Get artifact count - MUST be before :id route
-  app.get("/api/artifacts/count", async (req, res) => {
+  app.get("/api/artifacts/count", requireRole("viewer"), async (req, res) => {
     try {
       const { layers } = req.query;
 
@@ -116,7 +561,12 @@ export async function registerRoutes(
           : (layers as string).split(",").map((l) => l.trim()).filter(Boolean);
       }
 
-      const count = await storage.getArtifactCount(layerFilter);
+      const { filter, error: filterError } = parseArtifactFilter(req.query);
+      if (filterError) {
+        return res.status(400).json({ error: filterError });
+      }
+
+      const count = await storage.getArtifactCount(layerFilter, await scopeFilter(req, filter));
       res.json({ count });
     } catch (error) {
       req.logger.error("Error getting count", error as Error);
@@ -124,11 +574,133 @@ export async function registerRoutes(
     }
   });
 
+  // Category and metadata value counts for the filter bar - MUST be before :id route
+  app.get("/api/artifacts/facets", requireRole("viewer"), async (req, res) => {
+    const { north, south, east, west, layers, fields } = req.query;
+
+    let bounds: Bounds | undefined;
+    if (north || south || east || west) {
+      const parsedBounds = boundsSchema.safeParse({
+        north: parseFloat(north as string),
+        south: parseFloat(south as string),
+        east: parseFloat(east as string),
+        west: parseFloat(west as string),
+      });
+      if (!parsedBounds.success) {
+        return res.status(400).json({ error: "Invalid bounds" });
+      }
+      bounds = parsedBounds.data;
+    }
+
+    const fieldList = fields ? parseListParam(fields) : [];
+    if (fieldList.length > MAX_FACET_FIELDS || !fieldList.every((f) => metadataFieldSchema.safeParse(f).success)) {
+      return res.status(400).json({ error: "Invalid facet fields" });
+    }
+
+    const { filter, error: filterError } = parseArtifactFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    try {
+      const layerFilter = layers ? parseListParam(layers) : undefined;
+      const facets = await storage.getFacets(fieldList, bounds, layerFilter, await scopeFilter(req, filter));
+      res.json(facets);
+    } catch (error) {
+      req.logger.error("Error computing facets", error as Error);
+      res.status(500).json({ error: "Failed to compute facets" });
+    }
+  });
+
+  // Metadata fields and their types on the given layers, for building where expressions
+  app.get("/api/metadata/fields", requireRole("viewer"), async (req, res) => {
+    try {
+      const layerFilter = req.query.layers ? parseListParam(req.query.layers) : undefined;
+      const fields = await storage.getMetadataFields(
+        layerFilter?.length ? layerFilter : undefined,
+        await scopeFilter(req)
+      );
+      res.json(fields);
+    } catch (error) {
+      req.logger.error("Error listing metadata fields", error as Error);
+      res.status(500).json({ error: "Failed to list metadata fields" });
+    }
+  });
+
+  // Artifact counts per hexagon for density maps, on a grid sized by zoom
+  app.get("/api/artifacts/density", requireRole("viewer"), async (req, res) => {
+    const { north, south, east, west, zoom, layers } = req.query;
+
+    const parsedBounds = boundsSchema.safeParse({
+      north: parseFloat(north as string),
+      south: parseFloat(south as string),
+      east: parseFloat(east as string),
+      west: parseFloat(west as string),
+    });
+    if (!parsedBounds.success) {
+      return res.status(400).json({ error: "Invalid bounds" });
+    }
+
+    const zoomLevel = parseFloat(zoom as string);
+    if (isNaN(zoomLevel) || zoomLevel < 0 || zoomLevel > 22) {
+      return res.status(400).json({ error: "Invalid zoom level" });
+    }
+
+    const { filter, error: filterError } = parseArtifactFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    try {
+      const layerFilter = layers ? parseListParam(layers) : undefined;
+      const density = await storage.getDensity(
+        parsedBounds.data,
+        zoomLevel,
+        layerFilter,
+        await scopeFilter(req, filter)
+      );
+      res.json(density);
+    } catch (error) {
+      req.logger.error("Error computing density", error as Error);
+      res.status(500).json({ error: "Failed to compute density" });
+    }
+  });
+
+  // The k closest artifacts to a point with their distances in metres, nearest first
+  app.get("/api/artifacts/nearest", requireRole("viewer"), async (req, res) => {
+    const { lat, lng, k, maxDistance, layers } = req.query;
+
+    const parsedQuery = nearestQuerySchema.safeParse({
+      lat: parseFloat(lat as string),
+      lng: parseFloat(lng as string),
+      k: k === undefined ? undefined : parseFloat(k as string),
+      maxDistance: maxDistance === undefined ? undefined : parseFloat(maxDistance as string),
+    });
+    if (!parsedQuery.success) {
+      return res.status(400).json({ error: "Invalid nearest query" });
+    }
+
+    const { filter, error: filterError } = parseArtifactFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    try {
+      const layerFilter = layers ? parseListParam(layers) : undefined;
+      const scopedFilter = await scopeFilter(req, filter);
+      const nearest = await storage.getNearestArtifacts(parsedQuery.data, layerFilter, scopedFilter);
+      res.json(nearest);
+    } catch (error) {
+      req.logger.error("Error finding nearest artifacts", error as Error);
+      res.status(500).json({ error: "Failed to find nearest artifacts" });
+    }
+  });
+
   // Get single artifact by ID
-  app.get("/api/artifacts/:id", async (req, res) => {
+  app.get("/api/artifacts/:id", requireRole("viewer"), async (req, res) => {
     try {
       const artifact = await storage.getArtifact(req.params.id);
-      if (!artifact) {
+      if (!artifact || !(await canAccessArtifactLayer(req, artifact.layer, "read"))) {
         return res.status(404).json({ error: "Artifact not found" });
       }
       res.json(artifact);
@@ -138,11 +710,34 @@ export async function registerRoutes(
     }
   });
 
+  // Recorded creates, updates and deletes of an artifact, newest first; deleted artifacts keep theirs
+  app.get("/api/artifacts/:id/history", requireRole("viewer"), async (req, res) => {
+    try {
+      const history = await storage.getArtifactHistory(req.params.id);
+      // Hidden entirely if any version lies in a layer the user may not read
+      const restrictedLayers = await getRestrictedLayers(req);
+      const restricted = history.some((entry) =>
+        [entry.before, entry.after].some((version) => version && restrictedLayers.includes(version.layer))
+      );
+      if (history.length === 0 || restricted) {
+        return res.status(404).json({ error: "Artifact not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      req.logger.error("Error fetching artifact history", error as Error);
+      res.status(500).json({ error: "Failed to fetch artifact history" });
+    }
+  });
+
   // Create new artifact
-  app.post("/api/artifacts", async (req, res) => {
+  app.post("/api/artifacts", requireRole("editor"), async (req, res) => {
     try {
       const validated = insertArtifactSchema.parse(req.body);
-      const artifact = await storage.createArtifact(validated);
+      if (!(await canAccessArtifactLayer(req, validated.layer, "write"))) {
+        return res.status(403).json({ error: `No write access to layer ${validated.layer}` });
+      }
+      const artifact = await storage.createArtifact(validated, getWriteContext(req));
+      changeFeed.publish({ type: "artifact.created", artifact });
       res.status(201).json(artifact);
     } catch (error) {
       req.logger.error("Error creating artifact", error as Error);
@@ -150,8 +745,65 @@ export async function registerRoutes(
     }
   });
 
+  // Update an existing artifact (partial)
+  app.patch("/api/artifacts/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const parsed = updateArtifactSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid artifact data" });
+      }
+
+      const previous = await storage.getArtifact(req.params.id);
+      if (!previous || !(await canAccessArtifactLayer(req, previous.layer, "read"))) {
+        return res.status(404).json({ error: "Artifact not found" });
+      }
+      // Moving an artifact needs write access to both layers
+      for (const layer of [previous.layer, parsed.data.layer ?? previous.layer]) {
+        if (!(await canAccessArtifactLayer(req, layer, "write"))) {
+          return res.status(403).json({ error: `No write access to layer ${layer}` });
+        }
+      }
+
+      const artifact = await storage.updateArtifact(req.params.id, parsed.data, getWriteContext(req));
+      if (!artifact) {
+        return res.status(404).json({ error: "Artifact not found" });
+      }
+      changeFeed.publish({ type: "artifact.updated", artifact, previous });
+      res.json(artifact);
+    } catch (error) {
+      req.logger.error("Error updating artifact", error as Error);
+      res.status(500).json({ error: "Failed to update artifact" });
+    }
+  });
+
+  // Delete an artifact
+  app.delete("/api/artifacts/:id", requireRole("editor"), async (req, res) => {
+    try {
+      const artifact = await storage.getArtifact(req.params.id);
+      if (!artifact || !(await canAccessArtifactLayer(req, artifact.layer, "read"))) {
+        return res.status(404).json({ error: "Artifact not found" });
+      }
+      if (!(await canAccessArtifactLayer(req, artifact.layer, "write"))) {
+        return res.status(403).json({ error: `No write access to layer ${artifact.layer}` });
+      }
+      if (!(await storage.deleteArtifact(req.params.id, getWriteContext(req)))) {
+        return res.status(404).json({ error: "Artifact not found" });
+      }
+      changeFeed.publish({ type: "artifact.deleted", artifact });
+      res.status(204).end();
+    } catch (error) {
+      req.logger.error("Error deleting artifact", error as Error);
+      res.status(500).json({ error: "Failed to delete artifact" });
+    }
+  });
+
   // Query artifacts in circle selection
-  app.post("/api/artifacts/query/circle", async (req, res) => {
+  app.post("/api/artifacts/query/circle", requireRole("viewer"), async (req, res) => {
+    const parsedFilter = artifactFilterSchema.optional().safeParse(req.body?.filter);
+    if (!parsedFilter.success) {
+      return res.status(400).json({ error: filterErrorMessage(parsedFilter.error) });
+    }
+
     try {
       const { circle, layers } = req.body;
       const validatedCircle = circleSelectionSchema.parse(circle || req.body);
@@ -162,7 +814,11 @@ export async function registerRoutes(
         layerFilter = layers.filter((l: unknown): l is string => typeof l === "string");
       }
 
-      const aggregation = await storage.getAggregation(validatedCircle, layerFilter);
+      const aggregation = await storage.getAggregation(
+        validatedCircle,
+        layerFilter,
+        await scopeFilter(req, parsedFilter.data)
+      );
       res.json(aggregation);
     } catch (error) {
       req.logger.error("Error querying circle", error as Error);
@@ -170,8 +826,160 @@ export async function registerRoutes(
     }
   });
 
-  // Tile serving endpoint
-  app.get("/tiles/:layer/:z/:x/:y.:format", async (req, res) => {
+  // Query artifacts in polygon (lasso) selection
+  app.post("/api/artifacts/query/polygon", requireRole("viewer"), async (req, res) => {
+    const parsedFilter = artifactFilterSchema.optional().safeParse(req.body?.filter);
+    if (!parsedFilter.success) {
+      return res.status(400).json({ error: filterErrorMessage(parsedFilter.error) });
+    }
+
+    try {
+      const { polygon, layers } = req.body;
+      const validatedPolygon = polygonSelectionSchema.parse(polygon || req.body);
+
+      // Parse layers filter from body
+      let layerFilter: string[] | undefined;
+      if (layers && Array.isArray(layers)) {
+        layerFilter = layers.filter((l: unknown): l is string => typeof l === "string");
+      }
+
+      const aggregation = await storage.getPolygonAggregation(
+        validatedPolygon,
+        layerFilter,
+        await scopeFilter(req, parsedFilter.data)
+      );
+      res.json(aggregation);
+    } catch (error) {
+      req.logger.error("Error querying polygon", error as Error);
+      res.status(400).json({ error: "Invalid polygon query" });
+    }
+  });
+
+  // Query artifacts within a buffer distance of a drawn line (corridor selection)
+  app.post("/api/artifacts/query/corridor", requireRole("viewer"), async (req, res) => {
+    const parsedFilter = artifactFilterSchema.optional().safeParse(req.body?.filter);
+    if (!parsedFilter.success) {
+      return res.status(400).json({ error: filterErrorMessage(parsedFilter.error) });
+    }
+
+    const { corridor, layers } = req.body ?? {};
+    const parsedCorridor = corridorSelectionSchema.safeParse(corridor || req.body);
+    if (!parsedCorridor.success) {
+      return res.status(400).json({ error: "Invalid corridor query" });
+    }
+
+    try {
+      // Parse layers filter from body
+      let layerFilter: string[] | undefined;
+      if (layers && Array.isArray(layers)) {
+        layerFilter = layers.filter((l: unknown): l is string => typeof l === "string");
+      }
+
+      const aggregation = await storage.getCorridorAggregation(
+        parsedCorridor.data,
+        layerFilter,
+        await scopeFilter(req, parsedFilter.data)
+      );
+      res.json(aggregation);
+    } catch (error) {
+      req.logger.error("Error querying corridor", error as Error);
+      res.status(500).json({ error: "Failed to query corridor" });
+    }
+  });
+
+  // Export artifacts in a circle, polygon, corridor or bounds (or whole layers) as GeoJSON, CSV or KML
+  app.post("/api/artifacts/export", requireRole("viewer"), async (req, res) => {
+    const parsed = exportQuerySchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export query" });
+    }
+
+    try {
+      const { format, circle, polygon, corridor, bounds, layers } = parsed.data;
+      const filter = await scopeFilter(req, parsed.data.filter);
+
+      // Bounds and whole layers are read page by page, as their queries are capped
+      const artifacts = circle
+        ? await storage.getArtifactsInCircle(circle, layers, filter)
+        : polygon
+          ? await storage.getArtifactsInPolygon(polygon, layers, filter)
+          : corridor
+            ? await storage.getArtifactsInCorridor(corridor, layers, filter)
+            : await getEveryArtifact(storage, bounds, layers, filter);
+
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      res.setHeader("Content-Type", EXPORT_CONTENT_TYPES[format]);
+      res.setHeader("Content-Disposition", `attachment; filename="artifacts-${timestamp}.${format}"`);
+
+      Readable.from(serializeArtifacts(artifacts, format)).pipe(res);
+    } catch (error) {
+      req.logger.error("Error exporting artifacts", error as Error);
+      res.status(500).json({ error: "Failed to export artifacts" });
+    }
+  });
+
+  // Import a GeoJSON FeatureCollection or CSV into a layer; dryRun validates without writing
+  app.post("/api/import", requireRole("editor"), async (req, res) => {
+    const parsed = importRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid import request" });
+    }
+
+    try {
+      if (!(await canAccessArtifactLayer(req, parsed.data.layer, "write"))) {
+        return res.status(403).json({ error: `No write access to layer ${parsed.data.layer}` });
+      }
+      const report = await importArtifacts(storage, parsed.data, getWriteContext(req));
+      if (!report.dryRun && (report.imported > 0 || report.layerCreated)) {
+        changeFeed.publish({ type: "artifacts.imported", layer: report.layer, count: report.imported });
+      }
+      res.status(report.imported > 0 ? 201 : 200).json(report);
+    } catch (error) {
+      req.logger.error("Error importing artifacts", error as Error);
+      res.status(500).json({ error: "Failed to import artifacts" });
+    }
+  });
+
+  // Artifacts as Mapbox Vector Tiles, clusters up to zoom 12; takes layers and the usual filters
+  app.get("/tiles/artifacts/:z/:x/:y.mvt", requireRole("viewer"), async (req, res) => {
+    const [zoom, tileX, tileY] = [req.params.z, req.params.x, req.params.y].map((value) =>
+      /^\d+$/.test(value) ? parseInt(value, 10) : NaN
+    );
+    if (isNaN(zoom) || zoom > 22) {
+      return res.status(400).json({ error: "Invalid zoom level" });
+    }
+    const tiles = Math.pow(2, zoom);
+    if (isNaN(tileX) || isNaN(tileY) || tileX >= tiles || tileY >= tiles) {
+      return res.status(400).json({ error: "Invalid tile coordinates" });
+    }
+
+    const { filter, error: filterError } = parseArtifactFilter(req.query);
+    if (filterError) {
+      return res.status(400).json({ error: filterError });
+    }
+
+    try {
+      const layerFilter = req.query.layers ? parseListParam(req.query.layers) : undefined;
+      const tile = await storage.getVectorTile(zoom, tileX, tileY, layerFilter, await scopeFilter(req, filter));
+      if (tile.length === 0) {
+        return res.status(204).end();
+      }
+
+      // Tiles change with any write, so caches revalidate every time and get a 304 if unchanged
+      res.set({
+        "Content-Type": VECTOR_TILE_CONTENT_TYPE,
+        "Cache-Control": "public, no-cache",
+        ETag: `"${createHash("sha1").update(tile).digest("base64url")}"`,
+      });
+      res.send(Buffer.from(tile.buffer, tile.byteOffset, tile.byteLength));
+    } catch (error) {
+      req.logger.error("Error encoding vector tile", error as Error);
+      res.status(500).json({ error: "Failed to encode vector tile" });
+    }
+  });
+
+  // Tile serving endpoint, from the layer's MBTiles/PMTiles archive if it has one, else loose files
+  app.get("/tiles/:layer/:z/:x/:y.:format", requireRole("viewer"), async (req, res) => {
     try {
       const { layer, z, x, y, format } = req.params;
 
@@ -188,7 +996,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid zoom level" });
       }
 
-      if (!["png", "webp", "jpg"].includes(format)) {
+      if (!(RASTER_TILE_FORMATS as readonly string[]).includes(format)) {
         return res.status(400).json({ error: "Invalid tile format" });
       }
 
@@ -197,22 +1005,35 @@ export async function registerRoutes(
         return res.status(400).json({ error: "Invalid layer name" });
       }
 
-      const tilePath = path.join(TILE_STORAGE_PATH, layer, z, x, `${y}.${format}`);
+      const tileHeaders = {
+        "Content-Type": TILE_CONTENT_TYPES[format as RasterTileFormat],
+        "Cache-Control": "public, max-age=86400",
+        "X-Tile-Coordinates": `${z}/${x}/${y}`,
+      };
+
+      const archive = await tileArchives.get(layer);
+      if (archive) {
+        const tiles = Math.pow(2, zoom);
+        const tile =
+          tileX >= 0 && tileY >= 0 && tileX < tiles && tileY < tiles
+            ? await archive.getTile(zoom, tileX, tileY)
+            : undefined;
+        // An archive holds one format, so other formats have no tiles, as with loose files
+        const tileFormat = tile && (archive.info.format ?? detectTileFormat(tile));
+        if (!tile || tile.length === 0 || tileFormat !== format) {
+          return res.status(204).end();
+        }
+
+        res.set(tileHeaders);
+        return res.send(Buffer.from(tile.buffer, tile.byteOffset, tile.byteLength));
+      }
+
+      const tilePath = path.join(tileStoragePath, layer, z, x, `${y}.${format}`);
 
       try {
         await fs.access(tilePath);
 
-        const contentType: Record<string, string> = {
-          png: "image/png",
-          webp: "image/webp",
-          jpg: "image/jpeg",
-        };
-
-        res.set({
-          "Content-Type": contentType[format],
-          "Cache-Control": "public, max-age=86400",
-          "X-Tile-Coordinates": `${z}/${x}/${y}`,
-        });
+        res.set(tileHeaders);
 
         const tileData = await fs.readFile(tilePath);
         res.send(tileData);
@@ -226,16 +1047,18 @@ export async function registerRoutes(
     }
   });
 
-  // Tile metadata/info endpoint
-  app.get("/api/tiles/info", async (_req, res) => {
+  // Tile metadata/info endpoint, with the metadata of each MBTiles/PMTiles archive under tilesets
+  // and the basemap registry (local tiles first) under basemaps
+  app.get("/api/tiles/info", requireRole("viewer"), async (req, res) => {
     try {
-      const metadataPath = path.join(TILE_STORAGE_PATH, "metadata.json");
+      let info: { layers: string[]; formats: string[]; [key: string]: unknown };
+      const metadataPath = path.join(tileStoragePath, "metadata.json");
       try {
         const metadata = await fs.readFile(metadataPath, "utf-8");
-        res.json(JSON.parse(metadata));
+        info = JSON.parse(metadata);
       } catch {
         // Return default metadata if file doesn't exist
-        res.json({
+        info = {
           layers: ["basemap", "custom"],
           formats: ["png", "webp"],
           bounds: {
@@ -247,29 +1070,43 @@ export async function registerRoutes(
           minZoom: 6,
           maxZoom: 18,
           description: "Connecticut / Eversource service territory",
-        });
+        };
       }
+
+      const tilesets = await tileArchives.list();
+      const basemaps = await listBasemaps(tileStoragePath, tilesets, info.basemaps);
+      if (tilesets.length === 0) {
+        return res.json({ ...info, basemaps });
+      }
+
+      const layers = new Set(info.layers ?? []);
+      const formats = new Set(info.formats ?? []);
+      for (const tileset of tilesets) {
+        layers.add(tileset.layer);
+        if (tileset.format) formats.add(tileset.format);
+      }
+      res.json({ ...info, layers: Array.from(layers), formats: Array.from(formats), tilesets, basemaps });
     } catch (error) {
       req.logger.error("Error getting tile info", error as Error);
       res.status(500).json({ error: "Failed to get tile info" });
     }
   });
 
-  // Layer management endpoints
-  app.get("/api/layers", async (req, res) => {
+  // Layer management endpoints; users only see the layers they may read
+  app.get("/api/layers", requireRole("viewer"), async (req, res) => {
     try {
       const layers = await storage.getLayers();
-      res.json(layers);
+      res.json(requireAuth ? layers.filter((layer) => canAccessLayer(req.user, layer, "read")) : layers);
     } catch (error) {
       req.logger.error("Error fetching layers", error as Error);
       res.status(500).json({ error: "Failed to fetch layers" });
     }
   });
 
-  app.get("/api/layers/:id", async (req, res) => {
+  app.get("/api/layers/:id", requireRole("viewer"), async (req, res) => {
     try {
       const layer = await storage.getLayer(req.params.id);
-      if (!layer) {
+      if (!layer || (requireAuth && !canAccessLayer(req.user, layer, "read"))) {
         return res.status(404).json({ error: "Layer not found" });
       }
       res.json(layer);
@@ -279,13 +1116,92 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/layers/:id/visibility", async (req, res) => {
+  app.post("/api/layers", requireRole("admin"), async (req, res) => {
+    const parsed = insertLayerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid layer data" });
+    }
+
+    try {
+      if (await storage.getLayer(parsed.data.id)) {
+        return res.status(409).json({ error: "Layer already exists" });
+      }
+      const layer = await storage.createLayer(parsed.data);
+      changeFeed.publish({ type: "layer.created", layer });
+      res.status(201).json(layer);
+    } catch (error) {
+      req.logger.error("Error creating layer", error as Error);
+      res.status(500).json({ error: "Failed to create layer" });
+    }
+  });
+
+  app.patch("/api/layers/:id", requireRole("admin"), async (req, res) => {
+    const parsed = updateLayerSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid layer data" });
+    }
+
+    try {
+      const layer = await storage.updateLayer(req.params.id, parsed.data);
+      if (!layer) {
+        return res.status(404).json({ error: "Layer not found" });
+      }
+      changeFeed.publish({ type: "layer.updated", layer });
+      res.json(layer);
+    } catch (error) {
+      req.logger.error("Error updating layer", error as Error);
+      res.status(500).json({ error: "Failed to update layer" });
+    }
+  });
+
+  // Delete a layer - a non-empty layer needs ?cascade=true (delete its artifacts)
+  // or ?reassignTo=<layer id> (move them to another layer)
+  app.delete("/api/layers/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const cascade = req.query.cascade === "true";
+      const reassignTo = typeof req.query.reassignTo === "string" ? req.query.reassignTo : undefined;
+
+      if (cascade && reassignTo) {
+        return res.status(400).json({ error: "Use either cascade or reassignTo, not both" });
+      }
+
+      const layer = await storage.getLayer(id);
+      if (!layer) {
+        return res.status(404).json({ error: "Layer not found" });
+      }
+
+      if (reassignTo !== undefined && (reassignTo === id || !(await storage.getLayer(reassignTo)))) {
+        return res.status(400).json({ error: "reassignTo must be another existing layer" });
+      }
+
+      if (!cascade && !reassignTo && (await storage.getArtifactCount([id])) > 0) {
+        return res.status(409).json({
+          error: "Layer has artifacts; pass cascade=true to delete them or reassignTo to move them",
+        });
+      }
+
+      await storage.deleteLayer(id, { reassignTo, ...getWriteContext(req) });
+      changeFeed.publish({ type: "layer.deleted", id, reassignTo });
+      res.status(204).end();
+    } catch (error) {
+      req.logger.error("Error deleting layer", error as Error);
+      res.status(500).json({ error: "Failed to delete layer" });
+    }
+  });
+
+  // Admin default visibility - users' own toggles are stored in /api/preferences
+  app.patch("/api/layers/:id/visibility", requireRole("admin"), async (req, res) => {
     try {
       const { visible } = req.body;
       if (typeof visible !== "boolean") {
         return res.status(400).json({ error: "visible must be a boolean" });
       }
       await storage.updateLayerVisibility(req.params.id, visible);
+      const layer = await storage.getLayer(req.params.id);
+      if (layer) {
+        changeFeed.publish({ type: "layer.updated", layer });
+      }
       res.json({ success: true });
     } catch (error) {
       req.logger.error("Error updating layer visibility", error as Error);
@@ -293,16 +1209,122 @@ export async function registerRoutes(
     }
   });
 
+  // Server-Sent Events stream of artifact and layer changes; takes layers and
+  // north/south/east/west to only receive artifact changes there
+  app.get("/api/events", requireRole("viewer"), async (req, res) => {
+    const filter: ChangeFeedFilter = {};
+    const layers = parseListParam(req.query.layers);
+    if (layers.length) filter.layers = layers;
+
+    const { north, south, east, west } = req.query;
+    if (north !== undefined || south !== undefined || east !== undefined || west !== undefined) {
+      const bounds = boundsSchema.safeParse({
+        north: parseFloat(north as string),
+        south: parseFloat(south as string),
+        east: parseFloat(east as string),
+        west: parseFloat(west as string),
+      });
+      if (!bounds.success) {
+        return res.status(400).json({ error: "Invalid bounds: north, south, east and west are all required" });
+      }
+      filter.bounds = bounds.data;
+    }
+
+    let restrictedLayers: Set<string>;
+    try {
+      restrictedLayers = new Set(await getRestrictedLayers(req));
+    } catch (error) {
+      req.logger.error("Error opening event stream", error as Error);
+      return res.status(500).json({ error: "Failed to open event stream" });
+    }
+    const canRead = (layer: Layer) => !requireAuth || canAccessLayer(req.user, layer, "read");
+
+    // The stream stays open, so lift the request timeouts set for the API
+    req.setTimeout(0);
+    res.setTimeout(0);
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // no proxy buffering in nginx
+    });
+    res.write(": connected\n\n");
+
+    const unsubscribe = changeFeed.subscribe((change) => {
+      const event = restrictChangeEvent(change, restrictedLayers, canRead);
+      if (event && matchesChangeFilter(event, filter)) {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+    });
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), EVENT_HEARTBEAT_INTERVAL);
+
+    // Access is worked out once per stream, so a change to the user ends it
+    const userId = req.user?.id;
+    let closed = false;
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      if (userId) {
+        userStreams.get(userId)?.delete(close);
+        if (userStreams.get(userId)?.size === 0) userStreams.delete(userId);
+      }
+      res.end();
+    };
+    if (userId) {
+      userStreams.set(userId, (userStreams.get(userId) ?? new Set()).add(close));
+    }
+
+    req.on("close", close);
+  });
+
+  // Per-client preferences (layer visibility overrides)
+  app.get("/api/preferences", requireRole("viewer"), async (req, res) => {
+    const clientId = getClientId(req);
+    if (!clientId) {
+      return res.status(400).json({ error: "Missing or invalid X-Client-Id header" });
+    }
+
+    try {
+      res.json(await storage.getPreferences(clientId));
+    } catch (error) {
+      req.logger.error("Error fetching preferences", error as Error);
+      res.status(500).json({ error: "Failed to fetch preferences" });
+    }
+  });
+
+  app.patch("/api/preferences", requireRole("viewer"), async (req, res) => {
+    const clientId = getClientId(req);
+    if (!clientId) {
+      return res.status(400).json({ error: "Missing or invalid X-Client-Id header" });
+    }
+
+    const parsed = updatePreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid preferences" });
+    }
+
+    try {
+      res.json(await storage.updatePreferences(clientId, parsed.data));
+    } catch (error) {
+      req.logger.error("Error updating preferences", error as Error);
+      res.status(500).json({ error: "Failed to update preferences" });
+    }
+  });
+
   // Health check endpoint
-  app.get("/api/health", async (_req, res) => {
+  // Open to everyone, so the counts only include the layers the caller may read
+  app.get("/api/health", async (req, res) => {
     try {
-      const count = await storage.getArtifactCount();
+      const restrictedLayers = await getRestrictedLayers(req);
+      const count = await storage.getArtifactCount(undefined, { restrictedLayers });
       const layers = await storage.getLayers();
       res.json({
         status: "healthy",
         storage: process.env.DATABASE_URL ? "postgresql" : "memory",
         artifactCount: count,
-        layerCount: layers.length,
+        layerCount: layers.length - restrictedLayers.length,
       });
     } catch (error) {
       res.status(503).json({
@@ -1,35 +1,189 @@
 import type {
   Artifact,
   InsertArtifact,
+  UpdateArtifact,
   Bounds,
+  ArtifactFilter,
   CircleSelection,
+  PolygonSelection,
+  CorridorSelection,
   AggregationResult,
+  FacetResult,
+  MetadataFieldInfo,
+  NearbyArtifact,
+  NearestQuery,
   ViewportResponse,
+  ClusterChildren,
+  DensityResponse,
   Layer,
+  UpdateLayer,
+  UserPreferences,
+  UpdatePreferences,
+  ArtifactHistoryEntry,
+  User,
+  UserRole,
+  ApiKey,
 } from "@shared/schema";
 
+/**
+ * Attribute filter plus the layers the requesting user may not read. Every query leaves out
+ * the artifacts of restrictedLayers, in cluster, aggregate and facet counts as well.
+ */
+export interface ScopedFilter extends ArtifactFilter {
+  restrictedLayers?: string[];
+}
+
+// Who made a write, recorded with it in the artifact history
+export interface WriteContext {
+  actor?: string;
+}
+
+// A stored user with its argon2 password hash, never sent to clients
+export interface UserRecord extends User {
+  passwordHash: string;
+}
+
+export interface InsertUserRecord {
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  groups?: string[];
+}
+
+// Session tokens and API keys are stored as SHA-256 hashes of the secret
+export interface InsertApiKeyRecord {
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+}
+
 /**
  * Storage interface for artifact persistence
  * Implementations: PostgresStorage (PostGIS), MemStorage (in-memory fallback)
  */
 export interface IStorage {
-  // Artifact queries with optional layer filtering
-  getAllArtifacts(layers?: string[]): Promise<Artifact[]>;
+  // Artifact queries with optional layer and attribute filtering
+  getAllArtifacts(layers?: string[], filter?: ScopedFilter): Promise<Artifact[]>;
   getArtifact(id: string): Promise<Artifact | undefined>;
-  getArtifactsInBounds(bounds: Bounds, layers?: string[]): Promise<Artifact[]>;
-  getArtifactsInCircle(circle: CircleSelection, layers?: string[]): Promise<Artifact[]>;
-  getAggregation(circle: CircleSelection, layers?: string[]): Promise<AggregationResult>;
-  getViewportData(bounds: Bounds, zoom: number, limit: number, layers?: string[]): Promise<ViewportResponse>;
-  createArtifact(artifact: InsertArtifact): Promise<Artifact>;
-  createManyArtifacts(artifacts: InsertArtifact[]): Promise<Artifact[]>;
-  getArtifactCount(layers?: string[]): Promise<number>;
+  // asOf (ISO timestamp) returns the artifacts as they were then, rebuilt from the history
+  getArtifactsInBounds(bounds: Bounds, layers?: string[], filter?: ScopedFilter, asOf?: string): Promise<Artifact[]>;
+  // Up to limit artifacts ordered by id, starting after the given id; within bounds when given
+  getArtifactPage(
+    limit: number,
+    after?: string,
+    bounds?: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[]>;
+  getArtifactsInCircle(circle: CircleSelection, layers?: string[], filter?: ScopedFilter): Promise<Artifact[]>;
+  getAggregation(circle: CircleSelection, layers?: string[], filter?: ScopedFilter): Promise<AggregationResult>;
+  getArtifactsInPolygon(polygon: PolygonSelection, layers?: string[], filter?: ScopedFilter): Promise<Artifact[]>;
+  getPolygonAggregation(polygon: PolygonSelection, layers?: string[], filter?: ScopedFilter): Promise<AggregationResult>;
+  getArtifactsInCorridor(corridor: CorridorSelection, layers?: string[], filter?: ScopedFilter): Promise<Artifact[]>;
+  getCorridorAggregation(corridor: CorridorSelection, layers?: string[], filter?: ScopedFilter): Promise<AggregationResult>;
+  // The k closest artifacts to a point, nearest first, optionally within maxDistance metres
+  getNearestArtifacts(query: NearestQuery, layers?: string[], filter?: ScopedFilter): Promise<NearbyArtifact[]>;
+  getViewportData(
+    bounds: Bounds,
+    zoom: number,
+    limit: number,
+    layers?: string[],
+    filter?: ScopedFilter,
+    asOf?: string
+  ): Promise<ViewportResponse>;
+  // Expand a viewport cluster; layers and filter must match the viewport query. Undefined if unknown.
+  getClusterChildren(
+    clusterId: string,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<ClusterChildren | undefined>;
+  getClusterLeaves(
+    clusterId: string,
+    limit: number,
+    offset: number,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<Artifact[] | undefined>;
+  // Mapbox Vector Tile of the artifacts, or clusters up to CLUSTER_MAX_ZOOM, in tile z/x/y
+  getVectorTile(z: number, x: number, y: number, layers?: string[], filter?: ScopedFilter): Promise<Uint8Array>;
+  // Artifact counts per hexagon in bounds, on the grid for the zoom
+  getDensity(bounds: Bounds, zoom: number, layers?: string[], filter?: ScopedFilter): Promise<DensityResponse>;
+  // Writes are recorded in the artifact history with the context's actor
+  createArtifact(artifact: InsertArtifact, context?: WriteContext): Promise<Artifact>;
+  createManyArtifacts(artifacts: InsertArtifact[], context?: WriteContext): Promise<Artifact[]>;
+  // Returns undefined / false when no artifact has the given id
+  updateArtifact(id: string, updates: UpdateArtifact, context?: WriteContext): Promise<Artifact | undefined>;
+  deleteArtifact(id: string, context?: WriteContext): Promise<boolean>;
+  // Creates, updates and deletes of an artifact, newest first; empty for unknown ids
+  getArtifactHistory(id: string): Promise<ArtifactHistoryEntry[]>;
+  getArtifactCount(layers?: string[], filter?: ScopedFilter): Promise<number>;
+  // Category and metadata value counts, within bounds when given
+  getFacets(
+    fields: string[],
+    bounds?: Bounds,
+    layers?: string[],
+    filter?: ScopedFilter
+  ): Promise<FacetResult>;
+  // Metadata fields and their value types on the given layers (all layers when omitted)
+  getMetadataFields(layers?: string[], filter?: ScopedFilter): Promise<MetadataFieldInfo[]>;
 
   // Layer management
   getLayers(): Promise<Layer[]>;
   getLayer(id: string): Promise<Layer | undefined>;
   createLayer(layer: Omit<Layer, "artifactCount">): Promise<Layer>;
+  updateLayer(id: string, updates: UpdateLayer): Promise<Layer | undefined>;
   updateLayerVisibility(id: string, visible: boolean): Promise<void>;
-  deleteLayer(id: string): Promise<void>;
+  // Deletes the layer's artifacts, or moves them to options.reassignTo
+  deleteLayer(id: string, options?: { reassignTo?: string } & WriteContext): Promise<void>;
+
+  // Per-client preferences (keyed by the X-Client-Id header)
+  getPreferences(clientId: string): Promise<UserPreferences>;
+  updatePreferences(clientId: string, updates: UpdatePreferences): Promise<UserPreferences>;
+
+  // Local users; usernames are unique regardless of case
+  getUsers(): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<UserRecord | undefined>;
+  createUser(user: InsertUserRecord): Promise<User>;
+  // A new password hash ends the user's sessions
+  updateUser(id: string, updates: Partial<Omit<InsertUserRecord, "username">>): Promise<User | undefined>;
+  // Also deletes the user's sessions and API keys
+  deleteUser(id: string): Promise<boolean>;
+
+  // Login sessions; expired sessions are never returned
+  createSession(tokenHash: string, userId: string, expiresAt: Date): Promise<void>;
+  getSessionUser(tokenHash: string): Promise<User | undefined>;
+  deleteSession(tokenHash: string): Promise<void>;
+
+  // API keys; looking a key up records when it was last used
+  getApiKeys(userId: string): Promise<ApiKey[]>;
+  createApiKey(key: InsertApiKeyRecord): Promise<ApiKey>;
+  deleteApiKey(userId: string, id: string): Promise<boolean>;
+  getApiKeyUser(keyHash: string): Promise<User | undefined>;
+}
+
+// Artifacts per query in getEveryArtifact
+const ARTIFACT_PAGE_SIZE = 5000;
+
+/**
+ * Every artifact on the layers (in bounds when given), read a page at a time. getAllArtifacts
+ * and getArtifactsInBounds stop at 10,000 artifacts in PostgreSQL; exports must not.
+ */
+export async function getEveryArtifact(
+  storage: IStorage,
+  bounds?: Bounds,
+  layers?: string[],
+  filter?: ScopedFilter
+): Promise<Artifact[]> {
+  const artifacts: Artifact[] = [];
+  let page: Artifact[];
+  do {
+    const after = artifacts.length > 0 ? artifacts[artifacts.length - 1].id : undefined;
+    page = await storage.getArtifactPage(ARTIFACT_PAGE_SIZE, after, bounds, layers, filter);
+    artifacts.push(...page);
+  } while (page.length === ARTIFACT_PAGE_SIZE);
+  return artifacts;
 }
 
 let storageInstance: IStorage | null = null;
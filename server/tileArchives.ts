@@ -0,0 +1,278 @@
+/**
+ * Raster tile archives: a single MBTiles (SQLite) or PMTiles file per layer under the tile
+ * storage path, as <layer>.mbtiles or <layer>.pmtiles. Layers without an archive are served
+ * from loose <layer>/<z>/<x>/<y>.<format> files by the tile route.
+ */
+
+import path from "path";
+import fs from "fs/promises";
+import Database from "better-sqlite3";
+import { PMTiles, TileType, type RangeResponse, type Source } from "pmtiles";
+import type { Bounds } from "@shared/schema";
+
+export const RASTER_TILE_FORMATS = ["png", "webp", "jpg"] as const;
+
+export type RasterTileFormat = (typeof RASTER_TILE_FORMATS)[number];
+
+export const TILE_CONTENT_TYPES: Record<RasterTileFormat, string> = {
+  png: "image/png",
+  webp: "image/webp",
+  jpg: "image/jpeg",
+};
+
+export type TileArchiveType = "mbtiles" | "pmtiles";
+
+export interface TilesetInfo {
+  layer: string;
+  archive: TileArchiveType;
+  format?: string; // png, jpg, webp, or another tile type such as pbf
+  name?: string;
+  description?: string;
+  attribution?: string;
+  bounds?: Bounds;
+  center?: { lat: number; lng: number; zoom: number };
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+export interface TileArchive {
+  readonly info: TilesetInfo;
+  // Tile bytes in XYZ coordinates, or undefined when the archive has no tile there
+  getTile(z: number, x: number, y: number): Promise<Uint8Array | undefined>;
+  close(): Promise<void>;
+}
+
+const ARCHIVE_EXTENSIONS: Record<string, TileArchiveType> = {
+  ".mbtiles": "mbtiles",
+  ".pmtiles": "pmtiles",
+};
+
+// Tile format from the leading bytes, for archives whose metadata does not name it
+export function detectTileFormat(data: Uint8Array): RasterTileFormat | undefined {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return "png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "jpg";
+  const riff = Buffer.from(data.subarray(0, 12)).toString("latin1");
+  if (riff.startsWith("RIFF") && riff.endsWith("WEBP")) return "webp";
+  return undefined;
+}
+
+// MBTiles names JPEG tiles "jpg", but some writers use "jpeg"
+function normalizeFormat(format: string | undefined): string | undefined {
+  const normalized = format?.trim().toLowerCase();
+  return normalized === "jpeg" ? "jpg" : normalized || undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const number = value === undefined ? NaN : parseFloat(value);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * MBTiles 1.3: a tiles table in TMS row order and a name/value metadata table
+ */
+class MBTilesArchive implements TileArchive {
+  readonly info: TilesetInfo;
+  private db: Database.Database;
+  private tileQuery: Database.Statement<[number, number, number], { tile_data: Buffer }>;
+
+  constructor(layer: string, file: string) {
+    this.db = new Database(file, { readonly: true, fileMustExist: true });
+    this.tileQuery = this.db.prepare(
+      "SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?"
+    );
+    this.info = this.readInfo(layer);
+  }
+
+  async getTile(z: number, x: number, y: number): Promise<Uint8Array | undefined> {
+    // MBTiles rows count up from the south edge
+    const row = this.tileQuery.get(z, x, Math.pow(2, z) - 1 - y);
+    return row?.tile_data;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private readInfo(layer: string): TilesetInfo {
+    const metadata: Record<string, string> = {};
+    const rows = this.db.prepare("SELECT name, value FROM metadata").all() as { name: string; value: string }[];
+    rows.forEach((row) => (metadata[row.name] = row.value));
+
+    const info: TilesetInfo = {
+      layer,
+      archive: "mbtiles",
+      format: normalizeFormat(metadata.format),
+      name: metadata.name,
+      description: metadata.description,
+      attribution: metadata.attribution,
+      minZoom: parseNumber(metadata.minzoom),
+      maxZoom: parseNumber(metadata.maxzoom),
+    };
+
+    // bounds is "west,south,east,north" and center "lng,lat,zoom"
+    const bounds = metadata.bounds?.split(",").map(parseFloat);
+    if (bounds?.length === 4 && bounds.every((value) => !isNaN(value))) {
+      info.bounds = { west: bounds[0], south: bounds[1], east: bounds[2], north: bounds[3] };
+    }
+    const center = metadata.center?.split(",").map(parseFloat);
+    if (center?.length === 3 && center.every((value) => !isNaN(value))) {
+      info.center = { lng: center[0], lat: center[1], zoom: center[2] };
+    }
+
+    // The zoom range is optional metadata, so fall back to the tiles present
+    if (info.minZoom === undefined || info.maxZoom === undefined) {
+      const range = this.db
+        .prepare("SELECT MIN(zoom_level) AS minZoom, MAX(zoom_level) AS maxZoom FROM tiles")
+        .get() as { minZoom: number | null; maxZoom: number | null };
+      info.minZoom ??= range.minZoom ?? undefined;
+      info.maxZoom ??= range.maxZoom ?? undefined;
+    }
+    return info;
+  }
+}
+
+// Reads PMTiles byte ranges from a local file
+class FileRangeSource implements Source {
+  constructor(
+    private file: string,
+    private handle: fs.FileHandle
+  ) {}
+
+  getKey(): string {
+    return this.file;
+  }
+
+  async getBytes(offset: number, length: number): Promise<RangeResponse> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await this.handle.read(buffer, 0, length, offset);
+    return { data: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + bytesRead) };
+  }
+}
+
+const PMTILES_FORMATS: Partial<Record<TileType, string>> = {
+  [TileType.Mvt]: "pbf",
+  [TileType.Png]: "png",
+  [TileType.Jpeg]: "jpg",
+  [TileType.Webp]: "webp",
+  [TileType.Avif]: "avif",
+};
+
+/**
+ * PMTiles v3, with bounds and zooms from the header and descriptions from the JSON metadata
+ */
+class PMTilesArchive implements TileArchive {
+  constructor(
+    readonly info: TilesetInfo,
+    private pmtiles: PMTiles,
+    private handle: fs.FileHandle
+  ) {}
+
+  static async open(layer: string, file: string): Promise<PMTilesArchive> {
+    const handle = await fs.open(file, "r");
+    try {
+      const pmtiles = new PMTiles(new FileRangeSource(file, handle));
+      const header = await pmtiles.getHeader();
+      // The JSON metadata section is optional
+      const metadata = (header.jsonMetadataLength > 0 ? await pmtiles.getMetadata() : {}) as Record<string, unknown>;
+      const text = (key: string) => (typeof metadata[key] === "string" ? (metadata[key] as string) : undefined);
+
+      const info: TilesetInfo = {
+        layer,
+        archive: "pmtiles",
+        format: PMTILES_FORMATS[header.tileType],
+        name: text("name"),
+        description: text("description"),
+        attribution: text("attribution"),
+        bounds: { west: header.minLon, south: header.minLat, east: header.maxLon, north: header.maxLat },
+        center: { lng: header.centerLon, lat: header.centerLat, zoom: header.centerZoom },
+        minZoom: header.minZoom,
+        maxZoom: header.maxZoom,
+      };
+      return new PMTilesArchive(info, pmtiles, handle);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  async getTile(z: number, x: number, y: number): Promise<Uint8Array | undefined> {
+    const tile = await this.pmtiles.getZxy(z, x, y);
+    return tile && new Uint8Array(tile.data);
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
+
+/**
+ * Archives under a tile directory, opened on first use and kept open.
+ * Replacing an archive file takes a restart (or close()) to be picked up.
+ */
+export class TileArchives {
+  private archives = new Map<string, Promise<TileArchive>>();
+
+  constructor(private root: string) {}
+
+  /**
+   * The archive for a layer, or undefined if the layer has none.
+   * Layer names must already be validated, since they become file names.
+   */
+  async get(layer: string): Promise<TileArchive | undefined> {
+    const cached = this.archives.get(layer);
+    if (cached) {
+      return cached;
+    }
+
+    for (const [extension, type] of Object.entries(ARCHIVE_EXTENSIONS)) {
+      const file = path.join(this.root, `${layer}${extension}`);
+      try {
+        await fs.access(file);
+      } catch {
+        continue;
+      }
+
+      const archive =
+        type === "mbtiles"
+          ? Promise.resolve().then(() => new MBTilesArchive(layer, file))
+          : PMTilesArchive.open(layer, file);
+      // A file that fails to open is not cached, so the next request tries again
+      archive.catch(() => {
+        if (this.archives.get(layer) === archive) this.archives.delete(layer);
+      });
+      this.archives.set(layer, archive);
+      return archive;
+    }
+    return undefined;
+  }
+
+  /**
+   * Metadata of every archive in the tile directory, ordered by layer name
+   */
+  async list(): Promise<TilesetInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.root);
+    } catch {
+      return [];
+    }
+
+    const layers = new Set<string>();
+    for (const file of files) {
+      const extension = path.extname(file);
+      const layer = path.basename(file, extension);
+      if (ARCHIVE_EXTENSIONS[extension] && /^[a-zA-Z0-9_-]+$/.test(layer)) {
+        layers.add(layer);
+      }
+    }
+
+    const archives = await Promise.all(Array.from(layers).sort().map((layer) => this.get(layer)));
+    return archives.filter((archive): archive is TileArchive => archive !== undefined).map((archive) => archive.info);
+  }
+
+  async close(): Promise<void> {
+    const archives = await Promise.allSettled(this.archives.values());
+    this.archives.clear();
+    await Promise.all(archives.map((result) => (result.status === "fulfilled" ? result.value.close() : undefined)));
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Mapbox Vector Tile encoding for artifact and cluster points (spec v2.1). MemStorage encodes
+ * tiles here; PostgresStorage uses ST_AsMVT with the same layers, properties and extent.
+ */
+
+import type { Artifact, Bounds, ClusterData } from "@shared/schema";
+import { latY, lngX, xLng, yLat } from "./mercator";
+
+// Tile coordinate range and the margin around it, in tile units
+export const TILE_EXTENT = 4096;
+export const TILE_BUFFER = 64;
+
+// Layer names in every artifact tile
+export const ARTIFACT_TILE_LAYER = "artifacts";
+export const CLUSTER_TILE_LAYER = "clusters";
+
+export const VECTOR_TILE_CONTENT_TYPE = "application/vnd.mapbox-vector-tile";
+
+type PropertyValue = string | number | boolean;
+
+export interface TileFeature {
+  lat: number;
+  lng: number;
+  properties: Record<string, PropertyValue | undefined>;
+}
+
+export interface TileLayer {
+  name: string;
+  features: TileFeature[];
+}
+
+/**
+ * Bounds of a tile grown by the tile buffer, so points drawn across an edge appear in both tiles
+ */
+export function tileBounds(z: number, x: number, y: number): Bounds {
+  const tiles = Math.pow(2, z);
+  const margin = TILE_BUFFER / TILE_EXTENT;
+  return {
+    north: yLat((y - margin) / tiles),
+    south: yLat((y + 1 + margin) / tiles),
+    east: xLng((x + 1 + margin) / tiles),
+    west: xLng((x - margin) / tiles),
+  };
+}
+
+export function artifactTileFeature(artifact: Artifact): TileFeature {
+  return {
+    lat: artifact.lat,
+    lng: artifact.lng,
+    properties: { id: artifact.id, name: artifact.name, category: artifact.category, layer: artifact.layer },
+  };
+}
+
+// Category counts are JSON, since tile values are scalars
+export function clusterTileFeature(cluster: ClusterData): TileFeature {
+  return {
+    lat: cluster.lat,
+    lng: cluster.lng,
+    properties: {
+      id: cluster.id,
+      count: cluster.count,
+      expansionZoom: cluster.expansionZoom,
+      layer: cluster.layer,
+      categories: JSON.stringify(cluster.categories),
+    },
+  };
+}
+
+/**
+ * Encodes point layers as a vector tile; empty layers are left out
+ */
+export function encodeVectorTile(layers: TileLayer[], z: number, x: number, y: number): Uint8Array {
+  const tile = new ProtobufWriter();
+  for (const layer of layers) {
+    if (layer.features.length > 0) {
+      tile.message(3, encodeLayer(layer, z, x, y));
+    }
+  }
+  return tile.finish();
+}
+
+function encodeLayer(layer: TileLayer, z: number, x: number, y: number): ProtobufWriter {
+  const tiles = Math.pow(2, z);
+  const keys = new Map<string, number>();
+  const values = new Map<string, number>();
+  const valueList: PropertyValue[] = [];
+
+  const writer = new ProtobufWriter();
+  writer.uint32(15, 2);
+  writer.string(1, layer.name);
+
+  for (const feature of layer.features) {
+    const tags: number[] = [];
+    for (const [key, value] of Object.entries(feature.properties)) {
+      if (value === undefined) continue;
+
+      if (!keys.has(key)) keys.set(key, keys.size);
+      // Typed key, so 1 and "1" stay distinct values
+      const valueKey = `${typeof value}:${value}`;
+      if (!values.has(valueKey)) {
+        values.set(valueKey, valueList.length);
+        valueList.push(value);
+      }
+      tags.push(keys.get(key)!, values.get(valueKey)!);
+    }
+
+    // One MoveTo command (id 1, count 1) from the tile origin
+    const px = Math.round((lngX(feature.lng) * tiles - x) * TILE_EXTENT);
+    const py = Math.round((latY(feature.lat) * tiles - y) * TILE_EXTENT);
+
+    const encoded = new ProtobufWriter();
+    encoded.packed(2, tags);
+    encoded.uint32(3, 1); // POINT
+    encoded.packed(4, [(1 << 3) | 1, zigzag(px), zigzag(py)]);
+    writer.message(2, encoded);
+  }
+
+  keys.forEach((_, key) => writer.string(3, key));
+  for (const value of valueList) {
+    writer.message(4, encodeValue(value));
+  }
+  writer.uint32(5, TILE_EXTENT);
+  return writer;
+}
+
+function encodeValue(value: PropertyValue): ProtobufWriter {
+  const writer = new ProtobufWriter();
+  if (typeof value === "string") {
+    writer.string(1, value);
+  } else if (typeof value === "boolean") {
+    writer.uint32(7, value ? 1 : 0);
+  } else if (Number.isSafeInteger(value)) {
+    if (value >= 0) {
+      writer.uint32(5, value);
+    } else {
+      writer.uint32(6, zigzag(value));
+    }
+  } else {
+    writer.double(3, value);
+  }
+  return writer;
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+// Minimal protobuf writer for the varint, 64-bit and length-delimited fields tiles use
+class ProtobufWriter {
+  private bytes: number[] = [];
+
+  uint32(field: number, value: number): void {
+    this.varint(field * 8);
+    this.varint(value);
+  }
+
+  double(field: number, value: number): void {
+    this.varint(field * 8 + 1);
+    const buffer = new DataView(new ArrayBuffer(8));
+    buffer.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) this.bytes.push(buffer.getUint8(i));
+  }
+
+  string(field: number, value: string): void {
+    this.lengthDelimited(field, Array.from(Buffer.from(value, "utf8")));
+  }
+
+  message(field: number, message: ProtobufWriter): void {
+    this.lengthDelimited(field, message.bytes);
+  }
+
+  packed(field: number, values: number[]): void {
+    const packed = new ProtobufWriter();
+    values.forEach((value) => packed.varint(value));
+    this.lengthDelimited(field, packed.bytes);
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+
+  private lengthDelimited(field: number, bytes: number[]): void {
+    this.varint(field * 8 + 2);
+    this.varint(bytes.length);
+    for (const byte of bytes) this.bytes.push(byte);
+  }
+
+  // Arithmetic rather than bit shifts, which would truncate values above 2^31
+  private varint(value: number): void {
+    while (value >= 0x80) {
+      this.bytes.push((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes.push(value);
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Metadata filter expressions, e.g.
+ *   voltage_kv_max >= 115 AND status = 'IN SERVICE'
+ *   state IN ('CT', 'MA') OR (install_year BETWEEN 1980 AND 1990 AND owner EXISTS)
+ *
+ * Fields are metadata paths (dotted for nested objects). Values are numbers, quoted strings
+ * or true/false. Matching is type-strict: 115 does not match "115". A missing or null field
+ * never matches a comparison, including != and NOT IN; use EXISTS / NOT EXISTS for those.
+ * Strings are ordered by code point.
+ *
+ * MemStorage evaluates the parsed expression with evaluateFilterExpression; PostgresStorage
+ * compiles it to parameterized JSONB predicates with the same semantics.
+ */
+
+export type FilterLiteral = string | number | boolean;
+
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export type FilterExpression =
+  | { type: "and" | "or"; operands: FilterExpression[] }
+  | { type: "compare"; field: string[]; op: ComparisonOperator; value: FilterLiteral }
+  | { type: "in"; field: string[]; values: FilterLiteral[]; negated: boolean }
+  | { type: "between"; field: string[]; min: number | string; max: number | string }
+  | { type: "exists"; field: string[]; negated: boolean };
+
+export const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_IN_VALUES = 100;
+const MAX_NESTING = 20;
+
+export class FilterExpressionError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(`${message} at position ${position + 1}`);
+    this.name = "FilterExpressionError";
+  }
+}
+
+type Token =
+  | { kind: "word"; value: string; position: number }
+  | { kind: "string"; value: string; position: number }
+  | { kind: "number"; value: number; position: number }
+  | { kind: "symbol"; value: string; position: number }
+  | { kind: "end"; position: number };
+
+const KEYWORDS = new Set(["AND", "OR", "NOT", "IN", "BETWEEN", "EXISTS", "TRUE", "FALSE"]);
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+
+/**
+ * Whether a dotted metadata path can be written as a field in an expression
+ */
+export function isFilterField(path: string): boolean {
+  return FIELD_PATTERN.test(path) && !KEYWORDS.has(path.toUpperCase());
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (char === "'" || char === '"') {
+      // Quote characters are escaped by doubling them: 'O''Brien'
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= text.length) {
+          throw new FilterExpressionError("Unterminated string", start);
+        }
+        if (text[i] === char) {
+          if (text[i + 1] === char) {
+            value += char;
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += text[i++];
+      }
+      tokens.push({ kind: "string", value, position: start });
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(text.slice(i));
+    if (number) {
+      if (!Number.isFinite(Number(number[0]))) {
+        throw new FilterExpressionError("Number is out of range", start);
+      }
+      tokens.push({ kind: "number", value: Number(number[0]), position: start });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*/.exec(text.slice(i));
+    if (word) {
+      tokens.push({ kind: "word", value: word[0], position: start });
+      i += word[0].length;
+      continue;
+    }
+
+    const symbol = /^(<=|>=|!=|<>|[=<>(),])/.exec(text.slice(i));
+    if (symbol) {
+      tokens.push({ kind: "symbol", value: symbol[0] === "<>" ? "!=" : symbol[0], position: start });
+      i += symbol[0].length;
+      continue;
+    }
+
+    throw new FilterExpressionError(`Unexpected character "${char}"`, start);
+  }
+
+  tokens.push({ kind: "end", position: text.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FilterExpression {
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== "end") {
+      throw new FilterExpressionError("Unexpected input", next.position);
+    }
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isKeyword(token: Token, keyword: string): boolean {
+    return token.kind === "word" && token.value.toUpperCase() === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.isKeyword(this.peek(), keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw new FilterExpressionError(`Expected ${keyword}`, this.peek().position);
+    }
+  }
+
+  private expectSymbol(symbol: string): void {
+    const token = this.next();
+    if (token.kind !== "symbol" || token.value !== symbol) {
+      throw new FilterExpressionError(`Expected "${symbol}"`, token.position);
+    }
+  }
+
+  private parseOr(): FilterExpression {
+    const operands = [this.parseAnd()];
+    while (this.acceptKeyword("OR")) {
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: "or", operands };
+  }
+
+  private parseAnd(): FilterExpression {
+    const operands = [this.parsePrimary()];
+    while (this.acceptKeyword("AND")) {
+      operands.push(this.parsePrimary());
+    }
+    return operands.length === 1 ? operands[0] : { type: "and", operands };
+  }
+
+  private parsePrimary(): FilterExpression {
+    const token = this.peek();
+    if (token.kind === "symbol" && token.value === "(") {
+      this.index++;
+      if (++this.depth > MAX_NESTING) {
+        throw new FilterExpressionError("Expression is nested too deeply", token.position);
+      }
+      const expression = this.parseOr();
+      this.expectSymbol(")");
+      this.depth--;
+      return expression;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): FilterExpression {
+    const fieldToken = this.next();
+    if (fieldToken.kind !== "word" || KEYWORDS.has(fieldToken.value.toUpperCase())) {
+      throw new FilterExpressionError("Expected a field name", fieldToken.position);
+    }
+    const field = fieldToken.value.split(".");
+
+    const negated = this.acceptKeyword("NOT");
+    if (this.acceptKeyword("EXISTS")) {
+      return { type: "exists", field, negated };
+    }
+    if (this.acceptKeyword("IN")) {
+      return { type: "in", field, values: this.parseList(), negated };
+    }
+    if (negated) {
+      throw new FilterExpressionError("Expected IN or EXISTS after NOT", this.peek().position);
+    }
+
+    if (this.acceptKeyword("BETWEEN")) {
+      const minToken = this.peek();
+      const min = this.parseLiteral();
+      this.expectKeyword("AND");
+      const max = this.parseLiteral();
+      if (typeof min === "boolean" || typeof min !== typeof max) {
+        throw new FilterExpressionError("BETWEEN needs two numbers or two strings", minToken.position);
+      }
+      return { type: "between", field, min, max: max as number | string };
+    }
+
+    const opToken = this.next();
+    if (opToken.kind !== "symbol" || !["=", "!=", "<", "<=", ">", ">="].includes(opToken.value)) {
+      throw new FilterExpressionError("Expected a comparison operator, IN, BETWEEN or EXISTS", opToken.position);
+    }
+    const op = opToken.value as ComparisonOperator;
+    const valueToken = this.peek();
+    const value = this.parseLiteral();
+    if (typeof value === "boolean" && op !== "=" && op !== "!=") {
+      throw new FilterExpressionError("Booleans can only be compared with = or !=", valueToken.position);
+    }
+    return { type: "compare", field, op, value };
+  }
+
+  private parseList(): FilterLiteral[] {
+    this.expectSymbol("(");
+    const values = [this.parseLiteral()];
+    while (this.peek().kind === "symbol" && (this.peek() as { value: string }).value === ",") {
+      this.index++;
+      values.push(this.parseLiteral());
+    }
+    this.expectSymbol(")");
+    if (values.length > MAX_IN_VALUES) {
+      throw new FilterExpressionError(`IN lists are limited to ${MAX_IN_VALUES} values`, this.peek().position);
+    }
+    return values;
+  }
+
+  private parseLiteral(): FilterLiteral {
+    const token = this.next();
+    if (token.kind === "string" || token.kind === "number") {
+      return token.value;
+    }
+    if (this.isKeyword(token, "TRUE")) return true;
+    if (this.isKeyword(token, "FALSE")) return false;
+    throw new FilterExpressionError("Expected a number, quoted string, true or false", token.position);
+  }
+}
+
+/**
+ * Parse a filter expression. Throws FilterExpressionError with the failing position.
+ */
+export function parseFilterExpression(text: string): FilterExpression {
+  if (text.length > MAX_EXPRESSION_LENGTH) {
+    throw new FilterExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, 0);
+  }
+  return new Parser(tokenize(text)).parse();
+}
+
+function lookup(metadata: Record<string, unknown> | undefined, field: string[]): unknown {
+  let value: unknown = metadata;
+  for (const key of field) {
+    if (Array.isArray(value)) {
+      // Numeric path elements index arrays, as they do for the JSONB #> operator
+      value = /^\d+$/.test(key) ? value[Number(key)] : undefined;
+    } else if (value !== null && typeof value === "object") {
+      // Own keys only, so "constructor" or "__proto__" are as missing as they are in JSONB
+      value = Object.hasOwn(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function isEqual(value: unknown, literal: FilterLiteral): boolean {
+  return typeof value === typeof literal && value === literal;
+}
+
+function isOrdered(value: unknown, literal: FilterLiteral): value is number | string {
+  return typeof value === typeof literal && (typeof value === "number" || typeof value === "string");
+}
+
+// Strings compare by code point, as with COLLATE "C"; < would compare UTF-16 code units
+function compareOrdered(a: number | string, b: number | string): number {
+  if (typeof a === "number" || typeof b === "number") {
+    return (a as number) - (b as number);
+  }
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a.charCodeAt(i) !== b.charCodeAt(i)) {
+      return a.codePointAt(i)! - b.codePointAt(i)!;
+    }
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Evaluate a parsed expression against an artifact's metadata
+ */
+export function evaluateFilterExpression(
+  expression: FilterExpression,
+  metadata: Record<string, unknown> | undefined
+): boolean {
+  switch (expression.type) {
+    case "and":
+      return expression.operands.every((operand) => evaluateFilterExpression(operand, metadata));
+    case "or":
+      return expression.operands.some((operand) => evaluateFilterExpression(operand, metadata));
+    case "exists":
+      return isPresent(lookup(metadata, expression.field)) !== expression.negated;
+    case "in": {
+      const value = lookup(metadata, expression.field);
+      const matches = expression.values.some((literal) => isEqual(value, literal));
+      return expression.negated ? isPresent(value) && !matches : matches;
+    }
+    case "between": {
+      const value = lookup(metadata, expression.field);
+      return (
+        isOrdered(value, expression.min) &&
+        compareOrdered(value, expression.min) >= 0 &&
+        compareOrdered(value, expression.max) <= 0
+      );
+    }
+    case "compare": {
+      const value = lookup(metadata, expression.field);
+      const { op, value: literal } = expression;
+      if (op === "=") return isEqual(value, literal);
+      if (op === "!=") return isPresent(value) && !isEqual(value, literal);
+      if (!isOrdered(value, literal)) return false;
+      const order = compareOrdered(value, literal as number | string);
+      switch (op) {
+        case "<":
+          return order < 0;
+        case "<=":
+          return order <= 0;
+        case ">":
+          return order > 0;
+        case ">=":
+          return order >= 0;
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { MAX_EXPRESSION_LENGTH, parseFilterExpression } from "./filterExpression";
 
 export const artifactSchema = z.object({
   id: z.string(),
@@ -17,6 +18,37 @@ export type Artifact = z.infer<typeof artifactSchema>;
 export const insertArtifactSchema = artifactSchema.omit({ id: true });
 export type InsertArtifact = z.infer<typeof insertArtifactSchema>;
 
+// Partial update payload - omitted fields are left unchanged, metadata is replaced as a whole
+export const updateArtifactSchema = artifactSchema
+  .omit({ id: true, createdAt: true })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+export type UpdateArtifact = z.infer<typeof updateArtifactSchema>;
+
+// Timestamp for point-in-time queries, reconstructed from the artifact history
+export const asOfSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), { message: "Invalid asOf timestamp" });
+
+export const artifactHistoryActionSchema = z.enum(["create", "update", "delete"]);
+
+export type ArtifactHistoryAction = z.infer<typeof artifactHistoryActionSchema>;
+
+// One recorded write; creates have no before and deletes no after
+export const artifactHistoryEntrySchema = z.object({
+  id: z.number(),
+  artifactId: z.string(),
+  action: artifactHistoryActionSchema,
+  before: artifactSchema.optional(),
+  after: artifactSchema.optional(),
+  changedBy: z.string().optional(), // username, or X-Client-Id of the browser without accounts
+  changedAt: z.string(),
+});
+
+export type ArtifactHistoryEntry = z.infer<typeof artifactHistoryEntrySchema>;
+
 export const boundsSchema = z.object({
   north: z.number().min(-90).max(90),
   south: z.number().min(-90).max(90),
@@ -39,21 +71,193 @@ export const circleSelectionSchema = z.object({
 
 export type CircleSelection = z.infer<typeof circleSelectionSchema>;
 
+// GeoJSON position: [lng, lat]
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+// Closed GeoJSON linear ring - first ring is the outer boundary, any further rings are holes
+const linearRingSchema = z
+  .array(positionSchema)
+  .min(4)
+  .max(10000)
+  .refine(
+    (ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1],
+    { message: "Polygon rings must be closed" }
+  );
+
+export const polygonSelectionSchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z.array(linearRingSchema).min(1).max(100),
+});
+
+export type PolygonSelection = z.infer<typeof polygonSelectionSchema>;
+
+export const lineStringSchema = z.object({
+  type: z.literal("LineString"),
+  coordinates: z.array(positionSchema).min(2).max(10000),
+});
+
+export type LineString = z.infer<typeof lineStringSchema>;
+
+// Everything within buffer metres of a line, e.g. a transmission right-of-way
+export const corridorSelectionSchema = z.object({
+  line: lineStringSchema,
+  buffer: z.number().positive().max(100000),
+});
+
+export type CorridorSelection = z.infer<typeof corridorSelectionSchema>;
+
+// Attribute filters applied on top of the spatial and layer filters
+export const artifactFilterSchema = z.object({
+  search: z.string().min(1).max(200).optional(),
+  categories: z.array(z.string().min(1).max(100)).optional(),
+  from: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), { message: "Invalid from date" })
+    .optional(),
+  to: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), { message: "Invalid to date" })
+    .optional(),
+  // Metadata filter expression, see shared/filterExpression.ts
+  where: z
+    .string()
+    .min(1)
+    .max(MAX_EXPRESSION_LENGTH)
+    .superRefine((value, ctx) => {
+      try {
+        parseFilterExpression(value);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+      }
+    })
+    .optional(),
+});
+
+export type ArtifactFilter = z.infer<typeof artifactFilterSchema>;
+
 export const viewportQuerySchema = z.object({
   bounds: boundsSchema,
   zoom: z.number(),
   layers: z.array(z.string()).optional(),
+  filter: artifactFilterSchema.optional(),
 });
 
 export type ViewportQuery = z.infer<typeof viewportQuerySchema>;
 
 export const areaQuerySchema = z.object({
   circle: circleSelectionSchema.optional(),
+  polygon: polygonSelectionSchema.optional(),
+  corridor: corridorSelectionSchema.optional(),
   bounds: boundsSchema.optional(),
 });
 
 export type AreaQuery = z.infer<typeof areaQuerySchema>;
 
+export const exportFormatSchema = z.enum(["geojson", "csv", "kml"]);
+
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+
+// Export request - selects by circle, polygon, corridor or bounds (first given wins), otherwise exports the layers
+export const exportQuerySchema = areaQuerySchema.extend({
+  format: exportFormatSchema,
+  layers: z.array(z.string()).optional(),
+  filter: artifactFilterSchema.optional(),
+});
+
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+const layerIdSchema = z.string().min(1).max(100).regex(/^[a-zA-Z0-9_-]+$/, "Invalid layer id");
+
+// Source column (CSV) or property (GeoJSON) names for each artifact field.
+// Unmapped columns go to metadata unless an explicit metadata list is given.
+export const importMappingSchema = z.object({
+  name: z.string().min(1).default("name"),
+  category: z.string().min(1).default("category"),
+  description: z.string().min(1).default("description"),
+  lat: z.string().min(1).default("lat"),
+  lng: z.string().min(1).default("lng"),
+  metadata: z.array(z.string().min(1)).optional(),
+});
+
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+// Artifact field that identifies a record across imports: name, category, description or metadata.<path>
+export const externalKeySchema = z
+  .string()
+  .max(255)
+  .regex(/^(name|category|description|metadata\.[^.]+(\.[^.]+)*)$/, "Invalid external key");
+
+const importOptionsSchema = z.object({
+  layer: layerIdSchema,
+  mapping: importMappingSchema.default({}),
+  // Used when a row has no category value
+  defaultCategory: z.string().min(1).max(100).optional(),
+  dryRun: z.boolean().default(false),
+  // Upsert on this key instead of the layer's externalKey
+  externalKey: externalKeySchema.optional(),
+  // Delete layer records whose key is absent from a keyed import
+  retireMissing: z.boolean().default(false),
+});
+
+export const importRequestSchema = z.discriminatedUnion("format", [
+  importOptionsSchema.extend({
+    format: z.literal("geojson"),
+    data: z.object({
+      type: z.literal("FeatureCollection"),
+      features: z.array(z.unknown()),
+    }),
+  }),
+  importOptionsSchema.extend({
+    format: z.literal("csv"),
+    data: z.string(),
+  }),
+]);
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+
+export const importRowErrorSchema = z.object({
+  row: z.number(), // 1-based feature index, or CSV line number (header is line 1)
+  errors: z.array(z.string()),
+});
+
+export type ImportRowError = z.infer<typeof importRowErrorSchema>;
+
+const importPositionSchema = z.object({ lat: z.number(), lng: z.number() });
+
+// Outcome of a keyed import, matched on externalKey against the layer's existing records
+export const importChangesSchema = z.object({
+  externalKey: z.string(),
+  added: z.array(z.object({ row: z.number(), key: z.string() })),
+  changed: z.array(
+    z.object({
+      id: z.string(),
+      key: z.string(),
+      fields: z.array(z.object({ field: z.string(), from: z.unknown(), to: z.unknown() })),
+    })
+  ),
+  moved: z.array(
+    z.object({ id: z.string(), key: z.string(), from: importPositionSchema, to: importPositionSchema })
+  ),
+  missing: z.array(z.object({ id: z.string(), key: z.string(), name: z.string() })),
+  unchanged: z.number(),
+  retired: z.number(),
+});
+
+export type ImportChanges = z.infer<typeof importChangesSchema>;
+
+export const importReportSchema = z.object({
+  layer: z.string(),
+  dryRun: z.boolean(),
+  total: z.number(),
+  valid: z.number(),
+  imported: z.number(),
+  layerCreated: z.boolean(), // in dry-run mode: whether the layer would be created
+  errors: z.array(importRowErrorSchema),
+  changes: importChangesSchema.optional(),
+});
+
+export type ImportReport = z.infer<typeof importReportSchema>;
+
 export const aggregationResultSchema = z.object({
   count: z.number(),
   categories: z.record(z.string(), z.number()),
@@ -62,15 +266,88 @@ export const aggregationResultSchema = z.object({
 
 export type AggregationResult = z.infer<typeof aggregationResultSchema>;
 
+// Most neighbours returned by a nearest query, and the default when k is not given
+export const MAX_NEAREST = 50;
+export const DEFAULT_NEAREST = 5;
+
+export const nearestQuerySchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  k: z.number().int().min(1).max(MAX_NEAREST).default(DEFAULT_NEAREST),
+  maxDistance: z.number().positive().max(40075000).optional(), // metres
+});
+
+export type NearestQuery = z.infer<typeof nearestQuerySchema>;
+
+// A nearest query result with its great-circle distance from the query point in metres
+export const nearbyArtifactSchema = z.object({
+  artifact: artifactSchema,
+  distance: z.number(),
+});
+
+export type NearbyArtifact = z.infer<typeof nearbyArtifactSchema>;
+
+// Dotted metadata path, e.g. voltage_kv_max or electrical.voltage
+export const metadataFieldSchema = z.string().min(1).max(255).regex(/^[^.]+(\.[^.]+)*$/, "Invalid metadata field");
+
+// Most frequent values returned per metadata facet field
+export const MAX_FACET_VALUES = 50;
+
+// Category and metadata value counts for the artifacts matching a bounds/layers/filter scope.
+// Category counts ignore the category filter so unselected categories keep their counts.
+export const facetResultSchema = z.object({
+  total: z.number(),
+  categories: z.record(z.string(), z.number()),
+  fields: z.record(z.string(), z.record(z.string(), z.number())),
+});
+
+export type FacetResult = z.infer<typeof facetResultSchema>;
+
+// Catalog limits: fields per response, and distinct values listed for a string field
+export const MAX_CATALOG_FIELDS = 200;
+export const MAX_CATALOG_VALUES = 25;
+
+export const metadataFieldTypeSchema = z.enum(["string", "number", "boolean"]);
+
+export type MetadataFieldType = z.infer<typeof metadataFieldTypeSchema>;
+
+// A metadata field found on a set of layers, with the JSON type most of its values have.
+// values lists every distinct string when there are at most MAX_CATALOG_VALUES of them.
+export const metadataFieldInfoSchema = z.object({
+  path: z.string(),
+  type: metadataFieldTypeSchema,
+  count: z.number(),
+  values: z.array(z.string()).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+export type MetadataFieldInfo = z.infer<typeof metadataFieldInfoSchema>;
+
+// Highest zoom that is clustered; the viewport returns individual artifacts above it
+export const CLUSTER_MAX_ZOOM = 12;
+
 export const clusterDataSchema = z.object({
-  id: z.string(),
+  id: z.string(), // stable while the clustered artifacts do not change
   lat: z.number(),
   lng: z.number(),
   count: z.number(),
+  layer: z.string().optional(), // set when every artifact in the cluster is from the same layer
+  categories: z.record(z.string(), z.number()), // artifact count by category
+  bounds: boundsSchema, // extent of the clustered artifacts
+  expansionZoom: z.number(), // zoom at which the cluster splits into its children
 });
 
 export type ClusterData = z.infer<typeof clusterDataSchema>;
 
+// The clusters and artifacts a cluster splits into at its expansion zoom
+export const clusterChildrenSchema = z.object({
+  clusters: z.array(clusterDataSchema),
+  singles: z.array(artifactSchema),
+});
+
+export type ClusterChildren = z.infer<typeof clusterChildrenSchema>;
+
 export const viewportResponseSchema = z.object({
   clusters: z.array(clusterDataSchema),
   singles: z.array(artifactSchema),
@@ -80,6 +357,167 @@ export const viewportResponseSchema = z.object({
 
 export type ViewportResponse = z.infer<typeof viewportResponseSchema>;
 
+// Hexagonal density cell; the grid is regular in Web Mercator at the response zoom
+export const densityCellSchema = z.object({
+  id: z.string(), // "zoom:q:r", the cell's axial coordinates on that zoom's grid
+  lat: z.number(),
+  lng: z.number(),
+  count: z.number(),
+  boundary: z.array(z.tuple([z.number(), z.number()])), // six [lng, lat] corners
+});
+
+export type DensityCell = z.infer<typeof densityCellSchema>;
+
+export const densityResponseSchema = z.object({
+  zoom: z.number(), // grid resolution the cells were counted at
+  cells: z.array(densityCellSchema),
+  max: z.number(), // highest cell count, for scaling a colour ramp
+  total: z.number(),
+});
+
+export type DensityResponse = z.infer<typeof densityResponseSchema>;
+
+export const markerShapeSchema = z.enum(["circle", "square", "diamond", "triangle"]);
+
+export type MarkerShape = z.infer<typeof markerShapeSchema>;
+
+// Hex only - style values end up in marker HTML, so arbitrary CSS is not accepted
+const hexColorSchema = z.string().regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, "Colours must be #rgb or #rrggbb");
+
+const markerSizeSchema = z.number().int().min(4).max(40); // marker diameter in pixels
+
+export const markerStyleSchema = z
+  .object({
+    color: hexColorSchema,
+    shape: markerShapeSchema,
+    size: markerSizeSchema,
+    opacity: z.number().min(0).max(1),
+  })
+  .partial()
+  .strict();
+
+export type MarkerStyle = z.infer<typeof markerStyleSchema>;
+
+// Value a style rule assigns: a hex colour for "color" rules, a marker size for "size" rules
+const styleValueSchema = z.union([hexColorSchema, markerSizeSchema]);
+
+export type StyleValue = z.infer<typeof styleValueSchema>;
+
+const styleRuleBaseSchema = z
+  .object({
+    field: metadataFieldSchema,
+    property: z.enum(["color", "size"]),
+    categories: z.array(z.string().min(1).max(100)).optional(), // only style these categories
+    label: z.string().max(100).optional(), // legend title, defaults to the field
+  })
+  .strict();
+
+/**
+ * Data-driven style rule mapping a metadata field to marker colour or size:
+ * graduated (numeric ranges, min inclusive / max exclusive), categorical (exact values)
+ * or continuous (linear ramp between two values).
+ */
+export const styleRuleSchema = z
+  .discriminatedUnion("type", [
+    styleRuleBaseSchema.extend({
+      type: z.literal("graduated"),
+      classes: z
+        .array(
+          z
+            .object({
+              min: z.number().optional(),
+              max: z.number().optional(),
+              value: styleValueSchema,
+              label: z.string().max(100).optional(),
+            })
+            .strict()
+        )
+        .min(1)
+        .max(20),
+    }),
+    styleRuleBaseSchema.extend({
+      type: z.literal("categorical"),
+      values: z.record(z.string(), styleValueSchema),
+      fallback: styleValueSchema.optional(),
+    }),
+    styleRuleBaseSchema.extend({
+      type: z.literal("continuous"),
+      min: z.number(),
+      max: z.number(),
+      from: styleValueSchema,
+      to: styleValueSchema,
+    }),
+  ])
+  .superRefine((rule, ctx) => {
+    const values =
+      rule.type === "graduated"
+        ? rule.classes.map((c) => c.value)
+        : rule.type === "categorical"
+          ? [...Object.values(rule.values), ...(rule.fallback === undefined ? [] : [rule.fallback])]
+          : [rule.from, rule.to];
+    const expected = rule.property === "color" ? "string" : "number";
+    if (values.some((value) => typeof value !== expected)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: rule.property === "color" ? "Color rules need hex colour values" : "Size rules need numeric sizes",
+      });
+    }
+    if (rule.type === "continuous" && rule.max <= rule.min) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Continuous rules need max greater than min" });
+    }
+  });
+
+export type StyleRule = z.infer<typeof styleRuleSchema>;
+
+// Layer-wide marker style with optional per-category overrides and data-driven rules.
+// Rules are applied in order on top of the layer and category style.
+export const layerStyleSchema = markerStyleSchema
+  .extend({
+    categories: z.record(z.string().min(1).max(100), markerStyleSchema).optional(),
+    rules: z.array(styleRuleSchema).max(10).optional(),
+  })
+  .strict();
+
+export type LayerStyle = z.infer<typeof layerStyleSchema>;
+
+// Local user accounts. Roles are ordered: editors can do everything viewers can, admins everything.
+// viewer reads, editor also writes artifacts and imports, admin also manages layers, users and defaults.
+export const USER_ROLES = ["viewer", "editor", "admin"] as const;
+
+export const userRoleSchema = z.enum(USER_ROLES);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+// Group names a user can belong to, for layer access grants
+export const groupNameSchema = z
+  .string()
+  .min(1)
+  .max(50)
+  .regex(/^[a-zA-Z0-9._-]+$/, "Group names may only contain letters, digits, '.', '_' and '-'");
+
+// Users with one of the roles (or a higher one) or in one of the groups
+export const layerGrantSchema = z
+  .object({
+    roles: z.array(userRoleSchema).max(USER_ROLES.length).default([]),
+    groups: z.array(groupNameSchema).max(50).default([]),
+  })
+  .strict();
+
+export type LayerGrant = z.infer<typeof layerGrantSchema>;
+
+// Who may read and write a layer's artifacts besides admins. Without a grant for an action the
+// layer is open to every user whose role allows it; writing also needs read access.
+export const layerAccessSchema = z
+  .object({
+    read: layerGrantSchema.optional(),
+    write: layerGrantSchema.optional(),
+  })
+  .strict();
+
+export type LayerAccess = z.infer<typeof layerAccessSchema>;
+
+export type LayerAction = keyof LayerAccess;
+
 // Layer schema for layer management
 export const layerSchema = z.object({
   id: z.string().min(1).max(100),
@@ -89,11 +527,94 @@ export const layerSchema = z.object({
   sourceDate: z.string().optional(),
   artifactCount: z.number().int().nonnegative(),
   visible: z.boolean().default(true),
-  style: z.record(z.string(), z.unknown()).optional(),
+  style: layerStyleSchema.optional(),
+  externalKey: externalKeySchema.optional(),
+  access: layerAccessSchema.optional(),
 });
 
 export type Layer = z.infer<typeof layerSchema>;
 
+const sourceDateSchema = z
+  .string()
+  .refine((value) => !isNaN(Date.parse(value)), { message: "Invalid source date" });
+
+export const insertLayerSchema = layerSchema.omit({ artifactCount: true }).extend({
+  id: layerIdSchema,
+  sourceDate: sourceDateSchema.optional(),
+});
+
+export type InsertLayer = z.infer<typeof insertLayerSchema>;
+
+// Editable layer fields - visibility has its own endpoint, the id is immutable
+export const updateLayerSchema = layerSchema
+  .pick({ name: true, description: true, source: true, style: true, externalKey: true, access: true })
+  .extend({ sourceDate: sourceDateSchema })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided",
+  });
+
+export type UpdateLayer = z.infer<typeof updateLayerSchema>;
+
+// Change feed events sent on /api/events once a write has been stored
+export const changeEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("artifact.created"), artifact: artifactSchema }),
+  z.object({ type: z.literal("artifact.updated"), artifact: artifactSchema, previous: artifactSchema }),
+  z.object({ type: z.literal("artifact.deleted"), artifact: artifactSchema }),
+  // Imports are announced once per request rather than per artifact
+  z.object({ type: z.literal("artifacts.imported"), layer: z.string(), count: z.number() }),
+  z.object({ type: z.literal("layer.created"), layer: layerSchema }),
+  z.object({ type: z.literal("layer.updated"), layer: layerSchema }),
+  // Artifacts of a deleted layer were either deleted with it or moved to reassignTo
+  z.object({ type: z.literal("layer.deleted"), id: z.string(), reassignTo: z.string().optional() }),
+]);
+
+export type ChangeEvent = z.infer<typeof changeEventSchema>;
+
+export type ChangeEventType = ChangeEvent["type"];
+
+// Basemap IDs double as layer names of local tile sources
+export const basemapIdSchema = z.string().regex(/^[a-zA-Z0-9_-]{1,100}$/);
+
+// A background map in the /api/tiles/info registry. url is a Leaflet template ({z}/{x}/{y}, optional {s}).
+export const basemapSchema = z.object({
+  id: basemapIdSchema,
+  name: z.string().min(1).max(100),
+  url: z.string().min(1).max(500),
+  attribution: z.string().max(500).optional(),
+  minZoom: z.number().int().min(0).max(22).default(0),
+  maxZoom: z.number().int().min(0).max(22).default(19),
+  bounds: boundsSchema.optional(),
+  local: z.boolean().default(false), // served from TILE_STORAGE_PATH
+});
+
+export type Basemap = z.infer<typeof basemapSchema>;
+
+// Listed after any local basemaps unless tiles/metadata.json configures its own list
+export const OSM_BASEMAP: Basemap = {
+  id: "osm",
+  name: "OpenStreetMap",
+  url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  minZoom: 0,
+  maxZoom: 19,
+  local: false,
+};
+
+// Per-browser (X-Client-Id) preferences. layerVisibility overrides each layer's default `visible` flag;
+// basemap is the chosen basemap ID, unset until the user switches.
+export const userPreferencesSchema = z.object({
+  layerVisibility: z.record(z.string(), z.boolean()),
+  basemap: basemapIdSchema.optional(),
+});
+
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
+
+// Preference updates are merged into the stored record
+export const updatePreferencesSchema = userPreferencesSchema.partial();
+
+export type UpdatePreferences = z.infer<typeof updatePreferencesSchema>;
+
 // Substation-specific metadata schema (for validation during import)
 export const substationMetadataSchema = z.object({
   city: z.string().optional(),
@@ -114,9 +635,78 @@ export const substationMetadataSchema = z.object({
 
 export type SubstationMetadata = z.infer<typeof substationMetadataSchema>;
 
-// Note: User authentication schemas have been removed.
-// If authentication is needed, implement properly with:
-// - Password hashing (bcrypt/argon2)
-// - Secure session management
-// - Rate limiting for login attempts
-// - Proper validation (password complexity, etc.)
+// A user as the API returns it; the password hash never leaves the server
+export const userSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  role: userRoleSchema,
+  groups: z.array(z.string()),
+  createdAt: z.string().optional(),
+});
+
+export type User = z.infer<typeof userSchema>;
+
+const usernameSchema = z
+  .string()
+  .min(3)
+  .max(50)
+  .regex(/^[a-zA-Z0-9._-]+$/, "Username may only contain letters, digits, '.', '_' and '-'");
+
+// Length over composition rules; argon2 input is capped to keep hashing cheap
+const passwordSchema = z.string().min(12, "Password must be at least 12 characters").max(200);
+
+export const insertUserSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+  role: userRoleSchema,
+  groups: z.array(groupNameSchema).max(20).optional(),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+export const updateUserSchema = z
+  .object({
+    password: passwordSchema.optional(),
+    role: userRoleSchema.optional(),
+    groups: z.array(groupNameSchema).max(20).optional(),
+  })
+  .refine((updates) => Object.keys(updates).length > 0, { message: "No fields to update" });
+
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+export const loginSchema = z.object({
+  username: z.string().min(1).max(50),
+  password: z.string().min(1).max(200),
+});
+
+export type Login = z.infer<typeof loginSchema>;
+
+// Who the request is signed in as; authRequired is false when the server runs without accounts
+export const authSessionSchema = z.object({
+  authRequired: z.boolean(),
+  user: userSchema.nullable(),
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// API keys act as the user that created them, for scripts and GIS clients (Authorization: Bearer <key>)
+export const apiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  prefix: z.string(), // first characters of the key, to tell keys apart
+  createdAt: z.string(),
+  lastUsedAt: z.string().optional(),
+});
+
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const insertApiKeySchema = z.object({
+  name: z.string().min(1).max(100),
+});
+
+// Only returned when the key is created; the server keeps a hash
+export const createdApiKeySchema = apiKeySchema.extend({
+  key: z.string(),
+});
+
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { getHistoryChanges } from "../../client/src/lib/artifactHistory";
+import { createTestArtifact, CT_CENTER } from "../fixtures/artifacts";
+
+const pole = createTestArtifact({
+  id: "pole",
+  name: "Pole 1",
+  description: "",
+  lat: CT_CENTER.lat,
+  lng: CT_CENTER.lng,
+  metadata: { status: "active", voltage: 13.8 },
+});
+
+describe("getHistoryChanges", () => {
+  it("should list the fields an update changed", () => {
+    const after = {
+      ...pole,
+      name: "Pole 1A",
+      lat: CT_CENTER.lat + 0.001,
+      metadata: { status: "retired", owner: { name: "Eversource" } },
+    };
+
+    const changes = getHistoryChanges({
+      id: 2,
+      artifactId: "pole",
+      action: "update",
+      before: pole,
+      after,
+      changedAt: "2026-02-01T00:00:00.000Z",
+    });
+
+    expect(changes).toEqual([
+      { field: "name", before: "Pole 1", after: "Pole 1A" },
+      {
+        field: "position",
+        before: `${CT_CENTER.lat.toFixed(6)}, ${CT_CENTER.lng.toFixed(6)}`,
+        after: `${(CT_CENTER.lat + 0.001).toFixed(6)}, ${CT_CENTER.lng.toFixed(6)}`,
+      },
+      { field: "metadata.owner", before: undefined, after: '{"name":"Eversource"}' },
+      { field: "metadata.status", before: "active", after: "retired" },
+      { field: "metadata.voltage", before: "13.8", after: undefined },
+    ]);
+  });
+
+  it("should list every set field of a create and nothing that was empty", () => {
+    const changes = getHistoryChanges({
+      id: 1,
+      artifactId: "pole",
+      action: "create",
+      after: pole,
+      changedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(changes.map((change) => change.field)).toEqual([
+      "name",
+      "category",
+      "layer",
+      "position",
+      "metadata.status",
+      "metadata.voltage",
+    ]);
+    expect(changes.every((change) => change.before === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { applyChangeEvents } from "../../client/src/lib/changeFeed";
+import { createTestArtifact, createTestBounds, CT_CENTER } from "../fixtures/artifacts";
+import type { Layer, ViewportResponse } from "../../shared/schema";
+
+const bounds = createTestBounds();
+const pole = createTestArtifact({ id: "pole", layer: "poles" });
+
+function createLayer(id: string, artifactCount: number): Layer {
+  return { id, name: id, artifactCount, visible: true };
+}
+
+function viewportKey(zoom: number, layerKey = "all", filterKey = "none") {
+  return ["/api/artifacts/viewport", bounds, zoom, 5000, layerKey, filterKey];
+}
+
+function viewport(singles = [pole], clusters: ViewportResponse["clusters"] = []): ViewportResponse {
+  return { clusters, singles, total: singles.length, truncated: false };
+}
+
+describe("applyChangeEvents", () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+    queryClient.setQueryData(["/api/layers"], [createLayer("poles", 1), createLayer("wires", 0)]);
+  });
+
+  const layers = () => queryClient.getQueryData<Layer[]>(["/api/layers"])!;
+  const isStale = (key: unknown[]) => queryClient.getQueryState(key)!.isInvalidated;
+
+  it("should add created artifacts to matching viewports and layer counts", async () => {
+    queryClient.setQueryData(viewportKey(15), viewport());
+    queryClient.setQueryData(viewportKey(15, "wires"), viewport([]));
+    const created = createTestArtifact({ id: "new", layer: "poles" });
+
+    await applyChangeEvents(queryClient, [{ type: "artifact.created", artifact: created }]);
+
+    expect(queryClient.getQueryData<ViewportResponse>(viewportKey(15))).toMatchObject({
+      singles: [pole, created],
+      total: 2,
+    });
+    expect(queryClient.getQueryData<ViewportResponse>(viewportKey(15, "wires"))!.singles).toEqual([]);
+    expect(isStale(viewportKey(15))).toBe(false);
+    expect(layers()[0].artifactCount).toBe(2);
+  });
+
+  it("should replace updated artifacts and remove ones moved out of view", async () => {
+    queryClient.setQueryData(viewportKey(15), viewport());
+    const renamed = { ...pole, name: "Renamed" };
+    const moved = { ...pole, lat: CT_CENTER.lat + 1, layer: "wires" };
+
+    await applyChangeEvents(queryClient, [{ type: "artifact.updated", artifact: renamed, previous: pole }]);
+    expect(queryClient.getQueryData<ViewportResponse>(viewportKey(15))!.singles).toEqual([renamed]);
+
+    await applyChangeEvents(queryClient, [{ type: "artifact.updated", artifact: moved, previous: renamed }]);
+    expect(queryClient.getQueryData<ViewportResponse>(viewportKey(15))).toMatchObject({ singles: [], total: 0 });
+    expect(layers().map((layer) => layer.artifactCount)).toEqual([0, 1]);
+  });
+
+  it("should remove deleted artifacts", async () => {
+    queryClient.setQueryData(viewportKey(15), viewport());
+
+    await applyChangeEvents(queryClient, [{ type: "artifact.deleted", artifact: pole }]);
+
+    expect(queryClient.getQueryData<ViewportResponse>(viewportKey(15))!.singles).toEqual([]);
+    expect(layers()[0].artifactCount).toBe(0);
+  });
+
+  it("should refetch clustered, filtered and truncated viewports instead of patching them", async () => {
+    queryClient.setQueryData(viewportKey(10), viewport());
+    queryClient.setQueryData(viewportKey(15, "all", "q=pole"), viewport());
+    queryClient.setQueryData(viewportKey(16), { ...viewport(), truncated: true });
+    queryClient.setQueryData(viewportKey(15, "wires"), viewport([]));
+
+    await applyChangeEvents(queryClient, [{ type: "artifact.deleted", artifact: pole }]);
+
+    expect(isStale(viewportKey(10))).toBe(true);
+    expect(isStale(viewportKey(15, "all", "q=pole"))).toBe(true);
+    expect(isStale(viewportKey(16))).toBe(true);
+    expect(queryClient.getQueryData<ViewportResponse>(viewportKey(10))!.singles).toEqual([pole]);
+    // Other layers are left alone
+    expect(isStale(viewportKey(15, "wires"))).toBe(false);
+  });
+
+  it("should refetch derived artifact queries after artifact changes", async () => {
+    queryClient.setQueryData(["/api/artifacts/facets", bounds, "all", "none", "status"], []);
+    queryClient.setQueryData(["/api/artifacts/history", "pole"], []);
+    queryClient.setQueryData(["/api/preferences"], {});
+
+    await applyChangeEvents(queryClient, [{ type: "artifact.created", artifact: createTestArtifact() }]);
+
+    expect(isStale(["/api/artifacts/facets", bounds, "all", "none", "status"])).toBe(true);
+    expect(isStale(["/api/artifacts/history", "pole"])).toBe(true);
+    expect(isStale(["/api/preferences"])).toBe(false);
+  });
+
+  it("should refetch layers and viewports after imports", async () => {
+    queryClient.setQueryData(viewportKey(15), viewport());
+
+    await applyChangeEvents(queryClient, [{ type: "artifacts.imported", layer: "poles", count: 10 }]);
+
+    expect(isStale(["/api/layers"])).toBe(true);
+    expect(isStale(viewportKey(15))).toBe(true);
+  });
+
+  it("should add, replace and remove layers", async () => {
+    await applyChangeEvents(queryClient, [
+      { type: "layer.created", layer: createLayer("meters", 0) },
+      { type: "layer.updated", layer: { ...createLayer("poles", 1), name: "Poles" } },
+      { type: "layer.deleted", id: "wires" },
+    ]);
+
+    expect(layers().map((layer) => layer.name)).toEqual(["Poles", "meters"]);
+    expect(isStale(["/api/layers"])).toBe(false);
+  });
+
+  it("should refetch layer counts when a deleted layer's artifacts were reassigned", async () => {
+    await applyChangeEvents(queryClient, [{ type: "layer.deleted", id: "wires", reassignTo: "poles" }]);
+
+    expect(layers().map((layer) => layer.id)).toEqual(["poles"]);
+    expect(isStale(["/api/layers"])).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_MARKER_STYLE,
+  DENSITY_RAMP,
+  getCategoryBreakdown,
+  getCategoryColor,
+  getDensityColor,
+  resolveLayerStyle,
+  resolveMarkerStyle,
+} from "../../client/src/lib/mapTypes";
+import type { LayerStyle } from "@shared/schema";
+
+describe("resolveMarkerStyle", () => {
+  const style: LayerStyle = {
+    color: "#ef4444",
+    shape: "square",
+    size: 10,
+    categories: { tap: { color: "#f97316", shape: "triangle" } },
+  };
+
+  it("should fall back to the category palette without a layer style", () => {
+    expect(resolveMarkerStyle(undefined, "substation")).toEqual({
+      ...DEFAULT_MARKER_STYLE,
+      color: getCategoryColor("substation"),
+    });
+  });
+
+  it("should apply the layer style to every category", () => {
+    expect(resolveMarkerStyle(style, "substation")).toEqual({
+      color: "#ef4444",
+      shape: "square",
+      size: 10,
+      opacity: 1,
+    });
+  });
+
+  it("should let category overrides win over the layer style", () => {
+    expect(resolveMarkerStyle(style, "tap")).toEqual({
+      color: "#f97316",
+      shape: "triangle",
+      size: 10,
+      opacity: 1,
+    });
+  });
+
+  it("should give new layers colours from their style alone", () => {
+    expect(resolveMarkerStyle({ color: "#123456" }, "unknown-category").color).toBe("#123456");
+  });
+
+  it("should apply data-driven rules on top of category overrides", () => {
+    const withRules: LayerStyle = {
+      ...style,
+      rules: [
+        { type: "categorical", field: "status", property: "color", values: { planned: "#6b7280" } },
+      ],
+    };
+    expect(resolveMarkerStyle(withRules, "tap", { status: "planned" }).color).toBe("#6b7280");
+    expect(resolveMarkerStyle(withRules, "tap", { status: "active" }).color).toBe("#f97316");
+  });
+
+  it("should ignore styles that fail validation", () => {
+    const invalid = { color: "url(javascript:alert(1))" } as LayerStyle;
+    expect(resolveMarkerStyle(invalid, "pole").color).toBe(getCategoryColor("pole"));
+  });
+});
+
+describe("resolveLayerStyle", () => {
+  it("should ignore category overrides", () => {
+    expect(resolveLayerStyle({ categories: { tap: { color: "#f97316" } } })).toEqual(DEFAULT_MARKER_STYLE);
+  });
+
+  it("should use the layer colour and shape", () => {
+    expect(resolveLayerStyle({ color: "#22c55e", shape: "diamond" })).toMatchObject({
+      color: "#22c55e",
+      shape: "diamond",
+    });
+  });
+});
+
+describe("getCategoryBreakdown", () => {
+  it("should order categories by count, then name", () => {
+    const breakdown = getCategoryBreakdown({ meter: 5, pole: 12, tap: 5 });
+
+    expect(breakdown.map((slice) => slice.category)).toEqual(["pole", "meter", "tap"]);
+    expect(breakdown[0]).toEqual({ category: "pole", count: 12, color: getCategoryColor("pole") });
+  });
+
+  it("should colour categories by the layer's category overrides, ignoring the layer colour", () => {
+    const breakdown = getCategoryBreakdown(
+      { tap: 3, substation: 1 },
+      { color: "#22c55e", categories: { tap: { color: "#000000" } } }
+    );
+
+    expect(breakdown.map((slice) => slice.color)).toEqual(["#000000", getCategoryColor("substation")]);
+  });
+});
+
+describe("getDensityColor", () => {
+  it("should run from the first ramp colour for single items to the last for the densest cell", () => {
+    expect(getDensityColor(1, 500)).toBe(DENSITY_RAMP[0]);
+    expect(getDensityColor(500, 500)).toBe(DENSITY_RAMP[DENSITY_RAMP.length - 1]);
+  });
+
+  it("should use a log scale", () => {
+    // 10 of 1000 is a third of the way on a log scale, well above the linear 1%
+    expect(getDensityColor(10, 1000)).toBe(DENSITY_RAMP[1]);
+  });
+
+  it("should use the first colour when every cell holds one item", () => {
+    expect(getDensityColor(1, 1)).toBe(DENSITY_RAMP[0]);
+  });
+});
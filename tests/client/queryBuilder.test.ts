@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { parseFilterExpression } from "@shared/filterExpression";
+import {
+  buildRuleExpression,
+  buildWhereExpression,
+  createRule,
+  type QueryRule,
+} from "../../client/src/lib/queryBuilder";
+
+function rule(overrides: Partial<QueryRule>): QueryRule {
+  return { id: "r", field: "status", type: "string", operator: "=", values: [], ...overrides };
+}
+
+describe("buildRuleExpression", () => {
+  it.each([
+    [rule({ values: ["active"] }), "status = 'active'"],
+    [rule({ operator: "!=", values: ["O'Brien"] }), "status != 'O''Brien'"],
+    [rule({ operator: "in", values: ["a", "b"] }), "status IN ('a', 'b')"],
+    [rule({ operator: "not_in", values: ["a"] }), "status NOT IN ('a')"],
+    [rule({ operator: "exists" }), "status EXISTS"],
+    [rule({ operator: "not_exists" }), "status NOT EXISTS"],
+    [rule({ field: "voltage_kv", type: "number", operator: ">=", values: [" 115 "] }), "voltage_kv >= 115"],
+    [
+      rule({ field: "voltage_kv", type: "number", operator: "between", values: ["-5", "1e3"] }),
+      "voltage_kv BETWEEN -5 AND 1000",
+    ],
+    [rule({ field: "automated", type: "boolean", values: ["false"] }), "automated = false"],
+  ])("should build %j", (input, expected) => {
+    expect(buildRuleExpression(input)).toBe(expected);
+    expect(() => parseFilterExpression(expected)).not.toThrow();
+  });
+
+  it.each([
+    rule({ values: [] }),
+    rule({ operator: "in", values: [] }),
+    rule({ type: "number", values: ["abc"] }),
+    rule({ type: "number", values: [""] }),
+    rule({ type: "number", operator: "between", values: ["1"] }),
+    rule({ type: "boolean", values: ["yes"] }),
+  ])("should skip incomplete rule %j", (input) => {
+    expect(buildRuleExpression(input)).toBeUndefined();
+  });
+});
+
+describe("buildWhereExpression", () => {
+  it("should join complete rules with the combinator", () => {
+    const rules = [
+      rule({ values: ["active"] }),
+      rule({ field: "voltage_kv", type: "number", values: [] }),
+      rule({ field: "state", operator: "in", values: ["CT", "MA"] }),
+    ];
+
+    expect(buildWhereExpression({ combinator: "or", rules })).toBe(
+      "status = 'active' OR state IN ('CT', 'MA')"
+    );
+  });
+
+  it("should return undefined without complete rules", () => {
+    expect(buildWhereExpression({ combinator: "and", rules: [rule({})] })).toBeUndefined();
+  });
+});
+
+describe("createRule", () => {
+  it("should start from the field's type with unique ids", () => {
+    const a = createRule({ path: "automated", type: "boolean", count: 2 });
+    const b = createRule({ path: "automated", type: "boolean", count: 2 });
+
+    expect(a).toMatchObject({ field: "automated", type: "boolean", operator: "=", values: ["true"] });
+    expect(a.id).not.toBe(b.id);
+  });
+});
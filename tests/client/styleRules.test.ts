@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyStyleRules,
+  buildLegendSection,
+  evaluateStyleRule,
+  getMetadataValue,
+} from "../../client/src/lib/styleRules";
+import { DEFAULT_MARKER_STYLE } from "../../client/src/lib/mapTypes";
+import type { StyleRule } from "@shared/schema";
+
+const voltageColors: StyleRule = {
+  type: "graduated",
+  field: "voltage_kv_max",
+  property: "color",
+  classes: [
+    { max: 115, value: "#f97316" },
+    { min: 115, max: 345, value: "#ef4444" },
+    { min: 345, value: "#7f1d1d", label: "EHV" },
+  ],
+};
+
+const statusColors: StyleRule = {
+  type: "categorical",
+  field: "status",
+  property: "color",
+  categories: ["pole"],
+  values: { active: "#22c55e", maintenance: "#f59e0b" },
+  fallback: "#6b7280",
+};
+
+const yearSizes: StyleRule = {
+  type: "continuous",
+  field: "install_year",
+  property: "size",
+  min: 1980,
+  max: 2020,
+  from: 6,
+  to: 14,
+};
+
+describe("getMetadataValue", () => {
+  it("should read top-level and nested fields", () => {
+    expect(getMetadataValue({ status: "active" }, "status")).toBe("active");
+    expect(getMetadataValue({ electrical: { kv: 115 } }, "electrical.kv")).toBe(115);
+  });
+
+  it("should return undefined for missing paths", () => {
+    expect(getMetadataValue(undefined, "status")).toBeUndefined();
+    expect(getMetadataValue({ status: "active" }, "status.code")).toBeUndefined();
+  });
+
+  it("should not read inherited properties", () => {
+    expect(getMetadataValue({}, "constructor")).toBeUndefined();
+    expect(getMetadataValue({ status: "active" }, "status.length")).toBeUndefined();
+  });
+});
+
+describe("evaluateStyleRule", () => {
+  it("should match graduated classes with inclusive min and exclusive max", () => {
+    expect(evaluateStyleRule(voltageColors, 69)).toBe("#f97316");
+    expect(evaluateStyleRule(voltageColors, 115)).toBe("#ef4444");
+    expect(evaluateStyleRule(voltageColors, 500)).toBe("#7f1d1d");
+  });
+
+  it("should accept numeric strings but not unit strings", () => {
+    expect(evaluateStyleRule(voltageColors, "345")).toBe("#7f1d1d");
+    expect(evaluateStyleRule(voltageColors, "115kV")).toBeUndefined();
+  });
+
+  it("should map categorical values with a fallback", () => {
+    expect(evaluateStyleRule(statusColors, "maintenance")).toBe("#f59e0b");
+    expect(evaluateStyleRule(statusColors, "planned")).toBe("#6b7280");
+    expect(evaluateStyleRule(statusColors, undefined)).toBe("#6b7280");
+  });
+
+  it("should use the fallback for values named like object properties", () => {
+    expect(evaluateStyleRule(statusColors, "constructor")).toBe("#6b7280");
+    expect(evaluateStyleRule(statusColors, "toString")).toBe("#6b7280");
+  });
+
+  it("should interpolate and clamp continuous ramps", () => {
+    expect(evaluateStyleRule(yearSizes, 2000)).toBe(10);
+    expect(evaluateStyleRule(yearSizes, 1950)).toBe(6);
+    expect(evaluateStyleRule(yearSizes, 2030)).toBe(14);
+  });
+
+  it("should interpolate colours", () => {
+    const ramp: StyleRule = { ...yearSizes, property: "color", from: "#000000", to: "#ffffff" };
+    expect(evaluateStyleRule(ramp, 2000)).toBe("#808080");
+  });
+});
+
+describe("applyStyleRules", () => {
+  it("should apply rules in order and leave unmatched properties alone", () => {
+    const style = applyStyleRules([voltageColors, yearSizes], DEFAULT_MARKER_STYLE, "substation", {
+      voltage_kv_max: 345,
+      install_year: 2020,
+    });
+    expect(style).toEqual({ ...DEFAULT_MARKER_STYLE, color: "#7f1d1d", size: 14 });
+  });
+
+  it("should only apply category-scoped rules to those categories", () => {
+    const metadata = { status: "active" };
+    expect(applyStyleRules([statusColors], DEFAULT_MARKER_STYLE, "pole", metadata).color).toBe("#22c55e");
+    expect(applyStyleRules([statusColors], DEFAULT_MARKER_STYLE, "meter", metadata).color).toBe(
+      DEFAULT_MARKER_STYLE.color
+    );
+  });
+});
+
+describe("buildLegendSection", () => {
+  it("should label graduated classes from their ranges", () => {
+    const section = buildLegendSection(voltageColors, DEFAULT_MARKER_STYLE);
+    expect(section.title).toBe("voltage_kv_max");
+    expect(section.items.map((item) => item.label)).toEqual(["< 115", "115 – 345", "EHV"]);
+    expect(section.items[1].style.color).toBe("#ef4444");
+  });
+
+  it("should list categorical values and the fallback", () => {
+    const section = buildLegendSection(statusColors, DEFAULT_MARKER_STYLE);
+    expect(section.title).toBe("status (pole)");
+    expect(section.items.map((item) => item.label)).toEqual(["active", "maintenance", "Other"]);
+  });
+
+  it("should draw continuous colour rules as a ramp", () => {
+    const ramp: StyleRule = { ...yearSizes, property: "color", from: "#000000", to: "#ffffff" };
+    expect(buildLegendSection(ramp, DEFAULT_MARKER_STYLE).ramp).toEqual({
+      from: "#000000",
+      to: "#ffffff",
+      min: 1980,
+      max: 2020,
+    });
+  });
+});
@@ -368,6 +368,20 @@ describe("useArtifactFilter", () => {
     });
   });
 
+  describe("metadata where filtering", () => {
+    it("should apply the where expression to metadata", () => {
+      const artifacts = createTestArtifacts().map((artifact, i) => ({
+        ...artifact,
+        metadata: i % 2 === 0 ? { status: "active", voltage_kv: 115 * (i + 1) } : { status: "retired" },
+      }));
+      const filters: FilterState = { ...emptyFilters, where: "status = 'active' AND voltage_kv > 115" };
+
+      const { result } = renderHook(() => useArtifactFilter(artifacts, filters));
+
+      expect(result.current.map((a) => a.id)).toEqual(["3", "5"]);
+    });
+  });
+
   describe("memoization", () => {
     it("should return same reference when inputs do not change", () => {
       const artifacts = createTestArtifacts();
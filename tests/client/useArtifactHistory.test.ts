@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { useArtifactHistory } from "../../client/src/hooks/useArtifactHistory";
+import { createTestArtifact } from "../fixtures/artifacts";
+import type { ArtifactHistoryEntry } from "../../shared/schema";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 } },
+  });
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+}
+
+const pole = createTestArtifact({ id: "pole 1" });
+
+describe("useArtifactHistory", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should fetch the artifact's history", async () => {
+    const history: ArtifactHistoryEntry[] = [
+      { id: 1, artifactId: pole.id, action: "create", after: pole, changedAt: "2026-01-01T00:00:00.000Z" },
+    ];
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(history) });
+
+    const { result } = renderHook(() => useArtifactHistory(pole.id), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.data).toEqual(history));
+    expect(mockFetch).toHaveBeenCalledWith("/api/artifacts/pole%201/history");
+  });
+
+  it("should report failed requests", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, json: () => Promise.resolve({ error: "Artifact not found" }) });
+
+    const { result } = renderHook(() => useArtifactHistory(pole.id), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.error?.message).toBe("Failed to fetch artifact history"));
+  });
+
+  it("should not fetch without an artifact", () => {
+    renderHook(() => useArtifactHistory(undefined), { wrapper: createWrapper() });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
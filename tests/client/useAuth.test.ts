@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { useAuth } from "../../client/src/hooks/useAuth";
+import type { AuthSession, User } from "../../shared/schema";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function jsonResponse(body: unknown, status = 200) {
+  return {
+    ok: status < 400,
+    status,
+    json: () => Promise.resolve(body),
+    text: () => Promise.resolve(JSON.stringify(body)),
+  };
+}
+
+function setup(session: AuthSession) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  mockFetch.mockResolvedValueOnce(jsonResponse(session));
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+  return { queryClient, ...renderHook(() => useAuth(), { wrapper }) };
+}
+
+const editor: User = { id: "user-1", username: "editor", role: "editor" };
+
+describe("useAuth", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should allow everything when the server has no accounts", async () => {
+    const { result } = setup({ authRequired: false, user: null });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.needsLogin).toBe(false);
+    expect(result.current.hasRole("admin")).toBe(true);
+  });
+
+  it("should ask for a login when signed out", async () => {
+    const { result } = setup({ authRequired: true, user: null });
+
+    await waitFor(() => expect(result.current.needsLogin).toBe(true));
+    expect(result.current.hasRole("viewer")).toBe(false);
+  });
+
+  it("should check roles against the signed-in user", async () => {
+    const { result } = setup({ authRequired: true, user: editor });
+
+    await waitFor(() => expect(result.current.user).toEqual(editor));
+    expect(result.current.hasRole("viewer")).toBe(true);
+    expect(result.current.hasRole("editor")).toBe(true);
+    expect(result.current.hasRole("admin")).toBe(false);
+  });
+
+  it("should sign in and keep the user in the session", async () => {
+    const { result } = setup({ authRequired: true, user: null });
+    await waitFor(() => expect(result.current.needsLogin).toBe(true));
+
+    mockFetch.mockResolvedValueOnce(jsonResponse(editor));
+    await act(() => result.current.login.mutateAsync({ username: "editor", password: "secret" }));
+
+    expect(mockFetch).toHaveBeenLastCalledWith("/api/auth/login", expect.objectContaining({ method: "POST" }));
+    expect(result.current.user).toEqual(editor);
+    expect(result.current.needsLogin).toBe(false);
+  });
+
+  it("should drop cached data on logout", async () => {
+    const { result, queryClient } = setup({ authRequired: true, user: editor });
+    await waitFor(() => expect(result.current.user).toEqual(editor));
+    queryClient.setQueryData(["/api/layers"], []);
+
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 204, text: () => Promise.resolve("") });
+    await act(() => result.current.logout.mutateAsync());
+
+    expect(queryClient.getQueryData(["/api/layers"])).toBeUndefined();
+    await waitFor(() => expect(result.current.needsLogin).toBe(true));
+  });
+});
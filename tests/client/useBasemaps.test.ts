@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { useBasemaps } from "../../client/src/hooks/useBasemaps";
+import { OSM_BASEMAP, type Basemap } from "../../shared/schema";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 } },
+  });
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+}
+
+const localBasemap: Basemap = {
+  id: "basemap",
+  name: "Basemap",
+  url: "/tiles/basemap/{z}/{x}/{y}.png",
+  minZoom: 6,
+  maxZoom: 18,
+  local: true,
+};
+
+function jsonResponse(body: unknown) {
+  return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+}
+
+// Answers /api/tiles/info and /api/preferences; PATCHes echo the update
+function mockServer({ basemaps, preference }: { basemaps?: Basemap[]; preference?: string }) {
+  mockFetch.mockImplementation((url: string, init?: RequestInit) => {
+    if (url === "/api/tiles/info") {
+      return basemaps ? jsonResponse({ basemaps }) : Promise.resolve({ ok: false });
+    }
+    if (init?.method === "PATCH") {
+      return jsonResponse({ layerVisibility: {}, ...JSON.parse(init.body as string) });
+    }
+    return jsonResponse({ layerVisibility: {}, basemap: preference });
+  });
+}
+
+describe("useBasemaps", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should default to the first basemap of the registry", async () => {
+    mockServer({ basemaps: [localBasemap, OSM_BASEMAP] });
+
+    const { result } = renderHook(() => useBasemaps(), { wrapper: createWrapper() });
+
+    expect(result.current.basemap).toBeUndefined();
+    await waitFor(() => expect(result.current.basemap).toEqual(localBasemap));
+    expect(result.current.basemaps).toHaveLength(2);
+  });
+
+  it("should use the remembered basemap while it is in the registry", async () => {
+    mockServer({ basemaps: [localBasemap, OSM_BASEMAP], preference: "osm" });
+
+    const { result } = renderHook(() => useBasemaps(), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.basemap?.id).toBe("osm"));
+  });
+
+  it("should ignore a remembered basemap that no longer exists", async () => {
+    mockServer({ basemaps: [localBasemap, OSM_BASEMAP], preference: "retired" });
+
+    const { result } = renderHook(() => useBasemaps(), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.basemap?.id).toBe("basemap"));
+  });
+
+  it("should switch basemaps and save the choice", async () => {
+    mockServer({ basemaps: [localBasemap, OSM_BASEMAP] });
+
+    const { result } = renderHook(() => useBasemaps(), { wrapper: createWrapper() });
+    await waitFor(() => expect(result.current.basemap?.id).toBe("basemap"));
+
+    act(() => {
+      result.current.selectBasemap("osm");
+    });
+
+    expect(result.current.basemap?.id).toBe("osm");
+    await waitFor(() =>
+      expect(mockFetch).toHaveBeenCalledWith(
+        "/api/preferences",
+        expect.objectContaining({ method: "PATCH", body: JSON.stringify({ basemap: "osm" }) })
+      )
+    );
+  });
+
+  it("should fall back to OpenStreetMap when the registry fails to load", async () => {
+    mockServer({});
+
+    const { result } = renderHook(() => useBasemaps(), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.basemap).toEqual(OSM_BASEMAP));
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { useChangeFeed } from "../../client/src/hooks/useChangeFeed";
+import type { Layer } from "../../shared/schema";
+
+// Minimal EventSource that tests drive by hand
+class MockEventSource {
+  static instances: MockEventSource[] = [];
+  listeners = new Map<string, (message: MessageEvent) => void>();
+  onopen: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {
+    MockEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (message: MessageEvent) => void) {
+    this.listeners.set(type, listener);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  emit(type: string, data: unknown) {
+    this.listeners.get(type)?.(new MessageEvent(type, { data: JSON.stringify(data) }));
+  }
+}
+
+function setup(layers?: string[]) {
+  // Nothing observes the cached layers, so keep them through the fake timers
+  const queryClient = new QueryClient({ defaultOptions: { queries: { gcTime: Infinity } } });
+  queryClient.setQueryData<Layer[]>(["/api/layers"], [{ id: "poles", name: "Poles", artifactCount: 1, visible: true }]);
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+  const hook = renderHook(() => useChangeFeed(layers), { wrapper });
+  return { queryClient, hook, source: MockEventSource.instances[MockEventSource.instances.length - 1] };
+}
+
+describe("useChangeFeed", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    MockEventSource.instances = [];
+    vi.stubGlobal("EventSource", MockEventSource);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("should subscribe to every layer by default", () => {
+    const { source } = setup();
+
+    expect(source.url).toBe("/api/events");
+  });
+
+  it("should pass the layer filter to the stream", () => {
+    const { source } = setup(["wires", "poles"]);
+
+    expect(source.url).toBe("/api/events?layers=poles%2Cwires");
+  });
+
+  it("should apply events to the cache in batches", async () => {
+    const { queryClient, source } = setup();
+
+    const wires: Layer = { id: "wires", name: "Wires", artifactCount: 0, visible: true };
+    source.emit("layer.created", { type: "layer.created", layer: wires });
+    source.emit("layer.deleted", { type: "layer.deleted", id: "poles" });
+    expect(queryClient.getQueryData<Layer[]>(["/api/layers"])).toHaveLength(1);
+
+    await vi.runAllTimersAsync();
+    expect(queryClient.getQueryData<Layer[]>(["/api/layers"])!.map((layer) => layer.id)).toEqual(["wires"]);
+  });
+
+  it("should ignore malformed events", async () => {
+    const { queryClient, source } = setup();
+
+    source.emit("layer.deleted", { type: "layer.deleted" });
+    await vi.runAllTimersAsync();
+
+    expect(queryClient.getQueryData<Layer[]>(["/api/layers"])).toHaveLength(1);
+  });
+
+  it("should refetch everything after reconnecting", () => {
+    const { queryClient, source } = setup();
+
+    source.onopen?.();
+    expect(queryClient.getQueryState(["/api/layers"])!.isInvalidated).toBe(false);
+
+    source.onerror?.();
+    source.onopen?.();
+    expect(queryClient.getQueryState(["/api/layers"])!.isInvalidated).toBe(true);
+  });
+
+  it("should close the stream on unmount", () => {
+    const { hook, source } = setup();
+
+    hook.unmount();
+
+    expect(source.closed).toBe(true);
+  });
+});
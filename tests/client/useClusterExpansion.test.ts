@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor, act } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { useClusterExpansion } from "../../client/src/hooks/useClusterExpansion";
+import { EMPTY_FILTERS } from "../../client/src/lib/filterParams";
+import { createTestArtifact } from "../fixtures/artifacts";
+import type { ClusterData, ViewportResponse } from "../../shared/schema";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 } },
+  });
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+}
+
+function createCluster(id: string, count: number): ClusterData {
+  return {
+    id,
+    lat: 41.6,
+    lng: -72.7,
+    count,
+    categories: { pole: count },
+    bounds: { north: 41.61, south: 41.59, east: -72.69, west: -72.71 },
+    expansionZoom: 11,
+  };
+}
+
+const viewport: ViewportResponse = {
+  clusters: [createCluster("cluster-10-a", 12), createCluster("cluster-10-b", 5)],
+  singles: [createTestArtifact({ id: "single" })],
+  total: 18,
+  truncated: false,
+};
+
+describe("useClusterExpansion", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should pass viewport clusters and singles through before any expansion", () => {
+    const { result } = renderHook(() => useClusterExpansion({ data: viewport }), { wrapper: createWrapper() });
+
+    expect(result.current.clusters.map((c) => c.id)).toEqual(["cluster-10-a", "cluster-10-b"]);
+    expect(result.current.singles.map((a) => a.id)).toEqual(["single"]);
+  });
+
+  it("should replace an expanded cluster with its children", async () => {
+    const children = {
+      clusters: [createCluster("cluster-11-a", 8)],
+      singles: [createTestArtifact({ id: "leaf-1" }), createTestArtifact({ id: "leaf-2" })],
+    };
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(children) });
+
+    const { result } = renderHook(
+      () =>
+        useClusterExpansion({
+          data: viewport,
+          layers: ["utility-poc"],
+          filters: { ...EMPTY_FILTERS, categories: ["pole"] },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await act(() => result.current.expand(viewport.clusters[0]));
+
+    await waitFor(() =>
+      expect(result.current.clusters.map((c) => c.id)).toEqual(["cluster-11-a", "cluster-10-b"])
+    );
+    expect(result.current.singles.map((a) => a.id)).toEqual(["single", "leaf-1", "leaf-2"]);
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string, "http://localhost");
+    expect(url.pathname).toBe("/api/clusters/cluster-10-a/children");
+    expect(url.searchParams.get("layers")).toBe("utility-poc");
+    expect(url.searchParams.get("categories")).toBe("pole");
+  });
+
+  it("should clear expansions when the viewport data changes", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ clusters: [], singles: [createTestArtifact({ id: "leaf" })] }),
+    });
+
+    const { result, rerender } = renderHook(({ data }) => useClusterExpansion({ data }), {
+      wrapper: createWrapper(),
+      initialProps: { data: viewport },
+    });
+
+    await act(() => result.current.expand(viewport.clusters[1]));
+    expect(result.current.clusters).toHaveLength(1);
+
+    rerender({ data: { ...viewport } });
+    await waitFor(() => expect(result.current.clusters).toHaveLength(2));
+    expect(result.current.singles.map((a) => a.id)).toEqual(["single"]);
+  });
+});
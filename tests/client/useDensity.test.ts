@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { useDensity } from "../../client/src/hooks/useDensity";
+import { EMPTY_FILTERS } from "../../client/src/lib/filterParams";
+import { CT_BOUNDS } from "../fixtures/artifacts";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 } },
+  });
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+}
+
+const density = {
+  zoom: 8,
+  cells: [{ id: "8:1:2", lat: 41.6, lng: -72.7, count: 12, boundary: [] }],
+  max: 12,
+  total: 12,
+};
+
+describe("useDensity", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should fetch hexagon counts for the bounds, zoom, layers and filters", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(density) });
+
+    const { result } = renderHook(
+      () =>
+        useDensity({
+          bounds: CT_BOUNDS,
+          zoom: 8.4,
+          layers: ["utility-poc"],
+          filters: { ...EMPTY_FILTERS, categories: ["meter"] },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.data).toEqual(density));
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string, "http://localhost");
+    expect(url.pathname).toBe("/api/artifacts/density");
+    expect(url.searchParams.get("zoom")).toBe("8");
+    expect(Number(url.searchParams.get("north"))).toBeCloseTo(CT_BOUNDS.north, 2);
+    expect(url.searchParams.get("layers")).toBe("utility-poc");
+    expect(url.searchParams.get("categories")).toBe("meter");
+  });
+
+  it("should not fetch while the overlay is off", () => {
+    renderHook(() => useDensity({ bounds: CT_BOUNDS, zoom: 8, enabled: false }), { wrapper: createWrapper() });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should surface failed requests as errors", async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false });
+
+    const { result } = renderHook(() => useDensity({ bounds: CT_BOUNDS, zoom: 8 }), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.error).toBeInstanceOf(Error));
+  });
+});
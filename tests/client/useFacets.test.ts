@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import type { Bounds } from "@shared/schema";
+import { useFacets } from "../../client/src/hooks/useFacets";
+import { EMPTY_FILTERS } from "../../client/src/lib/filterParams";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 } },
+  });
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+}
+
+const bounds: Bounds = { north: 41.12345, south: 41, east: -72.5, west: -72.99999 };
+
+describe("useFacets", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should request facets for the rounded viewport, layers, fields and filters", async () => {
+    const facets = { total: 3, categories: { tap: 2, substation: 1 }, fields: { status: { active: 3 } } };
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(facets) });
+
+    const { result } = renderHook(
+      () =>
+        useFacets({
+          bounds,
+          layers: ["eversource-substations"],
+          fields: ["status"],
+          filters: { ...EMPTY_FILTERS, searchText: "hartford" },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.data).toEqual(facets));
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string, "http://localhost");
+    expect(url.pathname).toBe("/api/artifacts/facets");
+    expect(url.searchParams.get("north")).toBe("41.123");
+    expect(url.searchParams.get("west")).toBe("-73");
+    expect(url.searchParams.get("layers")).toBe("eversource-substations");
+    expect(url.searchParams.get("fields")).toBe("status");
+    expect(url.searchParams.get("q")).toBe("hartford");
+  });
+
+  it("should not fetch until the viewport is known", () => {
+    renderHook(() => useFacets({ bounds: null }), { wrapper: createWrapper() });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
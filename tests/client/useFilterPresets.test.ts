@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useFilterPresets } from "../../client/src/hooks/useFilterPresets";
+import type { QueryDefinition } from "../../client/src/lib/queryBuilder";
+
+const activeQuery: QueryDefinition = {
+  combinator: "and",
+  rules: [{ id: "r1", field: "status", type: "string", operator: "=", values: ["active"] }],
+};
+
+describe("useFilterPresets", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("should save presets to localStorage and load them again", () => {
+    const { result } = renderHook(() => useFilterPresets());
+
+    act(() => {
+      result.current.savePreset("  Active ", activeQuery);
+    });
+
+    expect(result.current.presets).toHaveLength(1);
+    expect(result.current.presets[0]).toMatchObject({ name: "Active", query: activeQuery });
+
+    const { result: reloaded } = renderHook(() => useFilterPresets());
+    expect(reloaded.current.presets).toEqual(result.current.presets);
+  });
+
+  it("should replace a preset saved under the same name", () => {
+    const { result } = renderHook(() => useFilterPresets());
+    const retired: QueryDefinition = { ...activeQuery, combinator: "or" };
+
+    act(() => {
+      result.current.savePreset("Active", activeQuery);
+    });
+    const id = result.current.presets[0].id;
+    act(() => {
+      result.current.savePreset("active", retired);
+    });
+
+    expect(result.current.presets).toEqual([{ id, name: "active", query: retired }]);
+  });
+
+  it("should delete presets", () => {
+    const { result } = renderHook(() => useFilterPresets());
+
+    act(() => {
+      result.current.savePreset("Active", activeQuery);
+    });
+    act(() => {
+      result.current.deletePreset(result.current.presets[0].id);
+    });
+
+    expect(result.current.presets).toEqual([]);
+    expect(JSON.parse(localStorage.getItem("mapui-filter-presets")!)).toEqual([]);
+  });
+
+  it("should ignore malformed stored presets", () => {
+    localStorage.setItem("mapui-filter-presets", JSON.stringify([{ name: "no id" }, "x"]));
+    expect(renderHook(() => useFilterPresets()).result.current.presets).toEqual([]);
+
+    localStorage.setItem("mapui-filter-presets", "{not json");
+    expect(renderHook(() => useFilterPresets()).result.current.presets).toEqual([]);
+  });
+});
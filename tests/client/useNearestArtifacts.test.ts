@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import React from "react";
+import { useNearestArtifacts } from "../../client/src/hooks/useNearestArtifacts";
+import { EMPTY_FILTERS } from "../../client/src/lib/filterParams";
+import { createTestArtifact } from "../fixtures/artifacts";
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false, gcTime: 0 } },
+  });
+
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return React.createElement(QueryClientProvider, { client: queryClient }, children);
+  };
+}
+
+const pole = createTestArtifact({ id: "pole", name: "Pole" });
+
+describe("useNearestArtifacts", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should request one extra neighbour and leave out the artifact itself", async () => {
+    const nearest = [
+      { artifact: pole, distance: 0 },
+      { artifact: createTestArtifact({ id: "sub-1" }), distance: 120 },
+      { artifact: createTestArtifact({ id: "sub-2" }), distance: 450 },
+      { artifact: createTestArtifact({ id: "sub-3" }), distance: 900 },
+    ];
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(nearest) });
+
+    const { result } = renderHook(
+      () =>
+        useNearestArtifacts({
+          artifact: pole,
+          k: 3,
+          layers: ["eversource-substations"],
+          filters: { ...EMPTY_FILTERS, where: "status = 'active'" },
+        }),
+      { wrapper: createWrapper() }
+    );
+
+    await waitFor(() => expect(result.current.data).toBeDefined());
+    expect(result.current.data!.map((n) => n.artifact.id)).toEqual(["sub-1", "sub-2", "sub-3"]);
+
+    const url = new URL(mockFetch.mock.calls[0][0] as string, "http://localhost");
+    expect(url.pathname).toBe("/api/artifacts/nearest");
+    expect(url.searchParams.get("lat")).toBe(String(pole.lat));
+    expect(url.searchParams.get("k")).toBe("4");
+    expect(url.searchParams.get("layers")).toBe("eversource-substations");
+    expect(url.searchParams.get("where")).toBe("status = 'active'");
+  });
+
+  it("should trim to k when the artifact itself is filtered out", async () => {
+    const nearest = [
+      { artifact: createTestArtifact({ id: "a" }), distance: 10 },
+      { artifact: createTestArtifact({ id: "b" }), distance: 20 },
+    ];
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(nearest) });
+
+    const { result } = renderHook(() => useNearestArtifacts({ artifact: pole, k: 1 }), {
+      wrapper: createWrapper(),
+    });
+
+    await waitFor(() => expect(result.current.data).toEqual([nearest[0]]));
+  });
+
+  it("should not fetch without an artifact", () => {
+    renderHook(() => useNearestArtifacts({ artifact: null }), { wrapper: createWrapper() });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
@@ -236,6 +236,91 @@ describe("useViewportArtifacts", () => {
     });
   });
 
+  describe("filter parameters", () => {
+    it("should send search, category and date filters", async () => {
+      const { useViewportArtifacts } = await importHook();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            clusters: [],
+            singles: [],
+            total: 0,
+            truncated: false,
+          }),
+      });
+
+      const bounds: Bounds = {
+        north: 42,
+        south: 41,
+        east: -72,
+        west: -73,
+      };
+      const filters = {
+        searchText: " hartford ",
+        categories: ["transformer", "substation"],
+        dateRange: { from: new Date(2025, 0, 1), to: new Date(2025, 0, 31) },
+      };
+
+      renderHook(() => useViewportArtifacts({ bounds, zoom: 10, filters }), {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      });
+
+      const fetchUrl = mockFetch.mock.calls[0][0] as string;
+      const params = new URL(fetchUrl, "http://localhost").searchParams;
+      expect(params.get("q")).toBe("hartford");
+      expect(params.get("categories")).toBe("substation,transformer");
+      expect(params.get("from")).toBe(new Date(2025, 0, 1, 0, 0, 0, 0).toISOString());
+      expect(params.get("to")).toBe(new Date(2025, 0, 31, 23, 59, 59, 999).toISOString());
+    });
+
+    it("should omit filter params when no filters are active", async () => {
+      const { useViewportArtifacts } = await importHook();
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            clusters: [],
+            singles: [],
+            total: 0,
+            truncated: false,
+          }),
+      });
+
+      const bounds: Bounds = {
+        north: 42,
+        south: 41,
+        east: -72,
+        west: -73,
+      };
+      const filters = {
+        searchText: "",
+        categories: [],
+        dateRange: { from: undefined, to: undefined },
+      };
+
+      renderHook(() => useViewportArtifacts({ bounds, zoom: 10, filters }), {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => {
+        expect(mockFetch).toHaveBeenCalled();
+      });
+
+      const fetchUrl = mockFetch.mock.calls[0][0] as string;
+      expect(fetchUrl).not.toContain("q=");
+      expect(fetchUrl).not.toContain("categories=");
+      expect(fetchUrl).not.toContain("from=");
+      expect(fetchUrl).not.toContain("to=");
+    });
+  });
+
   describe("error handling", () => {
     it("should handle fetch errors", async () => {
       const { useViewportArtifacts } = await importHook();
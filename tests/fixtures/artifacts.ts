@@ -1,4 +1,11 @@
-import type { Artifact, InsertArtifact, Bounds, CircleSelection } from "@shared/schema";
+import type {
+  Artifact,
+  InsertArtifact,
+  Bounds,
+  CircleSelection,
+  PolygonSelection,
+  CorridorSelection,
+} from "@shared/schema";
 
 /**
  * Test fixtures for MapUI artifacts
@@ -112,6 +119,42 @@ export function createTestCircleSelection(overrides: Partial<CircleSelection> =
   };
 }
 
+/**
+ * Create a square polygon selection around CT_CENTER ([lng, lat] ring, closed)
+ */
+export function createTestPolygonSelection(halfSize = 0.01): PolygonSelection {
+  const { lat, lng } = CT_CENTER;
+  return {
+    type: "Polygon",
+    coordinates: [
+      [
+        [lng - halfSize, lat - halfSize],
+        [lng + halfSize, lat - halfSize],
+        [lng + halfSize, lat + halfSize],
+        [lng - halfSize, lat + halfSize],
+        [lng - halfSize, lat - halfSize],
+      ],
+    ],
+  };
+}
+
+/**
+ * Create a corridor along an east-west line through CT_CENTER ([lng, lat] positions)
+ */
+export function createTestCorridorSelection(buffer = 100, halfLength = 0.01): CorridorSelection {
+  const { lat, lng } = CT_CENTER;
+  return {
+    line: {
+      type: "LineString",
+      coordinates: [
+        [lng - halfLength, lat],
+        [lng + halfLength, lat],
+      ],
+    },
+    buffer,
+  };
+}
+
 /**
  * Test data for invalid coordinates
  */
@@ -0,0 +1,82 @@
+/**
+ * Metadata records and where expressions with their expected matches.
+ * Shared by the MemStorage evaluator tests and the PostgreSQL compiler tests so both
+ * implementations are held to the same semantics.
+ */
+
+export const FILTER_RECORDS: Record<string, Record<string, unknown>> = {
+  "sub-115": {
+    voltage_kv: 115,
+    status: "IN SERVICE",
+    state: "CT",
+    install_year: 1985,
+    automated: true,
+    owner: { name: "Eversource", region: "East" },
+  },
+  "sub-345": {
+    voltage_kv: 345,
+    status: "IN SERVICE",
+    state: "MA",
+    install_year: 2001,
+    automated: false,
+    owner: { name: "National Grid" },
+  },
+  "sub-23": {
+    voltage_kv: 23,
+    status: "RETIRED",
+    state: "CT",
+    install_year: 1962,
+    owner: null,
+  },
+  "sub-text": {
+    voltage_kv: "115",
+    status: "Planned",
+    state: "RI",
+    tags: ["new", "urban"],
+  },
+  "sub-empty": {},
+};
+
+export interface FilterCase {
+  where: string;
+  expected: string[];
+}
+
+export const FILTER_CASES: FilterCase[] = [
+  { where: "voltage_kv = 115", expected: ["sub-115"] },
+  { where: "voltage_kv = '115'", expected: ["sub-text"] },
+  { where: "voltage_kv != 115", expected: ["sub-345", "sub-23", "sub-text"] },
+  { where: "voltage_kv <> 345", expected: ["sub-115", "sub-23", "sub-text"] },
+  { where: "voltage_kv >= 115", expected: ["sub-115", "sub-345"] },
+  { where: "voltage_kv > 115", expected: ["sub-345"] },
+  { where: "voltage_kv < 115", expected: ["sub-23"] },
+  { where: "voltage_kv <= 115.0", expected: ["sub-115", "sub-23"] },
+  { where: "status > 'P'", expected: ["sub-23", "sub-text"] },
+  { where: "status < 'RETIRED'", expected: ["sub-115", "sub-345", "sub-text"] },
+  // Ordering is by code point, so upper case sorts before lower case
+  { where: "status < 'a'", expected: ["sub-115", "sub-345", "sub-23", "sub-text"] },
+  { where: "state IN ('CT', 'RI')", expected: ["sub-115", "sub-23", "sub-text"] },
+  { where: "state not in ('CT')", expected: ["sub-345", "sub-text"] },
+  { where: "voltage_kv IN (23, '115')", expected: ["sub-23", "sub-text"] },
+  { where: "install_year BETWEEN 1960 AND 1990", expected: ["sub-115", "sub-23"] },
+  { where: "state BETWEEN 'CT' AND 'MA'", expected: ["sub-115", "sub-345", "sub-23"] },
+  { where: "automated = true", expected: ["sub-115"] },
+  { where: "automated != true", expected: ["sub-345"] },
+  { where: "automated EXISTS", expected: ["sub-115", "sub-345"] },
+  { where: "owner EXISTS", expected: ["sub-115", "sub-345"] },
+  { where: "owner NOT EXISTS", expected: ["sub-23", "sub-text", "sub-empty"] },
+  { where: "owner.name = 'Eversource'", expected: ["sub-115"] },
+  { where: "owner.region EXISTS", expected: ["sub-115"] },
+  { where: "tags.1 = 'urban'", expected: ["sub-text"] },
+  { where: "owner = 'Eversource'", expected: [] },
+  { where: "state = 'CT' AND voltage_kv > 50", expected: ["sub-115"] },
+  { where: "state = 'MA' OR status = 'RETIRED'", expected: ["sub-345", "sub-23"] },
+  {
+    where: "(state = 'CT' OR state = 'MA') AND (install_year < 1970 OR automated = false)",
+    expected: ["sub-345", "sub-23"],
+  },
+  { where: "status = 'O''Brien' OR missing = 1", expected: [] },
+  // Inherited object properties are not metadata fields
+  { where: "constructor EXISTS OR toString EXISTS", expected: [] },
+  { where: "owner.constructor NOT EXISTS", expected: ["sub-115", "sub-345", "sub-23", "sub-text", "sub-empty"] },
+];
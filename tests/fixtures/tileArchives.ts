@@ -0,0 +1,107 @@
+/**
+ * Writers for small MBTiles and PMTiles archives, so tests can serve tiles from real files
+ */
+
+import fs from "fs";
+import Database from "better-sqlite3";
+import { TileType, zxyToTileId } from "pmtiles";
+import type { Bounds } from "@shared/schema";
+
+export interface FixtureTile {
+  z: number;
+  x: number; // XYZ coordinates, flipped to TMS rows for MBTiles
+  y: number;
+  data: Uint8Array;
+}
+
+// Enough of each format's signature for format detection, not decodable images
+export const PNG_TILE = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+export const JPEG_TILE = Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 4, 5, 6]);
+export const WEBP_TILE = Uint8Array.from(Buffer.from("RIFF\x10\x00\x00\x00WEBPVP8 ", "latin1"));
+
+export function writeMBTiles(file: string, tiles: FixtureTile[], metadata: Record<string, string> = {}): void {
+  const db = new Database(file);
+  db.exec(`
+    CREATE TABLE metadata (name TEXT, value TEXT);
+    CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB);
+  `);
+  const insertMetadata = db.prepare("INSERT INTO metadata (name, value) VALUES (?, ?)");
+  Object.entries(metadata).forEach(([name, value]) => insertMetadata.run(name, value));
+
+  const insertTile = db.prepare("INSERT INTO tiles (zoom_level, tile_column, tile_row, tile_data) VALUES (?, ?, ?, ?)");
+  tiles.forEach(({ z, x, y, data }) => insertTile.run(z, x, Math.pow(2, z) - 1 - y, Buffer.from(data)));
+  db.close();
+}
+
+export interface PMTilesOptions {
+  tileType: TileType;
+  bounds: Bounds;
+  minZoom: number;
+  maxZoom: number;
+  metadata?: Record<string, unknown>;
+}
+
+function varints(values: number[]): number[] {
+  const bytes: number[] = [];
+  for (let value of values) {
+    while (value >= 0x80) {
+      bytes.push((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    bytes.push(value);
+  }
+  return bytes;
+}
+
+/**
+ * PMTiles v3 with an uncompressed root directory only, one entry per tile
+ */
+export function writePMTiles(file: string, tiles: FixtureTile[], options: PMTilesOptions): void {
+  const entries = tiles
+    .map((tile) => ({ tileId: zxyToTileId(tile.z, tile.x, tile.y), data: tile.data }))
+    .sort((a, b) => a.tileId - b.tileId);
+
+  // Directory columns: ID deltas, run lengths, lengths, then offsets + 1 (0 = follows the last one)
+  let lastId = 0;
+  const directory = varints([
+    entries.length,
+    ...entries.map(({ tileId }) => {
+      const delta = tileId - lastId;
+      lastId = tileId;
+      return delta;
+    }),
+    ...entries.map(() => 1),
+    ...entries.map(({ data }) => data.length),
+    ...entries.map((_, i) => (i === 0 ? 1 : 0)),
+  ]);
+  const metadata = Buffer.from(options.metadata ? JSON.stringify(options.metadata) : "", "utf8");
+  const tileData = Buffer.concat(entries.map(({ data }) => Buffer.from(data)));
+
+  const header = Buffer.alloc(127);
+  const rootOffset = header.length;
+  const metadataOffset = rootOffset + directory.length;
+  const tileDataOffset = metadataOffset + metadata.length;
+  header.write("PMTiles", 0, "latin1");
+  header.writeUInt8(3, 7);
+  const sections = [
+    rootOffset, directory.length,
+    metadataOffset, metadata.length,
+    tileDataOffset, 0, // no leaf directories
+    tileDataOffset, tileData.length,
+    entries.length, entries.length, entries.length,
+  ];
+  sections.forEach((value, i) => header.writeBigUInt64LE(BigInt(value), 8 + i * 8));
+  header.writeUInt8(1, 96); // clustered
+  header.writeUInt8(1, 97); // internal compression: none
+  header.writeUInt8(1, 98); // tile compression: none
+  header.writeUInt8(options.tileType, 99);
+  header.writeUInt8(options.minZoom, 100);
+  header.writeUInt8(options.maxZoom, 101);
+  const { west, south, east, north } = options.bounds;
+  [west, south, east, north].forEach((value, i) => header.writeInt32LE(Math.round(value * 1e7), 102 + i * 4));
+  header.writeUInt8(options.minZoom, 118);
+  header.writeInt32LE(Math.round(((west + east) / 2) * 1e7), 119);
+  header.writeInt32LE(Math.round(((south + north) / 2) * 1e7), 123);
+
+  fs.writeFileSync(file, Buffer.concat([header, Buffer.from(directory), metadata, tileData]));
+}
@@ -0,0 +1,144 @@
+/**
+ * Minimal Mapbox Vector Tile decoder for point tiles, so tests can check encoded tiles
+ * without a tile library
+ */
+
+export interface DecodedFeature {
+  type: number;
+  point: [number, number]; // tile coordinates of the first MoveTo
+  properties: Record<string, string | number | boolean>;
+}
+
+export interface DecodedLayer {
+  version: number;
+  name: string;
+  extent: number;
+  features: DecodedFeature[];
+}
+
+class Reader {
+  pos = 0;
+  constructor(
+    private bytes: Uint8Array,
+    private end = bytes.length
+  ) {}
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = this.bytes[this.pos++];
+      value += (byte & 0x7f) * scale;
+      scale *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  // Field number and wire type of the next field
+  tag(): [number, number] {
+    const tag = this.varint();
+    return [Math.floor(tag / 8), tag % 8];
+  }
+
+  sub(): Reader {
+    const length = this.varint();
+    const reader = new Reader(this.bytes, this.pos + length);
+    reader.pos = this.pos;
+    this.pos += length;
+    return reader;
+  }
+
+  string(): string {
+    const reader = this.sub();
+    return Buffer.from(this.bytes.subarray(reader.pos, reader.end)).toString("utf8");
+  }
+
+  double(): number {
+    const value = Buffer.from(this.bytes.subarray(this.pos, this.pos + 8)).readDoubleLE(0);
+    this.pos += 8;
+    return value;
+  }
+
+  packed(): number[] {
+    const reader = this.sub();
+    const values: number[] = [];
+    while (!reader.done) values.push(reader.varint());
+    return values;
+  }
+
+  skip(wireType: number): void {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.sub();
+    else if (wireType === 5) this.pos += 4;
+  }
+}
+
+const unzigzag = (value: number) => (value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+
+function decodeValue(reader: Reader): string | number | boolean {
+  let value: string | number | boolean = "";
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 1) value = reader.string();
+    else if (field === 3) value = reader.double();
+    else if (field === 5) value = reader.varint();
+    else if (field === 6) value = unzigzag(reader.varint());
+    else if (field === 7) value = reader.varint() === 1;
+    else reader.skip(wireType);
+  }
+  return value;
+}
+
+function decodeLayer(reader: Reader): DecodedLayer {
+  const layer: DecodedLayer = { version: 0, name: "", extent: 4096, features: [] };
+  const keys: string[] = [];
+  const values: (string | number | boolean)[] = [];
+  const rawFeatures: { type: number; tags: number[]; geometry: number[] }[] = [];
+
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 15) layer.version = reader.varint();
+    else if (field === 1) layer.name = reader.string();
+    else if (field === 3) keys.push(reader.string());
+    else if (field === 4) values.push(decodeValue(reader.sub()));
+    else if (field === 5) layer.extent = reader.varint();
+    else if (field === 2) {
+      const featureReader = reader.sub();
+      const feature = { type: 0, tags: [] as number[], geometry: [] as number[] };
+      while (!featureReader.done) {
+        const [featureField, featureWireType] = featureReader.tag();
+        if (featureField === 2) feature.tags = featureReader.packed();
+        else if (featureField === 3) feature.type = featureReader.varint();
+        else if (featureField === 4) feature.geometry = featureReader.packed();
+        else featureReader.skip(featureWireType);
+      }
+      rawFeatures.push(feature);
+    } else reader.skip(wireType);
+  }
+
+  layer.features = rawFeatures.map(({ type, tags, geometry }) => {
+    const properties: DecodedFeature["properties"] = {};
+    for (let i = 0; i < tags.length; i += 2) {
+      properties[keys[tags[i]]] = values[tags[i + 1]];
+    }
+    return { type, point: [unzigzag(geometry[1]), unzigzag(geometry[2])], properties };
+  });
+  return layer;
+}
+
+export function decodeVectorTile(bytes: Uint8Array): DecodedLayer[] {
+  const reader = new Reader(bytes);
+  const layers: DecodedLayer[] = [];
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 3) layers.push(decodeLayer(reader.sub()));
+    else reader.skip(wireType);
+  }
+  return layers;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import type { Request } from "express";
+import {
+  canAccessLayer,
+  createApiKeySecret,
+  createSessionToken,
+  getSessionToken,
+  hasRole,
+  hashPassword,
+  hashSecret,
+  verifyPassword,
+} from "../../server/auth";
+import type { Layer, User } from "@shared/schema";
+
+function createUser(role: User["role"], groups: string[] = []): User {
+  return { id: "user-1", username: "alice", role, groups };
+}
+
+describe("auth", () => {
+  describe("passwords", () => {
+    it("should hash with argon2id and verify only the right password", async () => {
+      const hash = await hashPassword("correct horse battery");
+
+      expect(hash).toMatch(/^\$argon2id\$/);
+      expect(await verifyPassword(hash, "correct horse battery")).toBe(true);
+      expect(await verifyPassword(hash, "wrong password")).toBe(false);
+    });
+
+    it("should reject unknown users and malformed hashes", async () => {
+      expect(await verifyPassword(undefined, "correct horse battery")).toBe(false);
+      expect(await verifyPassword("not-a-hash", "correct horse battery")).toBe(false);
+    });
+  });
+
+  describe("secrets", () => {
+    it("should create distinct session tokens and API keys", () => {
+      expect(createSessionToken()).not.toBe(createSessionToken());
+
+      const { key, prefix } = createApiKeySecret();
+      expect(key).toMatch(/^mapui_[A-Za-z0-9_-]{43}$/);
+      expect(key.startsWith(prefix)).toBe(true);
+      expect(prefix).toHaveLength(12);
+    });
+
+    it("should hash secrets to hex SHA-256", () => {
+      expect(hashSecret("secret")).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashSecret("secret")).toBe(hashSecret("secret"));
+    });
+  });
+
+  describe("hasRole", () => {
+    it("should include lower roles in higher ones", () => {
+      expect(hasRole(createUser("admin"), "editor")).toBe(true);
+      expect(hasRole(createUser("editor"), "editor")).toBe(true);
+      expect(hasRole(createUser("editor"), "admin")).toBe(false);
+      expect(hasRole(createUser("viewer"), "editor")).toBe(false);
+    });
+  });
+
+  describe("canAccessLayer", () => {
+    const layer: Layer = {
+      id: "hifld",
+      name: "HIFLD",
+      artifactCount: 0,
+      visible: true,
+      access: { read: { roles: ["editor"], groups: ["staff"] }, write: { roles: [], groups: ["engineering"] } },
+    };
+
+    it("should open layers without grants to everyone", () => {
+      const open = { ...layer, access: undefined };
+
+      expect(canAccessLayer(createUser("viewer"), open, "read")).toBe(true);
+      expect(canAccessLayer(createUser("viewer"), open, "write")).toBe(true);
+    });
+
+    it("should grant by role, including higher roles, or by group", () => {
+      expect(canAccessLayer(createUser("viewer"), layer, "read")).toBe(false);
+      expect(canAccessLayer(undefined, layer, "read")).toBe(false);
+      expect(canAccessLayer(createUser("viewer", ["staff"]), layer, "read")).toBe(true);
+      expect(canAccessLayer(createUser("editor"), layer, "read")).toBe(true);
+      expect(canAccessLayer(createUser("admin"), layer, "write")).toBe(true);
+    });
+
+    it("should require read access to write", () => {
+      expect(canAccessLayer(createUser("editor"), layer, "write")).toBe(false);
+      expect(canAccessLayer(createUser("editor", ["engineering"]), layer, "write")).toBe(true);
+
+      const writeOnly = { ...layer, access: { ...layer.access, read: { roles: [], groups: ["staff"] } } };
+      expect(canAccessLayer(createUser("editor", ["engineering"]), writeOnly, "write")).toBe(false);
+    });
+  });
+
+  describe("getSessionToken", () => {
+    const request = (cookie?: string) => ({ headers: { cookie } }) as Request;
+
+    it("should read the session cookie among others", () => {
+      expect(getSessionToken(request("theme=dark; mapui_session=abc123; other=1"))).toBe("abc123");
+    });
+
+    it("should return undefined without a session cookie", () => {
+      expect(getSessionToken(request())).toBeUndefined();
+      expect(getSessionToken(request("mapui_session_old=abc; mapui_session="))).toBeUndefined();
+    });
+  });
+});
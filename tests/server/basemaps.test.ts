@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { OSM_BASEMAP } from "@shared/schema";
+import { listBasemaps } from "../../server/basemaps";
+import type { TilesetInfo } from "../../server/tileArchives";
+
+const CT_BOUNDS = { west: -73.7278, south: 40.9509, east: -71.7872, north: 42.0505 };
+
+function writeTile(root: string, tilePath: string) {
+  fs.mkdirSync(path.dirname(path.join(root, tilePath)), { recursive: true });
+  fs.writeFileSync(path.join(root, tilePath), "tile");
+}
+
+describe("listBasemaps", () => {
+  let root: string;
+
+  const aerial: TilesetInfo = {
+    layer: "aerial",
+    archive: "pmtiles",
+    format: "webp",
+    name: "Aerial 2024",
+    attribution: "State imagery",
+    bounds: CT_BOUNDS,
+    minZoom: 8,
+    maxZoom: 17,
+  };
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "basemaps-"));
+    writeTile(root, "basemap/6/18/23.png");
+    writeTile(root, "basemap/14/4800/6100.png");
+    writeTile(root, "street_grid/10/300/380.jpg");
+    writeTile(root, "empty/7/1/notes.txt");
+    writeTile(root, "aerial/9/150/190.png"); // shadowed by the archive
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("should list archives, then tile directories, then OpenStreetMap", async () => {
+    const basemaps = await listBasemaps(root, [aerial]);
+
+    expect(basemaps.map((basemap) => basemap.id)).toEqual(["aerial", "basemap", "street_grid", "osm"]);
+    expect(basemaps[0]).toEqual({
+      id: "aerial",
+      name: "Aerial 2024",
+      url: "/tiles/aerial/{z}/{x}/{y}.webp",
+      attribution: "State imagery",
+      minZoom: 8,
+      maxZoom: 17,
+      bounds: CT_BOUNDS,
+      local: true,
+    });
+    expect(basemaps[3]).toEqual(OSM_BASEMAP);
+  });
+
+  it("should take a directory's format from its tiles and zoom range from its zoom directories", async () => {
+    const basemaps = await listBasemaps(root, []);
+
+    expect(basemaps.find((basemap) => basemap.id === "basemap")).toEqual({
+      id: "basemap",
+      name: "Basemap",
+      url: "/tiles/basemap/{z}/{x}/{y}.png",
+      minZoom: 6,
+      maxZoom: 14,
+      local: true,
+    });
+    expect(basemaps.find((basemap) => basemap.id === "street_grid")).toMatchObject({
+      name: "Street grid",
+      url: "/tiles/street_grid/{z}/{x}/{y}.jpg",
+    });
+  });
+
+  it("should leave out archives that are not raster tiles", async () => {
+    const basemaps = await listBasemaps(root, [{ layer: "roads", archive: "mbtiles", format: "pbf" }]);
+
+    expect(basemaps.map((basemap) => basemap.id)).not.toContain("roads");
+  });
+
+  it("should replace OpenStreetMap with configured basemaps, skipping invalid ones", async () => {
+    const basemaps = await listBasemaps(root, [], [
+      { id: "topo", name: "Topographic", url: "https://tiles.example.com/{z}/{x}/{y}.png", maxZoom: 16 },
+      { id: "bad id", name: "Invalid", url: "https://example.com" },
+    ]);
+
+    expect(basemaps.map((basemap) => basemap.id)).toEqual(["aerial", "basemap", "street_grid", "topo"]);
+    expect(basemaps[3]).toEqual({
+      id: "topo",
+      name: "Topographic",
+      url: "https://tiles.example.com/{z}/{x}/{y}.png",
+      minZoom: 0,
+      maxZoom: 16,
+      local: false,
+    });
+  });
+
+  it("should let configured entries describe local basemaps", async () => {
+    const basemaps = await listBasemaps(root, [], [
+      { id: "basemap", name: "County basemap", url: "/tiles/basemap/{z}/{x}/{y}.png", attribution: "County GIS" },
+    ]);
+
+    expect(basemaps.map((basemap) => basemap.id)).toEqual(["aerial", "basemap", "street_grid"]);
+    expect(basemaps[1]).toMatchObject({ id: "basemap", name: "County basemap", attribution: "County GIS", local: true });
+  });
+
+  it("should list only OpenStreetMap without a tile directory", async () => {
+    expect(await listBasemaps(path.join(root, "missing"), [])).toEqual([OSM_BASEMAP]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from "vitest";
+import { ChangeFeed, matchesChangeFilter, restrictChangeEvent } from "../../server/changeFeed";
+import { createTestArtifact, createTestBounds, CT_CENTER } from "../fixtures/artifacts";
+import type { ChangeEvent, Layer } from "@shared/schema";
+
+describe("changeFeed", () => {
+  describe("ChangeFeed", () => {
+    it("should deliver published events to subscribers until they unsubscribe", () => {
+      const feed = new ChangeFeed();
+      const listener = vi.fn();
+      const unsubscribe = feed.subscribe(listener);
+      const event: ChangeEvent = { type: "layer.deleted", id: "old" };
+
+      feed.publish(event);
+      expect(listener).toHaveBeenCalledWith(event);
+      expect(feed.subscriberCount).toBe(1);
+
+      unsubscribe();
+      feed.publish(event);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(feed.subscriberCount).toBe(0);
+    });
+  });
+
+  describe("matchesChangeFilter", () => {
+    const bounds = createTestBounds();
+    const inside = createTestArtifact({ layer: "poles", lat: CT_CENTER.lat, lng: CT_CENTER.lng });
+    const outside = createTestArtifact({ ...inside, lat: CT_CENTER.lat + 1 });
+
+    it("should match everything without a filter", () => {
+      expect(matchesChangeFilter({ type: "artifact.created", artifact: outside }, {})).toBe(true);
+      expect(matchesChangeFilter({ type: "artifacts.imported", layer: "any", count: 3 }, {})).toBe(true);
+    });
+
+    it("should match artifact events by layer and bounds", () => {
+      expect(matchesChangeFilter({ type: "artifact.created", artifact: inside }, { layers: ["poles"], bounds })).toBe(
+        true
+      );
+      expect(matchesChangeFilter({ type: "artifact.deleted", artifact: inside }, { layers: ["wires"] })).toBe(false);
+      expect(matchesChangeFilter({ type: "artifact.deleted", artifact: outside }, { bounds })).toBe(false);
+    });
+
+    it("should match updates that move an artifact into or out of the filter", () => {
+      const filter = { bounds };
+
+      expect(matchesChangeFilter({ type: "artifact.updated", artifact: inside, previous: outside }, filter)).toBe(true);
+      expect(matchesChangeFilter({ type: "artifact.updated", artifact: outside, previous: inside }, filter)).toBe(true);
+      expect(matchesChangeFilter({ type: "artifact.updated", artifact: outside, previous: outside }, filter)).toBe(
+        false
+      );
+    });
+
+    it("should match imports by layer only and layer events always", () => {
+      const filter = { layers: ["poles"], bounds };
+
+      expect(matchesChangeFilter({ type: "artifacts.imported", layer: "poles", count: 1 }, filter)).toBe(true);
+      expect(matchesChangeFilter({ type: "artifacts.imported", layer: "wires", count: 1 }, filter)).toBe(false);
+      expect(matchesChangeFilter({ type: "layer.deleted", id: "wires" }, filter)).toBe(true);
+    });
+  });
+
+  describe("restrictChangeEvent", () => {
+    const pole = createTestArtifact({ layer: "poles" });
+    const substation = createTestArtifact({ ...pole, layer: "hifld" });
+    const hifld: Layer = { id: "hifld", name: "HIFLD", artifactCount: 1, visible: true };
+    const canRead = (layer: Layer) => !layer.access?.read;
+    const restrict = (event: ChangeEvent) => restrictChangeEvent(event, new Set(["hifld"]), canRead);
+
+    it("should drop artifact and import events of restricted layers", () => {
+      const created: ChangeEvent = { type: "artifact.created", artifact: pole };
+
+      expect(restrict(created)).toBe(created);
+      expect(restrict({ type: "artifact.created", artifact: substation })).toBeUndefined();
+      expect(restrict({ type: "artifacts.imported", layer: "hifld", count: 2 })).toBeUndefined();
+      expect(restrict({ type: "layer.deleted", id: "hifld" })).toBeUndefined();
+    });
+
+    it("should send moves into a restricted layer as deletes and out of one as creates", () => {
+      expect(restrict({ type: "artifact.updated", artifact: substation, previous: pole })).toEqual({
+        type: "artifact.deleted",
+        artifact: pole,
+      });
+      expect(restrict({ type: "artifact.updated", artifact: pole, previous: substation })).toEqual({
+        type: "artifact.created",
+        artifact: pole,
+      });
+    });
+
+    it("should follow grant changes in layer events", () => {
+      const restrictedLayers = new Set(["hifld"]);
+      const restricted = { ...hifld, access: { read: { roles: [], groups: ["staff"] } } };
+
+      expect(restrictChangeEvent({ type: "layer.updated", layer: hifld }, restrictedLayers, canRead)).toEqual({
+        type: "layer.created",
+        layer: hifld,
+      });
+      expect(restrictedLayers.has("hifld")).toBe(false);
+
+      expect(restrictChangeEvent({ type: "layer.updated", layer: restricted }, restrictedLayers, canRead)).toEqual({
+        type: "layer.deleted",
+        id: "hifld",
+      });
+      expect(restrictedLayers.has("hifld")).toBe(true);
+    });
+  });
+});
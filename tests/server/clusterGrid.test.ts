@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  gridCellBounds,
+  gridCellSize,
+  gridClusterId,
+  gridSearchBounds,
+  mergeGridCells,
+  parseGridClusterId,
+  type GridCellCount,
+} from "../../server/clusterGrid";
+import { isClusterIndexed } from "../../server/clusterIndex";
+import { latY, lngX } from "../../server/mercator";
+import { CT_BOUNDS, CT_CENTER } from "../fixtures/artifacts";
+
+// Counts of one category in the cell that contains a point, as the SQL query returns them
+function countAt(
+  point: { lat: number; lng: number },
+  zoom: number,
+  category: string,
+  count: number,
+  layer = "default"
+): GridCellCount {
+  const size = gridCellSize(zoom);
+  const x = lngX(point.lng);
+  const y = latY(point.lat);
+  return {
+    column: Math.floor(x / size),
+    row: Math.floor(y / size),
+    category,
+    count,
+    x: x * count,
+    y: y * count,
+    north: point.lat,
+    south: point.lat,
+    east: point.lng,
+    west: point.lng,
+    minLayer: layer,
+    maxLayer: layer,
+  };
+}
+
+describe("clusterGrid", () => {
+  describe("isClusterIndexed", () => {
+    it("should index layer and category scopes only", () => {
+      expect(isClusterIndexed()).toBe(true);
+      expect(isClusterIndexed({ categories: ["Infrastructure"], restrictedLayers: ["hifld"] })).toBe(true);
+      expect(isClusterIndexed({ search: "pole" })).toBe(false);
+      expect(isClusterIndexed({ from: "2024-01-01" })).toBe(false);
+      expect(isClusterIndexed({ to: "2024-01-01" })).toBe(false);
+      expect(isClusterIndexed({ where: "status = 'active'" })).toBe(false);
+    });
+  });
+
+  describe("cluster IDs", () => {
+    it("should round-trip a cell", () => {
+      const cell = { zoom: 7, column: 37, row: 47 };
+
+      expect(parseGridClusterId(gridClusterId(cell))).toEqual(cell);
+    });
+
+    it("should not parse cluster index IDs", () => {
+      expect(parseGridClusterId("cluster-7-abc")).toBeUndefined();
+      expect(parseGridClusterId("cell-7-1")).toBeUndefined();
+    });
+  });
+
+  describe("gridCellBounds", () => {
+    it("should split each cell into four at the next zoom", () => {
+      const parent = gridCellBounds({ zoom: 6, column: 20, row: 24 });
+      const children = [
+        gridCellBounds({ zoom: 7, column: 40, row: 48 }),
+        gridCellBounds({ zoom: 7, column: 41, row: 49 }),
+      ];
+
+      expect(children[0].north).toBeCloseTo(parent.north, 10);
+      expect(children[0].west).toBeCloseTo(parent.west, 10);
+      expect(children[1].south).toBeCloseTo(parent.south, 10);
+      expect(children[1].east).toBeCloseTo(parent.east, 10);
+    });
+  });
+
+  describe("gridSearchBounds", () => {
+    it("should grow bounds by one cell on every side", () => {
+      const grown = gridSearchBounds(CT_BOUNDS, 8);
+      const size = gridCellSize(8);
+
+      expect(lngX(grown.east) - lngX(CT_BOUNDS.east)).toBeCloseTo(size, 10);
+      expect(lngX(CT_BOUNDS.west) - lngX(grown.west)).toBeCloseTo(size, 10);
+      expect(latY(grown.north)).toBeCloseTo(latY(CT_BOUNDS.north) - size, 10);
+      expect(latY(grown.south)).toBeCloseTo(latY(CT_BOUNDS.south) + size, 10);
+    });
+  });
+
+  describe("mergeGridCells", () => {
+    it("should merge the categories of a cell into one cluster", () => {
+      const { clusters, pointCells } = mergeGridCells(
+        [countAt(CT_CENTER, 9, "Infrastructure", 3), countAt(CT_CENTER, 9, "Utilities", 2)],
+        9
+      );
+
+      expect(pointCells).toEqual([]);
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0]).toMatchObject({
+        count: 5,
+        layer: "default",
+        categories: { Infrastructure: 3, Utilities: 2 },
+        expansionZoom: 10,
+      });
+      expect(clusters[0].lat).toBeCloseTo(CT_CENTER.lat, 6);
+      expect(clusters[0].lng).toBeCloseTo(CT_CENTER.lng, 6);
+      expect(parseGridClusterId(clusters[0].id)?.zoom).toBe(9);
+    });
+
+    it("should leave out the layer of clusters with several layers", () => {
+      const { clusters } = mergeGridCells(
+        [countAt(CT_CENTER, 9, "Infrastructure", 3, "poles"), countAt(CT_CENTER, 9, "Utilities", 2, "hifld")],
+        9
+      );
+
+      expect(clusters[0].layer).toBeUndefined();
+    });
+
+    it("should return cells with too few artifacts for their points", () => {
+      const count = countAt(CT_CENTER, 9, "Infrastructure", 3);
+      const { clusters, pointCells } = mergeGridCells([count], 9);
+
+      expect(clusters).toEqual([]);
+      expect(pointCells).toEqual([{ zoom: 9, column: count.column, row: count.row }]);
+    });
+
+    it("should keep only clusters positioned inside bounds", () => {
+      const outside = { lat: CT_BOUNDS.north + 1, lng: CT_CENTER.lng };
+      const { clusters } = mergeGridCells(
+        [countAt(CT_CENTER, 9, "Infrastructure", 5), countAt(outside, 9, "Infrastructure", 5)],
+        9,
+        CT_BOUNDS
+      );
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].lat).toBeCloseTo(CT_CENTER.lat, 6);
+    });
+  });
+});
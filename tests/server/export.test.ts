@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { flattenMetadata, serializeArtifacts } from "../../server/export";
+import { createTestArtifact } from "../fixtures/artifacts";
+
+function serialize(...args: Parameters<typeof serializeArtifacts>): string {
+  return Array.from(serializeArtifacts(...args)).join("");
+}
+
+describe("Artifact export", () => {
+  describe("flattenMetadata", () => {
+    it("should flatten nested objects into dotted keys", () => {
+      expect(flattenMetadata({ a: { b: 1, c: { d: "x" } }, e: true })).toEqual({
+        "a.b": 1,
+        "a.c.d": "x",
+        e: true,
+      });
+    });
+
+    it("should keep arrays as values", () => {
+      expect(flattenMetadata({ tags: ["a", "b"] })).toEqual({ tags: ["a", "b"] });
+    });
+
+    it("should prefix keys that clash with base fields", () => {
+      expect(flattenMetadata({ name: "dup", status: "ok" })).toEqual({
+        "metadata.name": "dup",
+        status: "ok",
+      });
+    });
+
+    it("should return empty object for missing metadata", () => {
+      expect(flattenMetadata(undefined)).toEqual({});
+    });
+  });
+
+  describe("geojson", () => {
+    it("should produce a FeatureCollection with [lng, lat] points", () => {
+      const artifact = createTestArtifact({ metadata: { voltage: { max: 115 } } });
+      const collection = JSON.parse(serialize([artifact], "geojson"));
+
+      expect(collection.type).toBe("FeatureCollection");
+      expect(collection.features).toHaveLength(1);
+      expect(collection.features[0].geometry.coordinates).toEqual([artifact.lng, artifact.lat]);
+      expect(collection.features[0].properties["voltage.max"]).toBe(115);
+      expect(collection.features[0].properties).not.toHaveProperty("lat");
+    });
+
+    it("should produce valid JSON for empty and multi-chunk exports", () => {
+      expect(JSON.parse(serialize([], "geojson")).features).toEqual([]);
+
+      const many = Array.from({ length: 1201 }, (_, i) => createTestArtifact({ id: `a-${i}` }));
+      expect(JSON.parse(serialize(many, "geojson")).features).toHaveLength(1201);
+    });
+  });
+
+  describe("csv", () => {
+    it("should write base columns then sorted metadata columns", () => {
+      const csv = serialize(
+        [
+          createTestArtifact({ id: "a", metadata: { zeta: 1 } }),
+          createTestArtifact({ id: "b", metadata: { alpha: "x" } }),
+        ],
+        "csv"
+      );
+      const [header, first, second] = csv.trim().split("\r\n");
+
+      expect(header).toBe("id,name,category,layer,lat,lng,description,createdAt,alpha,zeta");
+      expect(first.startsWith("a,")).toBe(true);
+      expect(first.endsWith(",1")).toBe(true);
+      expect(second.endsWith(",x,")).toBe(true);
+    });
+
+    it("should quote commas, quotes and newlines", () => {
+      const csv = serialize([createTestArtifact({ name: 'Pole "A", north\nside' })], "csv");
+      expect(csv).toContain('"Pole ""A"", north\nside"');
+    });
+
+    it("should neutralize spreadsheet formulas", () => {
+      const csv = serialize([createTestArtifact({ name: "=HYPERLINK(1)" })], "csv");
+      expect(csv).toContain("'=HYPERLINK(1)");
+    });
+  });
+
+  describe("kml", () => {
+    it("should write escaped placemarks with extended data", () => {
+      const kml = serialize(
+        [createTestArtifact({ name: "<script>", lat: 41.5, lng: -72.7, metadata: { owner: "A&B" } })],
+        "kml"
+      );
+
+      expect(kml).toContain('<kml xmlns="http://www.opengis.net/kml/2.2">');
+      expect(kml).toContain("<name>&lt;script&gt;</name>");
+      expect(kml).toContain('<Data name="owner"><value>A&amp;B</value></Data>');
+      expect(kml).toContain("<coordinates>-72.7,41.5</coordinates>");
+      expect(kml).not.toContain("<script>");
+    });
+  });
+});
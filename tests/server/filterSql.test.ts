@@ -0,0 +1,63 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { parseFilterExpression } from "@shared/filterExpression";
+import { compileFilterExpression } from "../../server/db/filterSql";
+import { FILTER_CASES, FILTER_RECORDS } from "../fixtures/filterExpressions";
+
+describe("compileFilterExpression", () => {
+  it("should bind fields and values as parameters", () => {
+    const params: unknown[] = ["existing"];
+    const sql = compileFilterExpression(
+      parseFilterExpression("owner.name = 'x''; DROP TABLE artifacts' AND voltage_kv > 115"),
+      params
+    );
+
+    expect(params).toEqual([
+      "existing",
+      ["owner", "name"],
+      JSON.stringify("x'; DROP TABLE artifacts"),
+      ["voltage_kv"],
+      115,
+    ]);
+    expect(sql).not.toContain("DROP");
+    expect(sql).not.toContain("115");
+    expect(sql).toContain("metadata #> $2::text[] = $3::jsonb");
+    expect(sql).toContain("::numeric END) > $5::numeric");
+  });
+
+  it("should compare strings in code point order", () => {
+    const sql = compileFilterExpression(parseFilterExpression("status < 'a'"), []);
+    expect(sql).toContain('COLLATE "C" < $2::text');
+  });
+
+  it("should bind IN lists as a single jsonb array parameter", () => {
+    const params: unknown[] = [];
+    compileFilterExpression(parseFilterExpression("state IN ('CT', 1, true)"), params);
+    expect(params).toEqual([["state"], ['"CT"', "1", "true"]]);
+  });
+
+  it("should keep every predicate two-valued", () => {
+    const sql = compileFilterExpression(parseFilterExpression("a = 1 OR b NOT IN (2)"), []);
+    expect(sql.match(/COALESCE\(/g)).toHaveLength(2);
+  });
+});
+
+// Runs the shared cases against a real database when one is configured (docker test-integration)
+describe.skipIf(!process.env.DATABASE_URL)("compileFilterExpression on PostgreSQL", () => {
+  afterAll(async () => {
+    const { closePool } = await import("../../server/db/config");
+    await closePool();
+  });
+
+  it.each(FILTER_CASES)("$where", async ({ where, expected }) => {
+    const { pool } = await import("../../server/db/config");
+    const params: unknown[] = [JSON.stringify(FILTER_RECORDS)];
+    const predicate = compileFilterExpression(parseFilterExpression(where), params);
+
+    const result = await pool.query(
+      `SELECT key AS id FROM jsonb_each($1::jsonb) AS records(key, metadata) WHERE ${predicate}`,
+      params
+    );
+    const ids = result.rows.map((row: { id: string }) => row.id);
+    expect(Object.keys(FILTER_RECORDS).filter((id) => ids.includes(id))).toEqual(expected);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_DENSITY_ZOOM,
+  binPoints,
+  densityBounds,
+  densityZoom,
+  hexSize,
+  toDensityResponse,
+} from "../../server/hexGrid";
+import { latY, lngX } from "../../server/mercator";
+import { CT_BOUNDS, CT_CENTER } from "../fixtures/artifacts";
+
+// Whether a world point is inside a convex polygon of [lng, lat] corners, compared in Web Mercator
+function insideHexagon(point: { lat: number; lng: number }, boundary: [number, number][]): boolean {
+  const x = lngX(point.lng);
+  const y = latY(point.lat);
+  const corners = boundary.map(([lng, lat]) => [lngX(lng), latY(lat)]);
+  return corners.every(([x1, y1], i) => {
+    const [x2, y2] = corners[(i + 1) % corners.length];
+    return (x2 - x1) * (y - y1) - (y2 - y1) * (x - x1) >= -1e-12;
+  });
+}
+
+describe("hexGrid", () => {
+  describe("densityZoom", () => {
+    it("should floor the map zoom and clamp it to the grid range", () => {
+      expect(densityZoom(7.8)).toBe(7);
+      expect(densityZoom(-1)).toBe(0);
+      expect(densityZoom(20)).toBe(MAX_DENSITY_ZOOM);
+    });
+  });
+
+  describe("binPoints", () => {
+    it("should place every point in the hexagon that contains it", () => {
+      const points = Array.from({ length: 200 }, (_, i) => ({
+        lat: CT_CENTER.lat + Math.sin(i * 12.9898) * 0.3,
+        lng: CT_CENTER.lng + Math.cos(i * 78.233) * 0.3,
+      }));
+      const { cells } = toDensityResponse(binPoints(points, 9), 9);
+
+      for (const point of points) {
+        const containing = cells.filter((cell) => insideHexagon(point, cell.boundary));
+        expect(containing.length).toBeGreaterThanOrEqual(1);
+      }
+    });
+
+    it("should count points sharing a hexagon together", () => {
+      const bins = binPoints(
+        [
+          { lat: CT_CENTER.lat, lng: CT_CENTER.lng },
+          { lat: CT_CENTER.lat + 0.0001, lng: CT_CENTER.lng },
+          { lat: CT_CENTER.lat + 1, lng: CT_CENTER.lng },
+        ],
+        10
+      );
+
+      expect(bins.map((bin) => bin.count).sort()).toEqual([1, 2]);
+    });
+
+    it("should use hexagons of the same screen size at every zoom", () => {
+      expect(hexSize(9) / hexSize(10)).toBe(2);
+    });
+  });
+
+  describe("toDensityResponse", () => {
+    it("should report the zoom, the highest count and the total", () => {
+      const response = toDensityResponse(
+        [
+          { q: 0, r: 0, count: 3 },
+          { q: 1, r: -1, count: 7 },
+        ],
+        5
+      );
+
+      expect(response.zoom).toBe(5);
+      expect(response.max).toBe(7);
+      expect(response.total).toBe(10);
+      expect(response.cells.map((cell) => cell.id)).toEqual(["5:0:0", "5:1:-1"]);
+      expect(response.cells[0].boundary).toHaveLength(6);
+    });
+  });
+
+  describe("densityBounds", () => {
+    it("should grow the bounds by one hexagon on every side", () => {
+      const grown = densityBounds(CT_BOUNDS, 8);
+
+      expect(grown.north).toBeGreaterThan(CT_BOUNDS.north);
+      expect(grown.south).toBeLessThan(CT_BOUNDS.south);
+      expect(grown.east - CT_BOUNDS.east).toBeCloseTo(hexSize(8) * 360, 10);
+      expect(CT_BOUNDS.west - grown.west).toBeCloseTo(hexSize(8) * 360, 10);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { ArtifactVersionLog, historicalViewport } from "../../server/history";
+import { createTestArtifact, createTestArtifacts, createTestBounds, CT_CENTER } from "../fixtures/artifacts";
+
+describe("history", () => {
+  describe("ArtifactVersionLog", () => {
+    const pole = createTestArtifact({ id: "pole", name: "Pole 1" });
+    const moved = { ...pole, lat: CT_CENTER.lat + 0.01 };
+
+    function createLog() {
+      const log = new ArtifactVersionLog();
+      log.record("create", undefined, pole, { actor: "client-a" }, "2026-01-01T00:00:00.000Z");
+      log.record("update", pole, moved, { actor: "client-b" }, "2026-02-01T00:00:00.000Z");
+      log.record("delete", moved, undefined, {}, "2026-03-01T00:00:00.000Z");
+      return log;
+    }
+
+    it("should return an artifact's history newest first", () => {
+      const history = createLog().getHistory("pole");
+
+      expect(history.map((entry) => entry.action)).toEqual(["delete", "update", "create"]);
+      expect(history[1]).toEqual({
+        id: 2,
+        artifactId: "pole",
+        action: "update",
+        before: pole,
+        after: moved,
+        changedBy: "client-b",
+        changedAt: "2026-02-01T00:00:00.000Z",
+      });
+      expect(history[0].changedBy).toBeUndefined();
+    });
+
+    it("should return no history for unknown artifacts", () => {
+      expect(createLog().getHistory("missing")).toEqual([]);
+    });
+
+    it("should reconstruct the artifacts that existed at a time", () => {
+      const log = createLog();
+
+      expect(log.snapshot("2025-12-31T00:00:00.000Z")).toEqual([]);
+      expect(log.snapshot("2026-01-15T00:00:00.000Z")).toEqual([pole]);
+      // Inclusive of changes made at exactly asOf
+      expect(log.snapshot("2026-02-01T00:00:00.000Z")).toEqual([moved]);
+      expect(log.snapshot("2026-03-01T00:00:00.000Z")).toEqual([]);
+    });
+  });
+
+  describe("historicalViewport", () => {
+    const bounds = createTestBounds();
+    const artifacts = createTestArtifacts(50);
+    const outside = createTestArtifact({ lat: CT_CENTER.lat + 1 });
+
+    it("should return singles in bounds above the clustering zoom", () => {
+      const viewport = historicalViewport([...artifacts, outside], bounds, 15, 5000);
+
+      expect(viewport.clusters).toEqual([]);
+      expect(viewport.singles).toHaveLength(50);
+      expect(viewport).toMatchObject({ total: 50, truncated: false });
+    });
+
+    it("should truncate singles to the limit", () => {
+      const viewport = historicalViewport(artifacts, bounds, 15, 10);
+
+      expect(viewport.singles).toHaveLength(10);
+      expect(viewport).toMatchObject({ total: 50, truncated: true });
+    });
+
+    it("should cluster at low zooms, counting every artifact", () => {
+      const viewport = historicalViewport(artifacts, bounds, 8, 5000);
+
+      expect(viewport.clusters.length).toBeGreaterThan(0);
+      expect(viewport.total).toBe(50);
+      expect(viewport.clusters.reduce((sum, cluster) => sum + cluster.count, viewport.singles.length)).toBe(50);
+    });
+  });
+});
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemStorage } from "../../server/memStorage";
+import { diffArtifactFields, getExternalKeyValue, importArtifacts, parseCsv } from "../../server/import";
+import { importRequestSchema, type ImportRequest } from "@shared/schema";
+import { CT_CENTER, createTestArtifact, createTestInsertArtifact } from "../fixtures/artifacts";
+
+function request(body: Record<string, unknown>): ImportRequest {
+  return importRequestSchema.parse({ layer: "imported", ...body });
+}
+
+function feature(properties: Record<string, unknown>, coordinates: unknown = [CT_CENTER.lng, CT_CENTER.lat]) {
+  return { type: "Feature", geometry: { type: "Point", coordinates }, properties };
+}
+
+describe("Artifact import", () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage(false);
+  });
+
+  describe("parseCsv", () => {
+    it("should parse quoted fields with commas, quotes and newlines", () => {
+      const { header, rows } = parseCsv('name,notes\r\n"Pole, A","say ""hi""\nthere"\r\nPole B,plain\r\n');
+
+      expect(header).toEqual(["name", "notes"]);
+      expect(rows).toEqual([
+        { line: 2, cells: ["Pole, A", 'say "hi"\nthere'] },
+        { line: 4, cells: ["Pole B", "plain"] },
+      ]);
+    });
+
+    it("should skip blank lines and strip a byte order mark", () => {
+      const { header, rows } = parseCsv("\uFEFFname\n\nA\n");
+      expect(header).toEqual(["name"]);
+      expect(rows).toEqual([{ line: 3, cells: ["A"] }]);
+    });
+  });
+
+  describe("csv", () => {
+    const csv = [
+      "Site,Type,Y,X,zip,voltage",
+      "North,substation,41.5,-72.7,06103,115",
+      "Bad Lat,substation,95,-72.7,06103,115",
+      "Short,substation",
+    ].join("\n");
+    const mapping = { name: "Site", category: "Type", lat: "Y", lng: "X" };
+
+    it("should insert valid rows and report invalid ones by line", async () => {
+      const report = await importArtifacts(storage, request({ format: "csv", data: csv, mapping }));
+
+      expect(report).toMatchObject({ total: 3, valid: 1, imported: 1, dryRun: false, layerCreated: true });
+      expect(report.errors.map((e) => e.row)).toEqual([3, 4]);
+      expect(report.errors[0].errors[0]).toMatch(/^lat:/);
+      expect(report.errors[1].errors[0]).toMatch(/Expected 6 columns/);
+
+      const [artifact] = await storage.getAllArtifacts(["imported"]);
+      expect(artifact).toMatchObject({ name: "North", category: "substation", lat: 41.5, lng: -72.7 });
+      expect(artifact.metadata).toEqual({ zip: "06103", voltage: 115 });
+      expect((await storage.getLayer("imported"))?.artifactCount).toBe(1);
+    });
+
+    it("should only keep listed metadata columns", async () => {
+      await importArtifacts(storage, request({ format: "csv", data: csv, mapping: { ...mapping, metadata: ["voltage"] } }));
+
+      const [artifact] = await storage.getAllArtifacts(["imported"]);
+      expect(artifact.metadata).toEqual({ voltage: 115 });
+    });
+
+    it("should use defaultCategory when a row has none", async () => {
+      const report = await importArtifacts(
+        storage,
+        request({ format: "csv", data: "name,lat,lng\nA,41.5,-72.7\n", defaultCategory: "pole" })
+      );
+
+      expect(report.imported).toBe(1);
+      expect((await storage.getAllArtifacts())[0].category).toBe("pole");
+    });
+  });
+
+  describe("geojson", () => {
+    it("should read position from Point geometry and properties as fields", async () => {
+      const data = {
+        type: "FeatureCollection",
+        features: [
+          feature({ name: "A", category: "transformer", owner: "Utility" }),
+          { type: "Feature", geometry: { type: "LineString", coordinates: [] }, properties: {} },
+          feature({ name: "B" }),
+        ],
+      };
+
+      const report = await importArtifacts(storage, request({ format: "geojson", data }));
+
+      expect(report).toMatchObject({ total: 3, valid: 1, imported: 1 });
+      expect(report.errors).toEqual([
+        { row: 2, errors: ["Feature geometry must be a Point"] },
+        { row: 3, errors: ["category: Required"] },
+      ]);
+      const [artifact] = await storage.getAllArtifacts();
+      expect(artifact).toMatchObject({ name: "A", lat: CT_CENTER.lat, lng: CT_CENTER.lng, layer: "imported" });
+      expect(artifact.metadata).toEqual({ owner: "Utility" });
+    });
+  });
+
+  describe("dry run", () => {
+    it("should report without writing", async () => {
+      const data = { type: "FeatureCollection", features: [feature({ name: "A", category: "pole" })] };
+
+      const report = await importArtifacts(storage, request({ format: "geojson", data, dryRun: true }));
+
+      expect(report).toMatchObject({ dryRun: true, valid: 1, imported: 0, layerCreated: true });
+      expect(await storage.getArtifactCount()).toBe(0);
+      expect(await storage.getLayer("imported")).toBeUndefined();
+    });
+  });
+
+  describe("keyed re-import", () => {
+    const csv = (rows: string[]) => ["name,category,lat,lng,hifld_id,status", ...rows].join("\n");
+    const keyed = (rows: string[], options: Record<string, unknown> = {}) =>
+      request({ format: "csv", data: csv(rows), externalKey: "metadata.hifld_id", ...options });
+
+    beforeEach(async () => {
+      await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.5,-72.7,100,IN SERVICE", "Beta,substation,41.6,-72.6,200,IN SERVICE"])
+      );
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should store the external key on a layer it creates", async () => {
+      expect((await storage.getLayer("imported"))?.externalKey).toBe("metadata.hifld_id");
+    });
+
+    it("should not duplicate records when the same file is imported again", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.5,-72.7,100,IN SERVICE", "Beta,substation,41.6,-72.6,200,IN SERVICE"])
+      );
+
+      expect(report.imported).toBe(0);
+      expect(report.changes).toMatchObject({ added: [], changed: [], moved: [], missing: [], unchanged: 2 });
+      expect(await storage.getArtifactCount(["imported"])).toBe(2);
+    });
+
+    it("should use the layer's external key when the request has none", async () => {
+      const report = await importArtifacts(
+        storage,
+        request({ format: "csv", data: csv(["Alpha,substation,41.5,-72.7,100,IN SERVICE"]) })
+      );
+
+      expect(report.changes?.externalKey).toBe("metadata.hifld_id");
+      expect(report.changes?.unchanged).toBe(1);
+    });
+
+    it("should report added, changed, moved and missing records", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.51,-72.7,100,RETIRED", "Gamma,tap,41.7,-72.5,300,IN SERVICE"])
+      );
+      const alpha = (await storage.getAllArtifacts(["imported"])).find((a) => a.name === "Alpha")!;
+
+      expect(report.changes?.added).toEqual([{ row: 3, key: "300" }]);
+      expect(report.changes?.changed).toEqual([
+        { id: alpha.id, key: "100", fields: [{ field: "metadata.status", from: "IN SERVICE", to: "RETIRED" }] },
+      ]);
+      expect(report.changes?.moved).toEqual([
+        { id: alpha.id, key: "100", from: { lat: 41.5, lng: -72.7 }, to: { lat: 41.51, lng: -72.7 } },
+      ]);
+      expect(report.changes?.missing.map((m) => m.name)).toEqual(["Beta"]);
+      expect(report.changes?.retired).toBe(0);
+      expect(report.imported).toBe(2);
+
+      expect(alpha).toMatchObject({ lat: 41.51, metadata: { hifld_id: 100, status: "RETIRED" } });
+      expect(await storage.getArtifactCount(["imported"])).toBe(3);
+    });
+
+    it("should retire missing records when asked", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.5,-72.7,100,IN SERVICE"], { retireMissing: true })
+      );
+
+      expect(report.changes?.retired).toBe(1);
+      expect((await storage.getAllArtifacts(["imported"])).map((a) => a.name)).toEqual(["Alpha"]);
+      expect((await storage.getLayer("imported"))?.artifactCount).toBe(1);
+    });
+
+    it("should not write or retire anything in dry-run mode", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.5,-72.7,100,RETIRED"], { retireMissing: true, dryRun: true })
+      );
+
+      expect(report.changes?.changed).toHaveLength(1);
+      expect(report.changes?.missing).toHaveLength(1);
+      expect(report.changes?.retired).toBe(0);
+      expect(report.imported).toBe(0);
+
+      const artifacts = await storage.getAllArtifacts(["imported"]);
+      expect(artifacts).toHaveLength(2);
+      expect(artifacts.every((a) => a.metadata?.status === "IN SERVICE")).toBe(true);
+    });
+
+    it("should reject rows with a missing or duplicate key", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed([
+          "Alpha,substation,41.5,-72.7,100,IN SERVICE",
+          "No Key,substation,41.5,-72.7,,IN SERVICE",
+          "Alpha Again,substation,41.5,-72.7,100,IN SERVICE",
+        ])
+      );
+
+      expect(report.valid).toBe(1);
+      expect(report.errors).toEqual([
+        { row: 3, errors: ["metadata.hifld_id: Missing external key"] },
+        { row: 4, errors: ['metadata.hifld_id: Duplicate external key "100" (first seen on row 2)'] },
+      ]);
+    });
+
+    it("should treat stored duplicates of a key as missing", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(Date.now() + 1000);
+      await storage.createArtifact(
+        createTestInsertArtifact({ name: "Alpha Copy", layer: "imported", metadata: { hifld_id: 100 } })
+      );
+
+      const report = await importArtifacts(
+        storage,
+        keyed(
+          ["Alpha,substation,41.5,-72.7,100,IN SERVICE", "Beta,substation,41.6,-72.6,200,IN SERVICE"],
+          { retireMissing: true }
+        )
+      );
+
+      expect(report.changes?.missing.map((m) => m.name)).toEqual(["Alpha Copy"]);
+      expect(await storage.getArtifactCount(["imported"])).toBe(2);
+    });
+
+    it("should keep records whose row failed validation", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.5,-72.7,100,IN SERVICE", "Beta,substation,999,-72.6,200,IN SERVICE"], {
+          retireMissing: true,
+        })
+      );
+
+      expect(report.errors).toHaveLength(1);
+      expect(report.changes?.missing).toEqual([]);
+      expect(report.changes?.retired).toBe(0);
+      expect(await storage.getArtifactCount(["imported"])).toBe(2);
+    });
+
+    it("should retire nothing when a failed row has no readable key", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.5,-72.7,100,IN SERVICE", "Beta,substation"], { retireMissing: true })
+      );
+
+      expect(report.changes?.missing.map((m) => m.name)).toEqual(["Beta"]);
+      expect(report.changes?.retired).toBe(0);
+      expect(await storage.getArtifactCount(["imported"])).toBe(2);
+    });
+
+    it("should only report records in scope as missing", async () => {
+      const report = await importArtifacts(
+        storage,
+        keyed(["Alpha,substation,41.5,-72.7,100,IN SERVICE"], { retireMissing: true }),
+        undefined,
+        (artifact) => artifact.name !== "Beta"
+      );
+
+      expect(report.changes?.missing).toEqual([]);
+      expect(await storage.getArtifactCount(["imported"])).toBe(2);
+    });
+  });
+
+  describe("getExternalKeyValue", () => {
+    it("should resolve top-level and nested metadata paths", () => {
+      const artifact = createTestArtifact({ name: "Pole", metadata: { hifld: { id: 42 } } });
+
+      expect(getExternalKeyValue(artifact, "name")).toBe("Pole");
+      expect(getExternalKeyValue(artifact, "metadata.hifld.id")).toBe("42");
+      expect(getExternalKeyValue(artifact, "metadata.missing.id")).toBeUndefined();
+    });
+  });
+
+  describe("diffArtifactFields", () => {
+    it("should ignore metadata key order and report removed keys", () => {
+      const existing = createTestArtifact({ metadata: { a: { x: 1, y: 2 }, b: "gone" } });
+      const incoming = createTestInsertArtifact({
+        name: existing.name,
+        category: existing.category,
+        description: existing.description,
+        metadata: { a: { y: 2, x: 1 } },
+      });
+
+      expect(diffArtifactFields(existing, incoming)).toEqual([{ field: "metadata.b", from: "gone", to: null }]);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { MemStorage } from "../../server/memStorage";
 import {
   createTestArtifact,
@@ -6,9 +6,13 @@ import {
   createTestInsertArtifact,
   createTestBounds,
   createTestCircleSelection,
+  createTestPolygonSelection,
+  createTestCorridorSelection,
   CT_CENTER,
   CT_BOUNDS,
 } from "../fixtures/artifacts";
+import { decodeVectorTile } from "../fixtures/vectorTiles";
+import { latY, lngX } from "../../server/mercator";
 
 describe("MemStorage", () => {
   let storage: MemStorage;
@@ -94,6 +98,81 @@ describe("MemStorage", () => {
     });
   });
 
+  describe("updateArtifact", () => {
+    it("should update fields and keep id and createdAt", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact());
+
+      const updated = await storage.updateArtifact(created.id, {
+        name: "Renamed",
+        metadata: { status: "retired" },
+      });
+
+      expect(updated?.id).toBe(created.id);
+      expect(updated?.createdAt).toBe(created.createdAt);
+      expect(updated?.name).toBe("Renamed");
+      expect(updated?.category).toBe(created.category);
+      expect(updated?.metadata).toEqual({ status: "retired" });
+      expect((await storage.getArtifact(created.id))?.name).toBe("Renamed");
+    });
+
+    it("should move the point in the spatial index", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact());
+      const oldBounds = createTestBounds({
+        north: created.lat + 0.01,
+        south: created.lat - 0.01,
+        east: created.lng + 0.01,
+        west: created.lng - 0.01,
+      });
+
+      await storage.updateArtifact(created.id, { lat: created.lat + 1 });
+
+      expect(await storage.getArtifactsInBounds(oldBounds)).toHaveLength(0);
+      const newBounds = createTestBounds({
+        north: created.lat + 1.01,
+        south: created.lat + 0.99,
+        east: created.lng + 0.01,
+        west: created.lng - 0.01,
+      });
+      const results = await storage.getArtifactsInBounds(newBounds);
+      expect(results).toHaveLength(1);
+      expect(results[0].lat).toBe(created.lat + 1);
+    });
+
+    it("should move layer counts when the layer changes", async () => {
+      const created = await storage.createArtifact(
+        createTestInsertArtifact({ layer: "utility-poc" })
+      );
+
+      await storage.updateArtifact(created.id, { layer: "eversource-substations" });
+
+      expect((await storage.getLayer("utility-poc"))?.artifactCount).toBe(0);
+      expect((await storage.getLayer("eversource-substations"))?.artifactCount).toBe(1);
+    });
+
+    it("should return undefined for non-existent id", async () => {
+      const updated = await storage.updateArtifact("non-existent-id", { name: "Nope" });
+      expect(updated).toBeUndefined();
+    });
+  });
+
+  describe("deleteArtifact", () => {
+    it("should remove the artifact, its index entry and layer count", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact());
+      expect((await storage.getLayer("utility-poc"))?.artifactCount).toBe(1);
+
+      const deleted = await storage.deleteArtifact(created.id);
+
+      expect(deleted).toBe(true);
+      expect(await storage.getArtifact(created.id)).toBeUndefined();
+      expect(await storage.getArtifactsInBounds(CT_BOUNDS)).toHaveLength(0);
+      expect((await storage.getLayer("utility-poc"))?.artifactCount).toBe(0);
+    });
+
+    it("should return false for non-existent id", async () => {
+      expect(await storage.deleteArtifact("non-existent-id")).toBe(false);
+    });
+  });
+
   describe("getArtifact", () => {
     it("should return artifact by id", async () => {
       const created = await storage.createArtifact(createTestInsertArtifact());
@@ -126,6 +205,34 @@ describe("MemStorage", () => {
     });
   });
 
+  describe("getArtifactPage", () => {
+    it("should page through artifacts in id order", async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({ name: "A1" }),
+        createTestInsertArtifact({ name: "A2" }),
+        createTestInsertArtifact({ name: "A3" }),
+      ]);
+      const ids = (await storage.getAllArtifacts()).map((a) => a.id).sort();
+
+      const first = await storage.getArtifactPage(2);
+      const second = await storage.getArtifactPage(2, first[1].id);
+
+      expect([...first, ...second].map((a) => a.id)).toEqual(ids);
+    });
+
+    it("should apply bounds, layers and filters", async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({ layer: "poles", category: "pole" }),
+        createTestInsertArtifact({ layer: "poles", category: "tap" }),
+        createTestInsertArtifact({ layer: "poles", category: "pole", lat: 42.5 }),
+        createTestInsertArtifact({ layer: "other", category: "pole" }),
+      ]);
+
+      const page = await storage.getArtifactPage(10, undefined, createTestBounds(), ["poles"], { categories: ["pole"] });
+      expect(page).toHaveLength(1);
+    });
+  });
+
   describe("getArtifactsInBounds", () => {
     beforeEach(async () => {
       // Create artifacts at specific locations
@@ -287,6 +394,196 @@ describe("MemStorage", () => {
     });
   });
 
+  describe("getNearestArtifacts", () => {
+    beforeEach(async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({ name: "500m North", lat: CT_CENTER.lat + 0.0045, lng: CT_CENTER.lng }),
+        createTestInsertArtifact({ name: "2km North", lat: CT_CENTER.lat + 0.018, lng: CT_CENTER.lng }),
+        createTestInsertArtifact({
+          name: "10km East",
+          lat: CT_CENTER.lat,
+          lng: CT_CENTER.lng + 0.12,
+          layer: "substations",
+          metadata: { status: "retired" },
+        }),
+        createTestInsertArtifact({ name: "Far Away", lat: CT_CENTER.lat - 20, lng: CT_CENTER.lng }),
+      ]);
+    });
+
+    it("should return the k nearest artifacts with their distances, nearest first", async () => {
+      const nearest = await storage.getNearestArtifacts({ ...CT_CENTER, k: 3 });
+
+      expect(nearest.map((n) => n.artifact.name)).toEqual(["500m North", "2km North", "10km East"]);
+      expect(nearest[0].distance).toBeCloseTo(500, -1);
+      expect(nearest[1].distance).toBeCloseTo(2000, -2);
+    });
+
+    it("should search beyond the first radii until k artifacts are found", async () => {
+      const nearest = await storage.getNearestArtifacts({ ...CT_CENTER, k: 10 });
+
+      expect(nearest).toHaveLength(4);
+      expect(nearest[3].artifact.name).toBe("Far Away");
+      expect(nearest[3].distance).toBeGreaterThan(2_000_000);
+    });
+
+    it("should stop at maxDistance", async () => {
+      const nearest = await storage.getNearestArtifacts({ ...CT_CENTER, k: 5, maxDistance: 5000 });
+      expect(nearest.map((n) => n.artifact.name)).toEqual(["500m North", "2km North"]);
+    });
+
+    it("should apply layer and attribute filters", async () => {
+      const byLayer = await storage.getNearestArtifacts({ ...CT_CENTER, k: 1 }, ["substations"]);
+      expect(byLayer.map((n) => n.artifact.name)).toEqual(["10km East"]);
+
+      const byWhere = await storage.getNearestArtifacts({ ...CT_CENTER, k: 1 }, undefined, {
+        where: "status = 'retired'",
+      });
+      expect(byWhere.map((n) => n.artifact.name)).toEqual(["10km East"]);
+    });
+
+    it("should find neighbours across the antimeridian", async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({ name: "West of 180", lat: 0, lng: 179.99 }),
+        createTestInsertArtifact({ name: "East of 180", lat: 0, lng: -179.98 }),
+      ]);
+
+      const nearest = await storage.getNearestArtifacts({ lat: 0, lng: -179.995, k: 2 });
+      expect(nearest.map((n) => n.artifact.name)).toEqual(["West of 180", "East of 180"]);
+    });
+  });
+
+  describe("getArtifactsInPolygon", () => {
+    beforeEach(async () => {
+      await storage.createArtifact(
+        createTestInsertArtifact({ name: "Center", lat: CT_CENTER.lat, lng: CT_CENTER.lng })
+      );
+      await storage.createArtifact(
+        createTestInsertArtifact({
+          name: "Inside Ring",
+          lat: CT_CENTER.lat + 0.015,
+          lng: CT_CENTER.lng,
+          layer: "substations",
+        })
+      );
+      await storage.createArtifact(
+        createTestInsertArtifact({
+          name: "Outside",
+          lat: CT_CENTER.lat + 0.05,
+          lng: CT_CENTER.lng,
+        })
+      );
+    });
+
+    it("should return artifacts inside the polygon", async () => {
+      const results = await storage.getArtifactsInPolygon(createTestPolygonSelection(0.02));
+      expect(results.map((a) => a.name).sort()).toEqual(["Center", "Inside Ring"]);
+    });
+
+    it("should exclude artifacts inside a hole", async () => {
+      const polygon = createTestPolygonSelection(0.02);
+      polygon.coordinates.push(createTestPolygonSelection(0.005).coordinates[0]);
+
+      const results = await storage.getArtifactsInPolygon(polygon);
+      expect(results.map((a) => a.name)).toEqual(["Inside Ring"]);
+    });
+
+    it("should exclude artifacts in the bounding box but outside a triangle", async () => {
+      const { lat, lng } = CT_CENTER;
+      // Triangle whose bounding box covers "Inside Ring" but whose hypotenuse cuts it off
+      const triangle = {
+        type: "Polygon" as const,
+        coordinates: [
+          [
+            [lng - 0.02, lat - 0.02],
+            [lng + 0.03, lat - 0.02],
+            [lng - 0.02, lat + 0.03],
+            [lng - 0.02, lat - 0.02],
+          ] as [number, number][],
+        ],
+      };
+
+      const results = await storage.getArtifactsInPolygon(triangle);
+      expect(results.map((a) => a.name)).toEqual(["Center"]);
+    });
+
+    it("should filter by layers", async () => {
+      const results = await storage.getArtifactsInPolygon(createTestPolygonSelection(0.02), [
+        "substations",
+      ]);
+      expect(results.map((a) => a.name)).toEqual(["Inside Ring"]);
+    });
+
+    it("should aggregate categories for the polygon", async () => {
+      const result = await storage.getPolygonAggregation(createTestPolygonSelection(0.02));
+      expect(result.count).toBe(2);
+      expect(result.artifacts).toHaveLength(2);
+      expect(Object.values(result.categories).reduce((sum, n) => sum + n, 0)).toBe(2);
+    });
+  });
+
+  describe("getArtifactsInCorridor", () => {
+    beforeEach(async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({ name: "On Line", lat: CT_CENTER.lat, lng: CT_CENTER.lng }),
+        createTestInsertArtifact({
+          name: "80m North",
+          lat: CT_CENTER.lat + 0.0007,
+          lng: CT_CENTER.lng,
+          layer: "substations",
+        }),
+        createTestInsertArtifact({ name: "200m North", lat: CT_CENTER.lat + 0.0018, lng: CT_CENTER.lng }),
+        // The line ends at +0.01° lng; 0.0005° further is ~40m, 0.0015° is ~125m
+        createTestInsertArtifact({ name: "Near End", lat: CT_CENTER.lat, lng: CT_CENTER.lng + 0.0105 }),
+        createTestInsertArtifact({ name: "Past End", lat: CT_CENTER.lat, lng: CT_CENTER.lng + 0.0115 }),
+      ]);
+    });
+
+    it("should return artifacts within the buffer of the line, including around its ends", async () => {
+      const results = await storage.getArtifactsInCorridor(createTestCorridorSelection(100));
+      expect(results.map((a) => a.name).sort()).toEqual(["80m North", "Near End", "On Line"]);
+    });
+
+    it("should widen with the buffer", async () => {
+      const results = await storage.getArtifactsInCorridor(createTestCorridorSelection(250));
+      expect(results).toHaveLength(5);
+    });
+
+    it("should measure to each segment of a bent line, not its bounding box", async () => {
+      const { lat, lng } = CT_CENTER;
+      await storage.createArtifact(
+        createTestInsertArtifact({ name: "Inside Bend", lat: lat + 0.01, lng: lng })
+      );
+
+      const results = await storage.getArtifactsInCorridor({
+        line: {
+          type: "LineString",
+          coordinates: [
+            [lng - 0.01, lat],
+            [lng + 0.01, lat],
+            [lng + 0.01, lat + 0.02],
+          ],
+        },
+        buffer: 100,
+      });
+      expect(results.map((a) => a.name)).not.toContain("Inside Bend");
+      expect(results.map((a) => a.name)).toContain("Near End");
+    });
+
+    it("should filter by layers", async () => {
+      const results = await storage.getArtifactsInCorridor(createTestCorridorSelection(100), [
+        "substations",
+      ]);
+      expect(results.map((a) => a.name)).toEqual(["80m North"]);
+    });
+
+    it("should aggregate categories for the corridor", async () => {
+      const result = await storage.getCorridorAggregation(createTestCorridorSelection(100));
+      expect(result.count).toBe(3);
+      expect(result.artifacts).toHaveLength(3);
+      expect(Object.values(result.categories).reduce((sum, n) => sum + n, 0)).toBe(3);
+    });
+  });
+
   describe("getViewportData", () => {
     describe("high zoom (>= 13) - returns singles", () => {
       beforeEach(async () => {
@@ -390,28 +687,677 @@ describe("MemStorage", () => {
         // Should have singles for the 2 artifacts in separate cell
         expect(result.singles.length).toBeGreaterThanOrEqual(0);
       });
+
+      it("should tag single-layer clusters with their layer", async () => {
+        const bounds = createTestBounds({
+          north: CT_CENTER.lat + 0.1,
+          south: CT_CENTER.lat - 0.1,
+          east: CT_CENTER.lng + 0.1,
+          west: CT_CENTER.lng - 0.1,
+        });
+
+        const single = await storage.getViewportData(bounds, 10, 5000);
+        expect(single.clusters[0].layer).toBe("utility-poc");
+
+        await storage.createArtifact(
+          createTestInsertArtifact({ layer: "eversource-substations", lat: CT_CENTER.lat, lng: CT_CENTER.lng })
+        );
+        const mixed = await storage.getViewportData(bounds, 10, 5000);
+        expect(mixed.clusters[0].layer).toBeUndefined();
+      });
+    });
+
+    describe("hierarchical clusters", () => {
+      const bounds = createTestBounds({
+        north: CT_CENTER.lat + 0.1,
+        south: CT_CENTER.lat - 0.1,
+        east: CT_CENTER.lng + 0.1,
+        west: CT_CENTER.lng - 0.1,
+      });
+
+      beforeEach(async () => {
+        // Two groups 0.02 degrees apart: one cluster at zoom 8, two at zoom 12
+        await storage.createManyArtifacts(
+          Array.from({ length: 20 }, (_, i) =>
+            createTestInsertArtifact({
+              name: `Group ${i % 2 ? "B" : "A"} ${i}`,
+              lat: CT_CENTER.lat + (i % 2) * 0.02 + (i % 5) * 0.0001,
+              lng: CT_CENTER.lng + (i % 5) * 0.0001,
+            })
+          )
+        );
+      });
+
+      it("should keep cluster IDs stable between requests", async () => {
+        const first = await storage.getViewportData(bounds, 12, 5000);
+        const second = await storage.getViewportData(bounds, 12, 5000);
+
+        expect(first.clusters).toHaveLength(2);
+        expect(second.clusters.map((c) => c.id)).toEqual(first.clusters.map((c) => c.id));
+      });
+
+      it("should return bounds and expansion zoom with each cluster", async () => {
+        const { clusters } = await storage.getViewportData(bounds, 8, 5000);
+
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].count).toBe(20);
+        expect(clusters[0].expansionZoom).toBeGreaterThan(8);
+        expect(clusters[0].bounds.south).toBeCloseTo(CT_CENTER.lat, 6);
+        expect(clusters[0].bounds.north).toBeCloseTo(CT_CENTER.lat + 0.0204, 6);
+        expect(clusters[0].bounds.west).toBeCloseTo(CT_CENTER.lng, 6);
+        expect(clusters[0].bounds.east).toBeCloseTo(CT_CENTER.lng + 0.0004, 6);
+      });
+
+      it("should split a cluster into the clusters shown at its expansion zoom", async () => {
+        const { clusters } = await storage.getViewportData(bounds, 8, 5000);
+        const children = await storage.getClusterChildren(clusters[0].id);
+        const expanded = await storage.getViewportData(bounds, clusters[0].expansionZoom, 5000);
+
+        expect(children!.clusters.map((c) => c.id).sort()).toEqual(expanded.clusters.map((c) => c.id).sort());
+        expect(children!.clusters.reduce((sum, c) => sum + c.count, 0) + children!.singles.length).toBe(20);
+      });
+
+      it("should count the categories in each cluster", async () => {
+        await storage.createArtifact(
+          createTestInsertArtifact({ category: "substation", lat: CT_CENTER.lat, lng: CT_CENTER.lng })
+        );
+
+        const { clusters } = await storage.getViewportData(bounds, 8, 5000);
+        const children = await storage.getClusterChildren(clusters[0].id);
+
+        expect(clusters[0].categories).toEqual({ transformer: 20, substation: 1 });
+        const childCounts = children!.clusters.map((c) => c.categories.substation ?? 0);
+        expect(childCounts.reduce((sum, n) => sum + n, 0)).toBe(1);
+      });
+
+      it("should page through the leaves of a cluster", async () => {
+        const { clusters } = await storage.getViewportData(bounds, 8, 5000);
+
+        const firstPage = await storage.getClusterLeaves(clusters[0].id, 15, 0);
+        const secondPage = await storage.getClusterLeaves(clusters[0].id, 15, 15);
+
+        expect(firstPage).toHaveLength(15);
+        expect(secondPage).toHaveLength(5);
+        expect(new Set([...firstPage!, ...secondPage!].map((a) => a.id)).size).toBe(20);
+      });
+
+      it("should return undefined for unknown clusters", async () => {
+        expect(await storage.getClusterChildren("cluster-3-missing")).toBeUndefined();
+        expect(await storage.getClusterLeaves("not-a-cluster", 10, 0)).toBeUndefined();
+      });
+
+      it("should rebuild clusters after writes", async () => {
+        const before = await storage.getViewportData(bounds, 8, 5000);
+        await storage.createArtifact(createTestInsertArtifact({ lat: CT_CENTER.lat, lng: CT_CENTER.lng }));
+        const after = await storage.getViewportData(bounds, 8, 5000);
+
+        expect(after.clusters[0].id).toBe(before.clusters[0].id);
+        expect(after.clusters[0].count).toBe(21);
+      });
+    });
+  });
+
+  describe("getVectorTile", () => {
+    // Tile containing CT_CENTER at a zoom
+    const tileAt = (z: number): [number, number, number] => [
+      z,
+      Math.floor(lngX(CT_CENTER.lng) * 2 ** z),
+      Math.floor(latY(CT_CENTER.lat) * 2 ** z),
+    ];
+
+    beforeEach(async () => {
+      await storage.createManyArtifacts(
+        Array.from({ length: 10 }, (_, i) =>
+          createTestInsertArtifact({
+            name: `Tile ${i}`,
+            category: i < 8 ? "pole" : "meter",
+            lat: CT_CENTER.lat + i * 0.00001,
+            lng: CT_CENTER.lng,
+          })
+        )
+      );
+    });
+
+    it("should encode clusters at low zoom", async () => {
+      const layers = decodeVectorTile(await storage.getVectorTile(...tileAt(8)));
+
+      expect(layers.map((layer) => layer.name)).toEqual(["clusters"]);
+      expect(layers[0].features[0].properties).toMatchObject({
+        count: 10,
+        layer: "utility-poc",
+        categories: JSON.stringify({ pole: 8, meter: 2 }),
+      });
+    });
+
+    it("should encode artifacts above the clustering zooms", async () => {
+      const layers = decodeVectorTile(await storage.getVectorTile(...tileAt(16)));
+
+      expect(layers.map((layer) => layer.name)).toEqual(["artifacts"]);
+      expect(layers[0].features).toHaveLength(10);
+      expect(layers[0].features.map((f) => f.properties.name)).toContain("Tile 0");
+    });
+
+    it("should apply layer and attribute filters", async () => {
+      const tile = await storage.getVectorTile(...tileAt(16), ["utility-poc"], { categories: ["meter"] });
+      expect(decodeVectorTile(tile)[0].features).toHaveLength(2);
+
+      expect(await storage.getVectorTile(...tileAt(16), ["eversource-substations"])).toHaveLength(0);
+    });
+
+    it("should return an empty tile away from the artifacts", async () => {
+      const [z, x, y] = tileAt(10);
+      expect(await storage.getVectorTile(z, x + 3, y)).toHaveLength(0);
+    });
+  });
+
+  describe("getDensity", () => {
+    beforeEach(async () => {
+      await storage.createManyArtifacts([
+        ...Array.from({ length: 6 }, (_, i) =>
+          createTestInsertArtifact({ category: "meter", lat: CT_CENTER.lat + i * 0.0001, lng: CT_CENTER.lng })
+        ),
+        createTestInsertArtifact({ category: "substation", lat: CT_CENTER.lat + 0.5, lng: CT_CENTER.lng }),
+        createTestInsertArtifact({ category: "substation", layer: "eversource-substations" }),
+      ]);
+    });
+
+    it("should count artifacts per hexagon", async () => {
+      const density = await storage.getDensity(CT_BOUNDS, 9.6);
+
+      expect(density.zoom).toBe(9);
+      expect(density.total).toBe(8);
+      expect(density.max).toBe(7);
+      expect(density.cells.map((cell) => cell.count).sort()).toEqual([1, 7]);
+    });
+
+    it("should apply layer and attribute filters", async () => {
+      const meters = await storage.getDensity(CT_BOUNDS, 9, ["utility-poc"], { categories: ["meter"] });
+      expect(meters.total).toBe(6);
+
+      const substations = await storage.getDensity(CT_BOUNDS, 9, ["eversource-substations"]);
+      expect(substations.total).toBe(1);
+    });
+
+    it("should count the points of edge hexagons that lie outside the bounds", async () => {
+      // Bounds ending just south of the cluster of meters
+      const bounds = createTestBounds({ north: CT_CENTER.lat - 0.001, south: CT_CENTER.lat - 0.2 });
+      const density = await storage.getDensity(bounds, 9, undefined, { categories: ["meter"] });
+
+      expect(density.total).toBe(6);
+    });
+  });
+
+  describe("attribute filters", () => {
+    beforeEach(async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({
+          name: "Hartford Substation",
+          category: "substation",
+          description: "Main substation",
+        }),
+        createTestInsertArtifact({
+          name: "Utility Pole #1",
+          category: "pole",
+          description: "Near Hartford",
+        }),
+        createTestInsertArtifact({
+          name: "Smart Meter",
+          category: "meter",
+          description: "Residential meter",
+        }),
+      ]);
+    });
+
+    it("should match search text in name or description case-insensitively", async () => {
+      const results = await storage.getAllArtifacts(undefined, { search: "HARTFORD" });
+      expect(results.map((a) => a.name).sort()).toEqual([
+        "Hartford Substation",
+        "Utility Pole #1",
+      ]);
+    });
+
+    it("should filter by categories", async () => {
+      const results = await storage.getArtifactsInBounds(CT_BOUNDS, undefined, {
+        categories: ["meter", "pole"],
+      });
+      expect(results.map((a) => a.category).sort()).toEqual(["meter", "pole"]);
+    });
+
+    it("should filter by date range on createdAt", async () => {
+      const hourAgo = new Date(Date.now() - 3600000).toISOString();
+      const hourAhead = new Date(Date.now() + 3600000).toISOString();
+
+      expect(await storage.getAllArtifacts(undefined, { from: hourAgo, to: hourAhead })).toHaveLength(3);
+      expect(await storage.getAllArtifacts(undefined, { from: hourAhead })).toHaveLength(0);
+      expect(await storage.getAllArtifacts(undefined, { to: hourAgo })).toHaveLength(0);
+    });
+
+    it("should combine filters with layers in counts", async () => {
+      expect(
+        await storage.getArtifactCount(["utility-poc"], { search: "hartford", categories: ["pole"] })
+      ).toBe(1);
+      expect(await storage.getArtifactCount(["eversource-substations"], { search: "hartford" })).toBe(0);
+    });
+
+    it("should cluster only matching artifacts in viewport data", async () => {
+      const result = await storage.getViewportData(CT_BOUNDS, 15, 100, undefined, {
+        categories: ["substation"],
+      });
+      expect(result.total).toBe(1);
+      expect(result.singles[0].name).toBe("Hartford Substation");
+    });
+
+    it("should evaluate where expressions against metadata", async () => {
+      await storage.createArtifact(
+        createTestInsertArtifact({ name: "Old Meter", category: "meter", metadata: { status: "retired" } })
+      );
+
+      const retired = await storage.getAllArtifacts(undefined, { where: "status = 'retired'" });
+      expect(retired.map((a) => a.name)).toEqual(["Old Meter"]);
+      expect(
+        await storage.getArtifactCount(undefined, { where: "voltage EXISTS", categories: ["meter"] })
+      ).toBe(1);
+    });
+
+    it("should apply filters to circle and polygon selections", async () => {
+      const circle = createTestCircleSelection({ radius: 1000 });
+      const polygon = createTestPolygonSelection(0.01);
+
+      const inCircle = await storage.getAggregation(circle, undefined, { categories: ["pole"] });
+      expect(inCircle.count).toBe(1);
+      expect(inCircle.categories).toEqual({ pole: 1 });
+
+      const inPolygon = await storage.getArtifactsInPolygon(polygon, undefined, {
+        where: "status NOT IN ('active')",
+      });
+      expect(inPolygon).toHaveLength(0);
+    });
+  });
+
+  describe("layer management", () => {
+    it("should update editable layer fields", async () => {
+      const updated = await storage.updateLayer("utility-poc", {
+        name: "Renamed",
+        sourceDate: "2025-01-15",
+        style: { color: "#ff0000" },
+      });
+
+      expect(updated).toMatchObject({ id: "utility-poc", name: "Renamed", sourceDate: "2025-01-15" });
+      expect((await storage.getLayer("utility-poc"))?.style).toEqual({ color: "#ff0000" });
+    });
+
+    it("should return undefined when updating a missing layer", async () => {
+      expect(await storage.updateLayer("missing", { name: "x" })).toBeUndefined();
+    });
+
+    it("should delete a layer with its artifacts", async () => {
+      await storage.createArtifact(createTestInsertArtifact({ layer: "utility-poc" }));
+      await storage.createArtifact(createTestInsertArtifact({ layer: "eversource-substations" }));
+
+      await storage.deleteLayer("utility-poc");
+
+      expect(await storage.getLayer("utility-poc")).toBeUndefined();
+      expect(await storage.getArtifactCount()).toBe(1);
+      expect(await storage.getArtifactsInBounds(CT_BOUNDS)).toHaveLength(1);
+    });
+
+    it("should reassign artifacts to another layer on delete", async () => {
+      await storage.createArtifact(createTestInsertArtifact({ layer: "utility-poc" }));
+      await storage.createArtifact(createTestInsertArtifact({ layer: "utility-poc" }));
+
+      await storage.deleteLayer("utility-poc", { reassignTo: "eversource-substations" });
+
+      expect(await storage.getLayer("utility-poc")).toBeUndefined();
+      expect((await storage.getLayer("eversource-substations"))?.artifactCount).toBe(2);
+      expect(await storage.getArtifactCount(["eversource-substations"])).toBe(2);
+      const inBounds = await storage.getArtifactsInBounds(CT_BOUNDS, ["eversource-substations"]);
+      expect(inBounds).toHaveLength(2);
+    });
+  });
+
+  describe("getFacets", () => {
+    beforeEach(async () => {
+      await storage.createArtifact(
+        createTestInsertArtifact({ category: "substation", metadata: { status: "active", state: "CT" } })
+      );
+      await storage.createArtifact(
+        createTestInsertArtifact({ category: "substation", metadata: { status: "planned", state: "CT" } })
+      );
+      await storage.createArtifact(
+        createTestInsertArtifact({
+          category: "tap",
+          layer: "eversource-substations",
+          metadata: { status: "active", electrical: { class: "HV" } },
+        })
+      );
+      await storage.createArtifact(
+        createTestInsertArtifact({ category: "pole", lat: CT_CENTER.lat + 5, metadata: { status: "active" } })
+      );
+    });
+
+    it("should count categories and metadata values within bounds", async () => {
+      const facets = await storage.getFacets(["status", "state"], CT_BOUNDS);
+
+      expect(facets.total).toBe(3);
+      expect(facets.categories).toEqual({ substation: 2, tap: 1 });
+      expect(facets.fields.status).toEqual({ active: 2, planned: 1 });
+      expect(facets.fields.state).toEqual({ CT: 2 });
+    });
+
+    it("should count everything without bounds and support nested fields", async () => {
+      const facets = await storage.getFacets(["electrical.class"]);
+
+      expect(facets.total).toBe(4);
+      expect(facets.categories.pole).toBe(1);
+      expect(facets.fields["electrical.class"]).toEqual({ HV: 1 });
+    });
+
+    it("should scope by layer", async () => {
+      const facets = await storage.getFacets([], CT_BOUNDS, ["eversource-substations"]);
+      expect(facets.categories).toEqual({ tap: 1 });
+    });
+
+    it("should keep counts for unselected categories when filtering by category", async () => {
+      const facets = await storage.getFacets(["status"], CT_BOUNDS, undefined, { categories: ["tap"] });
+
+      expect(facets.categories).toEqual({ substation: 2, tap: 1 });
+      expect(facets.total).toBe(1);
+      expect(facets.fields.status).toEqual({ active: 1 });
+    });
+  });
+
+  describe("getMetadataFields", () => {
+    it("should list nested fields with their dominant type and values", async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({
+          metadata: { status: "active", voltage_kv: 115, automated: true, owner: { name: "A" } },
+        }),
+        createTestInsertArtifact({ metadata: { status: "retired", voltage_kv: 345, automated: false } }),
+        createTestInsertArtifact({ metadata: { status: "active", voltage_kv: "unknown", "bad key": 1 } }),
+        createTestInsertArtifact({ layer: "eversource-substations", metadata: { hifld_id: "X1" } }),
+      ]);
+
+      const fields = await storage.getMetadataFields(["utility-poc"]);
+
+      expect(fields.map((f) => f.path)).toEqual(["automated", "owner.name", "status", "voltage_kv"]);
+      expect(fields.find((f) => f.path === "status")).toEqual({
+        path: "status",
+        type: "string",
+        count: 3,
+        values: ["active", "retired"],
+      });
+      expect(fields.find((f) => f.path === "voltage_kv")).toEqual({
+        path: "voltage_kv",
+        type: "number",
+        count: 2,
+        min: 115,
+        max: 345,
+      });
+      expect(fields.find((f) => f.path === "automated")?.type).toBe("boolean");
+    });
+
+    it("should omit values for strings with many distinct values", async () => {
+      await storage.createManyArtifacts(
+        Array.from({ length: 30 }, (_, i) => createTestInsertArtifact({ metadata: { serial: `S-${i}` } }))
+      );
+
+      const [serial] = await storage.getMetadataFields();
+      expect(serial).toEqual({ path: "serial", type: "string", count: 30 });
     });
+  });
+
+  describe("history", () => {
+    const bounds = createTestBounds();
 
-    describe("getClusterGridSize", () => {
-      it("should use correct grid sizes for different zoom levels", async () => {
-        await storage.createArtifact(createTestInsertArtifact());
-        const bounds = createTestBounds();
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2026-01-01T00:00:00.000Z"));
+    });
 
-        // We can't directly test private method, but we can verify behavior
-        // At zoom 6, grid size is 2 degrees
-        // At zoom 10, grid size is 0.5 degrees
-        // At zoom 12, grid size is 0.1 degrees
+    afterEach(() => {
+      vi.useRealTimers();
+    });
 
-        const result6 = await storage.getViewportData(bounds, 6, 5000);
-        const result10 = await storage.getViewportData(bounds, 10, 5000);
-        const result12 = await storage.getViewportData(bounds, 12, 5000);
+    it("should record creates, updates and deletes with the actor", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact({ name: "Pole" }), { actor: "client-a" });
+      vi.setSystemTime(new Date("2026-02-01T00:00:00.000Z"));
+      const updated = await storage.updateArtifact(created.id, { name: "Pole 2" }, { actor: "client-b" });
+      await storage.deleteArtifact(created.id);
+
+      const history = await storage.getArtifactHistory(created.id);
+      expect(history.map((entry) => entry.action)).toEqual(["delete", "update", "create"]);
+      expect(history[2]).toMatchObject({ after: created, changedBy: "client-a", changedAt: "2026-01-01T00:00:00.000Z" });
+      expect(history[1]).toMatchObject({ before: created, after: updated, changedBy: "client-b" });
+      expect(history[0]).toMatchObject({ before: updated, changedAt: "2026-02-01T00:00:00.000Z" });
+      expect(history[0].after).toBeUndefined();
+    });
+
+    it("should not record updates of missing artifacts", async () => {
+      await storage.updateArtifact("missing", { name: "Nothing" });
+
+      expect(await storage.getArtifactHistory("missing")).toEqual([]);
+    });
+
+    it("should record artifacts moved or deleted with their layer", async () => {
+      await storage.createLayer({ id: "old", name: "Old" });
+      await storage.createLayer({ id: "gone", name: "Gone" });
+      const moved = await storage.createArtifact(createTestInsertArtifact({ layer: "old" }));
+      const deleted = await storage.createArtifact(createTestInsertArtifact({ layer: "gone" }));
+
+      await storage.deleteLayer("old", { reassignTo: "utility-poc", actor: "client-a" });
+      await storage.deleteLayer("gone");
+
+      const [reassigned] = await storage.getArtifactHistory(moved.id);
+      expect(reassigned).toMatchObject({ action: "update", changedBy: "client-a", after: { layer: "utility-poc" } });
+      expect((await storage.getArtifactHistory(deleted.id))[0].action).toBe("delete");
+    });
+
+    it("should return artifacts in bounds as they were at asOf", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact({ lat: CT_CENTER.lat, lng: CT_CENTER.lng }));
+      vi.setSystemTime(new Date("2026-02-01T00:00:00.000Z"));
+      await storage.updateArtifact(created.id, { lat: CT_CENTER.lat + 1, metadata: { status: "moved" } });
+      await storage.createArtifact(createTestInsertArtifact());
+
+      expect(await storage.getArtifactsInBounds(bounds)).toHaveLength(1);
+      expect(await storage.getArtifactsInBounds(bounds, undefined, undefined, "2026-01-15T00:00:00.000Z")).toEqual([
+        created,
+      ]);
+      expect(await storage.getArtifactsInBounds(bounds, undefined, undefined, "2025-12-31T00:00:00.000Z")).toEqual([]);
+    });
+
+    it("should apply layers and filters to asOf queries", async () => {
+      await storage.createArtifact(createTestInsertArtifact({ name: "Pole", category: "pole" }));
+      await storage.createArtifact(createTestInsertArtifact({ name: "Meter", category: "meter" }));
+      const asOf = "2026-01-01T00:00:00.000Z";
+
+      expect(await storage.getArtifactsInBounds(bounds, ["other"], undefined, asOf)).toEqual([]);
+      const poles = await storage.getArtifactsInBounds(bounds, undefined, { categories: ["pole"] }, asOf);
+      expect(poles.map((a) => a.name)).toEqual(["Pole"]);
+    });
+
+    it("should include deleted artifacts in earlier viewports", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact());
+      vi.setSystemTime(new Date("2026-02-01T00:00:00.000Z"));
+      await storage.deleteArtifact(created.id);
+
+      const then = await storage.getViewportData(bounds, 15, 5000, undefined, undefined, "2026-01-15T00:00:00.000Z");
+      const now = await storage.getViewportData(bounds, 15, 5000);
+      expect(then.singles).toEqual([created]);
+      expect(now.singles).toEqual([]);
+
+      const clustered = await storage.getViewportData(bounds, 8, 5000, undefined, undefined, "2026-01-15T00:00:00.000Z");
+      expect(clustered.total).toBe(1);
+    });
+  });
+
+  describe("restricted layers", () => {
+    const restricted = { restrictedLayers: ["hifld"] };
+
+    beforeEach(async () => {
+      await storage.createManyArtifacts([
+        createTestInsertArtifact({ layer: "poles", category: "pole" }),
+        createTestInsertArtifact({ layer: "poles", category: "pole", lat: CT_CENTER.lat + 0.001 }),
+        createTestInsertArtifact({ layer: "hifld", category: "substation", metadata: { criticality: "high" } }),
+      ]);
+    });
+
+    it("should leave restricted artifacts out of every query", async () => {
+      const circle = createTestCircleSelection({ radius: 1000 });
+
+      expect(await storage.getAllArtifacts(undefined, restricted)).toHaveLength(2);
+      expect(await storage.getArtifactsInBounds(createTestBounds(), ["hifld"], restricted)).toHaveLength(0);
+      expect((await storage.getAggregation(circle, undefined, restricted)).categories).toEqual({ pole: 2 });
+      expect(await storage.getArtifactCount(undefined, restricted)).toBe(2);
+      expect(await storage.getNearestArtifacts({ ...CT_CENTER, k: 5 }, undefined, restricted)).toHaveLength(2);
+
+      const facets = await storage.getFacets(["criticality"], undefined, undefined, { categories: ["pole"], ...restricted });
+      expect(facets.categories).toEqual({ pole: 2 });
+      expect(facets.fields.criticality).toEqual({});
+
+      const fields = await storage.getMetadataFields(undefined, restricted);
+      expect(fields.map((field) => field.path)).not.toContain("criticality");
+    });
+
+    it("should leave restricted artifacts out of clusters built for other users", async () => {
+      const bounds = createTestBounds();
+      expect((await storage.getViewportData(bounds, 5, 100)).total).toBe(3);
+
+      const viewport = await storage.getViewportData(bounds, 5, 100, undefined, restricted);
+      expect(viewport.total).toBe(2);
+      expect(viewport.clusters.every((cluster) => cluster.categories.substation === undefined)).toBe(true);
+    });
 
-        // All should return valid viewport data
-        expect(result6).toBeDefined();
-        expect(result10).toBeDefined();
-        expect(result12).toBeDefined();
+    it("should leave restricted artifacts out of point-in-time queries", async () => {
+      const asOf = new Date(Date.now() + 1000).toISOString();
+
+      expect(await storage.getArtifactsInBounds(createTestBounds(), undefined, restricted, asOf)).toHaveLength(2);
+    });
+  });
+
+  describe("preferences", () => {
+    it("should return empty preferences for a new client", async () => {
+      expect(await storage.getPreferences("client-new")).toEqual({ layerVisibility: {} });
+    });
+
+    it("should merge layer visibility updates", async () => {
+      await storage.updatePreferences("client-a", { layerVisibility: { "utility-poc": false } });
+      const updated = await storage.updatePreferences("client-a", {
+        layerVisibility: { "eversource-substations": true },
+      });
+
+      expect(updated.layerVisibility).toEqual({ "utility-poc": false, "eversource-substations": true });
+    });
+
+    it("should keep the basemap when other preferences change", async () => {
+      await storage.updatePreferences("client-a", { basemap: "aerial" });
+      const updated = await storage.updatePreferences("client-a", { layerVisibility: { "utility-poc": false } });
+
+      expect(updated).toEqual({ layerVisibility: { "utility-poc": false }, basemap: "aerial" });
+      expect((await storage.updatePreferences("client-a", { basemap: "osm" })).basemap).toBe("osm");
+    });
+
+    it("should keep preferences separate per client", async () => {
+      await storage.updatePreferences("client-a", { layerVisibility: { "utility-poc": false } });
+
+      expect((await storage.getPreferences("client-b")).layerVisibility).toEqual({});
+      expect((await storage.getLayer("utility-poc"))?.visible).toBe(true);
+    });
+  });
+
+  describe("users", () => {
+    const insertUser = (username: string, role: "viewer" | "editor" | "admin" = "viewer") =>
+      storage.createUser({ username, passwordHash: "hash", role });
+
+    it("should create users and find them by username regardless of case", async () => {
+      const user = await insertUser("Alice", "editor");
+
+      expect(user).toMatchObject({ username: "Alice", role: "editor" });
+      expect(user).not.toHaveProperty("passwordHash");
+      expect(await storage.getUserByUsername("alice")).toMatchObject({ id: user.id, passwordHash: "hash" });
+      await expect(insertUser("ALICE")).rejects.toThrow();
+    });
+
+    it("should keep the groups of a user", async () => {
+      const user = await storage.createUser({ username: "dana", passwordHash: "hash", role: "viewer", groups: ["staff"] });
+      expect(user.groups).toEqual(["staff"]);
+      expect((await insertUser("erin")).groups).toEqual([]);
+
+      expect(await storage.updateUser(user.id, { groups: ["staff", "engineering"] })).toMatchObject({
+        role: "viewer",
+        groups: ["staff", "engineering"],
       });
     });
+
+    it("should list users by username", async () => {
+      await insertUser("carol");
+      await insertUser("bob");
+
+      expect((await storage.getUsers()).map((user) => user.username)).toEqual(["bob", "carol"]);
+    });
+
+    it("should end a user's sessions when the password changes", async () => {
+      const user = await insertUser("alice");
+      await storage.createSession("token", user.id, new Date(Date.now() + 60000));
+
+      await storage.updateUser(user.id, { role: "admin" });
+      expect(await storage.getSessionUser("token")).toMatchObject({ role: "admin" });
+
+      await storage.updateUser(user.id, { passwordHash: "new-hash" });
+      expect(await storage.getSessionUser("token")).toBeUndefined();
+      expect(await storage.updateUser("missing", { role: "admin" })).toBeUndefined();
+    });
+
+    it("should not return expired or deleted sessions", async () => {
+      const user = await insertUser("alice");
+      await storage.createSession("expired", user.id, new Date(Date.now() - 1000));
+      await storage.createSession("current", user.id, new Date(Date.now() + 60000));
+
+      expect(await storage.getSessionUser("expired")).toBeUndefined();
+      expect((await storage.getSessionUser("current"))?.id).toBe(user.id);
+
+      await storage.deleteSession("current");
+      expect(await storage.getSessionUser("current")).toBeUndefined();
+    });
+
+    it("should look up API keys by hash and record their use", async () => {
+      const user = await insertUser("script", "editor");
+      const key = await storage.createApiKey({
+        userId: user.id,
+        name: "Nightly import",
+        prefix: "mapui_abc",
+        keyHash: "key-hash",
+      });
+
+      expect(key.lastUsedAt).toBeUndefined();
+      expect((await storage.getApiKeyUser("key-hash"))?.username).toBe("script");
+      expect(await storage.getApiKeyUser("other-hash")).toBeUndefined();
+
+      const [listed] = await storage.getApiKeys(user.id);
+      expect(listed).toMatchObject({ id: key.id, name: "Nightly import", prefix: "mapui_abc" });
+      expect(listed.lastUsedAt).toBeDefined();
+      expect(listed).not.toHaveProperty("keyHash");
+    });
+
+    it("should only delete a user's own API keys", async () => {
+      const alice = await insertUser("alice");
+      const bob = await insertUser("bob");
+      const key = await storage.createApiKey({ userId: alice.id, name: "Key", prefix: "mapui_abc", keyHash: "key" });
+
+      expect(await storage.deleteApiKey(bob.id, key.id)).toBe(false);
+      expect(await storage.deleteApiKey(alice.id, key.id)).toBe(true);
+      expect(await storage.getApiKeyUser("key")).toBeUndefined();
+    });
+
+    it("should delete a user's sessions and API keys with the user", async () => {
+      const user = await insertUser("alice");
+      await storage.createSession("token", user.id, new Date(Date.now() + 60000));
+      await storage.createApiKey({ userId: user.id, name: "Key", prefix: "mapui_abc", keyHash: "key-hash" });
+
+      expect(await storage.deleteUser(user.id)).toBe(true);
+      expect(await storage.deleteUser(user.id)).toBe(false);
+      expect(await storage.getSessionUser("token")).toBeUndefined();
+      expect(await storage.getApiKeyUser("key-hash")).toBeUndefined();
+    });
   });
 
   describe("getArtifactCount", () => {
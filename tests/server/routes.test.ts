@@ -1,13 +1,25 @@
 import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
 import express, { type Express } from "express";
 import { createServer, type Server } from "http";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TileType } from "pmtiles";
 import { registerRoutes } from "../../server/routes";
 import { MemStorage } from "../../server/memStorage";
 import {
   createTestInsertArtifact,
+  createTestBounds,
   createTestCircleSelection,
+  createTestPolygonSelection,
+  createTestCorridorSelection,
   CT_CENTER,
 } from "../fixtures/artifacts";
+import { decodeVectorTile } from "../fixtures/vectorTiles";
+import { PNG_TILE, WEBP_TILE, writeMBTiles, writePMTiles } from "../fixtures/tileArchives";
+import { latY, lngX } from "../../server/mercator";
+import { hashPassword } from "../../server/auth";
+import type { ArtifactHistoryEntry, ChangeEvent } from "@shared/schema";
 
 // Mock console to prevent noisy output during tests
 vi.spyOn(console, "log").mockImplementation(() => {});
@@ -160,6 +172,39 @@ describe("API Routes", () => {
       expect(response.status).toBe(400);
     });
 
+    it("should only cluster artifacts matching the filters", async () => {
+      const params = new URLSearchParams({
+        north: "41.6",
+        south: "41.4",
+        east: "-72.6",
+        west: "-72.8",
+        zoom: "15",
+        categories: "pole",
+      });
+
+      const { response, data } = await fetchJson(`/api/artifacts/viewport?${params}`);
+
+      expect(response.status).toBe(200);
+      expect(data.total).toBe(1);
+      expect(data.singles[0].name).toBe("Test Pole");
+    });
+
+    it("should apply a where expression to viewport data", async () => {
+      const params = new URLSearchParams({
+        north: "41.6",
+        south: "41.4",
+        east: "-72.6",
+        west: "-72.8",
+        zoom: "15",
+        where: "status != 'active'",
+      });
+
+      const { response, data } = await fetchJson(`/api/artifacts/viewport?${params}`);
+
+      expect(response.status).toBe(200);
+      expect(data.total).toBe(0);
+    });
+
     it("should return 400 for invalid bounds (north < south)", async () => {
       const params = new URLSearchParams({
         north: "41.0", // less than south
@@ -206,6 +251,151 @@ describe("API Routes", () => {
       expect(data).toHaveProperty("count");
       expect(data.count).toBe(2);
     });
+
+    it("should apply search and category filters", async () => {
+      const { data: searchData } = await fetchJson("/api/artifacts/count?q=transformer");
+      expect(searchData.count).toBe(1);
+
+      const { data: categoryData } = await fetchJson("/api/artifacts/count?categories=pole,meter");
+      expect(categoryData.count).toBe(1);
+    });
+
+    it("should return 400 for invalid date filters", async () => {
+      const { response } = await fetchJson("/api/artifacts/count?from=not-a-date");
+      expect(response.status).toBe(400);
+    });
+
+    it("should apply a where expression on metadata", async () => {
+      const { data: total } = await fetchJson("/api/artifacts/count");
+      const active = new URLSearchParams({ where: "status = 'active' AND voltage IN ('13.8kV')" });
+      const { data: activeData } = await fetchJson(`/api/artifacts/count?${active}`);
+      expect(activeData.count).toBe(total.count);
+
+      const retired = new URLSearchParams({ where: "status = 'retired'" });
+      const { data: retiredData } = await fetchJson(`/api/artifacts/count?${retired}`);
+      expect(retiredData.count).toBe(0);
+    });
+
+    it("should return 400 with the parse error for an invalid where expression", async () => {
+      const params = new URLSearchParams({ where: "status = " });
+      const response = await fetch(`${baseUrl}/api/artifacts/count?${params}`);
+
+      expect(response.status).toBe(400);
+      const data = await response.json();
+      expect(data.error).toMatch(/^Invalid where expression: Expected a number/);
+    });
+  });
+
+  describe("GET /api/artifacts/facets", () => {
+    it("should return category and field counts for bounds and layers", async () => {
+      await fetchJson("/api/artifacts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          createTestInsertArtifact({ category: "facet-test", metadata: { status: "facet-status" } })
+        ),
+      });
+
+      const params = new URLSearchParams({
+        north: "42.1",
+        south: "40.9",
+        east: "-71.7",
+        west: "-73.8",
+        layers: "utility-poc",
+        fields: "status",
+      });
+      const { response, data } = await fetchJson(`/api/artifacts/facets?${params}`);
+
+      expect(response.status).toBe(200);
+      expect(data.categories["facet-test"]).toBeGreaterThanOrEqual(1);
+      expect(data.fields.status["facet-status"]).toBeGreaterThanOrEqual(1);
+      expect(data.total).toBeGreaterThanOrEqual(1);
+    });
+
+    it("should return 400 for partial bounds", async () => {
+      const { response } = await fetchJson("/api/artifacts/facets?north=42");
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for invalid fields", async () => {
+      const { response } = await fetchJson("/api/artifacts/facets?fields=status..bad");
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/metadata/fields", () => {
+    it("should list typed metadata fields for the given layers", async () => {
+      const { response, data } = await fetchJson("/api/metadata/fields?layers=utility-poc");
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual(
+        expect.arrayContaining([expect.objectContaining({ path: "status", type: "string" })])
+      );
+    });
+
+    it("should return no fields for a layer without artifacts", async () => {
+      const { data } = await fetchJson("/api/metadata/fields?layers=nonexistent-layer");
+      expect(data).toEqual([]);
+    });
+  });
+
+  describe("GET /api/artifacts/density", () => {
+    const boundsQuery = "north=42.1&south=40.9&east=-71.7&west=-73.8";
+
+    it("should return hexagon counts with filters", async () => {
+      const { response, data } = await fetchJson(`/api/artifacts/density?${boundsQuery}&zoom=8.5&categories=pole`);
+
+      expect(response.status).toBe(200);
+      expect(data.zoom).toBe(8);
+      expect(data.total).toBe(1);
+      expect(data.cells[0].boundary).toHaveLength(6);
+    });
+
+    it.each([
+      "zoom=8",
+      `${boundsQuery}`,
+      `${boundsQuery}&zoom=23`,
+      "north=40&south=41&east=-72&west=-73&zoom=8",
+      `${boundsQuery}&zoom=8&where=${encodeURIComponent("status =")}`,
+    ])("should return 400 for %s", async (query) => {
+      const { response } = await fetchJson(`/api/artifacts/density?${query}`);
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/artifacts/nearest", () => {
+    // Queried from Test Pole, the artifact furthest from where other tests create theirs
+    const poleQuery = `lat=${CT_CENTER.lat + 0.01}&lng=${CT_CENTER.lng + 0.01}`;
+
+    it("should return the nearest artifacts with distances", async () => {
+      const { response, data } = await fetchJson(`/api/artifacts/nearest?${poleQuery}&k=2&layers=utility-poc`);
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveLength(2);
+      expect(data[0].artifact.name).toBe("Test Pole");
+      expect(data[0].distance).toBe(0);
+      expect(data[1].distance).toBeGreaterThan(1000);
+    });
+
+    it("should honour maxDistance and where expressions", async () => {
+      const { data: close } = await fetchJson(`/api/artifacts/nearest?${poleQuery}&maxDistance=100`);
+      expect(close.map((n: { artifact: { name: string } }) => n.artifact.name)).toEqual(["Test Pole"]);
+
+      const where = encodeURIComponent("status = 'retired'");
+      const { data: none } = await fetchJson(`/api/artifacts/nearest?${poleQuery}&where=${where}`);
+      expect(none).toEqual([]);
+    });
+
+    it.each([
+      "lng=-72.7",
+      "lat=41.5&lng=-72.7&k=0",
+      "lat=41.5&lng=-72.7&k=51",
+      "lat=41.5&lng=-72.7&k=2.5",
+      "lat=41.5&lng=-72.7&maxDistance=-1",
+    ])("should return 400 for %s", async (query) => {
+      const { response } = await fetchJson(`/api/artifacts/nearest?${query}`);
+      expect(response.status).toBe(400);
+    });
   });
 
   describe("GET /api/artifacts/:id", () => {
@@ -280,6 +470,85 @@ describe("API Routes", () => {
     });
   });
 
+  describe("PATCH /api/artifacts/:id", () => {
+    it("should update an artifact", async () => {
+      const created = await storage.createArtifact(
+        createTestInsertArtifact({ name: "Misplaced Substation", category: "substation" })
+      );
+
+      const { response, data } = await fetchJson(`/api/artifacts/${created.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lat: 41.6, lng: -72.8 }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(data.id).toBe(created.id);
+      expect(data.name).toBe("Misplaced Substation");
+      expect(data.lat).toBe(41.6);
+      expect(data.lng).toBe(-72.8);
+
+      await storage.deleteArtifact(created.id);
+    });
+
+    it("should return 400 for invalid update data", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact());
+
+      const { response } = await fetchJson(`/api/artifacts/${created.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lat: 91 }),
+      });
+
+      expect(response.status).toBe(400);
+      await storage.deleteArtifact(created.id);
+    });
+
+    it("should return 400 for an empty update", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact());
+
+      const { response } = await fetchJson(`/api/artifacts/${created.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      expect(response.status).toBe(400);
+      await storage.deleteArtifact(created.id);
+    });
+
+    it("should return 404 for non-existent artifact", async () => {
+      const { response } = await fetchJson("/api/artifacts/non-existent-id", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Nope" }),
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("DELETE /api/artifacts/:id", () => {
+    it("should delete an artifact", async () => {
+      const created = await storage.createArtifact(createTestInsertArtifact());
+
+      const { response } = await fetchJson(`/api/artifacts/${created.id}`, {
+        method: "DELETE",
+      });
+
+      expect(response.status).toBe(204);
+      expect(await storage.getArtifact(created.id)).toBeUndefined();
+    });
+
+    it("should return 404 for non-existent artifact", async () => {
+      const { response } = await fetchJson("/api/artifacts/non-existent-id", {
+        method: "DELETE",
+      });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe("POST /api/artifacts/query/circle", () => {
     it("should query artifacts in circle", async () => {
       const circle = createTestCircleSelection({ radius: 5000 }); // 5km radius
@@ -311,6 +580,32 @@ describe("API Routes", () => {
       expect(response.status).toBe(400);
     });
 
+    it("should apply a filter from the body", async () => {
+      const query = (where: string) =>
+        fetchJson("/api/artifacts/query/circle", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ circle: createTestCircleSelection({ radius: 100 }), filter: { where } }),
+        });
+
+      const { data: active } = await query("status = 'active'");
+      expect(active.artifacts.map((a: { name: string }) => a.name)).toContain("Test Transformer");
+
+      const { data: retired } = await query("status = 'retired'");
+      expect(retired.count).toBe(0);
+    });
+
+    it("should return 400 for an invalid filter", async () => {
+      const response = await fetch(`${baseUrl}/api/artifacts/query/circle`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ circle: createTestCircleSelection(), filter: { where: "status ==" } }),
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(/^Invalid where expression/);
+    });
+
     it("should return 400 for negative radius", async () => {
       const invalidCircle = {
         center: { lat: 41.5, lng: -72.7 },
@@ -327,97 +622,588 @@ describe("API Routes", () => {
     });
   });
 
-  describe("GET /tiles/:layer/:z/:x/:y.:format", () => {
-    it("should return 204 for non-existent tile", async () => {
-      const { response } = await fetchJson("/tiles/basemap/10/300/400.png");
-      expect(response.status).toBe(204);
-    });
+  describe("POST /api/artifacts/query/polygon", () => {
+    it("should query artifacts in polygon", async () => {
+      const polygon = createTestPolygonSelection(0.005);
 
-    it("should return 400 for invalid tile coordinates", async () => {
-      const { response } = await fetchJson("/tiles/basemap/abc/300/400.png");
-      expect(response.status).toBe(400);
+      const { response, data } = await fetchJson("/api/artifacts/query/polygon", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(polygon),
+      });
+
+      expect(response.status).toBe(200);
+      expect(data.count).toBe(data.artifacts.length);
+      const names = data.artifacts.map((a: { name: string }) => a.name);
+      expect(names).toContain("Test Transformer");
+      expect(names).not.toContain("Test Pole"); // 0.01° away, outside the polygon
     });
 
-    it("should return 400 for invalid zoom level", async () => {
-      const { response } = await fetchJson("/tiles/basemap/25/300/400.png");
-      expect(response.status).toBe(400);
+    it("should accept a wrapped polygon with a layers filter", async () => {
+      const { response, data } = await fetchJson("/api/artifacts/query/polygon", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          polygon: createTestPolygonSelection(0.05),
+          layers: ["nonexistent-layer"],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(data.count).toBe(0);
     });
+  });
 
-    it("should return 400 for invalid format", async () => {
-      const { response } = await fetchJson("/tiles/basemap/10/300/400.gif");
-      expect(response.status).toBe(400);
+  describe("POST /api/artifacts/export", () => {
+    it("should export a circle selection as GeoJSON", async () => {
+      const response = await fetch(`${baseUrl}/api/artifacts/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: "geojson", circle: createTestCircleSelection({ radius: 100 }) }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain("application/geo+json");
+      expect(response.headers.get("content-disposition")).toMatch(/attachment; filename="artifacts-.*\.geojson"/);
+
+      const collection = await response.json();
+      expect(collection.type).toBe("FeatureCollection");
+      const names = collection.features.map((f: { properties: { name: string } }) => f.properties.name);
+      expect(names).toContain("Test Transformer");
+      expect(names).not.toContain("Test Pole");
     });
 
-    it("should return 400 for invalid layer name with special characters", async () => {
-      // Layer names with dots are invalid (regex requires alphanumeric, underscore, hyphen only)
-      const { response } = await fetchJson("/tiles/layer.name/10/300/400.png");
-      expect(response.status).toBe(400);
+    it("should apply the filter to a polygon export", async () => {
+      const response = await fetch(`${baseUrl}/api/artifacts/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format: "geojson",
+          polygon: createTestPolygonSelection(0.05),
+          filter: { where: "status = 'retired'" },
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).features).toHaveLength(0);
     });
 
-    it("should return 400 for layer name with spaces (encoded)", async () => {
-      const { response } = await fetchJson("/tiles/layer%20name/10/300/400.png");
-      expect(response.status).toBe(400);
+    it("should export a corridor selection", async () => {
+      const response = await fetch(`${baseUrl}/api/artifacts/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: "geojson", corridor: createTestCorridorSelection(200) }),
+      });
+
+      expect(response.status).toBe(200);
+      const names = (await response.json()).features.map(
+        (f: { properties: { name: string } }) => f.properties.name
+      );
+      expect(names).toContain("Test Transformer");
+      expect(names).not.toContain("Test Pole");
     });
-  });
 
-  describe("GET /api/tiles/info", () => {
-    it("should return tile metadata", async () => {
-      const { response, data } = await fetchJson("/api/tiles/info");
+    it("should export bounds as CSV", async () => {
+      const response = await fetch(`${baseUrl}/api/artifacts/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: "csv", bounds: createTestBounds() }),
+      });
 
       expect(response.status).toBe(200);
-      expect(data).toHaveProperty("layers");
-      expect(data).toHaveProperty("formats");
-      expect(data).toHaveProperty("bounds");
-      expect(data).toHaveProperty("minZoom");
-      expect(data).toHaveProperty("maxZoom");
+      const csv = await response.text();
+      expect(csv.startsWith("id,name,category,layer,lat,lng")).toBe(true);
+      expect(csv).toContain("Test Pole");
     });
-  });
 
-  describe("GET /api/health", () => {
-    it("should return healthy status", async () => {
-      const { response, data } = await fetchJson("/api/health");
+    it("should export a layer list as KML", async () => {
+      const response = await fetch(`${baseUrl}/api/artifacts/export`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: "kml", layers: ["nonexistent-layer"] }),
+      });
 
       expect(response.status).toBe(200);
-      expect(data.status).toBe("healthy");
-      expect(data.storage).toBe("memory");
-      expect(typeof data.artifactCount).toBe("number");
+      const kml = await response.text();
+      expect(kml).toContain("<Document>");
+      expect(kml).not.toContain("<Placemark>");
+    });
+
+    it("should return 400 for an unknown format", async () => {
+      const { response } = await fetchJson("/api/artifacts/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: "shapefile" }),
+      });
+
+      expect(response.status).toBe(400);
     });
   });
-});
 
-describe("API Routes - Regression Tests", () => {
-  let app: Express;
-  let server: Server;
-  let storage: MemStorage;
-  let baseUrl: string;
+  describe("POST /api/import", () => {
+    it("should import CSV rows into the target layer", async () => {
+      const { response, data } = await fetchJson("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format: "csv",
+          layer: "route-import",
+          data: "name,category,lat,lng\nImported Pole,pole,41.6,-72.6\nBroken,pole,,\n",
+        }),
+      });
 
-  beforeAll(async () => {
-    app = express();
-    app.use(express.json());
-    storage = new MemStorage(true); // With seed data
+      expect(response.status).toBe(201);
+      expect(data).toMatchObject({ layer: "route-import", total: 2, valid: 1, imported: 1 });
+      expect(data.errors).toHaveLength(1);
+      expect(data.errors[0].row).toBe(3);
 
-    server = createServer(app);
-    await registerRoutes(server, app, storage);
+      const { data: count } = await fetchJson("/api/artifacts/count?layers=route-import");
+      expect(count.count).toBe(1);
+    });
 
-    await new Promise<void>((resolve) => {
-      server.listen(0, () => {
-        const address = server.address();
-        if (address && typeof address === "object") {
-          baseUrl = `http://localhost:${address.port}`;
-        }
-        resolve();
+    it("should not write anything in dry-run mode", async () => {
+      const { response, data } = await fetchJson("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          format: "geojson",
+          layer: "route-dry-run",
+          dryRun: true,
+          data: {
+            type: "FeatureCollection",
+            features: [
+              {
+                type: "Feature",
+                geometry: { type: "Point", coordinates: [-72.6, 41.6] },
+                properties: { name: "Dry", category: "pole" },
+              },
+            ],
+          },
+        }),
       });
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({ dryRun: true, valid: 1, imported: 0 });
+
+      const { data: count } = await fetchJson("/api/artifacts/count?layers=route-dry-run");
+      expect(count.count).toBe(0);
     });
-  });
 
-  afterAll(async () => {
-    await new Promise<void>((resolve) => {
-      server.close(() => resolve());
+    it("should return 400 for an invalid request", async () => {
+      const { response } = await fetchJson("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format: "xlsx", layer: "x", data: "" }),
+      });
+
+      expect(response.status).toBe(400);
     });
   });
 
-  async function fetchJson(path: string) {
-    const response = await fetch(`${baseUrl}${path}`);
+  describe("Layer management", () => {
+    async function send(method: string, path: string, body?: unknown) {
+      return fetchJson(path, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    }
+
+    it("should create a layer", async () => {
+      const { response, data } = await send("POST", "/api/layers", {
+        id: "admin-created",
+        name: "Admin Created",
+        sourceDate: "2025-03-01",
+      });
+
+      expect(response.status).toBe(201);
+      expect(data).toMatchObject({ id: "admin-created", name: "Admin Created", artifactCount: 0 });
+    });
+
+    it("should return 409 for a duplicate layer id", async () => {
+      await send("POST", "/api/layers", { id: "admin-duplicate", name: "First" });
+      const { response } = await send("POST", "/api/layers", { id: "admin-duplicate", name: "Second" });
+      expect(response.status).toBe(409);
+    });
+
+    it("should return 400 for an invalid layer id", async () => {
+      const { response } = await send("POST", "/api/layers", { id: "../etc", name: "Bad" });
+      expect(response.status).toBe(400);
+    });
+
+    it("should update layer fields", async () => {
+      await send("POST", "/api/layers", { id: "admin-edit", name: "Before" });
+      const { response, data } = await send("PATCH", "/api/layers/admin-edit", {
+        name: "After",
+        description: "Edited",
+        style: { color: "#123456" },
+      });
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({ name: "After", description: "Edited", style: { color: "#123456" } });
+    });
+
+    it("should return 404 when updating a missing layer", async () => {
+      const { response } = await send("PATCH", "/api/layers/admin-missing", { name: "x" });
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 409 when deleting a non-empty layer without an option", async () => {
+      await send("POST", "/api/layers", { id: "admin-full", name: "Full" });
+      await send("POST", "/api/artifacts", createTestInsertArtifact({ layer: "admin-full" }));
+
+      const { response } = await send("DELETE", "/api/layers/admin-full");
+      expect(response.status).toBe(409);
+    });
+
+    it("should reassign artifacts when deleting", async () => {
+      await send("POST", "/api/layers", { id: "admin-from", name: "From" });
+      await send("POST", "/api/layers", { id: "admin-to", name: "To" });
+      await send("POST", "/api/artifacts", createTestInsertArtifact({ layer: "admin-from" }));
+
+      const { response } = await send("DELETE", "/api/layers/admin-from?reassignTo=admin-to");
+      expect(response.status).toBe(204);
+
+      const { data: count } = await fetchJson("/api/artifacts/count?layers=admin-to");
+      expect(count.count).toBe(1);
+      const { response: gone } = await fetchJson("/api/layers/admin-from");
+      expect(gone.status).toBe(404);
+    });
+
+    it("should cascade delete artifacts", async () => {
+      await send("POST", "/api/layers", { id: "admin-cascade", name: "Cascade" });
+      await send("POST", "/api/artifacts", createTestInsertArtifact({ layer: "admin-cascade" }));
+
+      const { response } = await send("DELETE", "/api/layers/admin-cascade?cascade=true");
+      expect(response.status).toBe(204);
+
+      const { data: count } = await fetchJson("/api/artifacts/count?layers=admin-cascade");
+      expect(count.count).toBe(0);
+    });
+
+    it("should reject reassigning to a missing layer", async () => {
+      await send("POST", "/api/layers", { id: "admin-orphan", name: "Orphan" });
+      const { response } = await send("DELETE", "/api/layers/admin-orphan?reassignTo=admin-nowhere");
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Preferences", () => {
+    const clientHeaders = (clientId: string) => ({
+      "Content-Type": "application/json",
+      "X-Client-Id": clientId,
+    });
+
+    it("should return 400 without a client id", async () => {
+      const { response } = await fetchJson("/api/preferences");
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for a malformed client id", async () => {
+      const { response } = await fetchJson("/api/preferences", { headers: { "X-Client-Id": "bad id!" } });
+      expect(response.status).toBe(400);
+    });
+
+    it("should store layer visibility per client", async () => {
+      const { response, data } = await fetchJson("/api/preferences", {
+        method: "PATCH",
+        headers: clientHeaders("route-client-1"),
+        body: JSON.stringify({ layerVisibility: { "utility-poc": false } }),
+      });
+      expect(response.status).toBe(200);
+      expect(data.layerVisibility).toEqual({ "utility-poc": false });
+
+      const { data: other } = await fetchJson("/api/preferences", { headers: clientHeaders("route-client-2") });
+      expect(other.layerVisibility).toEqual({});
+
+      const { data: layer } = await fetchJson("/api/layers/utility-poc");
+      expect(layer.visible).toBe(true);
+    });
+
+    it("should merge visibility updates", async () => {
+      const headers = clientHeaders("route-client-3");
+      await fetchJson("/api/preferences", {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ layerVisibility: { "utility-poc": false } }),
+      });
+      await fetchJson("/api/preferences", {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ layerVisibility: { "eversource-substations": false } }),
+      });
+
+      const { data } = await fetchJson("/api/preferences", { headers });
+      expect(data.layerVisibility).toEqual({ "utility-poc": false, "eversource-substations": false });
+    });
+
+    it("should store the basemap per client", async () => {
+      const headers = clientHeaders("route-client-5");
+      const { data } = await fetchJson("/api/preferences", {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ basemap: "basemap" }),
+      });
+      expect(data).toEqual({ layerVisibility: {}, basemap: "basemap" });
+
+      const { data: stored } = await fetchJson("/api/preferences", { headers });
+      expect(stored.basemap).toBe("basemap");
+    });
+
+    it("should return 400 for invalid preferences", async () => {
+      const { response } = await fetchJson("/api/preferences", {
+        method: "PATCH",
+        headers: clientHeaders("route-client-4"),
+        body: JSON.stringify({ layerVisibility: { "utility-poc": "no" } }),
+      });
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for an invalid basemap id", async () => {
+      const { response } = await fetchJson("/api/preferences", {
+        method: "PATCH",
+        headers: clientHeaders("route-client-6"),
+        body: JSON.stringify({ basemap: "../etc" }),
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/artifacts/query/corridor", () => {
+    it("should query artifacts along the line", async () => {
+      const { response, data } = await fetchJson("/api/artifacts/query/corridor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(createTestCorridorSelection(200)),
+      });
+
+      expect(response.status).toBe(200);
+      expect(data.count).toBe(data.artifacts.length);
+      const names = data.artifacts.map((a: { name: string }) => a.name);
+      expect(names).toContain("Test Transformer");
+      expect(names).not.toContain("Test Pole"); // ~1.1km north of the line
+    });
+
+    it("should accept a wrapped corridor with a layers filter", async () => {
+      const { response, data } = await fetchJson("/api/artifacts/query/corridor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          corridor: createTestCorridorSelection(5000),
+          layers: ["nonexistent-layer"],
+        }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(data.count).toBe(0);
+    });
+
+    it("should return 400 for a single-point line", async () => {
+      const corridor = createTestCorridorSelection();
+      corridor.line.coordinates.pop();
+
+      const { response } = await fetchJson("/api/artifacts/query/corridor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(corridor),
+      });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/clusters/:id", () => {
+    // Five artifacts in the north-west corner, separated from the rest by a search filter
+    const filterQuery = "q=Route+Cluster&north=42.1&south=41.9&east=-73.1&west=-73.5&zoom=8&layers=utility-poc";
+    let clusterId: string;
+
+    beforeAll(async () => {
+      for (let i = 0; i < 5; i++) {
+        await storage.createArtifact(
+          createTestInsertArtifact({ name: `Route Cluster ${i}`, lat: 42 + i * 0.001, lng: -73.3 })
+        );
+      }
+      const { data } = await fetchJson(`/api/artifacts/viewport?${filterQuery}`);
+      clusterId = data.clusters[0].id;
+    });
+
+    it("should return the children of a cluster", async () => {
+      const { response, data } = await fetchJson(`/api/clusters/${clusterId}/children?${filterQuery}`);
+
+      expect(response.status).toBe(200);
+      const count =
+        data.clusters.reduce((sum: number, c: { count: number }) => sum + c.count, 0) + data.singles.length;
+      expect(count).toBe(5);
+    });
+
+    it("should page the leaves of a cluster", async () => {
+      const { response, data } = await fetchJson(
+        `/api/clusters/${clusterId}/leaves?${filterQuery}&limit=2&offset=4`
+      );
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveLength(1);
+      expect(data[0].name).toMatch(/^Route Cluster/);
+    });
+
+    it("should return 404 for an unknown cluster", async () => {
+      const { response: children } = await fetchJson("/api/clusters/cluster-8-missing/children");
+      const { response: leaves } = await fetchJson("/api/clusters/cluster-8-missing/leaves");
+
+      expect(children.status).toBe(404);
+      expect(leaves.status).toBe(404);
+    });
+
+    it.each(["limit=0", "limit=abc", "offset=-1"])("should return 400 for leaves with %s", async (query) => {
+      const { response } = await fetchJson(`/api/clusters/${clusterId}/leaves?${query}`);
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /tiles/artifacts/:z/:x/:y.mvt", () => {
+    // Zoom 14 tile containing Test Transformer at CT_CENTER
+    const tile = `14/${Math.floor(lngX(CT_CENTER.lng) * 2 ** 14)}/${Math.floor(latY(CT_CENTER.lat) * 2 ** 14)}`;
+
+    it("should return a vector tile with an ETag", async () => {
+      const response = await fetch(`${baseUrl}/tiles/artifacts/${tile}.mvt?categories=transformer`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("application/vnd.mapbox-vector-tile");
+      expect(response.headers.get("etag")).toMatch(/^"[\w-]+"$/);
+
+      const [layer] = decodeVectorTile(new Uint8Array(await response.arrayBuffer()));
+      expect(layer.name).toBe("artifacts");
+      expect(layer.features.map((f) => f.properties.name)).toContain("Test Transformer");
+    });
+
+    it("should return 304 for a matching If-None-Match", async () => {
+      const first = await fetch(`${baseUrl}/tiles/artifacts/${tile}.mvt`);
+      const etag = first.headers.get("etag")!;
+      await first.arrayBuffer();
+
+      // fetch adds "Cache-Control: no-cache" to conditional requests unless it is set, as a browser does
+      const second = await fetch(`${baseUrl}/tiles/artifacts/${tile}.mvt`, {
+        headers: { "If-None-Match": etag, "Cache-Control": "max-age=0" },
+      });
+      expect(second.status).toBe(304);
+    });
+
+    it("should return 204 for an empty tile", async () => {
+      const { response } = await fetchJson("/tiles/artifacts/3/0/0.mvt");
+      expect(response.status).toBe(204);
+    });
+
+    it.each(["23/0/0", "2/4/0", "2/0/-1", "2/1.5/0"])("should return 400 for %s", async (coordinates) => {
+      const { response } = await fetchJson(`/tiles/artifacts/${coordinates}.mvt`);
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /tiles/:layer/:z/:x/:y.:format", () => {
+    it("should return 204 for non-existent tile", async () => {
+      const { response } = await fetchJson("/tiles/basemap/10/300/400.png");
+      expect(response.status).toBe(204);
+    });
+
+    it("should return 400 for invalid tile coordinates", async () => {
+      const { response } = await fetchJson("/tiles/basemap/abc/300/400.png");
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for invalid zoom level", async () => {
+      const { response } = await fetchJson("/tiles/basemap/25/300/400.png");
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for invalid format", async () => {
+      const { response } = await fetchJson("/tiles/basemap/10/300/400.gif");
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for invalid layer name with special characters", async () => {
+      // Layer names with dots are invalid (regex requires alphanumeric, underscore, hyphen only)
+      const { response } = await fetchJson("/tiles/layer.name/10/300/400.png");
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for layer name with spaces (encoded)", async () => {
+      const { response } = await fetchJson("/tiles/layer%20name/10/300/400.png");
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("GET /api/tiles/info", () => {
+    it("should return tile metadata", async () => {
+      const { response, data } = await fetchJson("/api/tiles/info");
+
+      expect(response.status).toBe(200);
+      expect(data).toHaveProperty("layers");
+      expect(data).toHaveProperty("formats");
+      expect(data).toHaveProperty("bounds");
+      expect(data).toHaveProperty("minZoom");
+      expect(data).toHaveProperty("maxZoom");
+    });
+
+    it("should list OpenStreetMap as the basemap without local tiles", async () => {
+      const { data } = await fetchJson("/api/tiles/info");
+
+      expect(data.basemaps.map((basemap: { id: string }) => basemap.id)).toEqual(["osm"]);
+    });
+  });
+
+  describe("GET /api/health", () => {
+    it("should return healthy status", async () => {
+      const { response, data } = await fetchJson("/api/health");
+
+      expect(response.status).toBe(200);
+      expect(data.status).toBe("healthy");
+      expect(data.storage).toBe("memory");
+      expect(typeof data.artifactCount).toBe("number");
+    });
+
+    it("should ignore credentials when sign-in is not required", async () => {
+      const basic = await fetchJson("/api/health", { headers: { Authorization: "Basic dXNlcjpwYXNz" } });
+      expect(basic.response.status).toBe(200);
+
+      const revoked = await fetchJson("/api/layers", { headers: { Authorization: "Bearer mapui_revoked" } });
+      expect(revoked.response.status).toBe(200);
+    });
+  });
+});
+
+describe("API Routes - Regression Tests", () => {
+  let app: Express;
+  let server: Server;
+  let storage: MemStorage;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    app = express();
+    app.use(express.json());
+    storage = new MemStorage(true); // With seed data
+
+    server = createServer(app);
+    await registerRoutes(server, app, storage);
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, () => {
+        const address = server.address();
+        if (address && typeof address === "object") {
+          baseUrl = `http://localhost:${address.port}`;
+        }
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  });
+
+  async function fetchJson(path: string) {
+    const response = await fetch(`${baseUrl}${path}`);
     return { response, data: response.ok ? await response.json() : null };
   }
 
@@ -525,3 +1311,852 @@ describe("API Routes - Regression Tests", () => {
     });
   });
 });
+
+describe("API Routes - Tile Archives", () => {
+  let server: Server;
+  let tileDir: string;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    tileDir = fs.mkdtempSync(path.join(os.tmpdir(), "route-tiles-"));
+    writeMBTiles(path.join(tileDir, "streets.mbtiles"), [{ z: 1, x: 0, y: 1, data: PNG_TILE }], {
+      name: "Streets",
+      format: "png",
+      minzoom: "1",
+      maxzoom: "1",
+    });
+    writePMTiles(path.join(tileDir, "aerial.pmtiles"), [{ z: 2, x: 1, y: 2, data: WEBP_TILE }], {
+      tileType: TileType.Webp,
+      bounds: { west: -73.7278, south: 40.9509, east: -71.7872, north: 42.0505 },
+      minZoom: 2,
+      maxZoom: 2,
+      metadata: { attribution: "Imagery" },
+    });
+    // Loose files still serve layers without an archive
+    fs.mkdirSync(path.join(tileDir, "custom", "3", "4"), { recursive: true });
+    fs.writeFileSync(path.join(tileDir, "custom", "3", "4", "5.png"), PNG_TILE);
+
+    const app = express();
+    server = createServer(app);
+    await registerRoutes(server, app, new MemStorage(false), tileDir);
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, () => {
+        const address = server.address();
+        if (address && typeof address === "object") {
+          baseUrl = `http://localhost:${address.port}`;
+        }
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+    fs.rmSync(tileDir, { recursive: true, force: true });
+  });
+
+  it("should serve MBTiles tiles with the archive's content type", async () => {
+    const response = await fetch(`${baseUrl}/tiles/streets/1/0/1.png`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/png");
+    expect(response.headers.get("x-tile-coordinates")).toBe("1/0/1");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(PNG_TILE);
+  });
+
+  it("should serve PMTiles tiles with the archive's content type", async () => {
+    const response = await fetch(`${baseUrl}/tiles/aerial/2/1/2.webp`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/webp");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(WEBP_TILE);
+  });
+
+  it("should return 204 for tiles missing from an archive", async () => {
+    expect((await fetch(`${baseUrl}/tiles/streets/1/1/1.png`)).status).toBe(204);
+    expect((await fetch(`${baseUrl}/tiles/aerial/5/0/0.webp`)).status).toBe(204);
+    expect((await fetch(`${baseUrl}/tiles/aerial/2/9/9.webp`)).status).toBe(204);
+  });
+
+  it("should return 204 for formats an archive does not hold", async () => {
+    expect((await fetch(`${baseUrl}/tiles/streets/1/0/1.webp`)).status).toBe(204);
+    expect((await fetch(`${baseUrl}/tiles/aerial/2/1/2.png`)).status).toBe(204);
+  });
+
+  it("should serve loose tile files for layers without an archive", async () => {
+    const response = await fetch(`${baseUrl}/tiles/custom/3/4/5.png`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("image/png");
+  });
+
+  it("should include archive metadata in tile info", async () => {
+    const response = await fetch(`${baseUrl}/api/tiles/info`);
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.layers).toEqual(expect.arrayContaining(["basemap", "custom", "streets", "aerial"]));
+    expect(data.formats).toEqual(expect.arrayContaining(["png", "webp"]));
+    expect(data.tilesets).toHaveLength(2);
+    expect(data.tilesets).toContainEqual(
+      expect.objectContaining({ layer: "streets", archive: "mbtiles", format: "png", name: "Streets", minZoom: 1 })
+    );
+    expect(data.tilesets).toContainEqual(
+      expect.objectContaining({ layer: "aerial", archive: "pmtiles", format: "webp", attribution: "Imagery" })
+    );
+  });
+
+  it("should list local basemaps before OpenStreetMap", async () => {
+    const response = await fetch(`${baseUrl}/api/tiles/info`);
+    const { basemaps } = await response.json();
+
+    expect(basemaps.map((basemap: { id: string }) => basemap.id)).toEqual(["aerial", "streets", "custom", "osm"]);
+    expect(basemaps[1]).toMatchObject({
+      name: "Streets",
+      url: "/tiles/streets/{z}/{x}/{y}.png",
+      minZoom: 1,
+      maxZoom: 1,
+      local: true,
+    });
+    expect(basemaps[2]).toMatchObject({ url: "/tiles/custom/{z}/{x}/{y}.png", minZoom: 3, maxZoom: 3 });
+    expect(basemaps[3].local).toBe(false);
+  });
+});
+
+describe("API Routes - Change Feed", () => {
+  let server: Server;
+  let baseUrl: string;
+  const streams: AbortController[] = [];
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = createServer(app);
+    await registerRoutes(server, app, new MemStorage(false));
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, () => {
+        const address = server.address();
+        if (address && typeof address === "object") {
+          baseUrl = `http://localhost:${address.port}`;
+        }
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    // Open streams would keep the server from closing
+    streams.forEach((controller) => controller.abort());
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  });
+
+  async function send(method: string, path: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return response.status === 204 ? undefined : response.json();
+  }
+
+  // Opens /api/events; next(count) resolves with the next count events, skipping comments
+  async function openStream(query = "") {
+    const controller = new AbortController();
+    streams.push(controller);
+    const response = await fetch(`${baseUrl}/api/events${query}`, { signal: controller.signal });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    async function next(count = 1) {
+      const events: { event: string; data: ChangeEvent }[] = [];
+      while (events.length < count) {
+        const end = buffer.indexOf("\n\n");
+        if (end === -1) {
+          const { value } = await reader.read();
+          buffer += decoder.decode(value, { stream: true });
+          continue;
+        }
+        const lines = buffer.slice(0, end).split("\n");
+        buffer = buffer.slice(end + 2);
+        const event = lines.find((line) => line.startsWith("event: "));
+        const data = lines.find((line) => line.startsWith("data: "));
+        if (event && data) {
+          events.push({ event: event.slice(7), data: JSON.parse(data.slice(6)) });
+        }
+      }
+      return events;
+    }
+
+    return { response, next };
+  }
+
+  it("should open an event stream", async () => {
+    const { response } = await openStream();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+    expect(response.headers.get("cache-control")).toBe("no-cache");
+  });
+
+  it("should return 400 for incomplete bounds", async () => {
+    const response = await fetch(`${baseUrl}/api/events?north=42&south=41`);
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should broadcast artifact create, update and delete events", async () => {
+    const stream = await openStream();
+
+    const created = await send("POST", "/api/artifacts", createTestInsertArtifact({ name: "Feed Pole" }));
+    const updated = await send("PATCH", `/api/artifacts/${created.id}`, { name: "Renamed Pole" });
+    await send("DELETE", `/api/artifacts/${created.id}`);
+
+    const events = await stream.next(3);
+    expect(events.map((e) => e.event)).toEqual(["artifact.created", "artifact.updated", "artifact.deleted"]);
+    expect(events[0].data).toEqual({ type: "artifact.created", artifact: created });
+    expect(events[1].data).toEqual({
+      type: "artifact.updated",
+      artifact: updated,
+      previous: expect.objectContaining({ name: "Feed Pole" }),
+    });
+    expect(events[2].data).toMatchObject({ type: "artifact.deleted", artifact: { id: created.id } });
+  });
+
+  it("should not broadcast failed writes", async () => {
+    const stream = await openStream();
+
+    await send("PATCH", "/api/artifacts/missing", { name: "Nothing" });
+    await send("DELETE", "/api/artifacts/missing");
+    await send("POST", "/api/layers", { id: "../etc", name: "Bad" });
+    const created = await send("POST", "/api/artifacts", createTestInsertArtifact());
+
+    const [event] = await stream.next();
+    expect(event.data).toMatchObject({ type: "artifact.created", artifact: { id: created.id } });
+  });
+
+  it("should only send artifact changes in the requested layers and bounds", async () => {
+    const bounds = createTestBounds();
+    const stream = await openStream(
+      `?layers=feed-a,feed-b&north=${bounds.north}&south=${bounds.south}&east=${bounds.east}&west=${bounds.west}`
+    );
+
+    await send("POST", "/api/artifacts", createTestInsertArtifact({ layer: "feed-other" }));
+    const outside = await send("POST", "/api/artifacts", createTestInsertArtifact({ layer: "feed-a", lat: 45 }));
+    const inside = await send("POST", "/api/artifacts", createTestInsertArtifact({ layer: "feed-b" }));
+    // Moves into the area are sent, with the previous position
+    await send("PATCH", `/api/artifacts/${outside.id}`, { lat: CT_CENTER.lat });
+
+    const events = await stream.next(2);
+    expect(events[0].data).toMatchObject({ type: "artifact.created", artifact: { id: inside.id } });
+    expect(events[1].data).toMatchObject({ type: "artifact.updated", previous: { id: outside.id, lat: 45 } });
+  });
+
+  it("should broadcast layer changes to every stream", async () => {
+    const stream = await openStream("?layers=unrelated");
+
+    await send("POST", "/api/layers", { id: "feed-layer", name: "Feed Layer" });
+    await send("PATCH", "/api/layers/feed-layer", { name: "Renamed Layer" });
+    await send("PATCH", "/api/layers/feed-layer/visibility", { visible: false });
+    await send("DELETE", "/api/layers/feed-layer");
+
+    const events = await stream.next(4);
+    expect(events.map((e) => e.event)).toEqual(["layer.created", "layer.updated", "layer.updated", "layer.deleted"]);
+    expect(events[1].data).toMatchObject({ layer: { name: "Renamed Layer" } });
+    expect(events[2].data).toMatchObject({ layer: { visible: false } });
+    expect(events[3].data).toEqual({ type: "layer.deleted", id: "feed-layer" });
+  });
+
+  it("should announce imports once per request", async () => {
+    const stream = await openStream("?layers=feed-import");
+
+    await send("POST", "/api/import", {
+      format: "csv",
+      layer: "feed-import",
+      data: "name,category,lat,lng\nOne,pole,41.6,-72.7\nTwo,pole,41.61,-72.71",
+    });
+
+    const [event] = await stream.next();
+    expect(event.data).toEqual({ type: "artifacts.imported", layer: "feed-import", count: 2 });
+  });
+});
+
+describe("API Routes - History", () => {
+  let server: Server;
+  let baseUrl: string;
+  const bounds = createTestBounds();
+  const boundsQuery = `north=${bounds.north}&south=${bounds.south}&east=${bounds.east}&west=${bounds.west}`;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    server = createServer(app);
+    await registerRoutes(server, app, new MemStorage(false));
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, () => {
+        const address = server.address();
+        if (address && typeof address === "object") {
+          baseUrl = `http://localhost:${address.port}`;
+        }
+        resolve();
+      });
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  });
+
+  async function send(method: string, path: string, body?: unknown, clientId?: string) {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (clientId) {
+      headers["X-Client-Id"] = clientId;
+    }
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: response.status === 204 ? undefined : await response.json() };
+  }
+
+  // Changes made within the same millisecond share a timestamp
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+  it("should return an artifact's changes newest first with the client that made them", async () => {
+    const { body: created } = await send("POST", "/api/artifacts", createTestInsertArtifact(), "history-client-a");
+    await send("PATCH", `/api/artifacts/${created.id}`, { name: "Renamed" }, "history-client-b");
+    await send("DELETE", `/api/artifacts/${created.id}`);
+
+    const { status, body } = await send("GET", `/api/artifacts/${created.id}/history`);
+    const history: ArtifactHistoryEntry[] = body;
+    expect(status).toBe(200);
+    expect(history.map((entry) => entry.action)).toEqual(["delete", "update", "create"]);
+    expect(history[1]).toMatchObject({
+      before: { name: created.name },
+      after: { name: "Renamed" },
+      changedBy: "history-client-b",
+    });
+    expect(history[2].changedBy).toBe("history-client-a");
+    expect(history[0].changedBy).toBeUndefined();
+  });
+
+  it("should return 404 for artifacts without history", async () => {
+    const { status, body } = await send("GET", "/api/artifacts/missing/history");
+
+    expect(status).toBe(404);
+    expect(body.error).toBe("Artifact not found");
+  });
+
+  it("should return artifacts as they were at asOf", async () => {
+    const { body: created } = await send(
+      "POST",
+      "/api/artifacts",
+      createTestInsertArtifact({ name: "Moved Pole", metadata: { status: "active" } })
+    );
+    await tick();
+    const asOf = new Date().toISOString();
+    await tick();
+    await send("PATCH", `/api/artifacts/${created.id}`, { lat: CT_CENTER.lat + 1, metadata: { status: "moved" } });
+
+    const { body: current } = await send("GET", `/api/artifacts?${boundsQuery}&q=Moved`);
+    const { body: then } = await send("GET", `/api/artifacts?${boundsQuery}&q=Moved&asOf=${asOf}`);
+    expect(current).toEqual([]);
+    expect(then).toEqual([created]);
+
+    const { body: viewport } = await send(
+      "GET",
+      `/api/artifacts/viewport?${boundsQuery}&zoom=15&q=Moved&asOf=${asOf}`
+    );
+    expect(viewport.singles).toEqual([created]);
+  });
+
+  it("should return nothing before the first artifact was created", async () => {
+    const { body } = await send("GET", `/api/artifacts?${boundsQuery}&asOf=2000-01-01`);
+
+    expect(body).toEqual([]);
+  });
+
+  it("should reject invalid asOf timestamps", async () => {
+    const artifacts = await send("GET", `/api/artifacts?${boundsQuery}&asOf=yesterday`);
+    const viewport = await send("GET", `/api/artifacts/viewport?${boundsQuery}&zoom=15&asOf=yesterday`);
+
+    expect(artifacts).toEqual({ status: 400, body: { error: "Invalid asOf timestamp" } });
+    expect(viewport).toEqual({ status: 400, body: { error: "Invalid asOf timestamp" } });
+  });
+
+  it("should require bounds for asOf queries", async () => {
+    const { status, body } = await send("GET", "/api/artifacts?asOf=2026-01-01");
+
+    expect(status).toBe(400);
+    expect(body.error).toBe("asOf requires north, south, east and west");
+  });
+});
+
+describe("API Routes - Authentication", () => {
+  let server: Server;
+  let baseUrl: string;
+  let storage: MemStorage;
+  const password = "correct horse battery";
+  const cookies: Record<string, string> = {};
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    storage = new MemStorage(false);
+    const passwordHash = await hashPassword(password);
+    for (const role of ["viewer", "editor", "admin"] as const) {
+      await storage.createUser({ username: role, passwordHash, role });
+    }
+
+    server = createServer(app);
+    await registerRoutes(server, app, storage, undefined, true);
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, () => {
+        const address = server.address();
+        if (address && typeof address === "object") {
+          baseUrl = `http://localhost:${address.port}`;
+        }
+        resolve();
+      });
+    });
+
+    for (const role of ["viewer", "editor", "admin"]) {
+      const response = await fetch(`${baseUrl}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: role, password }),
+      });
+      cookies[role] = response.headers.get("set-cookie")!.split(";")[0];
+    }
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  });
+
+  async function send(method: string, path: string, options: { body?: unknown; as?: string; headers?: object } = {}) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.as ? { Cookie: cookies[options.as] } : {}),
+        ...options.headers,
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    return { response, status: response.status, body: response.status === 204 ? undefined : await response.json() };
+  }
+
+  describe("sessions", () => {
+    it("should report that sign-in is required", async () => {
+      const { status, body } = await send("GET", "/api/auth/session");
+
+      expect(status).toBe(200);
+      expect(body).toEqual({ authRequired: true, user: null });
+    });
+
+    it("should sign in with an HttpOnly session cookie", async () => {
+      const { response, body } = await send("POST", "/api/auth/login", { body: { username: "Editor", password } });
+
+      expect(body).toMatchObject({ username: "editor", role: "editor" });
+      expect(body).not.toHaveProperty("passwordHash");
+      expect(response.headers.get("set-cookie")).toMatch(/^mapui_session=[^;]+;.*HttpOnly.*SameSite=Lax/);
+
+      const { body: session } = await send("GET", "/api/auth/session", { as: "editor" });
+      expect(session.user).toMatchObject({ username: "editor", role: "editor" });
+    });
+
+    it("should reject wrong passwords and unknown users alike", async () => {
+      const wrongPassword = await send("POST", "/api/auth/login", { body: { username: "editor", password: "guess" } });
+      const unknownUser = await send("POST", "/api/auth/login", { body: { username: "nobody", password } });
+
+      expect(wrongPassword.status).toBe(401);
+      expect(unknownUser).toMatchObject({ status: 401, body: wrongPassword.body });
+    });
+
+    it("should reject malformed login requests", async () => {
+      const { status } = await send("POST", "/api/auth/login", { body: { username: "editor" } });
+
+      expect(status).toBe(400);
+    });
+
+    it("should end the session on logout", async () => {
+      const { response } = await send("POST", "/api/auth/login", { body: { username: "viewer", password } });
+      const cookie = response.headers.get("set-cookie")!.split(";")[0];
+
+      const logout = await send("POST", "/api/auth/logout", { headers: { Cookie: cookie } });
+      expect(logout.status).toBe(204);
+      expect(logout.response.headers.get("set-cookie")).toMatch(/^mapui_session=;/);
+
+      const { body } = await send("GET", "/api/auth/session", { headers: { Cookie: cookie } });
+      expect(body.user).toBeNull();
+    });
+  });
+
+  describe("roles", () => {
+    it("should require sign-in for data and tiles but not the health check", async () => {
+      expect((await send("GET", "/api/layers")).status).toBe(401);
+      expect((await send("GET", "/api/artifacts/count")).status).toBe(401);
+      expect((await fetch(`${baseUrl}/tiles/artifacts/0/0/0.mvt`)).status).toBe(401);
+      expect((await send("GET", "/api/health")).status).toBe(200);
+    });
+
+    it("should let viewers read and query but not write", async () => {
+      expect((await send("GET", "/api/layers", { as: "viewer" })).status).toBe(200);
+      const circle = { center: CT_CENTER, radius: 1000 };
+      expect((await send("POST", "/api/artifacts/query/circle", { as: "viewer", body: circle })).status).toBe(200);
+
+      const { status, body } = await send("POST", "/api/artifacts", { as: "viewer", body: createTestInsertArtifact() });
+      expect(status).toBe(403);
+      expect(body.error).toBe("Requires the editor role");
+    });
+
+    it("should let editors write artifacts, recording them as the actor, but not manage layers", async () => {
+      const { status, body: artifact } = await send("POST", "/api/artifacts", {
+        as: "editor",
+        body: createTestInsertArtifact(),
+      });
+      expect(status).toBe(201);
+
+      const { body: history } = await send("GET", `/api/artifacts/${artifact.id}/history`, { as: "viewer" });
+      expect(history[0].changedBy).toBe("editor");
+
+      const layer = { id: "auth-layer", name: "Auth Layer" };
+      expect((await send("POST", "/api/layers", { as: "editor", body: layer })).status).toBe(403);
+      const visibility = { as: "editor", body: { visible: false } };
+      expect((await send("PATCH", "/api/layers/utility-poc/visibility", visibility)).status).toBe(403);
+      expect((await send("POST", "/api/layers", { as: "admin", body: layer })).status).toBe(201);
+    });
+  });
+
+  describe("API keys", () => {
+    it("should create keys that act as their user", async () => {
+      const { status, body: created } = await send("POST", "/api/auth/keys", {
+        as: "editor",
+        body: { name: "Import script" },
+      });
+      expect(status).toBe(201);
+      expect(created.key.startsWith(created.prefix)).toBe(true);
+
+      const headers = { Authorization: `Bearer ${created.key}` };
+      const write = await send("POST", "/api/artifacts", { headers, body: createTestInsertArtifact() });
+      expect(write.status).toBe(201);
+
+      const { body: keys } = await send("GET", "/api/auth/keys", { as: "editor" });
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).toMatchObject({ id: created.id, name: "Import script" });
+      expect(keys[0]).not.toHaveProperty("key");
+      expect(keys[0].lastUsedAt).toBeDefined();
+    });
+
+    it("should reject unknown and revoked keys", async () => {
+      const { body: created } = await send("POST", "/api/auth/keys", { as: "viewer", body: { name: "QGIS" } });
+      const headers = { Authorization: `Bearer ${created.key}` };
+      expect((await send("GET", "/api/layers", { headers })).status).toBe(200);
+
+      expect((await send("DELETE", `/api/auth/keys/${created.id}`, { as: "editor" })).status).toBe(404);
+      expect((await send("DELETE", `/api/auth/keys/${created.id}`, { as: "viewer" })).status).toBe(204);
+
+      const { status, body } = await send("GET", "/api/layers", { headers });
+      expect(status).toBe(401);
+      expect(body.error).toBe("Invalid API key");
+    });
+
+    it("should fall back to the session cookie for other authorization schemes", async () => {
+      const headers = { Authorization: "Basic dXNlcjpwYXNz" };
+      expect((await send("GET", "/api/layers", { as: "viewer", headers })).status).toBe(200);
+      expect((await send("GET", "/api/layers", { headers })).status).toBe(401);
+    });
+
+    it("should require sign-in to manage keys", async () => {
+      expect((await send("POST", "/api/auth/keys", { body: { name: "Key" } })).status).toBe(401);
+    });
+  });
+
+  describe("user management", () => {
+    it("should let admins create, update and delete users", async () => {
+      const { status, body: user } = await send("POST", "/api/users", {
+        as: "admin",
+        body: { username: "contractor", password, role: "viewer" },
+      });
+      expect(status).toBe(201);
+      expect(user).not.toHaveProperty("password");
+
+      const { body: updated } = await send("PATCH", `/api/users/${user.id}`, { as: "admin", body: { role: "editor" } });
+      expect(updated).toMatchObject({ username: "contractor", role: "editor" });
+
+      expect((await send("DELETE", `/api/users/${user.id}`, { as: "admin" })).status).toBe(204);
+      expect((await send("DELETE", `/api/users/${user.id}`, { as: "admin" })).status).toBe(404);
+    });
+
+    it("should reject duplicate usernames and short passwords", async () => {
+      const duplicate = await send("POST", "/api/users", {
+        as: "admin",
+        body: { username: "EDITOR", password, role: "viewer" },
+      });
+      const short = await send("POST", "/api/users", {
+        as: "admin",
+        body: { username: "new", password: "short", role: "viewer" },
+      });
+
+      expect(duplicate.status).toBe(409);
+      expect(short.status).toBe(400);
+      expect(short.body.error).toBe("Password must be at least 12 characters");
+    });
+
+    it("should keep at least one admin", async () => {
+      const { body: admin } = await send("GET", "/api/auth/session", { as: "admin" });
+
+      const demote = await send("PATCH", `/api/users/${admin.user.id}`, { as: "admin", body: { role: "viewer" } });
+      expect(demote.status).toBe(409);
+      expect((await send("DELETE", `/api/users/${admin.user.id}`, { as: "admin" })).status).toBe(409);
+    });
+
+    it("should sign users out when an admin resets their password", async () => {
+      const { response } = await send("POST", "/api/auth/login", { body: { username: "viewer", password } });
+      const cookie = response.headers.get("set-cookie")!.split(";")[0];
+      const viewer = await storage.getUserByUsername("viewer");
+
+      await send("PATCH", `/api/users/${viewer!.id}`, { as: "admin", body: { password: "another long password" } });
+
+      expect((await send("GET", "/api/layers", { headers: { Cookie: cookie } })).status).toBe(401);
+      expect((await send("POST", "/api/auth/login", { body: { username: "viewer", password } })).status).toBe(401);
+    });
+
+    it("should not let editors manage users", async () => {
+      expect((await send("GET", "/api/users", { as: "editor" })).status).toBe(403);
+    });
+  });
+
+  // Last, since it uses up the login attempts of this server
+  it("should rate-limit failed logins", async () => {
+    let status = 0;
+    for (let attempt = 0; attempt < 11 && status !== 429; attempt++) {
+      ({ status } = await send("POST", "/api/auth/login", { body: { username: "editor", password: "guess" } }));
+    }
+
+    const { body } = await send("POST", "/api/auth/login", { body: { username: "editor", password } });
+    expect(status).toBe(429);
+    expect(body.error).toBe("Too many login attempts, please try again later");
+  });
+});
+
+describe("API Routes - Layer access", () => {
+  let server: Server;
+  let baseUrl: string;
+  let storage: MemStorage;
+  const password = "correct horse battery";
+  const cookies: Record<string, string> = {};
+  const ids: Record<string, string> = {};
+
+  // Contractors see the poles but not the HIFLD infrastructure; only engineering may edit it
+  const users = [
+    { username: "contractor", role: "viewer" },
+    { username: "staff", role: "viewer", groups: ["staff"] },
+    { username: "inspector", role: "editor", groups: ["staff"] },
+    { username: "engineer", role: "editor", groups: ["engineering"] },
+    { username: "lineworker", role: "editor" },
+    { username: "admin", role: "admin" },
+  ] as const;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    storage = new MemStorage(false);
+    const passwordHash = await hashPassword(password);
+    for (const { username, role, ...user } of users) {
+      await storage.createUser({ username, passwordHash, role, groups: "groups" in user ? [...user.groups] : [] });
+    }
+
+    await storage.createLayer({ id: "poles", name: "Poles", visible: true });
+    await storage.createLayer({
+      id: "hifld",
+      name: "HIFLD",
+      visible: true,
+      access: { read: { roles: [], groups: ["staff", "engineering"] }, write: { roles: [], groups: ["engineering"] } },
+    });
+    for (let i = 0; i < 3; i++) {
+      const pole = await storage.createArtifact(
+        createTestInsertArtifact({ name: `Pole ${i}`, category: "pole", layer: "poles", lat: CT_CENTER.lat + i / 1000 })
+      );
+      ids[`pole${i}`] = pole.id;
+    }
+    for (let i = 0; i < 2; i++) {
+      const substation = await storage.createArtifact(
+        createTestInsertArtifact({
+          name: `Substation ${i}`,
+          category: "substation",
+          layer: "hifld",
+          lat: CT_CENTER.lat - i / 1000,
+          metadata: { criticality: "high" },
+        })
+      );
+      ids[`substation${i}`] = substation.id;
+    }
+
+    server = createServer(app);
+    await registerRoutes(server, app, storage, undefined, true);
+
+    await new Promise<void>((resolve) => {
+      server.listen(0, () => {
+        const address = server.address();
+        if (address && typeof address === "object") {
+          baseUrl = `http://localhost:${address.port}`;
+        }
+        resolve();
+      });
+    });
+
+    for (const { username } of users) {
+      const response = await fetch(`${baseUrl}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      cookies[username] = response.headers.get("set-cookie")!.split(";")[0];
+    }
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
+  });
+
+  async function send(method: string, path: string, options: { body?: unknown; as: string }) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Cookie: cookies[options.as] },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    const type = response.headers.get("content-type") ?? "";
+    return { status: response.status, body: type.includes("json") ? await response.json() : await response.text() };
+  }
+
+  const bounds = "north=42&south=41&east=-72&west=-73.5";
+
+  it("should only list the layers a user may read", async () => {
+    const { body: contractorLayers } = await send("GET", "/api/layers", { as: "contractor" });
+    const { body: staffLayers } = await send("GET", "/api/layers", { as: "staff" });
+
+    expect(contractorLayers.map((layer: { id: string }) => layer.id)).toContain("poles");
+    expect(contractorLayers.map((layer: { id: string }) => layer.id)).not.toContain("hifld");
+    expect(staffLayers.map((layer: { id: string }) => layer.id)).toContain("hifld");
+    expect((await send("GET", "/api/layers/hifld", { as: "contractor" })).status).toBe(404);
+  });
+
+  it("should leave restricted artifacts out of counts, clusters and facets", async () => {
+    expect((await send("GET", "/api/artifacts/count", { as: "contractor" })).body.count).toBe(3);
+    expect((await send("GET", "/api/artifacts/count?layers=hifld", { as: "contractor" })).body.count).toBe(0);
+    expect((await send("GET", "/api/artifacts/count", { as: "staff" })).body.count).toBe(5);
+
+    const { body: viewport } = await send("GET", `/api/artifacts/viewport?${bounds}&zoom=5`, { as: "contractor" });
+    expect(viewport.total).toBe(3);
+    expect(viewport.clusters.every((cluster: { layer?: string }) => cluster.layer !== "hifld")).toBe(true);
+
+    const { body: facets } = await send("GET", `/api/artifacts/facets?${bounds}&fields=criticality`, {
+      as: "contractor",
+    });
+    expect(facets.categories).toEqual({ pole: 3 });
+    expect(facets.fields.criticality).toEqual({});
+
+    const { body: fields } = await send("GET", "/api/metadata/fields", { as: "contractor" });
+    expect(fields.map((field: { path: string }) => field.path)).not.toContain("criticality");
+  });
+
+  it("should leave restricted artifacts out of selections, nearest and exports", async () => {
+    const circle = { center: CT_CENTER, radius: 5000 };
+    const { body: aggregation } = await send("POST", "/api/artifacts/query/circle", { as: "contractor", body: circle });
+    expect(aggregation.count).toBe(3);
+    expect(aggregation.categories).toEqual({ pole: 3 });
+
+    const point = `lat=${CT_CENTER.lat}&lng=${CT_CENTER.lng}`;
+    const { body: nearest } = await send("GET", `/api/artifacts/nearest?${point}&k=10`, { as: "contractor" });
+    expect(nearest).toHaveLength(3);
+
+    const { body: exported } = await send("POST", "/api/artifacts/export", {
+      as: "contractor",
+      body: { format: "geojson", layers: ["hifld", "poles"] },
+    });
+    expect(exported.features).toHaveLength(3);
+  });
+
+  it("should hide restricted artifacts and their history by ID", async () => {
+    expect((await send("GET", `/api/artifacts/${ids.substation0}`, { as: "contractor" })).status).toBe(404);
+    expect((await send("GET", `/api/artifacts/${ids.substation0}/history`, { as: "contractor" })).status).toBe(404);
+    expect((await send("GET", `/api/artifacts/${ids.substation0}`, { as: "staff" })).status).toBe(200);
+  });
+
+  it("should leave restricted layers out of the health check counts", async () => {
+    const health = await (await fetch(`${baseUrl}/api/health`)).json();
+
+    expect(health).toMatchObject({ artifactCount: 3, layerCount: 3 });
+    expect((await storage.getLayers()).map((layer) => layer.id)).toContain("hifld");
+  });
+
+  it("should only let admins create layers by writing to them", async () => {
+    const create = { body: createTestInsertArtifact({ layer: "new-layer" }) };
+    const { status, body } = await send("POST", "/api/artifacts", { as: "engineer", ...create });
+    expect(status).toBe(403);
+    expect(body.error).toBe("No write access to layer new-layer");
+
+    const csv = { format: "csv", layer: "new-layer", data: "name,category,lat,lng\nNew,pole,41.5,-72.7", dryRun: true };
+    expect((await send("POST", "/api/import", { as: "engineer", body: csv })).status).toBe(403);
+    expect((await send("POST", "/api/import", { as: "admin", body: csv })).status).toBe(200);
+  });
+
+  it("should end a user's event streams when the user changes", async () => {
+    const response = await fetch(`${baseUrl}/api/events`, { headers: { Cookie: cookies.staff } });
+    const reader = response.body!.getReader();
+    await reader.read();
+
+    const staff = await storage.getUserByUsername("staff");
+    await send("PATCH", `/api/users/${staff!.id}`, { as: "admin", body: { groups: ["staff"] } });
+
+    let done = false;
+    while (!done) {
+      ({ done } = await reader.read());
+    }
+    expect(done).toBe(true);
+  });
+
+  it("should only let users with write access change a layer's artifacts", async () => {
+    const substation = `/api/artifacts/${ids.substation0}`;
+    const rename = { body: { name: "Renamed" } };
+    expect((await send("PATCH", substation, { as: "lineworker", ...rename })).status).toBe(404);
+    const { status, body } = await send("PATCH", substation, { as: "inspector", ...rename });
+    expect(status).toBe(403);
+    expect(body.error).toBe("No write access to layer hifld");
+    expect((await send("PATCH", substation, { as: "engineer", ...rename })).status).toBe(200);
+
+    // Moving into the layer and importing into it need write access too
+    const move = { body: { layer: "hifld" } };
+    expect((await send("PATCH", `/api/artifacts/${ids.pole0}`, { as: "inspector", ...move })).status).toBe(403);
+    const create = { body: createTestInsertArtifact({ layer: "hifld" }) };
+    expect((await send("POST", "/api/artifacts", { as: "inspector", ...create })).status).toBe(403);
+    const csv = { format: "csv", layer: "hifld", data: "name,category,lat,lng\nNew,substation,41.5,-72.7" };
+    expect((await send("POST", "/api/import", { as: "inspector", body: csv })).status).toBe(403);
+    expect((await send("DELETE", `/api/artifacts/${ids.substation1}`, { as: "engineer" })).status).toBe(204);
+  });
+
+  // Last, since it opens the layer up
+  it("should apply grant changes to the next request", async () => {
+    const { status } = await send("PATCH", "/api/layers/hifld", { as: "admin", body: { access: {} } });
+    expect(status).toBe(200);
+
+    expect((await send("GET", "/api/artifacts/count", { as: "contractor" })).body.count).toBe(4);
+  });
+});
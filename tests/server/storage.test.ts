@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { resetStorage } from "../../server/storage";
+import { getEveryArtifact, resetStorage, type IStorage } from "../../server/storage";
+import { createTestArtifact } from "../fixtures/artifacts";
 
 // Mock console to prevent noisy output during tests
 vi.spyOn(console, "log").mockImplementation(() => {});
@@ -78,6 +79,21 @@ describe("Storage Factory", () => {
     });
   });
 
+  describe("getEveryArtifact", () => {
+    it("should read pages until one comes back short", async () => {
+      const artifacts = Array.from({ length: 12001 }, (_, i) => createTestArtifact({ id: String(i).padStart(6, "0") }));
+      const getArtifactPage = vi.fn(async (limit: number, after?: string) =>
+        artifacts.filter((artifact) => after === undefined || artifact.id > after).slice(0, limit)
+      );
+
+      const result = await getEveryArtifact({ getArtifactPage } as unknown as IStorage, undefined, ["poles"]);
+
+      expect(result).toHaveLength(12001);
+      expect(getArtifactPage).toHaveBeenCalledTimes(3);
+      expect(getArtifactPage).toHaveBeenLastCalledWith(5000, artifacts[9999].id, undefined, ["poles"], undefined);
+    });
+  });
+
   describe("IStorage interface", () => {
     it("should implement all required methods", async () => {
       const { createStorage } = await import("../../server/storage");
@@ -87,12 +103,32 @@ describe("Storage Factory", () => {
       expect(typeof storage.getAllArtifacts).toBe("function");
       expect(typeof storage.getArtifact).toBe("function");
       expect(typeof storage.getArtifactsInBounds).toBe("function");
+      expect(typeof storage.getArtifactPage).toBe("function");
       expect(typeof storage.getArtifactsInCircle).toBe("function");
       expect(typeof storage.getAggregation).toBe("function");
       expect(typeof storage.getViewportData).toBe("function");
+      expect(typeof storage.getClusterChildren).toBe("function");
+      expect(typeof storage.getClusterLeaves).toBe("function");
+      expect(typeof storage.getVectorTile).toBe("function");
+      expect(typeof storage.getDensity).toBe("function");
       expect(typeof storage.createArtifact).toBe("function");
       expect(typeof storage.createManyArtifacts).toBe("function");
+      expect(typeof storage.updateArtifact).toBe("function");
+      expect(typeof storage.deleteArtifact).toBe("function");
       expect(typeof storage.getArtifactCount).toBe("function");
+      expect(typeof storage.getFacets).toBe("function");
+      expect(typeof storage.getMetadataFields).toBe("function");
+      expect(typeof storage.getArtifactsInPolygon).toBe("function");
+      expect(typeof storage.getPolygonAggregation).toBe("function");
+      expect(typeof storage.getArtifactsInCorridor).toBe("function");
+      expect(typeof storage.getCorridorAggregation).toBe("function");
+      expect(typeof storage.getNearestArtifacts).toBe("function");
+      expect(typeof storage.getLayers).toBe("function");
+      expect(typeof storage.createLayer).toBe("function");
+      expect(typeof storage.updateLayer).toBe("function");
+      expect(typeof storage.deleteLayer).toBe("function");
+      expect(typeof storage.getPreferences).toBe("function");
+      expect(typeof storage.updatePreferences).toBe("function");
     });
   });
 });
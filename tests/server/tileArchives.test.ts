@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { TileType } from "pmtiles";
+import { TileArchives, detectTileFormat } from "../../server/tileArchives";
+import { JPEG_TILE, PNG_TILE, WEBP_TILE, writeMBTiles, writePMTiles } from "../fixtures/tileArchives";
+
+const CT_BOUNDS = { west: -73.7278, south: 40.9509, east: -71.7872, north: 42.0505 };
+
+describe("tileArchives", () => {
+  describe("detectTileFormat", () => {
+    it("should recognise PNG, JPEG and WebP signatures", () => {
+      expect(detectTileFormat(PNG_TILE)).toBe("png");
+      expect(detectTileFormat(JPEG_TILE)).toBe("jpg");
+      expect(detectTileFormat(WEBP_TILE)).toBe("webp");
+      expect(detectTileFormat(Uint8Array.from([1, 2, 3]))).toBeUndefined();
+    });
+  });
+
+  describe("TileArchives", () => {
+    let dir: string;
+    let archives: TileArchives;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "tile-archives-"));
+      writeMBTiles(
+        path.join(dir, "streets.mbtiles"),
+        [
+          { z: 1, x: 0, y: 0, data: PNG_TILE },
+          { z: 1, x: 1, y: 0, data: Uint8Array.from([...PNG_TILE, 9]) },
+        ],
+        {
+          name: "Streets",
+          format: "png",
+          bounds: "-73.7278,40.9509,-71.7872,42.0505",
+          center: "-72.7,41.6,8",
+          attribution: "© Contributors",
+        }
+      );
+      writeMBTiles(path.join(dir, "bare.mbtiles"), [
+        { z: 3, x: 2, y: 2, data: JPEG_TILE },
+        { z: 5, x: 9, y: 11, data: JPEG_TILE },
+      ]);
+      writePMTiles(
+        path.join(dir, "aerial.pmtiles"),
+        [
+          { z: 2, x: 1, y: 1, data: WEBP_TILE },
+          { z: 0, x: 0, y: 0, data: Uint8Array.from([...WEBP_TILE, 7]) },
+        ],
+        {
+          tileType: TileType.Webp,
+          bounds: CT_BOUNDS,
+          minZoom: 0,
+          maxZoom: 2,
+          metadata: { name: "Aerial", description: "Leaf-off imagery" },
+        }
+      );
+      fs.writeFileSync(path.join(dir, "notes.txt"), "not an archive");
+      archives = new TileArchives(dir);
+    });
+
+    afterAll(async () => {
+      await archives.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should read MBTiles tiles by XYZ coordinates", async () => {
+      const archive = await archives.get("streets");
+
+      expect(archive).toBeDefined();
+      expect(Array.from((await archive!.getTile(1, 0, 0))!)).toEqual(Array.from(PNG_TILE));
+      expect((await archive!.getTile(1, 1, 0))!.length).toBe(PNG_TILE.length + 1);
+      expect(await archive!.getTile(1, 0, 1)).toBeUndefined();
+    });
+
+    it("should read MBTiles metadata", async () => {
+      const archive = await archives.get("streets");
+
+      expect(archive!.info).toMatchObject({
+        layer: "streets",
+        archive: "mbtiles",
+        format: "png",
+        name: "Streets",
+        attribution: "© Contributors",
+        bounds: CT_BOUNDS,
+        center: { lng: -72.7, lat: 41.6, zoom: 8 },
+        minZoom: 1,
+        maxZoom: 1,
+      });
+    });
+
+    it("should fall back to the stored zoom range when MBTiles metadata has none", async () => {
+      const archive = await archives.get("bare");
+
+      expect(archive!.info).toMatchObject({ archive: "mbtiles", minZoom: 3, maxZoom: 5 });
+      expect(archive!.info.format).toBeUndefined();
+      expect(await archive!.getTile(5, 9, 11)).toBeDefined();
+    });
+
+    it("should read PMTiles tiles and header metadata", async () => {
+      const archive = await archives.get("aerial");
+
+      expect(Array.from((await archive!.getTile(2, 1, 1))!)).toEqual(Array.from(WEBP_TILE));
+      expect((await archive!.getTile(0, 0, 0))!.length).toBe(WEBP_TILE.length + 1);
+      expect(await archive!.getTile(2, 0, 0)).toBeUndefined();
+      expect(archive!.info).toMatchObject({
+        layer: "aerial",
+        archive: "pmtiles",
+        format: "webp",
+        name: "Aerial",
+        description: "Leaf-off imagery",
+        minZoom: 0,
+        maxZoom: 2,
+      });
+      expect(archive!.info.bounds!.west).toBeCloseTo(CT_BOUNDS.west, 6);
+      expect(archive!.info.bounds!.north).toBeCloseTo(CT_BOUNDS.north, 6);
+    });
+
+    it("should return undefined for layers without an archive", async () => {
+      expect(await archives.get("basemap")).toBeUndefined();
+      expect(await archives.get("notes")).toBeUndefined();
+    });
+
+    it("should reuse opened archives", async () => {
+      expect(await archives.get("streets")).toBe(await archives.get("streets"));
+    });
+
+    it("should list every archive in the directory", async () => {
+      const tilesets = await archives.list();
+
+      expect(tilesets.map((tileset) => tileset.layer)).toEqual(["aerial", "bare", "streets"]);
+    });
+
+    it("should list nothing for a missing directory", async () => {
+      expect(await new TileArchives(path.join(dir, "missing")).list()).toEqual([]);
+    });
+  });
+});
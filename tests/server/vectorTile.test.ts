@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  TILE_BUFFER,
+  TILE_EXTENT,
+  artifactTileFeature,
+  clusterTileFeature,
+  encodeVectorTile,
+  tileBounds,
+} from "../../server/vectorTile";
+import { createTestArtifact } from "../fixtures/artifacts";
+import { decodeVectorTile } from "../fixtures/vectorTiles";
+
+describe("vectorTile", () => {
+  describe("tileBounds", () => {
+    it("should cover the tile and its buffer", () => {
+      const bounds = tileBounds(1, 0, 0);
+      const margin = (TILE_BUFFER / TILE_EXTENT) * 180;
+
+      expect(bounds.west).toBeCloseTo(-180 - margin, 10);
+      expect(bounds.east).toBeCloseTo(margin, 10);
+      expect(bounds.north).toBeGreaterThan(85);
+      expect(bounds.south).toBeLessThan(0);
+    });
+  });
+
+  describe("encodeVectorTile", () => {
+    it("should encode points with their properties in tile coordinates", () => {
+      // Centre of tile 1/0/0 is lng -90, lat 66.51...
+      const artifact = createTestArtifact({ id: "a1", name: "Pole ✓", lat: 66.51326044311186, lng: -90 });
+      const tile = encodeVectorTile([{ name: "artifacts", features: [artifactTileFeature(artifact)] }], 1, 0, 0);
+      const [layer] = decodeVectorTile(tile);
+
+      expect(layer).toMatchObject({ version: 2, name: "artifacts", extent: TILE_EXTENT });
+      expect(layer.features).toHaveLength(1);
+      expect(layer.features[0].type).toBe(1);
+      expect(layer.features[0].point).toEqual([TILE_EXTENT / 2, TILE_EXTENT / 2]);
+      expect(layer.features[0].properties).toEqual({
+        id: "a1",
+        name: "Pole ✓",
+        category: artifact.category,
+        layer: artifact.layer,
+      });
+    });
+
+    it("should encode numbers, booleans and shared values", () => {
+      const features = [
+        { lat: 0, lng: 0, properties: { count: 12, ratio: 0.5, offset: -3, active: true, label: "12" } },
+        { lat: 0, lng: 0, properties: { count: 12, active: false, missing: undefined } },
+      ];
+      const [layer] = decodeVectorTile(encodeVectorTile([{ name: "points", features }], 0, 0, 0));
+
+      expect(layer.features[0].properties).toEqual({ count: 12, ratio: 0.5, offset: -3, active: true, label: "12" });
+      expect(layer.features[1].properties).toEqual({ count: 12, active: false });
+    });
+
+    it("should encode clusters with their category counts as JSON", () => {
+      const cluster = {
+        id: "cluster-8-a1",
+        lat: 41.6,
+        lng: -72.7,
+        count: 30,
+        categories: { pole: 20, meter: 10 },
+        bounds: { north: 41.7, south: 41.5, east: -72.6, west: -72.8 },
+        expansionZoom: 9,
+      };
+      const tile = encodeVectorTile([{ name: "clusters", features: [clusterTileFeature(cluster)] }], 0, 0, 0);
+      const [layer] = decodeVectorTile(tile);
+
+      expect(layer.features[0].properties).toEqual({
+        id: "cluster-8-a1",
+        count: 30,
+        expansionZoom: 9,
+        categories: '{"pole":20,"meter":10}',
+      });
+    });
+
+    it("should leave out empty layers", () => {
+      const tile = encodeVectorTile(
+        [
+          { name: "clusters", features: [] },
+          { name: "artifacts", features: [] },
+        ],
+        3,
+        2,
+        2
+      );
+
+      expect(tile).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateFilterExpression,
+  FilterExpressionError,
+  MAX_EXPRESSION_LENGTH,
+  parseFilterExpression,
+} from "@shared/filterExpression";
+import { artifactFilterSchema } from "@shared/schema";
+import { FILTER_CASES, FILTER_RECORDS } from "../fixtures/filterExpressions";
+
+describe("parseFilterExpression", () => {
+  it("should parse a comparison", () => {
+    expect(parseFilterExpression("voltage_kv >= 115")).toEqual({
+      type: "compare",
+      field: ["voltage_kv"],
+      op: ">=",
+      value: 115,
+    });
+  });
+
+  it("should split dotted fields into a path", () => {
+    expect(parseFilterExpression("owner.name = 'x'")).toMatchObject({ field: ["owner", "name"] });
+  });
+
+  it("should bind AND tighter than OR", () => {
+    const expression = parseFilterExpression("a = 1 OR b = 2 AND c = 3");
+    expect(expression).toMatchObject({
+      type: "or",
+      operands: [{ type: "compare" }, { type: "and", operands: [{}, {}] }],
+    });
+  });
+
+  it("should accept keywords in any case", () => {
+    expect(parseFilterExpression("a not in (1, 2) and b exists")).toMatchObject({
+      type: "and",
+      operands: [{ type: "in", negated: true, values: [1, 2] }, { type: "exists", negated: false }],
+    });
+  });
+
+  it("should unescape doubled quotes in strings", () => {
+    expect(parseFilterExpression(`name = 'O''Brien'`)).toMatchObject({ value: "O'Brien" });
+    expect(parseFilterExpression(`name = "say ""hi"""`)).toMatchObject({ value: 'say "hi"' });
+  });
+
+  it("should parse negative and exponent numbers", () => {
+    expect(parseFilterExpression("a BETWEEN -1.5 AND 2e3")).toMatchObject({ min: -1.5, max: 2000 });
+  });
+
+  it.each([
+    ["", "Expected a field name"],
+    ["voltage", "Expected a comparison operator"],
+    ["voltage = ", "Expected a number"],
+    ["voltage = abc", "Expected a number"],
+    ["voltage = 'open", "Unterminated string"],
+    ["(a = 1", 'Expected ")"'],
+    ["a = 1 b = 2", "Unexpected input"],
+    ["a = 1; DROP TABLE artifacts", 'Unexpected character ";"'],
+    ["and = 1", "Expected a field name"],
+    ["a NOT = 1", "Expected IN or EXISTS after NOT"],
+    ["a > true", "Booleans can only be compared with = or !="],
+    ["a BETWEEN 1 AND 'z'", "BETWEEN needs two numbers or two strings"],
+    ["a = 1e999", "Number is out of range"],
+  ])("should reject %j", (text, message) => {
+    expect(() => parseFilterExpression(text)).toThrow(message);
+  });
+
+  it("should report the position of the error", () => {
+    try {
+      parseFilterExpression("a = 1 AND b ~ 2");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(FilterExpressionError);
+      expect((error as FilterExpressionError).position).toBe(12);
+      expect((error as Error).message).toContain("at position 13");
+    }
+  });
+
+  it("should limit expression length, nesting and IN lists", () => {
+    expect(() => parseFilterExpression("a = '" + "x".repeat(MAX_EXPRESSION_LENGTH) + "'")).toThrow(
+      "longer than"
+    );
+    expect(() => parseFilterExpression("(".repeat(21) + "a = 1" + ")".repeat(21))).toThrow(
+      "nested too deeply"
+    );
+    const values = Array.from({ length: 101 }, (_, i) => i).join(", ");
+    expect(() => parseFilterExpression(`a IN (${values})`)).toThrow("limited to 100 values");
+  });
+});
+
+describe("evaluateFilterExpression", () => {
+  it.each(FILTER_CASES)("$where", ({ where, expected }) => {
+    const expression = parseFilterExpression(where);
+    const matches = Object.keys(FILTER_RECORDS).filter((id) =>
+      evaluateFilterExpression(expression, FILTER_RECORDS[id])
+    );
+    expect(matches).toEqual(expected);
+  });
+
+  it("should treat missing metadata as having no fields", () => {
+    expect(evaluateFilterExpression(parseFilterExpression("a NOT EXISTS"), undefined)).toBe(true);
+    expect(evaluateFilterExpression(parseFilterExpression("a != 1"), undefined)).toBe(false);
+  });
+
+  it("should not find inherited properties", () => {
+    expect(evaluateFilterExpression(parseFilterExpression("constructor EXISTS"), {})).toBe(false);
+    expect(evaluateFilterExpression(parseFilterExpression("__proto__ EXISTS"), {})).toBe(false);
+  });
+
+  it("should order strings outside the Basic Multilingual Plane by code point", () => {
+    // U+1F600 is above U+FF5E, though its first UTF-16 code unit (0xD83D) is below 0xFF5E
+    const metadata = { name: "\u{1F600}" };
+    expect(evaluateFilterExpression(parseFilterExpression("name > '\uFF5E'"), metadata)).toBe(true);
+    expect(evaluateFilterExpression(parseFilterExpression("name BETWEEN 'a' AND '\uFF5E'"), metadata)).toBe(false);
+  });
+});
+
+describe("artifactFilterSchema where", () => {
+  it("should accept a valid expression", () => {
+    expect(artifactFilterSchema.safeParse({ where: "status = 'active'" }).success).toBe(true);
+  });
+
+  it("should report parse errors as issues on where", () => {
+    const result = artifactFilterSchema.safeParse({ where: "status = " });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["where"]);
+    expect(result.error?.issues[0].message).toContain("Expected a number");
+  });
+});
@@ -4,17 +4,31 @@ import {
   insertArtifactSchema,
   boundsSchema,
   circleSelectionSchema,
+  polygonSelectionSchema,
+  corridorSelectionSchema,
   viewportQuerySchema,
   areaQuerySchema,
   aggregationResultSchema,
   clusterDataSchema,
   viewportResponseSchema,
   layerSchema,
+  layerStyleSchema,
+  layerAccessSchema,
+  styleRuleSchema,
+  basemapSchema,
+  updatePreferencesSchema,
+  asOfSchema,
+  artifactHistoryEntrySchema,
+  insertUserSchema,
+  updateUserSchema,
+  OSM_BASEMAP,
 } from "@shared/schema";
 import {
   createTestArtifact,
   createTestBounds,
   createTestCircleSelection,
+  createTestPolygonSelection,
+  createTestCorridorSelection,
   INVALID_COORDINATES,
   BOUNDARY_COORDINATES,
 } from "../fixtures/artifacts";
@@ -296,6 +310,86 @@ describe("Zod Schemas", () => {
     });
   });
 
+  describe("polygonSelectionSchema", () => {
+    it("should validate valid polygon selection", () => {
+      const result = polygonSelectionSchema.safeParse(createTestPolygonSelection());
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept polygon with a hole", () => {
+      const polygon = createTestPolygonSelection(0.02);
+      polygon.coordinates.push(createTestPolygonSelection(0.005).coordinates[0]);
+      const result = polygonSelectionSchema.safeParse(polygon);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject unclosed ring", () => {
+      const polygon = createTestPolygonSelection();
+      polygon.coordinates[0].pop();
+      const result = polygonSelectionSchema.safeParse(polygon);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject ring with fewer than 4 positions", () => {
+      const polygon = {
+        type: "Polygon",
+        coordinates: [[[-72.7, 41.5], [-72.6, 41.5], [-72.7, 41.5]]],
+      };
+      const result = polygonSelectionSchema.safeParse(polygon);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject out-of-range positions", () => {
+      const polygon = createTestPolygonSelection();
+      polygon.coordinates[0][1] = [-72.7, 91];
+      const result = polygonSelectionSchema.safeParse(polygon);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject non-Polygon geometry types", () => {
+      const polygon = { ...createTestPolygonSelection(), type: "MultiPolygon" };
+      const result = polygonSelectionSchema.safeParse(polygon);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("corridorSelectionSchema", () => {
+    it("should validate valid corridor selection", () => {
+      const result = corridorSelectionSchema.safeParse(createTestCorridorSelection());
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a line with fewer than 2 positions", () => {
+      const corridor = createTestCorridorSelection();
+      corridor.line.coordinates.pop();
+      const result = corridorSelectionSchema.safeParse(corridor);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject out-of-range positions", () => {
+      const corridor = createTestCorridorSelection();
+      corridor.line.coordinates[1] = [181, 41.5];
+      const result = corridorSelectionSchema.safeParse(corridor);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject zero, negative or oversized buffers", () => {
+      for (const buffer of [0, -10, 100001]) {
+        const result = corridorSelectionSchema.safeParse(createTestCorridorSelection(buffer));
+        expect(result.success).toBe(false);
+      }
+    });
+
+    it("should reject non-LineString geometry types", () => {
+      const corridor = createTestCorridorSelection();
+      const result = corridorSelectionSchema.safeParse({
+        ...corridor,
+        line: { ...corridor.line, type: "MultiLineString" },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("viewportQuerySchema", () => {
     it("should validate valid viewport query", () => {
       const query = {
@@ -392,20 +486,52 @@ describe("Zod Schemas", () => {
   describe("clusterDataSchema", () => {
     it("should validate valid cluster data", () => {
       const cluster = {
-        id: "cluster-1:2",
+        id: "cluster-9-a1",
         lat: 41.5,
         lng: -72.7,
         count: 25,
+        categories: { pole: 20, meter: 5 },
+        bounds: { north: 41.6, south: 41.4, east: -72.6, west: -72.8 },
+        expansionZoom: 10,
       };
       const result = clusterDataSchema.safeParse(cluster);
       expect(result.success).toBe(true);
     });
 
+    it("should reject cluster without bounds", () => {
+      const cluster = {
+        id: "cluster-9-a1",
+        lat: 41.5,
+        lng: -72.7,
+        count: 25,
+        expansionZoom: 10,
+      };
+      const result = clusterDataSchema.safeParse(cluster);
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject non-numeric category counts", () => {
+      const cluster = {
+        id: "cluster-9-a1",
+        lat: 41.5,
+        lng: -72.7,
+        count: 25,
+        categories: { pole: "25" },
+        bounds: { north: 41.6, south: 41.4, east: -72.6, west: -72.8 },
+        expansionZoom: 10,
+      };
+      const result = clusterDataSchema.safeParse(cluster);
+      expect(result.success).toBe(false);
+    });
+
     it("should reject cluster without count", () => {
       const cluster = {
-        id: "cluster-1:2",
+        id: "cluster-9-a1",
         lat: 41.5,
         lng: -72.7,
+        categories: { pole: 25 },
+        bounds: { north: 41.6, south: 41.4, east: -72.6, west: -72.8 },
+        expansionZoom: 10,
       };
       const result = clusterDataSchema.safeParse(cluster);
       expect(result.success).toBe(false);
@@ -415,7 +541,17 @@ describe("Zod Schemas", () => {
   describe("viewportResponseSchema", () => {
     it("should validate valid viewport response", () => {
       const response = {
-        clusters: [{ id: "cluster-1:2", lat: 41.5, lng: -72.7, count: 25 }],
+        clusters: [
+          {
+            id: "cluster-9-a1",
+            lat: 41.5,
+            lng: -72.7,
+            count: 25,
+            categories: { pole: 25 },
+            bounds: { north: 41.6, south: 41.4, east: -72.6, west: -72.8 },
+            expansionZoom: 10,
+          },
+        ],
         singles: [createTestArtifact()],
         total: 26,
         truncated: false,
@@ -518,4 +654,198 @@ describe("Zod Schemas", () => {
       }
     });
   });
+
+  describe("layerStyleSchema", () => {
+    it("should validate a full style with category overrides", () => {
+      const result = layerStyleSchema.safeParse({
+        color: "#ef4444",
+        shape: "diamond",
+        size: 14,
+        opacity: 0.8,
+        categories: { tap: { color: "#f97316", shape: "triangle" } },
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept an empty style", () => {
+      expect(layerStyleSchema.safeParse({}).success).toBe(true);
+    });
+
+    it("should reject non-hex colours", () => {
+      expect(layerStyleSchema.safeParse({ color: "red" }).success).toBe(false);
+      expect(layerStyleSchema.safeParse({ color: "#fff;background:url(x)" }).success).toBe(false);
+    });
+
+    it("should reject unknown shapes and out-of-range values", () => {
+      expect(layerStyleSchema.safeParse({ shape: "star" }).success).toBe(false);
+      expect(layerStyleSchema.safeParse({ size: 100 }).success).toBe(false);
+      expect(layerStyleSchema.safeParse({ opacity: 1.5 }).success).toBe(false);
+    });
+
+    it("should reject unknown style keys", () => {
+      expect(layerStyleSchema.safeParse({ colour: "#ffffff" }).success).toBe(false);
+      expect(layerStyleSchema.safeParse({ categories: { tap: { icon: "x" } } }).success).toBe(false);
+    });
+
+    it("should be enforced on layers", () => {
+      const layer = { id: "styled", name: "Styled", artifactCount: 0, style: { color: "blue" } };
+      expect(layerSchema.safeParse(layer).success).toBe(false);
+    });
+  });
+
+  describe("layerAccessSchema", () => {
+    it("should default missing roles and groups to none", () => {
+      const result = layerAccessSchema.safeParse({ read: { groups: ["staff"] }, write: { roles: ["editor"] } });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        read: { roles: [], groups: ["staff"] },
+        write: { roles: ["editor"], groups: [] },
+      });
+    });
+
+    it("should reject unknown roles, odd group names and unknown actions", () => {
+      expect(layerAccessSchema.safeParse({ read: { roles: ["contractor"] } }).success).toBe(false);
+      expect(layerAccessSchema.safeParse({ read: { groups: ["field crew"] } }).success).toBe(false);
+      expect(layerAccessSchema.safeParse({ delete: { roles: ["admin"] } }).success).toBe(false);
+    });
+
+    it("should be enforced on layers", () => {
+      const layer = { id: "hifld", name: "HIFLD", artifactCount: 0, access: { read: { users: ["jsmith"] } } };
+      expect(layerSchema.safeParse(layer).success).toBe(false);
+    });
+  });
+
+  describe("styleRuleSchema", () => {
+    it("should validate graduated, categorical and continuous rules", () => {
+      const rules = [
+        {
+          type: "graduated",
+          field: "voltage_kv_max",
+          property: "color",
+          classes: [{ max: 115, value: "#f97316" }, { min: 115, value: "#ef4444" }],
+        },
+        { type: "categorical", field: "status", property: "color", values: { active: "#22c55e" }, fallback: "#6b7280" },
+        { type: "continuous", field: "install_year", property: "size", min: 1980, max: 2025, from: 6, to: 14 },
+      ];
+      for (const rule of rules) {
+        expect(styleRuleSchema.safeParse(rule).success).toBe(true);
+      }
+      expect(layerStyleSchema.safeParse({ rules }).success).toBe(true);
+    });
+
+    it("should reject values that do not match the styled property", () => {
+      const colorWithSize = { type: "categorical", field: "status", property: "color", values: { active: 10 } };
+      const sizeWithColor = {
+        type: "continuous",
+        field: "install_year",
+        property: "size",
+        min: 1980,
+        max: 2025,
+        from: "#000000",
+        to: "#ffffff",
+      };
+      expect(styleRuleSchema.safeParse(colorWithSize).success).toBe(false);
+      expect(styleRuleSchema.safeParse(sizeWithColor).success).toBe(false);
+    });
+
+    it("should reject a continuous rule with max not above min", () => {
+      const rule = { type: "continuous", field: "x", property: "size", min: 10, max: 10, from: 6, to: 12 };
+      expect(styleRuleSchema.safeParse(rule).success).toBe(false);
+    });
+
+    it("should reject unknown rule types and empty class lists", () => {
+      expect(styleRuleSchema.safeParse({ type: "heatmap", field: "x", property: "color" }).success).toBe(false);
+      expect(
+        styleRuleSchema.safeParse({ type: "graduated", field: "x", property: "color", classes: [] }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("basemapSchema", () => {
+    it("should fill in the zoom range and local flag", () => {
+      const result = basemapSchema.safeParse({ id: "topo", name: "Topo", url: "https://example.com/{z}/{x}/{y}.png" });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ minZoom: 0, maxZoom: 19, local: false });
+      expect(basemapSchema.safeParse(OSM_BASEMAP).success).toBe(true);
+    });
+
+    it("should reject IDs that are not layer names and zooms out of range", () => {
+      expect(basemapSchema.safeParse({ ...OSM_BASEMAP, id: "../osm" }).success).toBe(false);
+      expect(basemapSchema.safeParse({ ...OSM_BASEMAP, maxZoom: 23 }).success).toBe(false);
+    });
+
+    it("should accept basemap IDs in preference updates", () => {
+      expect(updatePreferencesSchema.safeParse({ basemap: "aerial-2024" }).success).toBe(true);
+      expect(updatePreferencesSchema.safeParse({ basemap: "" }).success).toBe(false);
+    });
+  });
+
+  describe("asOfSchema", () => {
+    it("should accept dates and timestamps", () => {
+      expect(asOfSchema.safeParse("2026-01-01").success).toBe(true);
+      expect(asOfSchema.safeParse("2026-01-01T12:30:00Z").success).toBe(true);
+    });
+
+    it("should reject values that are not dates", () => {
+      const result = asOfSchema.safeParse("last month");
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toBe("Invalid asOf timestamp");
+    });
+  });
+
+  describe("artifactHistoryEntrySchema", () => {
+    it("should accept entries without a before value or actor", () => {
+      const result = artifactHistoryEntrySchema.safeParse({
+        id: 1,
+        artifactId: "pole",
+        action: "create",
+        after: { id: "pole", name: "Pole", category: "pole", layer: "poles", lat: 41.7, lng: -72.7 },
+        changedAt: "2026-01-01T00:00:00.000Z",
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject unknown actions", () => {
+      const result = artifactHistoryEntrySchema.safeParse({
+        id: 1,
+        artifactId: "pole",
+        action: "move",
+        changedAt: "2026-01-01T00:00:00.000Z",
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("insertUserSchema", () => {
+    it("should accept a valid user", () => {
+      const result = insertUserSchema.safeParse({ username: "j.smith", password: "correct horse battery", role: "editor" });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject short passwords, unknown roles and odd usernames", () => {
+      const shortPassword = insertUserSchema.safeParse({ username: "jsmith", password: "short", role: "viewer" });
+      expect(shortPassword.error?.issues[0].message).toBe("Password must be at least 12 characters");
+
+      expect(
+        insertUserSchema.safeParse({ username: "jsmith", password: "correct horse battery", role: "owner" }).success
+      ).toBe(false);
+      expect(
+        insertUserSchema.safeParse({ username: "j smith", password: "correct horse battery", role: "viewer" }).success
+      ).toBe(false);
+    });
+  });
+
+  describe("updateUserSchema", () => {
+    it("should require a role, password or groups", () => {
+      expect(updateUserSchema.safeParse({ role: "admin" }).success).toBe(true);
+      expect(updateUserSchema.safeParse({ groups: [] }).success).toBe(true);
+      expect(updateUserSchema.safeParse({}).success).toBe(false);
+    });
+  });
 });